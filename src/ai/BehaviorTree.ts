@@ -0,0 +1,553 @@
+/**
+ * Behavior Tree - Data-driven AI decisions
+ *
+ * Trees are authored as JSON and ticked by a host (BossFSM) that provides the
+ * leaf actions and keeps the blackboard up to date.
+ *
+ * Node types:
+ * - Composites:
+ *   - selector: runs children in order until one does not fail
+ *   - sequence: runs children in order until one does not succeed
+ *   - parallel: ticks every child; succeeds once successThreshold children succeed
+ * - Decorators:
+ *   - cooldown: fails for `duration` seconds after its child succeeded
+ *   - chance: runs its child with a probability (rolled once per run)
+ *   - condition: runs its child while a blackboard comparison holds
+ *     (without a child it is a plain check)
+ * - action: leaf resolved by name through the host's action table
+ *
+ * Tree JSON structure:
+ * {
+ *   type: 'selector',
+ *   children: [
+ *     { type: 'condition', key: 'targetDistance', op: '<=', value: 4,
+ *       child: { type: 'action', action: 'attack', params: { attackId: 'boss_wide_sweep' } } },
+ *     { type: 'action', action: 'engage' }
+ *   ]
+ * }
+ *
+ * See src/ai/trees/ for boss trees.
+ */
+
+import { Random } from '../core/Random';
+
+// ============ Data Types ============
+
+/**
+ * Node tick result
+ */
+export enum BTStatus {
+  Success = 'Success',
+  Failure = 'Failure',
+  Running = 'Running',
+}
+
+/**
+ * Blackboard keys filled by the boss
+ */
+export enum BlackboardKey {
+  TargetDistance = 'targetDistance', // Meters (Infinity without a target)
+  TargetAngle = 'targetAngle', // Degrees off the boss's forward (0-180)
+  HpPercent = 'hpPercent', // 0-100
+  PlayerState = 'playerState', // PlayerStateType of the player ('' if unknown)
+}
+
+export type BlackboardValue = number | string | boolean;
+
+export type BTCompareOp = '<' | '<=' | '>' | '>=' | '==' | '!=';
+
+const COMPARE_OPS: readonly BTCompareOp[] = ['<', '<=', '>', '>=', '==', '!='];
+
+export interface BTSelectorDef {
+  type: 'selector';
+  children: BTNodeDef[];
+}
+
+export interface BTSequenceDef {
+  type: 'sequence';
+  children: BTNodeDef[];
+}
+
+export interface BTParallelDef {
+  type: 'parallel';
+  children: BTNodeDef[];
+  successThreshold?: number; // Default: all children
+}
+
+export interface BTCooldownDef {
+  type: 'cooldown';
+  duration: number; // Seconds
+  child: BTNodeDef;
+}
+
+export interface BTChanceDef {
+  type: 'chance';
+  probability: number; // 0-1
+  child: BTNodeDef;
+}
+
+export interface BTConditionDef {
+  type: 'condition';
+  key: string; // BlackboardKey or a host-defined key
+  op: BTCompareOp;
+  value: BlackboardValue;
+  child?: BTNodeDef;
+}
+
+export interface BTActionDef {
+  type: 'action';
+  action: string;
+  params?: Record<string, BlackboardValue>;
+}
+
+/**
+ * Node definition (JSON)
+ */
+export type BTNodeDef =
+  | BTSelectorDef
+  | BTSequenceDef
+  | BTParallelDef
+  | BTCooldownDef
+  | BTChanceDef
+  | BTConditionDef
+  | BTActionDef;
+
+/**
+ * Leaf action provided by the host
+ */
+export type BTAction = (
+  params: Readonly<Record<string, BlackboardValue>>,
+  blackboard: Blackboard
+) => BTStatus;
+
+// ============ Blackboard ============
+
+/**
+ * Shared key/value memory read by conditions and actions
+ */
+export class Blackboard {
+  private values: Map<string, BlackboardValue> = new Map();
+
+  get(key: string): BlackboardValue | undefined {
+    return this.values.get(key);
+  }
+
+  getNumber(key: string, fallback: number = 0): number {
+    const value = this.values.get(key);
+    return typeof value === 'number' ? value : fallback;
+  }
+
+  set(key: string, value: BlackboardValue): void {
+    this.values.set(key, value);
+  }
+
+  has(key: string): boolean {
+    return this.values.has(key);
+  }
+
+  clear(): void {
+    this.values.clear();
+  }
+}
+
+// ============ Runtime ============
+
+/**
+ * Per-tick data passed down the tree
+ */
+interface TickContext {
+  blackboard: Blackboard;
+  now: number; // Host time in seconds
+}
+
+/**
+ * Runtime node (one instance per tree, holds the node's memory)
+ */
+abstract class BTNode {
+  abstract tick(context: TickContext): BTStatus;
+
+  /**
+   * Forget running children and per-run state
+   */
+  reset(): void {}
+}
+
+/**
+ * Selector/sequence (resume at the running child)
+ */
+class CompositeNode extends BTNode {
+  private runningIndex: number = 0;
+
+  constructor(
+    private readonly children: BTNode[],
+    private readonly continueOn: BTStatus // Selector: Failure, sequence: Success
+  ) {
+    super();
+  }
+
+  tick(context: TickContext): BTStatus {
+    for (let i = this.runningIndex; i < this.children.length; i++) {
+      const status = this.children[i].tick(context);
+      if (status === BTStatus.Running) {
+        this.runningIndex = i;
+        return status;
+      }
+      if (status !== this.continueOn) {
+        this.reset();
+        return status;
+      }
+    }
+
+    this.reset();
+    return this.continueOn;
+  }
+
+  reset(): void {
+    this.runningIndex = 0;
+    for (const child of this.children) {
+      child.reset();
+    }
+  }
+}
+
+class ParallelNode extends BTNode {
+  constructor(
+    private readonly children: BTNode[],
+    private readonly successThreshold: number
+  ) {
+    super();
+  }
+
+  tick(context: TickContext): BTStatus {
+    let successes = 0;
+    let failures = 0;
+    for (const child of this.children) {
+      const status = child.tick(context);
+      if (status === BTStatus.Success) successes++;
+      if (status === BTStatus.Failure) failures++;
+    }
+
+    if (successes >= this.successThreshold) {
+      this.reset();
+      return BTStatus.Success;
+    }
+    if (failures > this.children.length - this.successThreshold) {
+      this.reset();
+      return BTStatus.Failure;
+    }
+    return BTStatus.Running;
+  }
+
+  reset(): void {
+    for (const child of this.children) {
+      child.reset();
+    }
+  }
+}
+
+class CooldownNode extends BTNode {
+  private readyAt: number = -Infinity;
+
+  constructor(
+    private readonly child: BTNode,
+    private readonly duration: number
+  ) {
+    super();
+  }
+
+  tick(context: TickContext): BTStatus {
+    if (context.now < this.readyAt) return BTStatus.Failure;
+
+    const status = this.child.tick(context);
+    if (status === BTStatus.Success) {
+      this.readyAt = context.now + this.duration;
+    }
+    return status;
+  }
+
+  reset(): void {
+    this.child.reset();
+  }
+
+  /**
+   * Clear the cooldown itself (tree reset)
+   */
+  clearCooldown(): void {
+    this.readyAt = -Infinity;
+  }
+}
+
+class ChanceNode extends BTNode {
+  private running: boolean = false;
+
+  constructor(
+    private readonly child: BTNode,
+    private readonly probability: number
+  ) {
+    super();
+  }
+
+  tick(context: TickContext): BTStatus {
+    if (!this.running && Random.next() >= this.probability) {
+      return BTStatus.Failure;
+    }
+
+    const status = this.child.tick(context);
+    this.running = status === BTStatus.Running;
+    return status;
+  }
+
+  reset(): void {
+    this.running = false;
+    this.child.reset();
+  }
+}
+
+class ConditionNode extends BTNode {
+  constructor(
+    private readonly key: string,
+    private readonly op: BTCompareOp,
+    private readonly value: BlackboardValue,
+    private readonly child: BTNode | null
+  ) {
+    super();
+  }
+
+  tick(context: TickContext): BTStatus {
+    if (!compare(context.blackboard.get(this.key), this.op, this.value)) {
+      this.child?.reset();
+      return BTStatus.Failure;
+    }
+    return this.child ? this.child.tick(context) : BTStatus.Success;
+  }
+
+  reset(): void {
+    this.child?.reset();
+  }
+}
+
+class ActionNode extends BTNode {
+  constructor(
+    private readonly action: BTAction,
+    private readonly params: Readonly<Record<string, BlackboardValue>>
+  ) {
+    super();
+  }
+
+  tick(context: TickContext): BTStatus {
+    return this.action(this.params, context.blackboard);
+  }
+}
+
+function compare(
+  actual: BlackboardValue | undefined,
+  op: BTCompareOp,
+  expected: BlackboardValue
+): boolean {
+  if (actual === undefined) return false;
+
+  switch (op) {
+    case '==':
+      return actual === expected;
+    case '!=':
+      return actual !== expected;
+  }
+
+  if (typeof actual !== 'number' || typeof expected !== 'number') return false;
+  switch (op) {
+    case '<':
+      return actual < expected;
+    case '<=':
+      return actual <= expected;
+    case '>':
+      return actual > expected;
+    case '>=':
+      return actual >= expected;
+  }
+}
+
+/**
+ * Behavior tree instance
+ */
+export class BehaviorTree {
+  private readonly root: BTNode;
+  private readonly cooldowns: CooldownNode[] = [];
+
+  /**
+   * @throws Error if the tree uses an action missing from the action table
+   */
+  constructor(
+    definition: BTNodeDef,
+    private readonly actions: Readonly<Record<string, BTAction>>,
+    readonly blackboard: Blackboard = new Blackboard()
+  ) {
+    this.root = this.build(definition);
+  }
+
+  /**
+   * Tick the tree once
+   *
+   * @param now Host time (seconds) used by cooldown decorators
+   */
+  tick(now: number): BTStatus {
+    return this.root.tick({ blackboard: this.blackboard, now });
+  }
+
+  /**
+   * Reset running nodes and cooldowns
+   */
+  reset(): void {
+    this.root.reset();
+    for (const cooldown of this.cooldowns) {
+      cooldown.clearCooldown();
+    }
+  }
+
+  private build(def: BTNodeDef): BTNode {
+    switch (def.type) {
+      case 'selector':
+        return new CompositeNode(def.children.map((child) => this.build(child)), BTStatus.Failure);
+
+      case 'sequence':
+        return new CompositeNode(def.children.map((child) => this.build(child)), BTStatus.Success);
+
+      case 'parallel':
+        return new ParallelNode(
+          def.children.map((child) => this.build(child)),
+          def.successThreshold ?? def.children.length
+        );
+
+      case 'cooldown': {
+        const node = new CooldownNode(this.build(def.child), def.duration);
+        this.cooldowns.push(node);
+        return node;
+      }
+
+      case 'chance':
+        return new ChanceNode(this.build(def.child), def.probability);
+
+      case 'condition':
+        return new ConditionNode(
+          def.key,
+          def.op,
+          def.value,
+          def.child ? this.build(def.child) : null
+        );
+
+      case 'action': {
+        const action = this.actions[def.action];
+        if (!action) {
+          throw new Error(`[BehaviorTree] Unknown action: ${def.action}`);
+        }
+        return new ActionNode(action, def.params ?? {});
+      }
+    }
+  }
+}
+
+// ============ JSON ============
+
+/**
+ * Parse a tree from JSON text
+ *
+ * @throws Error if the data is malformed
+ */
+export function parseBehaviorTree(json: string): BTNodeDef {
+  return validateBehaviorTree(JSON.parse(json));
+}
+
+/**
+ * Validate a tree object (node types and fields, not action names)
+ *
+ * @throws Error if the data is malformed
+ */
+export function validateBehaviorTree(data: unknown, path: string = 'root'): BTNodeDef {
+  const node = data as Partial<Record<string, unknown>> | null;
+  const fail = (reason: string): never => {
+    throw new Error(`[BehaviorTree] ${path}: ${reason}`);
+  };
+
+  if (!node || typeof node !== 'object') fail('node must be an object');
+
+  const validateChild = (child: unknown, name: string) =>
+    validateBehaviorTree(child, `${path}.${name}`);
+
+  switch (node!.type) {
+    case 'selector':
+    case 'sequence':
+    case 'parallel': {
+      const children = node!.children;
+      if (!Array.isArray(children) || children.length === 0) fail('needs children');
+      const validated = (children as unknown[]).map((child, i) =>
+        validateChild(child, `children[${i}]`)
+      );
+
+      if (node!.type === 'parallel') {
+        const threshold = node!.successThreshold ?? validated.length;
+        if (
+          typeof threshold !== 'number' ||
+          !Number.isInteger(threshold) ||
+          threshold < 1 ||
+          threshold > validated.length
+        ) {
+          fail('successThreshold must be between 1 and the number of children');
+        }
+        return { type: 'parallel', children: validated, successThreshold: threshold as number };
+      }
+      return { type: node!.type, children: validated };
+    }
+
+    case 'cooldown':
+      if (typeof node!.duration !== 'number' || node!.duration < 0) {
+        fail('cooldown needs a duration >= 0');
+      }
+      return {
+        type: 'cooldown',
+        duration: node!.duration as number,
+        child: validateChild(node!.child, 'child'),
+      };
+
+    case 'chance':
+      if (typeof node!.probability !== 'number' || node!.probability < 0 || node!.probability > 1) {
+        fail('chance needs a probability in [0, 1]');
+      }
+      return {
+        type: 'chance',
+        probability: node!.probability as number,
+        child: validateChild(node!.child, 'child'),
+      };
+
+    case 'condition':
+      if (typeof node!.key !== 'string') fail('condition needs a key');
+      if (!COMPARE_OPS.includes(node!.op as BTCompareOp)) fail(`unknown op ${String(node!.op)}`);
+      if (!isBlackboardValue(node!.value)) fail('condition value must be a number, string or boolean');
+      return {
+        type: 'condition',
+        key: node!.key as string,
+        op: node!.op as BTCompareOp,
+        value: node!.value as BlackboardValue,
+        child: node!.child === undefined ? undefined : validateChild(node!.child, 'child'),
+      };
+
+    case 'action': {
+      if (typeof node!.action !== 'string') fail('action needs a name');
+      const params = node!.params ?? {};
+      if (typeof params !== 'object' || Array.isArray(params)) fail('params must be an object');
+      for (const [name, value] of Object.entries(params as object)) {
+        if (!isBlackboardValue(value)) fail(`param ${name} must be a number, string or boolean`);
+      }
+      return {
+        type: 'action',
+        action: node!.action as string,
+        params: { ...(params as Record<string, BlackboardValue>) },
+      };
+    }
+
+    default:
+      return fail(`unknown node type ${String(node!.type)}`);
+  }
+}
+
+function isBlackboardValue(value: unknown): value is BlackboardValue {
+  return typeof value === 'number' || typeof value === 'string' || typeof value === 'boolean';
+}
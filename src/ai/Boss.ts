@@ -5,8 +5,14 @@
  * - 3D mesh and collider
  * - Health, poise, and combat state
  * - BossFSM for AI behavior
+ * - HP-threshold phases (pattern sets, speed, poise, transition)
  * - Attack execution via AttackSystem
  * - Plunge attack detection zone
+ * - Parry stun and riposte/backstab victim via CriticalSystem
+ * - Knockback pushes (stopped by walls) and knockdowns from heavy hits
+ * - NavMesh path following around pillars and walls (straight steering without one)
+ * - Optional behavior tree (JSON) driving the Engage decisions
+ * - Reactions to the player's state and stamina (item punish, roll spam, guard backoff)
  *
  * Integrates with DamageSystem, AttackSystem, and EventBus.
  */
@@ -23,14 +29,37 @@ import {
   DamageResult,
   DamageSourceType,
 } from '../combat/DamageSystem';
+import { StatusEffectSystem } from '../combat/StatusEffectSystem';
+import { CriticalSystem, Critical, CriticalRole } from '../combat/CriticalSystem';
+import {
+  HitReaction,
+  KnockbackState,
+  resolveHitReaction,
+  getKnockbackVelocity,
+} from '../combat/HitReaction';
 import {
   AttackSystem,
   ActiveAttack,
   WeaponSockets,
   HitResult,
 } from '../combat/AttackSystem';
+import { AttackCue, AttackCueType } from '../combat/AttackTimeline';
+import { ProjectileSystem } from '../combat/ProjectileSystem';
 import { DamageType } from '../player/PlayerStats';
-import { BossFSM, BossStateType, AttackPattern, TUTORIAL_BOSS_PATTERNS } from './BossFSM';
+import { NavMesh } from '../level/NavMesh';
+import { PathFollower } from './PathFollower';
+import {
+  BossFSM,
+  BossStateType,
+  AttackPattern,
+  PatternProjectile,
+  BossPhase,
+  TUTORIAL_BOSS_PATTERNS,
+  TUTORIAL_BOSS_PHASES,
+  TUTORIAL_BOSS_REACTIONS,
+  BossReactionProfile,
+} from './BossFSM';
+import type { BTNodeDef } from './BehaviorTree';
 
 /**
  * Boss configuration
@@ -50,6 +79,15 @@ export interface BossConfig {
   poiseRecoveryDelay: number; // Seconds before poise starts recovering
   poiseRecoveryRate: number; // Poise per second
 
+  // Reward
+  souls?: number; // Awarded to the killer
+
+  // Criticals (ripostes are always possible after a parry or stagger)
+  canBeBackstabbed?: boolean;
+
+  // Knockback resistance (0-1, scales incoming knockback force)
+  knockbackResistance?: number;
+
   // Movement
   moveSpeed: number;
   turnSpeed: number;
@@ -63,7 +101,18 @@ export interface BossConfig {
   plungeDetectionHeight: number;
 
   // Attack patterns (optional, uses defaults if not provided)
+  // Ignored when phases are given.
   patterns?: AttackPattern[];
+
+  // Phases, ordered by descending hpThreshold (optional, single phase if omitted)
+  phases?: BossPhase[];
+
+  // Behavior tree for Engage decisions (optional, built-in weighted pick if omitted)
+  behaviorTree?: BTNodeDef;
+
+  // Reactions to the player's state, with per-reaction aggression and reaction time
+  // (optional, no reactions if omitted)
+  reactions?: BossReactionProfile;
 }
 
 /**
@@ -83,8 +132,22 @@ export const TUTORIAL_BOSS_CONFIG: BossConfig = {
   colliderHeight: 4.0,
   plungeDetectionRadius: 2.5,
   plungeDetectionHeight: 3.0,
+  souls: 2000,
+  knockbackResistance: 0.75,
+  phases: TUTORIAL_BOSS_PHASES,
+  reactions: TUTORIAL_BOSS_REACTIONS,
 };
 
+/**
+ * Staggered duration after a knockdown (seconds)
+ */
+const BOSS_KNOCKDOWN_DURATION = 3.0;
+
+/**
+ * Move speed multiplier while backing off (walking backward)
+ */
+const BOSS_BACKOFF_SPEED_MULTIPLIER = 0.6;
+
 /**
  * Boss entity class
  */
@@ -111,10 +174,25 @@ export class Boss {
   private poiseRecoveryDelay: number;
   private poiseRecoveryRate: number;
   private lastPoiseHitTime: number = 0;
+  private readonly souls: number;
+  private readonly canBeBackstabbed: boolean;
+  private readonly knockbackResistance: number;
 
   // Movement
   private moveSpeed: number;
   private turnSpeed: number;
+  private knockback: KnockbackState = new KnockbackState();
+  private pathFollower: PathFollower;
+
+  // Attack lunge (timeline cue)
+  private lungeVelocity: THREE.Vector3 = new THREE.Vector3();
+  private lungeRemaining: number = 0;
+  private readonly baseMoveSpeed: number;
+  private readonly baseTurnSpeed: number;
+
+  // Phases
+  private readonly phases: BossPhase[];
+  private _phaseIndex: number = 0;
 
   // Physics config
   private colliderRadius: number;
@@ -130,7 +208,9 @@ export class Boss {
   private weaponSockets: WeaponSockets = {
     base: new THREE.Vector3(),
     tip: new THREE.Vector3(),
+    root: new THREE.Vector3(),
   };
+  private volleyFired: boolean = false;
 
   // Target tracking
   private _targetPosition: THREE.Vector3 = new THREE.Vector3();
@@ -139,6 +219,7 @@ export class Boss {
   // State
   private _isSpawned: boolean = false;
   private _isDead: boolean = false;
+  private playerSubscriptions: (() => void)[] = [];
 
   constructor(config: BossConfig) {
     this.id = config.id;
@@ -153,22 +234,41 @@ export class Boss {
     this._currentPoise = config.maxPoise;
     this.poiseRecoveryDelay = config.poiseRecoveryDelay;
     this.poiseRecoveryRate = config.poiseRecoveryRate;
+    this.souls = config.souls ?? 0;
+    this.canBeBackstabbed = config.canBeBackstabbed ?? false;
+    this.knockbackResistance = THREE.MathUtils.clamp(config.knockbackResistance ?? 0, 0, 1);
 
     this.moveSpeed = config.moveSpeed;
     this.turnSpeed = config.turnSpeed;
+    this.baseMoveSpeed = config.moveSpeed;
+    this.baseTurnSpeed = config.turnSpeed;
 
     this.colliderRadius = config.colliderRadius;
     this.colliderHeight = config.colliderHeight;
     this.plungeDetectionRadius = config.plungeDetectionRadius;
     this.plungeDetectionHeight = config.plungeDetectionHeight;
+    this.pathFollower = new PathFollower(config.colliderRadius);
+
+    // Phases (a plain pattern list is a single phase)
+    this.phases = config.phases
+      ? [...config.phases].sort((a, b) => b.hpThreshold - a.hpThreshold)
+      : [{ hpThreshold: 1.0, patterns: config.patterns ?? TUTORIAL_BOSS_PATTERNS }];
 
     // Create FSM
-    this._fsm = new BossFSM(this.id, config.patterns ?? TUTORIAL_BOSS_PATTERNS, {
+    this._fsm = new BossFSM(this.id, this.phases[0].patterns, {
       onStateEnter: this.onStateEnter.bind(this),
       onStateExit: this.onStateExit.bind(this),
       onAttackSelected: this.onAttackSelected.bind(this),
       onAnimationTrigger: this.onAnimationTrigger.bind(this),
     });
+    if (config.behaviorTree) {
+      this._fsm.setBehaviorTree(config.behaviorTree);
+    }
+    if (config.reactions) {
+      this._fsm.setReactionProfile(config.reactions);
+    }
+
+    this.applyPhaseStats(this.phases[0]);
   }
 
   /**
@@ -188,6 +288,17 @@ export class Boss {
 
     // Register with damage system
     this.registerWithDamageSystem();
+    this.registerCriticalParticipant();
+
+    // Observe the player (behavior tree blackboard, reactions)
+    this.playerSubscriptions = [
+      EventBus.on('player:stateChanged', ({ current }) => {
+        this._fsm.updatePlayerState(current);
+      }),
+      EventBus.on('player:staminaChanged', ({ current, max }) => {
+        this._fsm.updatePlayerStamina(max > 0 ? current / max : 1);
+      }),
+    ];
 
     this._isSpawned = true;
 
@@ -214,6 +325,12 @@ export class Boss {
 
     // Unregister from damage system
     DamageSystem.unregisterEntity(this.id);
+    StatusEffectSystem.removeEntity(this.id);
+    CriticalSystem.unregisterParticipant(this.id);
+    Time.removeLocalClock(this.id);
+
+    this.playerSubscriptions.forEach((unsubscribe) => unsubscribe());
+    this.playerSubscriptions = [];
 
     this._isSpawned = false;
   }
@@ -224,6 +341,9 @@ export class Boss {
   update(dt: number): void {
     if (!this._isSpawned || this._isDead) return;
 
+    // Hit-stop / time dilation
+    dt = Time.localDelta(this.id, dt);
+
     // Update target info for FSM
     this.updateTargetInfo();
 
@@ -232,6 +352,8 @@ export class Boss {
 
     // Update movement
     this.updateMovement(dt);
+    this.updateKnockback(dt);
+    this.updateLunge(dt);
 
     // Update attack
     this.updateAttack(dt);
@@ -311,32 +433,21 @@ export class Boss {
   }
 
   private createPhysicsBody(): void {
-    // Create kinematic rigid body
-    const bodyDesc = RAPIER.RigidBodyDesc.kinematicPositionBased().setTranslation(
-      this._position.x,
-      this._position.y,
-      this._position.z
-    );
-    this._rigidBody = PhysicsWorld.createRigidBody(bodyDesc);
-
-    // Create main collider (capsule)
+    // Main collider (capsule), on a kinematic body
     const colliderDesc = RAPIER.ColliderDesc.capsule(
       (this.colliderHeight - this.colliderRadius * 2) / 2,
       this.colliderRadius
     )
       .setTranslation(0, this.colliderHeight / 2, 0)
-      .setCollisionGroups(
-        CollisionGroups.createMask(CollisionGroup.ENEMY, [
-          CollisionGroup.PLAYER,
-          CollisionGroup.ENVIRONMENT,
-          CollisionGroup.HITBOX,
-        ])
-      );
-
-    this._collider = PhysicsWorld.createCollider(colliderDesc, this._rigidBody);
+      .setCollisionGroups(CollisionGroups.BOSS);
 
-    // Register collider with entity ID
-    PhysicsWorld.registerColliderEntity(this._collider, this.id);
+    const { rigidBody, collider } = PhysicsWorld.createKinematicBody(
+      this._position,
+      colliderDesc,
+      this.id
+    );
+    this._rigidBody = rigidBody;
+    this._collider = collider;
 
     // Create plunge detection zone (sensor above boss)
     const plungeColliderDesc = RAPIER.ColliderDesc.cylinder(
@@ -346,19 +457,18 @@ export class Boss {
       .setTranslation(0, this.colliderHeight + this.plungeDetectionHeight / 2, 0)
       .setSensor(true)
       .setCollisionGroups(
-        CollisionGroups.createMask(CollisionGroup.TRIGGER, [CollisionGroup.PLAYER])
+        CollisionGroups.create([CollisionGroup.TRIGGER], [CollisionGroup.PLAYER])
       );
 
-    this._plungeCollider = PhysicsWorld.createCollider(plungeColliderDesc, this._rigidBody);
+    this._plungeCollider = PhysicsWorld.getWorld().createCollider(
+      plungeColliderDesc,
+      this._rigidBody
+    );
   }
 
   private removePhysicsBody(): void {
-    if (this._collider) {
-      PhysicsWorld.unregisterColliderEntity(this._collider);
-    }
-
     if (this._rigidBody) {
-      PhysicsWorld.removeRigidBody(this._rigidBody);
+      PhysicsWorld.removeBody(this._rigidBody);
       this._rigidBody = null;
       this._collider = null;
       this._plungeCollider = null;
@@ -377,23 +487,112 @@ export class Boss {
       isGuarding: false,
       isParrying: false,
       isDead: this._isDead,
+      soulValue: this.souls,
       onTakeDamage: this.onTakeDamage.bind(this),
       onDie: this.onDie.bind(this),
       onStagger: this.onStagger.bind(this),
+      hasHyperarmor: () =>
+        this._fsm.currentState === BossStateType.AttackActive &&
+        AttackSystem.hasHyperarmor(this.id),
     };
 
     DamageSystem.registerEntity(combatState);
   }
 
+  private registerCriticalParticipant(): void {
+    CriticalSystem.registerParticipant({
+      entityId: this.id,
+      radius: this.colliderRadius,
+      getPosition: () => this.position,
+      getForward: () =>
+        new THREE.Vector3(0, 0, 1).applyAxisAngle(new THREE.Vector3(0, 1, 0), this._rotation),
+      canBeBackstabbed: this.canBeBackstabbed,
+      isStaggered: () => this._fsm.currentState === BossStateType.Staggered,
+      onParried: (stunDuration) => this._fsm.onParried(stunDuration),
+      onCriticalStart: this.onCriticalStart.bind(this),
+    });
+  }
+
+  /**
+   * Locked as a riposte/backstab victim: face the attacker's sync direction
+   */
+  private onCriticalStart(critical: Critical, role: CriticalRole): void {
+    if (role !== 'victim') return;
+
+    this.setRotation(Math.atan2(critical.victimFacing.x, critical.victimFacing.z));
+    this._fsm.onCriticalReceived(critical.definition.duration);
+  }
+
   private updateDamageSystemState(): void {
     DamageSystem.updateEntityState(this.id, {
       currentHP: this._currentHP,
       currentPoise: this._currentPoise,
+      maxPoise: this._maxPoise,
       isDead: this._isDead,
+      isInvulnerable: this.isInvulnerable,
+    });
+  }
+
+  // ========== Phases ==========
+
+  /**
+   * Enter the deepest phase whose HP threshold has been reached
+   */
+  private checkPhaseTransition(): void {
+    const hpFraction = this._currentHP / this._maxHP;
+
+    let target = this._phaseIndex;
+    for (let i = this._phaseIndex + 1; i < this.phases.length; i++) {
+      if (hpFraction <= this.phases[i].hpThreshold) {
+        target = i;
+      }
+    }
+
+    if (target !== this._phaseIndex) {
+      this.enterPhase(target);
+    }
+  }
+
+  private enterPhase(index: number): void {
+    const phase = this.phases[index];
+    this._phaseIndex = index;
+
+    this.applyPhaseStats(phase);
+    this._fsm.setPatterns(phase.patterns);
+
+    // A phase change interrupts the current attack
+    if (this.activeAttack) {
+      AttackSystem.cancelAttacks(this.id);
+      this.activeAttack = null;
+    }
+
+    if (phase.transition) {
+      this._fsm.startPhaseTransition(phase.transition.animation, phase.transition.duration);
+    }
+
+    // Apply invulnerability immediately (later hits this tick must see it)
+    this.updateDamageSystemState();
+
+    EventBus.emit('boss:phaseChanged', {
+      bossId: this.id,
+      phase: index,
+      phaseCount: this.phases.length,
     });
   }
 
+  private applyPhaseStats(phase: BossPhase): void {
+    this.moveSpeed = this.baseMoveSpeed * (phase.moveSpeedMultiplier ?? 1);
+    this.turnSpeed = this.baseTurnSpeed * (phase.turnSpeedMultiplier ?? 1);
+
+    if (phase.maxPoise !== undefined) {
+      this._maxPoise = phase.maxPoise;
+      this._currentPoise = phase.maxPoise;
+    }
+  }
+
   private updateTargetInfo(): void {
+    this._fsm.updateHealth(this._currentHP / this._maxHP);
+
     if (!this._targetId) {
       this._fsm.updateTargetInfo(Infinity, 0);
       return;
@@ -414,16 +613,9 @@ export class Boss {
   }
 
   private updateMovement(dt: number): void {
-    if (this._fsm.movementMultiplier <= 0) return;
-
     const state = this._fsm.currentState;
 
-    // Engage state: move toward player
-    if (state === BossStateType.Engage) {
-      this.moveTowardTarget(dt);
-    }
-
-    // Jump slam: move during jump
+    // Jump slam: move during jump (AttackActive has no regular movement)
     if (
       state === BossStateType.AttackActive &&
       this._fsm.attackPattern?.attackId === 'boss_jump_slam'
@@ -432,8 +624,10 @@ export class Boss {
       const jumpProgress = this._fsm.progress;
       if (jumpProgress < 0.5) {
         // Rising phase
-        const moveDir = this._targetPosition.clone().sub(this._position).normalize();
-        const speed = this.moveSpeed * 4 * this._fsm.movementMultiplier;
+        const moveDir = this._targetPosition.clone().sub(this._position);
+        moveDir.y = 0;
+        moveDir.normalize();
+        const speed = this.moveSpeed * 4;
         this._position.x += moveDir.x * speed * dt;
         this._position.z += moveDir.z * speed * dt;
         this._position.y += 8 * dt; // Rise
@@ -442,6 +636,14 @@ export class Boss {
         this._position.y -= 12 * dt;
         if (this._position.y < 0) this._position.y = 0;
       }
+      return;
+    }
+
+    if (this._fsm.movementMultiplier <= 0) return;
+
+    // Engage state: move toward player
+    if (state === BossStateType.Engage) {
+      this.moveTowardTarget(dt);
     }
   }
 
@@ -452,12 +654,52 @@ export class Boss {
     toTarget.y = 0; // Ignore vertical
     const distance = toTarget.length();
 
-    // Stop at preferred distance
+    // Stop at preferred distance (back away while giving a guarding player room)
     const preferredDist = this._fsm.getPreferredDistance();
-    if (distance <= preferredDist) return;
+    if (distance <= preferredDist) {
+      if (this._fsm.isBackingOff) {
+        this.retreatFromTarget(dt);
+      }
+      return;
+    }
 
-    // Rotate toward target
-    const targetRotation = Math.atan2(toTarget.x, toTarget.z);
+    // Rotate toward the next waypoint (the target itself when the way is clear)
+    const steerPoint = this.pathFollower.steer(
+      this._position,
+      this._targetPosition,
+      Time.getLocalElapsed(this.id)
+    );
+    this.turnToward(steerPoint, dt);
+
+    // Move forward
+    const forward = new THREE.Vector3(0, 0, 1).applyAxisAngle(
+      new THREE.Vector3(0, 1, 0),
+      this._rotation
+    );
+    const speed = this.moveSpeed * this._fsm.movementMultiplier;
+    this._position.add(forward.multiplyScalar(speed * dt));
+
+    this.settleOnGround();
+  }
+
+  /**
+   * Walk backward away from the target while facing it, stopping at walls
+   */
+  private retreatFromTarget(dt: number): void {
+    this.turnToward(this._targetPosition, dt);
+
+    const backward = new THREE.Vector3(0, 0, -1).applyAxisAngle(
+      new THREE.Vector3(0, 1, 0),
+      this._rotation
+    );
+    const speed = this.moveSpeed * this._fsm.movementMultiplier * BOSS_BACKOFF_SPEED_MULTIPLIER;
+    this.moveAgainstWalls(backward.multiplyScalar(speed * dt));
+
+    this.settleOnGround();
+  }
+
+  private turnToward(point: THREE.Vector3, dt: number): void {
+    const targetRotation = Math.atan2(point.x - this._position.x, point.z - this._position.z);
     const rotationDiff = this.normalizeAngle(targetRotation - this._rotation);
     const rotationStep = this.turnSpeed * this._fsm.rotationMultiplier * dt;
 
@@ -466,14 +708,16 @@ export class Boss {
     } else {
       this._rotation = targetRotation;
     }
+  }
 
-    // Move forward
-    const forward = new THREE.Vector3(0, 0, 1).applyAxisAngle(
-      new THREE.Vector3(0, 1, 0),
-      this._rotation
-    );
-    const speed = this.moveSpeed * this._fsm.movementMultiplier;
-    this._position.add(forward.multiplyScalar(speed * dt));
+  /**
+   * Follow the walkable surface (ramps) and move the physics body along
+   */
+  private settleOnGround(): void {
+    const groundHeight = NavMesh.sampleHeight(this._position);
+    if (groundHeight !== null) {
+      this._position.y = groundHeight;
+    }
 
     // Update physics body
     if (this._rigidBody) {
@@ -485,6 +729,63 @@ export class Boss {
     }
   }
 
+  /**
+   * Slide along the knockback push, stopping at walls
+   */
+  private updateKnockback(dt: number): void {
+    if (!this.knockback.active) return;
+
+    if (this.moveAgainstWalls(this.knockback.step(dt))) {
+      this.knockback.clear();
+    }
+  }
+
+  /**
+   * Move along the attack lunge, stopping at walls
+   */
+  private updateLunge(dt: number): void {
+    if (this.lungeRemaining <= 0) return;
+
+    const step = Math.min(dt, this.lungeRemaining);
+    this.lungeRemaining -= step;
+
+    if (this.moveAgainstWalls(this.lungeVelocity.clone().multiplyScalar(step))) {
+      this.lungeRemaining = 0;
+    }
+  }
+
+  /**
+   * Move horizontally, stopping just short of walls
+   *
+   * @returns true if a wall blocked the move
+   */
+  private moveAgainstWalls(displacement: THREE.Vector3): boolean {
+    const distance = displacement.length();
+    if (distance <= 0) return false;
+
+    const direction = displacement.divideScalar(distance);
+    const center = this._position.clone();
+    center.y += this.colliderHeight / 2;
+
+    const hit = PhysicsWorld.shapeCast(
+      new RAPIER.Ball(this.colliderRadius),
+      center,
+      direction,
+      distance,
+      CollisionGroups.BOSS_MOVEMENT_QUERY,
+      this._collider ? [this._collider] : undefined
+    );
+
+    if (hit) {
+      // Stop just short of the wall
+      this._position.addScaledVector(direction, Math.max(0, hit.timeOfImpact - 0.01));
+      return true;
+    }
+
+    this._position.addScaledVector(direction, distance);
+    return false;
+  }
+
   private normalizeAngle(angle: number): number {
     while (angle > Math.PI) angle -= Math.PI * 2;
     while (angle < -Math.PI) angle += Math.PI * 2;
@@ -507,9 +808,14 @@ export class Boss {
         this.activeAttack,
         this._fsm.progress,
         this.weaponSockets,
-        CollisionGroups.PLAYER
+        CollisionGroups.ENEMY_ATTACK_QUERY
       );
 
+      const volley = this._fsm.attackPattern?.projectile;
+      if (volley && !this.volleyFired && this._fsm.progress >= volley.fireAt) {
+        this.fireVolley(volley);
+      }
+
       // Process hits (already handled by AttackSystem -> DamageSystem)
       for (const hit of hits) {
         EventBus.emit('debug:log', {
@@ -523,6 +829,7 @@ export class Boss {
     if (state !== BossStateType.AttackActive && this.activeAttack) {
       AttackSystem.endAttack(this.activeAttack);
       this.activeAttack = null;
+      this.lungeRemaining = 0;
     }
   }
 
@@ -542,8 +849,48 @@ export class Boss {
       pattern.attackId,
       this._collider,
       this.weaponSockets,
-      forward
+      forward,
+      this.handleAttackCue.bind(this)
     );
+    this.volleyFired = false;
+  }
+
+  /**
+   * Fire the projectiles of a ranged attack pattern, fanned around the target direction
+   */
+  private fireVolley(volley: PatternProjectile): void {
+    this.volleyFired = true;
+
+    const origin = this.weaponSockets.base.clone();
+    const aim = this._targetPosition.clone().sub(origin).normalize();
+    if (aim.lengthSq() < 1e-6) {
+      aim.set(0, 0, 1).applyAxisAngle(new THREE.Vector3(0, 1, 0), this._rotation);
+    }
+
+    const count = volley.count ?? 1;
+    const spread = THREE.MathUtils.degToRad(volley.spreadAngle ?? 0);
+    const up = new THREE.Vector3(0, 1, 0);
+
+    for (let i = 0; i < count; i++) {
+      const direction = aim.clone().applyAxisAngle(up, (i - (count - 1) / 2) * spread);
+      ProjectileSystem.spawn(volley.projectileId, this.id, origin, direction, {
+        side: 'enemy',
+        homingTarget: volley.homing === false ? undefined : () => this._targetPosition,
+      });
+    }
+  }
+
+  /**
+   * Act on attack timeline cues that move the boss
+   */
+  private handleAttackCue(cue: AttackCue, attack: ActiveAttack): void {
+    if (cue.type === AttackCueType.Lunge) {
+      this.lungeVelocity
+        .set(attack.attackDirection.x, 0, attack.attackDirection.z)
+        .normalize()
+        .multiplyScalar(cue.speed ?? 0);
+      this.lungeRemaining = cue.duration ?? 0;
+    }
   }
 
   private updateWeaponSockets(): void {
@@ -557,6 +904,8 @@ export class Boss {
       this._rotation
     );
 
+    this.weaponSockets.root?.copy(this._position);
+
     // Base: at shoulder height, offset to side
     this.weaponSockets.base.copy(this._position);
     this.weaponSockets.base.y += this.colliderHeight * 0.7;
@@ -593,7 +942,7 @@ export class Boss {
 
   private updatePoiseRecovery(dt: number): void {
     // Only recover if not recently hit
-    if (Time.elapsed - this.lastPoiseHitTime < this.poiseRecoveryDelay) {
+    if (Time.getLocalElapsed(this.id) - this.lastPoiseHitTime < this.poiseRecoveryDelay) {
       return;
     }
 
@@ -668,10 +1017,25 @@ export class Boss {
   private onTakeDamage(result: DamageResult): void {
     this._currentHP = Math.max(0, this._currentHP - result.finalDamage);
     this._currentPoise -= result.poiseDamage;
-    this.lastPoiseHitTime = Time.elapsed;
+    this.lastPoiseHitTime = Time.getLocalElapsed(this.id);
 
     // Notify FSM
-    this._fsm.onDamaged(result.finalDamage, result.poiseDamage, this._currentPoise);
+    this._fsm.onDamaged(
+      result.finalDamage,
+      result.poiseDamage,
+      this._currentPoise,
+      result.hyperarmor
+    );
+
+    // Hyperarmor tanks the hit: no push, no knockdown
+    if (!this._isDead && !result.hyperarmor) {
+      this.applyHitReaction(result);
+    }
+
+    // Check HP thresholds (death is handled before this callback)
+    if (!this._isDead) {
+      this.checkPhaseTransition();
+    }
 
     // Emit event
     EventBus.emit('boss:damaged', {
@@ -686,6 +1050,27 @@ export class Boss {
     });
   }
 
+  /**
+   * Push along the hit direction; heavy poise-breaking hits knock the boss down
+   */
+  private applyHitReaction(result: DamageResult): void {
+    const knockbackForce = result.knockbackForce * (1 - this.knockbackResistance);
+    const reaction = resolveHitReaction(
+      knockbackForce,
+      result.poiseDamage,
+      result.targetStaggered || this._currentPoise <= 0
+    );
+
+    if (result.hitDirection && knockbackForce > 0) {
+      this.knockback.apply(getKnockbackVelocity(result.hitDirection, knockbackForce, reaction));
+    }
+
+    // Bosses are never launched; both heavy reactions keep them down longer
+    if (reaction === HitReaction.Knockdown || reaction === HitReaction.Launch) {
+      this._fsm.onKnockedDown(BOSS_KNOCKDOWN_DURATION);
+    }
+  }
+
   private onDie(): void {
     this._isDead = true;
     this._fsm.onDeath();
@@ -789,6 +1174,30 @@ export class Boss {
     return this._currentHP / this._maxHP;
   }
 
+  /**
+   * Get current phase index (0 = first phase)
+   */
+  get phaseIndex(): number {
+    return this._phaseIndex;
+  }
+
+  /**
+   * Get number of phases
+   */
+  get phaseCount(): number {
+    return this.phases.length;
+  }
+
+  /**
+   * Check if damage is currently ignored (invulnerable phase transition)
+   */
+  get isInvulnerable(): boolean {
+    return (
+      this._fsm.currentState === BossStateType.PhaseTransition &&
+      (this.phases[this._phaseIndex].transition?.invulnerable ?? false)
+    );
+  }
+
   /**
    * Check if dead
    */
@@ -818,6 +1227,9 @@ export class Boss {
     this._currentPoise = this._maxPoise;
     this._isDead = false;
     this.lastPoiseHitTime = 0;
+    this.knockback.clear();
+    this.lungeRemaining = 0;
+    this.pathFollower.clear();
 
     if (this.activeAttack) {
       AttackSystem.cancelAttacks(this.id);
@@ -833,6 +1245,8 @@ export class Boss {
    */
   setPosition(position: THREE.Vector3): void {
     this._position.copy(position);
+    this.knockback.clear();
+    this.lungeRemaining = 0;
     this.syncMeshWithPhysics();
   }
 
@@ -8,14 +8,53 @@
  * - AttackActive: Attack hitbox active
  * - Recover: Post-attack cooldown
  * - Staggered: Stunned, vulnerable to critical
+ * - PhaseTransition: Scripted phase change (not interruptible)
  * - Dead: Boss defeated
  *
  * Pattern selection is weight-based with distance filtering.
+ * The active pattern set is swapped by the Boss entity on phase changes.
+ *
+ * Combos: a pattern's followUps are checked when its AttackActive ends (or its
+ * feint telegraph ends). The first follow-up whose trigger passes chains into
+ * another pattern after a short Recover gap instead of the full recovery:
+ * - TargetInRange: the target is within the follow-up pattern's range
+ * - PlayerRolled: the player rolled or backstepped during the attack
+ * - Always: unconditional (use chance for random mixups)
+ * Follow-ups can delay their telegraph or feint (telegraph only, then branch on
+ * the feinted pattern's own follow-ups).
+ *
+ * Behavior trees: with a tree set (setBehaviorTree), Engage decisions come from
+ * the tree instead of the built-in distance check + weighted pick. The states
+ * are exposed to the tree as leaf actions:
+ * - engage { distance? }: keep approaching (to `distance` instead of the preferred one)
+ * - attack { attackId? }: start a pattern of the current phase (weighted pick
+ *   without attackId); fails when out of range or on cooldown
+ * - recover { duration }: hold position, tracking the target
+ * The blackboard holds target distance/angle, HP percentage and player state.
+ *
+ * Reactions: the boss reads the player's state and stamina (forwarded by the
+ * Boss entity) and reacts per its BossReactionProfile. Each reaction rolls its
+ * aggression when the cue is noticed and acts after its reaction time:
+ * - punishItemUse: gap-closer while the player is still using an item
+ * - rollSpam: repeated rolls delay the next openers' telegraphs
+ * - guardBackoff: sustained guarding makes the boss back off, then leap in with a punish
+ * - lowStamina: attacks right away (ignoring cooldowns) when the player is winded
+ * A reaction's cooldown keeps the same cue from triggering it again right away.
  */
 
 import { Time } from '../core/Time';
+import { Random } from '../core/Random';
 import { EventBus } from '../core/EventBus';
+import { PlayerStateType } from '../player/PlayerState';
 import { AttackSystem, AttackData, DEFAULT_ATTACKS } from '../combat/AttackSystem';
+import {
+  BehaviorTree,
+  Blackboard,
+  BlackboardKey,
+  BTAction,
+  BTNodeDef,
+  BTStatus,
+} from './BehaviorTree';
 
 /**
  * Boss state types
@@ -27,6 +66,7 @@ export enum BossStateType {
   AttackActive = 'AttackActive',
   Recover = 'Recover',
   Staggered = 'Staggered',
+  PhaseTransition = 'PhaseTransition',
   Dead = 'Dead',
 }
 
@@ -37,7 +77,7 @@ export interface AttackPattern {
   // Attack ID (matches AttackSystem)
   attackId: string;
 
-  // Selection weight (0-100)
+  // Selection weight (0-100, 0 = only reachable as a follow-up)
   weight: number;
 
   // Distance constraints
@@ -50,10 +90,149 @@ export interface AttackPattern {
 
   // Cooldown (can't use same attack within this time)
   cooldown: number;
+
+  // Ranged attack: projectiles fired during AttackActive
+  projectile?: PatternProjectile;
+
+  // Combo branches, checked in order when the attack ends
+  followUps?: AttackFollowUp[];
+}
+
+/**
+ * Follow-up trigger types
+ */
+export enum FollowUpTrigger {
+  Always = 'Always',
+  TargetInRange = 'TargetInRange', // Within the follow-up pattern's min/max distance
+  PlayerRolled = 'PlayerRolled', // Player rolled or backstepped during the attack
+}
+
+/**
+ * Combo branch from one pattern into another
+ */
+export interface AttackFollowUp {
+  attackId: string; // Pattern of the current phase to chain into
+  trigger: FollowUpTrigger;
+  chance?: number; // 0-1, rolled once the trigger passes (default 1)
+  gap?: number; // Seconds of Recover before the follow-up telegraph (default 0.2)
+  telegraphDelay?: number; // Seconds added to the follow-up's telegraph (delayed swing)
+  feint?: boolean; // Telegraph only, then branch on the follow-up pattern's own follow-ups
+}
+
+/**
+ * Longest combo (follow-ups after the opening attack)
+ */
+const MAX_CHAIN_LENGTH = 4;
+
+/**
+ * Default gap between an attack and its follow-up telegraph (seconds)
+ */
+const DEFAULT_FOLLOW_UP_GAP = 0.2;
+
+/**
+ * Player states that count as evading for PlayerRolled follow-ups
+ */
+const EVASIVE_PLAYER_STATES: readonly string[] = [
+  PlayerStateType.Roll,
+  PlayerStateType.Backstep,
+];
+
+/**
+ * Projectile volley of a ranged attack pattern
+ */
+export interface PatternProjectile {
+  projectileId: string; // ProjectileSystem definition
+  fireAt: number; // AttackActive progress (0-1)
+  count?: number; // Projectiles per volley (default 1)
+  spreadAngle?: number; // Degrees between projectiles
+  homing?: boolean; // Track the target (default true)
 }
 
+/**
+ * Boss phase definition
+ */
+export interface BossPhase {
+  // Enter this phase when HP fraction drops to or below this (0-1).
+  // The first phase uses 1.0.
+  hpThreshold: number;
+
+  // Attack patterns used in this phase
+  patterns: AttackPattern[];
+
+  // Multipliers applied to the boss's base movement/turn speed
+  moveSpeedMultiplier?: number;
+  turnSpeedMultiplier?: number;
+
+  // Max poise override for this phase (poise is refilled on entry)
+  maxPoise?: number;
+
+  // Optional transition played on entering the phase
+  transition?: BossPhaseTransition;
+}
+
+/**
+ * Phase transition (roar, transformation, etc.)
+ */
+export interface BossPhaseTransition {
+  animation: string;
+  duration: number; // Seconds
+  invulnerable: boolean; // Ignore damage while transitioning
+}
+
+/**
+ * Reaction types
+ */
+export enum BossReactionType {
+  PunishItemUse = 'PunishItemUse',
+  RollSpam = 'RollSpam',
+  GuardBackoff = 'GuardBackoff',
+  LowStamina = 'LowStamina',
+}
+
+/**
+ * Tuning shared by all reactions
+ */
+export interface BossReaction {
+  aggression: number; // Chance (0-1) to react once the cue is noticed
+  reactionTime: number; // Seconds between noticing the cue and reacting
+  cooldown?: number; // Seconds after reacting before the cue counts again (default 0)
+}
+
+/**
+ * Per-boss reaction profile (omitted reactions are disabled)
+ */
+export interface BossReactionProfile {
+  // Gap-closer pattern (any in-range pattern when the player is out of its range)
+  punishItemUse?: BossReaction & { attackId: string };
+
+  // `rolls` rolls within `window` seconds add telegraphDelay to openers for `window` seconds
+  rollSpam?: BossReaction & { rolls: number; window: number; telegraphDelay: number };
+
+  // Guarding for `guardTime` seconds makes the boss hold `distance` for `duration` seconds,
+  // then attack with punishAttackId (any in-range pattern when out of its range)
+  guardBackoff?: BossReaction & {
+    guardTime: number;
+    distance: number;
+    duration: number;
+    punishAttackId: string;
+  };
+
+  // Player stamina fraction (0-1) that counts as an opening; attackId is preferred when in range
+  lowStamina?: BossReaction & { threshold: number; attackId?: string };
+}
+
+/**
+ * Player states that count as guarding for guardBackoff
+ */
+const GUARDING_PLAYER_STATES: readonly string[] = [
+  PlayerStateType.Guard,
+  PlayerStateType.GuardHit,
+];
+
 /**
  * Default tutorial boss patterns
+ * Combos: sweep into smash while in reach, a delayed stomp punishes rolling out
+ * of the smash, and the stomp sometimes feints a sweep before the real mixup.
  */
 export const TUTORIAL_BOSS_PATTERNS: AttackPattern[] = [
   {
@@ -64,6 +243,14 @@ export const TUTORIAL_BOSS_PATTERNS: AttackPattern[] = [
     telegraphDuration: 0.8,
     recoveryDuration: 0.6,
     cooldown: 2.0,
+    followUps: [
+      {
+        attackId: 'boss_overhead_smash',
+        trigger: FollowUpTrigger.TargetInRange,
+        chance: 0.5,
+        gap: 0.25,
+      },
+    ],
   },
   {
     attackId: 'boss_overhead_smash',
@@ -73,6 +260,14 @@ export const TUTORIAL_BOSS_PATTERNS: AttackPattern[] = [
     telegraphDuration: 1.0,
     recoveryDuration: 0.8,
     cooldown: 2.5,
+    followUps: [
+      {
+        attackId: 'boss_aoe_stomp',
+        trigger: FollowUpTrigger.PlayerRolled,
+        chance: 0.6,
+        telegraphDelay: 0.4, // Lands as the roll recovers
+      },
+    ],
   },
   {
     attackId: 'boss_jump_slam',
@@ -91,9 +286,94 @@ export const TUTORIAL_BOSS_PATTERNS: AttackPattern[] = [
     telegraphDuration: 0.5,
     recoveryDuration: 0.5,
     cooldown: 3.0,
+    followUps: [
+      {
+        attackId: 'boss_wide_sweep',
+        trigger: FollowUpTrigger.TargetInRange,
+        chance: 0.3,
+        gap: 0.3,
+        feint: true,
+      },
+    ],
+  },
+];
+
+/**
+ * Tutorial boss ranged attack (phase 2: punishes keeping distance)
+ */
+export const BOSS_FIREBALL_PATTERN: AttackPattern = {
+  attackId: 'boss_fireball_cast',
+  weight: 20,
+  minDistance: 6.0,
+  maxDistance: 20.0,
+  telegraphDuration: 0.9,
+  recoveryDuration: 0.8,
+  cooldown: 5.0,
+  projectile: {
+    projectileId: 'boss_fireball',
+    fireAt: 0.5,
+    count: 3,
+    spreadAngle: 15,
+    homing: false, // A homing fan would converge into one triple hit
+  },
+};
+
+/**
+ * Default tutorial boss phases
+ * Phase 2 (below 50% HP): faster telegraphs and shorter cooldowns after a roar.
+ */
+export const TUTORIAL_BOSS_PHASES: BossPhase[] = [
+  {
+    hpThreshold: 1.0,
+    patterns: TUTORIAL_BOSS_PATTERNS,
+  },
+  {
+    hpThreshold: 0.5,
+    patterns: [
+      ...TUTORIAL_BOSS_PATTERNS.map((pattern) => ({
+        ...pattern,
+        telegraphDuration: pattern.telegraphDuration * 0.75,
+        cooldown: pattern.cooldown * 0.7,
+      })),
+      BOSS_FIREBALL_PATTERN,
+    ],
+    moveSpeedMultiplier: 1.3,
+    turnSpeedMultiplier: 1.25,
+    maxPoise: 130,
+    transition: {
+      animation: 'Boss_Roar',
+      duration: 2.0,
+      invulnerable: true,
+    },
   },
 ];
 
+/**
+ * Default tutorial boss reactions
+ * Jumps on estus chugs, waits out roll spam, and answers turtling by backing off
+ * into an unblockable jump slam.
+ */
+export const TUTORIAL_BOSS_REACTIONS: BossReactionProfile = {
+  punishItemUse: { aggression: 0.8, reactionTime: 0.3, attackId: 'boss_jump_slam' },
+  rollSpam: { aggression: 0.7, reactionTime: 0.5, rolls: 3, window: 4.0, telegraphDelay: 0.35 },
+  guardBackoff: {
+    aggression: 0.6,
+    reactionTime: 0.4,
+    cooldown: 8.0,
+    guardTime: 1.5,
+    distance: 6.0,
+    duration: 1.5,
+    punishAttackId: 'boss_jump_slam',
+  },
+  lowStamina: {
+    aggression: 0.7,
+    reactionTime: 0.25,
+    cooldown: 6.0,
+    threshold: 0.2,
+    attackId: 'boss_jump_slam',
+  },
+};
+
 /**
  * State configuration
  */
@@ -151,6 +431,12 @@ const STATE_CONFIGS: Record<BossStateType, StateConfig> = {
     movementMultiplier: 0,
     rotationMultiplier: 0,
   },
+  [BossStateType.PhaseTransition]: {
+    duration: 0, // Set dynamically
+    canBeStaggered: false,
+    movementMultiplier: 0,
+    rotationMultiplier: 0,
+  },
   [BossStateType.Dead]: {
     duration: 0,
     canBeStaggered: false,
@@ -196,6 +482,26 @@ export class BossFSM {
   private currentPattern: AttackPattern | null = null;
   private patternCooldowns: Map<string, number> = new Map();
 
+  // Combo state
+  private currentFollowUp: AttackFollowUp | null = null; // How the current attack was chained
+  private pendingFollowUp: { pattern: AttackPattern; followUp: AttackFollowUp } | null = null;
+  private chainLength: number = 0;
+  private playerRolled: boolean = false; // During the current attack
+
+  // Reactions
+  private reactions: BossReactionProfile = {};
+  private scheduledReactions: Map<BossReactionType, number> = new Map(); // Type -> react at
+  private reactionCooldowns: Map<BossReactionType, number> = new Map(); // Type -> ready at
+  private playerState: string = '';
+  private playerStamina: number = 1; // Fraction
+  private rollTimes: number[] = [];
+  private guardStartTime: number | null = null;
+  private delayedOpenersUntil: number = 0;
+  private backoffUntil: number = 0;
+
+  // Animation for the current phase transition
+  private phaseTransitionAnimation: string = 'Boss_PhaseTransition';
+
   // Target tracking
   private _targetId: string | null = null;
   private _targetDistance: number = Infinity;
@@ -206,6 +512,11 @@ export class BossFSM {
   private attackDecisionDistance: number = 8.0; // Consider attacking
   private preferredDistance: number = 3.0; // Ideal attack range
 
+  // Behavior tree (replaces the built-in Engage decisions when set)
+  private behaviorTree: BehaviorTree | null = null;
+  private approachDistance: number | null = null; // Tree override of preferredDistance
+  readonly blackboard: Blackboard = new Blackboard();
+
   // Callbacks
   private callbacks: BossFSMCallbacks = {};
 
@@ -216,6 +527,8 @@ export class BossFSM {
     if (callbacks) {
       this.callbacks = callbacks;
     }
+
+    this.resetBlackboard();
   }
 
   /**
@@ -224,7 +537,7 @@ export class BossFSM {
   update(dt: number): void {
     // Update state progress
     if (this.stateDuration > 0) {
-      this.stateProgress = (Time.elapsed - this.stateStartTime) / this.stateDuration;
+      this.stateProgress = (Time.getLocalElapsed(this.bossId) - this.stateStartTime) / this.stateDuration;
 
       // Check for state completion
       if (this.stateProgress >= 1.0) {
@@ -235,6 +548,9 @@ export class BossFSM {
     // Update cooldowns
     this.updateCooldowns(dt);
 
+    // React to the player
+    this.updateReactions();
+
     // State-specific logic
     this.updateStateLogic();
   }
@@ -252,6 +568,43 @@ export class BossFSM {
   updateTargetInfo(distance: number, angle: number): void {
     this._targetDistance = distance;
     this._targetAngle = angle;
+
+    this.blackboard.set(BlackboardKey.TargetDistance, distance);
+    this.blackboard.set(BlackboardKey.TargetAngle, (angle * 180) / Math.PI);
+  }
+
+  /**
+   * Update the boss's HP fraction (0-1) for the behavior tree
+   */
+  updateHealth(hpFraction: number): void {
+    this.blackboard.set(BlackboardKey.HpPercent, hpFraction * 100);
+  }
+
+  /**
+   * Update the observed player state (PlayerStateType) for the behavior tree
+   */
+  updatePlayerState(state: string): void {
+    this.blackboard.set(BlackboardKey.PlayerState, state);
+    this.playerState = state;
+
+    if (this.isAttacking && EVASIVE_PLAYER_STATES.includes(state)) {
+      this.playerRolled = true;
+    }
+
+    this.observePlayerState(state);
+  }
+
+  /**
+   * Update the observed player stamina fraction (0-1)
+   */
+  updatePlayerStamina(staminaFraction: number): void {
+    const previous = this.playerStamina;
+    this.playerStamina = staminaFraction;
+
+    const lowStamina = this.reactions.lowStamina;
+    if (lowStamina && previous >= lowStamina.threshold && staminaFraction < lowStamina.threshold) {
+      this.noticeCue(BossReactionType.LowStamina);
+    }
   }
 
   // ========== State Transitions ==========
@@ -304,19 +657,33 @@ export class BossFSM {
       return false;
     }
 
+    // Phase transitions must complete
+    if (this._currentState === BossStateType.PhaseTransition && this.stateProgress < 1.0) {
+      return false;
+    }
+
     return true;
   }
 
   private transition(newState: BossStateType, duration?: number): void {
     const prevState = this._currentState;
 
+    // Anything outside the attack states breaks the combo
+    if (
+      newState !== BossStateType.AttackTelegraph &&
+      newState !== BossStateType.AttackActive &&
+      newState !== BossStateType.Recover
+    ) {
+      this.clearCombo();
+    }
+
     // Exit current state
     this.callbacks.onStateExit?.(prevState, newState);
 
     // Update state
     this._previousState = prevState;
     this._currentState = newState;
-    this.stateStartTime = Time.elapsed;
+    this.stateStartTime = Time.getLocalElapsed(this.bossId);
     this.stateProgress = 0;
 
     // Set duration
@@ -347,23 +714,34 @@ export class BossFSM {
   private onStateComplete(): void {
     switch (this._currentState) {
       case BossStateType.AttackTelegraph:
-        // Start attack
-        this.transition(BossStateType.AttackActive, this.getAttackDuration());
+        if (this.currentFollowUp?.feint) {
+          // Feint: no swing, branch right away
+          this.endAttack();
+        } else {
+          // Start attack
+          this.transition(BossStateType.AttackActive, this.getAttackDuration());
+        }
         break;
 
       case BossStateType.AttackActive:
-        // Start recovery
-        const recoveryDuration = this.currentPattern?.recoveryDuration ?? 0.5;
-        this.transition(BossStateType.Recover, recoveryDuration);
+        this.endAttack();
         break;
 
       case BossStateType.Recover:
-        // Return to engage
-        this.currentPattern = null;
-        this.transition(BossStateType.Engage);
+        if (this.pendingFollowUp) {
+          // Chain into the follow-up
+          const { pattern, followUp } = this.pendingFollowUp;
+          this.pendingFollowUp = null;
+          this.startAttack(pattern, followUp);
+        } else {
+          // Return to engage
+          this.currentPattern = null;
+          this.transition(BossStateType.Engage);
+        }
         break;
 
       case BossStateType.Staggered:
+      case BossStateType.PhaseTransition:
         // Return to engage
         this.transition(BossStateType.Engage);
         break;
@@ -379,7 +757,13 @@ export class BossFSM {
         break;
 
       case BossStateType.Engage:
-        this.updateEngage();
+        if (this.isBackingOff) break; // Give the guarding player room, no attacks
+
+        if (this.behaviorTree) {
+          this.behaviorTree.tick(Time.getLocalElapsed(this.bossId));
+        } else {
+          this.updateEngage();
+        }
         break;
     }
   }
@@ -408,30 +792,263 @@ export class BossFSM {
     }
   }
 
-  // ========== Attack Selection ==========
+  // ========== Behavior Tree ==========
 
   /**
-   * Select an attack pattern based on weights and constraints
+   * Drive Engage decisions with a behavior tree (null restores the built-in loop)
+   *
+   * @throws Error if the tree uses an unknown action
    */
-  selectAttackPattern(): AttackPattern | null {
-    // Filter valid patterns based on distance and cooldown
-    const validPatterns = this.patterns.filter((pattern) => {
-      // Check distance constraints
-      if (
-        this._targetDistance < pattern.minDistance ||
-        this._targetDistance > pattern.maxDistance
-      ) {
-        return false;
+  setBehaviorTree(definition: BTNodeDef | null): void {
+    this.behaviorTree = definition
+      ? new BehaviorTree(definition, this.createTreeActions(), this.blackboard)
+      : null;
+  }
+
+  get hasBehaviorTree(): boolean {
+    return this.behaviorTree !== null;
+  }
+
+  /**
+   * Leaf actions exposing the FSM states to behavior trees
+   */
+  private createTreeActions(): Record<string, BTAction> {
+    return {
+      engage: (params) => {
+        this.approachDistance = typeof params.distance === 'number' ? params.distance : null;
+        return BTStatus.Success; // Engage keeps approaching on its own
+      },
+
+      attack: (params) => {
+        const pattern =
+          typeof params.attackId === 'string'
+            ? this.patterns.find(
+                (p) => p.attackId === params.attackId && this.isPatternAvailable(p)
+              ) ?? null
+            : this.selectAttackPattern();
+        if (!pattern) return BTStatus.Failure;
+
+        this.startAttack(pattern);
+        return BTStatus.Success;
+      },
+
+      recover: (params) => {
+        const duration = typeof params.duration === 'number' ? params.duration : 1.0;
+        this.transition(BossStateType.Recover, duration);
+        return BTStatus.Success;
+      },
+    };
+  }
+
+  private resetBlackboard(): void {
+    this.blackboard.clear();
+    this.blackboard.set(BlackboardKey.TargetDistance, Infinity);
+    this.blackboard.set(BlackboardKey.TargetAngle, 0);
+    this.blackboard.set(BlackboardKey.HpPercent, 100);
+    this.blackboard.set(BlackboardKey.PlayerState, '');
+  }
+
+  // ========== Reactions ==========
+
+  /**
+   * Set how the boss reacts to the player's state (empty profile disables reactions)
+   */
+  setReactionProfile(profile: BossReactionProfile): void {
+    this.reactions = profile;
+    this.clearReactions();
+  }
+
+  /**
+   * Track cues in a player state change
+   */
+  private observePlayerState(state: string): void {
+    const now = Time.getLocalElapsed(this.bossId);
+
+    if (state === PlayerStateType.UsingItem) {
+      this.noticeCue(BossReactionType.PunishItemUse);
+    }
+
+    const rollSpam = this.reactions.rollSpam;
+    if (state === PlayerStateType.Roll && rollSpam) {
+      this.rollTimes = this.rollTimes.filter((time) => now - time <= rollSpam.window);
+      this.rollTimes.push(now);
+      if (this.rollTimes.length >= rollSpam.rolls) {
+        this.rollTimes = [];
+        this.noticeCue(BossReactionType.RollSpam);
       }
+    }
 
-      // Check cooldown
-      const cooldownEnd = this.patternCooldowns.get(pattern.attackId) ?? 0;
-      if (Time.elapsed < cooldownEnd) {
-        return false;
+    // Guarding is timed in updateReactions
+    if (GUARDING_PLAYER_STATES.includes(state)) {
+      this.guardStartTime ??= now;
+    } else {
+      this.guardStartTime = null;
+    }
+  }
+
+  /**
+   * Roll the reaction's aggression and schedule it after its reaction time
+   */
+  private noticeCue(type: BossReactionType): void {
+    const reaction = this.getReaction(type);
+    if (!reaction || this._currentState === BossStateType.Dead) return;
+
+    const now = Time.getLocalElapsed(this.bossId);
+    if (this.scheduledReactions.has(type) || now < (this.reactionCooldowns.get(type) ?? 0)) return;
+    if (Random.next() >= reaction.aggression) return;
+
+    this.scheduledReactions.set(type, now + reaction.reactionTime);
+  }
+
+  private getReaction(type: BossReactionType): BossReaction | undefined {
+    switch (type) {
+      case BossReactionType.PunishItemUse:
+        return this.reactions.punishItemUse;
+      case BossReactionType.RollSpam:
+        return this.reactions.rollSpam;
+      case BossReactionType.GuardBackoff:
+        return this.reactions.guardBackoff;
+      case BossReactionType.LowStamina:
+        return this.reactions.lowStamina;
+    }
+  }
+
+  private updateReactions(): void {
+    if (this._currentState === BossStateType.Dead) return;
+    const now = Time.getLocalElapsed(this.bossId);
+
+    // Sustained guarding (timed again from here, so a longer guard rolls again)
+    const guardBackoff = this.reactions.guardBackoff;
+    if (
+      guardBackoff &&
+      this.guardStartTime !== null &&
+      now - this.guardStartTime >= guardBackoff.guardTime
+    ) {
+      this.guardStartTime = now;
+      this.noticeCue(BossReactionType.GuardBackoff);
+    }
+
+    // Backoff over: leap back in on the guarding player
+    if (this.backoffUntil > 0 && now >= this.backoffUntil) {
+      this.backoffUntil = 0;
+      const pattern =
+        this._currentState === BossStateType.Engage
+          ? this.selectReactionPattern(guardBackoff?.punishAttackId)
+          : null;
+      if (pattern) this.startAttack(pattern);
+    }
+
+    for (const [type, reactAt] of this.scheduledReactions) {
+      if (now < reactAt) continue;
+
+      if (this.performReaction(type, now)) {
+        this.scheduledReactions.delete(type);
+        this.reactionCooldowns.set(type, now + (this.getReaction(type)?.cooldown ?? 0));
+      } else if (!this.isCueActive(type)) {
+        // Kept waiting for a chance to act while the cue held
+        this.scheduledReactions.delete(type);
       }
+    }
+  }
 
-      return true;
-    });
+  /**
+   * Act on a due reaction
+   *
+   * @returns false if the boss can't act on it yet
+   */
+  private performReaction(type: BossReactionType, now: number): boolean {
+    switch (type) {
+      case BossReactionType.PunishItemUse: {
+        if (!this.isCueActive(type) || !this.canReactWithAttack(true)) return false;
+
+        const pattern = this.selectReactionPattern(this.reactions.punishItemUse?.attackId);
+        if (!pattern) return false;
+
+        this.backoffUntil = 0; // The opening beats the backoff
+        this.startAttack(pattern);
+        break;
+      }
+
+      case BossReactionType.LowStamina: {
+        if (!this.isCueActive(type) || !this.canReactWithAttack(false)) return false;
+
+        const pattern = this.selectReactionPattern(this.reactions.lowStamina?.attackId);
+        if (!pattern) return false;
+
+        this.backoffUntil = 0; // The opening beats the backoff
+        this.startAttack(pattern);
+        break;
+      }
+
+      case BossReactionType.RollSpam:
+        this.delayedOpenersUntil = now + (this.reactions.rollSpam?.window ?? 0);
+        break;
+
+      case BossReactionType.GuardBackoff:
+        this.backoffUntil = now + (this.reactions.guardBackoff?.duration ?? 0);
+        break;
+    }
+
+    EventBus.emit('boss:reacted', { bossId: this.bossId, reaction: type });
+    return true;
+  }
+
+  /**
+   * Check that the cue behind a pending reaction still holds
+   */
+  private isCueActive(type: BossReactionType): boolean {
+    switch (type) {
+      case BossReactionType.PunishItemUse:
+        return this.playerState === PlayerStateType.UsingItem;
+      case BossReactionType.LowStamina:
+        return this.playerStamina < (this.reactions.lowStamina?.threshold ?? 0);
+      default:
+        return true;
+    }
+  }
+
+  /**
+   * Check if a reaction may start an attack now
+   *
+   * @param cutRecovery Also allowed during a Recover that isn't waiting on a follow-up
+   */
+  private canReactWithAttack(cutRecovery: boolean): boolean {
+    if (this._currentState === BossStateType.Engage) return true;
+    return cutRecovery && this._currentState === BossStateType.Recover && !this.pendingFollowUp;
+  }
+
+  /**
+   * Preferred reaction pattern when the target is in its range, else any in-range
+   * pattern (cooldowns ignored)
+   */
+  private selectReactionPattern(attackId?: string): AttackPattern | null {
+    const preferred = this.patterns.find((p) => p.attackId === attackId);
+    return preferred && this.isPatternAvailable(preferred, true)
+      ? preferred
+      : this.selectAttackPattern(true);
+  }
+
+  private clearReactions(): void {
+    this.scheduledReactions.clear();
+    this.reactionCooldowns.clear();
+    this.rollTimes = [];
+    this.guardStartTime = null;
+    this.delayedOpenersUntil = 0;
+    this.backoffUntil = 0;
+  }
+
+  // ========== Attack Selection ==========
+
+  /**
+   * Select an attack pattern based on weights and constraints
+   *
+   * @param ignoreCooldown Pick patterns still on cooldown (reactions)
+   */
+  selectAttackPattern(ignoreCooldown: boolean = false): AttackPattern | null {
+    // Filter valid patterns based on distance and cooldown (weight 0: follow-up only)
+    const validPatterns = this.patterns.filter(
+      (pattern) => pattern.weight > 0 && this.isPatternAvailable(pattern, ignoreCooldown)
+    );
 
     if (validPatterns.length === 0) {
       return null;
@@ -441,7 +1058,7 @@ export class BossFSM {
     const totalWeight = validPatterns.reduce((sum, p) => sum + p.weight, 0);
 
     // Random selection based on weights
-    let roll = Math.random() * totalWeight;
+    let roll = Random.next() * totalWeight;
     for (const pattern of validPatterns) {
       roll -= pattern.weight;
       if (roll <= 0) {
@@ -453,28 +1070,112 @@ export class BossFSM {
     return validPatterns[validPatterns.length - 1];
   }
 
+  /**
+   * Check a pattern's distance constraints and cooldown
+   */
+  private isPatternAvailable(pattern: AttackPattern, ignoreCooldown: boolean = false): boolean {
+    if (
+      this._targetDistance < pattern.minDistance ||
+      this._targetDistance > pattern.maxDistance
+    ) {
+      return false;
+    }
+    if (ignoreCooldown) return true;
+
+    const cooldownEnd = this.patternCooldowns.get(pattern.attackId) ?? 0;
+    return Time.getLocalElapsed(this.bossId) >= cooldownEnd;
+  }
+
   /**
    * Start an attack with the given pattern
+   *
+   * @param followUp Combo branch that chained into this attack (none for an opener)
    */
-  startAttack(pattern: AttackPattern): void {
+  startAttack(pattern: AttackPattern, followUp?: AttackFollowUp): void {
     this.currentPattern = pattern;
+    this.currentFollowUp = followUp ?? null;
+    this.chainLength = followUp ? this.chainLength + 1 : 0;
+    this.playerRolled = false;
 
     // Set cooldown
-    this.patternCooldowns.set(pattern.attackId, Time.elapsed + pattern.cooldown);
+    this.patternCooldowns.set(pattern.attackId, Time.getLocalElapsed(this.bossId) + pattern.cooldown);
 
     // Notify callback
     this.callbacks.onAttackSelected?.(pattern);
 
-    // Transition to telegraph
-    this.transition(BossStateType.AttackTelegraph, pattern.telegraphDuration);
+    // Transition to telegraph (openers are delayed while reacting to roll spam)
+    const delay = followUp
+      ? followUp.telegraphDelay ?? 0
+      : this.openerTelegraphDelay(Time.getLocalElapsed(this.bossId));
+    this.transition(BossStateType.AttackTelegraph, pattern.telegraphDuration + delay);
 
     // Emit event
     EventBus.emit('debug:log', {
-      message: `Boss ${this.bossId} selected attack: ${pattern.attackId}`,
+      message: followUp
+        ? `Boss ${this.bossId} chained ${followUp.feint ? 'feint' : 'attack'}: ${pattern.attackId}`
+        : `Boss ${this.bossId} selected attack: ${pattern.attackId}`,
       level: 'info',
     });
   }
 
+  private openerTelegraphDelay(now: number): number {
+    return now < this.delayedOpenersUntil ? this.reactions.rollSpam?.telegraphDelay ?? 0 : 0;
+  }
+
+  // ========== Combos ==========
+
+  /**
+   * Attack (or feint) finished: recover, or wait out the gap before a follow-up
+   */
+  private endAttack(): void {
+    const next = this.chainLength < MAX_CHAIN_LENGTH ? this.selectFollowUp() : null;
+    this.pendingFollowUp = next;
+
+    const duration = next
+      ? next.followUp.gap ?? DEFAULT_FOLLOW_UP_GAP
+      : this.currentPattern?.recoveryDuration ?? 0.5;
+    this.transition(BossStateType.Recover, duration);
+  }
+
+  /**
+   * First follow-up of the current pattern whose trigger (and chance) passes
+   */
+  private selectFollowUp(): { pattern: AttackPattern; followUp: AttackFollowUp } | null {
+    for (const followUp of this.currentPattern?.followUps ?? []) {
+      const pattern = this.patterns.find((p) => p.attackId === followUp.attackId);
+      if (!pattern || !this.isFollowUpTriggered(followUp, pattern)) continue;
+
+      const chance = followUp.chance ?? 1;
+      if (chance < 1 && Random.next() >= chance) continue;
+
+      return { pattern, followUp };
+    }
+    return null;
+  }
+
+  private isFollowUpTriggered(followUp: AttackFollowUp, pattern: AttackPattern): boolean {
+    switch (followUp.trigger) {
+      case FollowUpTrigger.Always:
+        return true;
+      case FollowUpTrigger.TargetInRange:
+        return (
+          this._targetDistance >= pattern.minDistance &&
+          this._targetDistance <= pattern.maxDistance
+        );
+      case FollowUpTrigger.PlayerRolled:
+        return this.playerRolled;
+      default:
+        return false;
+    }
+  }
+
+  private clearCombo(): void {
+    this.currentFollowUp = null;
+    this.pendingFollowUp = null;
+    this.chainLength = 0;
+    this.playerRolled = false;
+  }
+
   /**
    * Get current attack data
    */
@@ -484,17 +1185,20 @@ export class BossFSM {
   }
 
   private getAttackDuration(): number {
-    const attackData = this.getCurrentAttackData();
-    if (!attackData) return 1.0;
-
-    // Calculate duration from active frames
-    // Assume full animation = active end + some margin
-    return attackData.activeFrames[1] + 0.2;
+    const span = this.currentPattern
+      ? AttackSystem.getActiveSpan(this.currentPattern.attackId)
+      : undefined;
+    if (!span) return 1.0;
+
+    // Calculate duration from the timeline's hitbox windows (or the volley)
+    // Assume full animation = last window end + some margin
+    const fireAt = this.currentPattern?.projectile?.fireAt ?? 0;
+    return Math.max(span[1], fireAt) + 0.2;
   }
 
   private updateCooldowns(dt: number): void {
     // Cooldowns are time-based, no need to decrement
-    // They're checked against Time.elapsed
+    // They're checked against the boss's local clock (Time.getLocalElapsed)
   }
 
   // ========== Combat Events ==========
@@ -502,13 +1206,45 @@ export class BossFSM {
   /**
    * Called when boss takes damage
    */
-  onDamaged(damage: number, poiseDamage: number, currentPoise: number): void {
+  onDamaged(
+    damage: number,
+    poiseDamage: number,
+    currentPoise: number,
+    hyperarmor: boolean = false
+  ): void {
+    // Hyperarmor keeps the attack going through a poise break
+    if (hyperarmor && this._currentState === BossStateType.AttackActive) return;
+
     // Poise break causes stagger
     if (currentPoise <= 0) {
       this.tryTransition(BossStateType.Staggered);
     }
   }
 
+  /**
+   * Called when an attack is parried (stunned, open to a riposte)
+   */
+  onParried(stunDuration: number): void {
+    if (this._currentState === BossStateType.Dead) return;
+    this.transition(BossStateType.Staggered, stunDuration);
+  }
+
+  /**
+   * Called when knocked down by a heavy hit (stays down longer than a stagger)
+   */
+  onKnockedDown(duration: number): void {
+    if (this._currentState === BossStateType.Dead) return;
+    this.transition(BossStateType.Staggered, duration);
+  }
+
+  /**
+   * Called when caught in a riposte/backstab (locked until it ends)
+   */
+  onCriticalReceived(duration: number): void {
+    if (this._currentState === BossStateType.Dead) return;
+    this.transition(BossStateType.Staggered, duration);
+  }
+
   /**
    * Called when boss dies
    */
@@ -520,6 +1256,17 @@ export class BossFSM {
     });
   }
 
+  /**
+   * Start a phase transition (interrupts anything but death)
+   */
+  startPhaseTransition(animation: string, duration: number): void {
+    if (this._currentState === BossStateType.Dead) return;
+
+    this.currentPattern = null;
+    this.phaseTransitionAnimation = animation;
+    this.transition(BossStateType.PhaseTransition, duration);
+  }
+
   /**
    * Called when boss receives plunge attack
    */
@@ -558,6 +1305,27 @@ export class BossFSM {
     return this.currentPattern;
   }
 
+  /**
+   * Follow-ups chained since the opening attack (0 for the opener)
+   */
+  get comboLength(): number {
+    return this.chainLength;
+  }
+
+  /**
+   * Check if the current telegraph is a feint
+   */
+  get isFeint(): boolean {
+    return this.currentFollowUp?.feint === true;
+  }
+
+  /**
+   * Check if the boss is giving a guarding player room
+   */
+  get isBackingOff(): boolean {
+    return Time.getLocalElapsed(this.bossId) < this.backoffUntil;
+  }
+
   /**
    * Get target entity ID
    */
@@ -634,6 +1402,8 @@ export class BossFSM {
         return 'Boss_Recover';
       case BossStateType.Staggered:
         return 'Boss_Stagger';
+      case BossStateType.PhaseTransition:
+        return this.phaseTransitionAnimation;
       case BossStateType.Dead:
         return 'Boss_Death';
       default:
@@ -704,7 +1474,10 @@ export class BossFSM {
    * Get preferred distance
    */
   getPreferredDistance(): number {
-    return this.preferredDistance;
+    if (this.isBackingOff) {
+      return Math.max(this.reactions.guardBackoff?.distance ?? 0, this.preferredDistance);
+    }
+    return this.approachDistance ?? this.preferredDistance;
   }
 
   /**
@@ -728,6 +1501,13 @@ export class BossFSM {
     this.patterns = patterns;
   }
 
+  /**
+   * Get current patterns
+   */
+  getPatterns(): AttackPattern[] {
+    return this.patterns;
+  }
+
   /**
    * Reset FSM to initial state
    */
@@ -739,8 +1519,15 @@ export class BossFSM {
     this.stateDuration = 0;
     this.currentPattern = null;
     this.patternCooldowns.clear();
+    this.clearCombo();
     this._targetId = null;
     this._targetDistance = Infinity;
     this._targetAngle = 0;
+    this.behaviorTree?.reset();
+    this.approachDistance = null;
+    this.resetBlackboard();
+    this.clearReactions();
+    this.playerState = '';
+    this.playerStamina = 1;
   }
 }
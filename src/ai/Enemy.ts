@@ -0,0 +1,1127 @@
+/**
+ * Enemy Entity
+ *
+ * Manages a regular (non-boss) enemy built from an EnemyArchetype:
+ * - 3D mesh and kinematic collider (registered like the boss)
+ * - Health, poise, guard stamina and combat state
+ * - EnemyFSM for AI behavior (patrol, aggro, chase, guard, attack, leash)
+ * - Patrol route walked in a loop, pausing at each waypoint
+ * - Leashing back to the spawn point (recovers HP on arrival)
+ * - NavMesh path following for chase, patrol and return (straight without one)
+ * - Souls (DamageSystem soulValue) and item drops on death
+ *
+ * Usage:
+ * - const enemy = new Enemy({ id, archetype: getEnemyArchetype('hollow_soldier')!, position })
+ * - enemy.spawn(scene); enemy.setTarget(playerId, playerPosition)
+ * - enemy.updateTargetPosition(pos); enemy.update(dt) every fixed tick
+ *
+ * Dropped items are pickup triggers next to the corpse; uncollected drops
+ * are removed with the enemy when it despawns.
+ *
+ * Events emitted:
+ * - 'enemy:damaged', 'enemy:died', 'enemy:itemDropped'
+ * - 'enemy:aggro', 'enemy:leashed' (from EnemyFSM)
+ */
+
+import * as THREE from 'three';
+import RAPIER from '@dimforge/rapier3d-compat';
+import { Time } from '../core/Time';
+import { Random } from '../core/Random';
+import { EventBus } from '../core/EventBus';
+import { PhysicsWorld } from '../physics/PhysicsWorld';
+import { CollisionGroups } from '../physics/CollisionGroups';
+import {
+  DamageSystem,
+  EntityCombatState,
+  DamageRequest,
+  DamageResult,
+} from '../combat/DamageSystem';
+import { StatusEffectSystem } from '../combat/StatusEffectSystem';
+import { CriticalSystem, Critical, CriticalRole } from '../combat/CriticalSystem';
+import {
+  HitReaction,
+  KnockbackState,
+  resolveHitReaction,
+  getKnockbackVelocity,
+} from '../combat/HitReaction';
+import { AttackSystem, ActiveAttack, WeaponSockets } from '../combat/AttackSystem';
+import { AttackCue, AttackCueType } from '../combat/AttackTimeline';
+import { ProjectileSystem } from '../combat/ProjectileSystem';
+import { TriggerManager, TriggerShape } from '../level/TriggerVolume';
+import { NavMesh } from '../level/NavMesh';
+import { getItem } from '../items/ItemData';
+import type { PatternProjectile } from './BossFSM';
+import { EnemyFSM, EnemyStateType } from './EnemyFSM';
+import type { EnemyArchetype } from './EnemyData';
+import { PathFollower } from './PathFollower';
+
+/**
+ * Enemy configuration
+ */
+export interface EnemyConfig {
+  // Identity (unique per spawned enemy, e.g. the spawner ID)
+  id: string;
+  archetype: EnemyArchetype;
+
+  // Spawn point (leash home)
+  position: THREE.Vector3;
+  rotation?: number; // Y rotation in radians
+
+  // Patrol waypoints, walked in a loop (optional, stands at home if omitted)
+  patrolRoute?: THREE.Vector3[];
+}
+
+/**
+ * Staggered duration after a knockdown (seconds)
+ */
+const ENEMY_KNOCKDOWN_DURATION = 2.0;
+
+/**
+ * Distance at which a waypoint (or home) counts as reached
+ */
+const WAYPOINT_REACHED_DISTANCE = 0.3;
+
+/**
+ * Sight ray heights (eyes near the top of the collider, target's chest)
+ */
+const EYE_HEIGHT_RATIO = 0.9;
+const TARGET_CHEST_HEIGHT = 1.0;
+
+/**
+ * Dropped item pickup
+ */
+const DROP_PICKUP_RADIUS = 1.0;
+const DROP_COLOR = 0xf2e6b8;
+
+/**
+ * Enemy entity class
+ */
+export class Enemy {
+  // Unique suffix for drop trigger IDs (respawned enemies reuse their ID)
+  private static nextDropId = 0;
+
+  // Identity
+  readonly id: string;
+  readonly archetype: EnemyArchetype;
+
+  // Scene objects
+  private scene: THREE.Scene | null = null;
+  private _mesh: THREE.Group | null = null;
+  private _rigidBody: RAPIER.RigidBody | null = null;
+  private _collider: RAPIER.Collider | null = null;
+
+  // Position/rotation
+  private _position: THREE.Vector3 = new THREE.Vector3();
+  private _rotation: number = 0; // Y rotation
+  private readonly homePosition: THREE.Vector3 = new THREE.Vector3();
+  private readonly homeRotation: number;
+
+  // Patrol
+  private readonly patrolRoute: THREE.Vector3[];
+  private waypointIndex: number = 0;
+  private patrolWaitRemaining: number = 0;
+
+  // Stats
+  private _currentHP: number;
+  private _currentPoise: number;
+  private _currentStamina: number;
+  private lastPoiseHitTime: number = 0;
+
+  // Movement
+  private knockback: KnockbackState = new KnockbackState();
+  private pathFollower: PathFollower;
+  private lungeVelocity: THREE.Vector3 = new THREE.Vector3();
+  private lungeRemaining: number = 0;
+
+  // FSM
+  private _fsm: EnemyFSM;
+
+  // Attack state
+  private activeAttack: ActiveAttack | null = null;
+  private weaponSockets: WeaponSockets = {
+    base: new THREE.Vector3(),
+    tip: new THREE.Vector3(),
+    root: new THREE.Vector3(),
+  };
+  private volleyFired: boolean = false;
+
+  // Target tracking
+  private _targetPosition: THREE.Vector3 = new THREE.Vector3();
+  private _targetId: string | null = null;
+
+  // Dropped items (trigger ID -> marker mesh)
+  private drops: Map<string, THREE.Mesh> = new Map();
+
+  // State
+  private _isSpawned: boolean = false;
+  private _isDead: boolean = false;
+
+  constructor(config: EnemyConfig) {
+    this.id = config.id;
+    this.archetype = config.archetype;
+
+    this._position.copy(config.position);
+    this.homePosition.copy(config.position);
+    this._rotation = config.rotation ?? 0;
+    this.homeRotation = this._rotation;
+    this.patrolRoute = config.patrolRoute?.map((point) => point.clone()) ?? [];
+
+    this._currentHP = this.archetype.maxHP;
+    this._currentPoise = this.archetype.maxPoise;
+    this._currentStamina = this.archetype.maxStamina;
+    this.pathFollower = new PathFollower(this.archetype.colliderRadius);
+
+    this._fsm = new EnemyFSM(this.id, this.archetype, this.patrolRoute.length > 0, {
+      onStateEnter: this.onStateEnter.bind(this),
+      onStateExit: this.onStateExit.bind(this),
+      onAnimationTrigger: this.onAnimationTrigger.bind(this),
+    });
+  }
+
+  /**
+   * Spawn the enemy into the world
+   */
+  spawn(scene: THREE.Scene): void {
+    if (this._isSpawned) return;
+
+    this.scene = scene;
+
+    // Create placeholder mesh (replace with actual model)
+    this._mesh = this.createPlaceholderMesh();
+    this._mesh.position.copy(this._position);
+    this._mesh.rotation.y = this._rotation;
+    scene.add(this._mesh);
+
+    // Create physics body
+    this.createPhysicsBody();
+
+    // Register with damage system
+    this.registerWithDamageSystem();
+    this.registerCriticalParticipant();
+
+    this._isSpawned = true;
+
+    EventBus.emit('debug:log', {
+      message: `Enemy ${this.id} (${this.archetype.id}) spawned at ${this._position.toArray()}`,
+      level: 'info',
+    });
+  }
+
+  /**
+   * Despawn the enemy (and its uncollected drops) from the world
+   */
+  despawn(scene: THREE.Scene): void {
+    if (!this._isSpawned) return;
+
+    if (this.activeAttack) {
+      AttackSystem.cancelAttacks(this.id);
+      this.activeAttack = null;
+    }
+
+    // Remove mesh
+    if (this._mesh) {
+      scene.remove(this._mesh);
+      this._mesh = null;
+    }
+
+    for (const triggerId of [...this.drops.keys()]) {
+      this.removeDrop(triggerId);
+    }
+
+    // Remove physics
+    this.removePhysicsBody();
+
+    // Unregister from damage system
+    DamageSystem.unregisterEntity(this.id);
+    StatusEffectSystem.removeEntity(this.id);
+    CriticalSystem.unregisterParticipant(this.id);
+    Time.removeLocalClock(this.id);
+
+    this.scene = null;
+    this._isSpawned = false;
+  }
+
+  /**
+   * Update the enemy (call every fixed tick)
+   */
+  update(dt: number): void {
+    if (!this._isSpawned || this._isDead) return;
+
+    // Hit-stop / time dilation
+    dt = Time.localDelta(this.id, dt);
+
+    // Perception and leash distance for FSM
+    this.updateTargetInfo();
+
+    // Update FSM
+    this._fsm.update(dt);
+
+    // Update movement
+    this.updateMovement(dt);
+    this.updateKnockback(dt);
+    this.updateLunge(dt);
+
+    // Update attack
+    this.updateAttack();
+
+    // Update poise/stamina recovery
+    this.updatePoiseRecovery(dt);
+    this.updateStaminaRegen(dt);
+
+    // Sync mesh with physics
+    this.syncMeshWithPhysics();
+
+    // Update damage system state
+    this.updateDamageSystemState();
+  }
+
+  /**
+   * Set target entity
+   */
+  setTarget(targetId: string | null, position?: THREE.Vector3): void {
+    this._targetId = targetId;
+    this._fsm.setTarget(targetId);
+
+    if (position) {
+      this._targetPosition.copy(position);
+    }
+  }
+
+  /**
+   * Update target position (call when target moves)
+   */
+  updateTargetPosition(position: THREE.Vector3): void {
+    this._targetPosition.copy(position);
+  }
+
+  // ========== Private Methods ==========
+
+  private createPlaceholderMesh(): THREE.Group {
+    const { colliderRadius: radius, colliderHeight: height } = this.archetype;
+    const group = new THREE.Group();
+
+    // Body
+    const body = new THREE.Mesh(
+      new THREE.CylinderGeometry(radius, radius, height - radius * 2, 12),
+      new THREE.MeshStandardMaterial({ color: this.archetype.color, roughness: 0.9 })
+    );
+    body.position.y = height / 2;
+    group.add(body);
+
+    // Head
+    const head = new THREE.Mesh(
+      new THREE.SphereGeometry(radius * 0.6, 12, 12),
+      new THREE.MeshStandardMaterial({ color: 0x8a7f6a, roughness: 0.8 })
+    );
+    head.position.y = height - radius * 0.3;
+    group.add(head);
+
+    // Weapon
+    const weapon = new THREE.Mesh(
+      new THREE.BoxGeometry(0.08, this.archetype.weaponLength, 0.08),
+      new THREE.MeshStandardMaterial({ color: 0x555555, metalness: 0.7 })
+    );
+    weapon.position.set(radius + 0.15, height * 0.5, 0.2);
+    weapon.rotation.x = Math.PI / 3;
+    weapon.name = 'weapon';
+    group.add(weapon);
+
+    // Shield (guarding archetypes)
+    if (this.archetype.guard) {
+      const shield = new THREE.Mesh(
+        new THREE.BoxGeometry(0.5, 0.7, 0.08),
+        new THREE.MeshStandardMaterial({ color: 0x4a3a2a, roughness: 0.9 })
+      );
+      shield.position.set(-radius - 0.1, height * 0.55, 0.2);
+      shield.name = 'shield';
+      group.add(shield);
+    }
+
+    return group;
+  }
+
+  private createPhysicsBody(): void {
+    const { colliderRadius: radius, colliderHeight: height } = this.archetype;
+
+    // Main collider (capsule), on a kinematic body
+    const colliderDesc = RAPIER.ColliderDesc.capsule((height - radius * 2) / 2, radius)
+      .setTranslation(0, height / 2, 0)
+      .setCollisionGroups(CollisionGroups.ENEMY);
+
+    const { rigidBody, collider } = PhysicsWorld.createKinematicBody(
+      this._position,
+      colliderDesc,
+      this.id
+    );
+    this._rigidBody = rigidBody;
+    this._collider = collider;
+  }
+
+  private removePhysicsBody(): void {
+    if (this._rigidBody) {
+      PhysicsWorld.removeBody(this._rigidBody);
+      this._rigidBody = null;
+      this._collider = null;
+    }
+  }
+
+  private registerWithDamageSystem(): void {
+    const guard = this.archetype.guard;
+    const combatState: EntityCombatState = {
+      entityId: this.id,
+      currentHP: this._currentHP,
+      maxHP: this.archetype.maxHP,
+      currentStamina: this._currentStamina,
+      maxStamina: this.archetype.maxStamina,
+      currentPoise: this._currentPoise,
+      maxPoise: this.archetype.maxPoise,
+      isGuarding: false,
+      isParrying: false,
+      isDead: this._isDead,
+      guardStability: guard?.stability,
+      guardDamageReduction: guard?.damageReduction,
+      guardArc: guard?.arc,
+      getFacing: () => this.getForward(),
+      soulValue: this.archetype.souls,
+      onTakeDamage: this.onTakeDamage.bind(this),
+      onDie: this.onDie.bind(this),
+      onStagger: this.onStagger.bind(this),
+      onGuardHit: this.onGuardHit.bind(this),
+      onGuardBreak: () => this._fsm.onGuardBroken(),
+      hasHyperarmor: () =>
+        this._fsm.currentState === EnemyStateType.AttackActive &&
+        AttackSystem.hasHyperarmor(this.id),
+    };
+
+    DamageSystem.registerEntity(combatState);
+  }
+
+  private registerCriticalParticipant(): void {
+    CriticalSystem.registerParticipant({
+      entityId: this.id,
+      radius: this.archetype.colliderRadius,
+      getPosition: () => this.position,
+      getForward: () => this.getForward(),
+      canBeBackstabbed: this.archetype.canBeBackstabbed ?? true,
+      isStaggered: () => this._fsm.currentState === EnemyStateType.Staggered,
+      onParried: (stunDuration) => this._fsm.onParried(stunDuration),
+      onCriticalStart: this.onCriticalStart.bind(this),
+    });
+  }
+
+  /**
+   * Locked as a riposte/backstab victim: face the attacker's sync direction
+   */
+  private onCriticalStart(critical: Critical, role: CriticalRole): void {
+    if (role !== 'victim') return;
+
+    this.setRotation(Math.atan2(critical.victimFacing.x, critical.victimFacing.z));
+    this._fsm.onCriticalReceived(critical.definition.duration);
+  }
+
+  private updateDamageSystemState(): void {
+    DamageSystem.updateEntityState(this.id, {
+      currentHP: this._currentHP,
+      currentPoise: this._currentPoise,
+      currentStamina: this._currentStamina,
+      isGuarding: this._fsm.isGuarding,
+      isDead: this._isDead,
+    });
+  }
+
+  // ========== Perception ==========
+
+  private updateTargetInfo(): void {
+    this._fsm.updateHomeDistance(this.horizontalDistanceTo(this.homePosition));
+
+    // A dead target is as good as lost
+    if (!this._targetId || DamageSystem.getEntityState(this._targetId)?.isDead) {
+      this._fsm.updateTargetInfo(Infinity, 0, false);
+      return;
+    }
+
+    const toTarget = this._targetPosition.clone().sub(this._position);
+    const distance = toTarget.length();
+    const angle = this.getForward().angleTo(toTarget.setY(0).normalize());
+    const visible = distance <= this.archetype.sightRange && this.hasLineOfSight();
+
+    this._fsm.updateTargetInfo(distance, angle, visible);
+  }
+
+  /**
+   * Check that no level geometry blocks the view of the target
+   */
+  private hasLineOfSight(): boolean {
+    const eye = this._position.clone();
+    eye.y += this.archetype.colliderHeight * EYE_HEIGHT_RATIO;
+
+    const targetPoint = this._targetPosition.clone();
+    targetPoint.y += TARGET_CHEST_HEIGHT;
+
+    const toTarget = targetPoint.sub(eye);
+    const distance = toTarget.length();
+    if (distance <= 0) return true;
+
+    const hit = PhysicsWorld.castRay(
+      eye,
+      toTarget.divideScalar(distance),
+      distance,
+      CollisionGroups.ENEMY_MOVEMENT_QUERY,
+      this._collider ? [this._collider] : undefined
+    );
+
+    return hit === null;
+  }
+
+  // ========== Movement ==========
+
+  private updateMovement(dt: number): void {
+    const state = this._fsm.currentState;
+    const speedScale = this._fsm.movementMultiplier;
+
+    switch (state) {
+      case EnemyStateType.Idle:
+        this.turnToward(this.homeRotation, dt);
+        break;
+
+      case EnemyStateType.Patrol:
+        this.updatePatrol(dt);
+        break;
+
+      case EnemyStateType.Chase:
+      case EnemyStateType.Guard:
+        this.moveToward(
+          this._targetPosition,
+          this.archetype.runSpeed * speedScale,
+          this._fsm.getPreferredDistance(),
+          dt
+        );
+        break;
+
+      case EnemyStateType.Return:
+        if (
+          this.moveToward(
+            this.homePosition,
+            this.archetype.walkSpeed,
+            WAYPOINT_REACHED_DISTANCE,
+            dt
+          )
+        ) {
+          this._fsm.onReturnedHome();
+        }
+        break;
+
+      case EnemyStateType.AttackTelegraph:
+      case EnemyStateType.Recover:
+        // Track the target while winding up / recovering
+        this.turnToward(this.getRotationToward(this._targetPosition), dt);
+        break;
+    }
+  }
+
+  /**
+   * Walk the patrol route in a loop, pausing at each waypoint
+   */
+  private updatePatrol(dt: number): void {
+    if (this.patrolRoute.length === 0) return;
+
+    if (this.patrolWaitRemaining > 0) {
+      this.patrolWaitRemaining -= dt;
+      return;
+    }
+
+    const waypoint = this.patrolRoute[this.waypointIndex];
+    if (this.moveToward(waypoint, this.archetype.walkSpeed, WAYPOINT_REACHED_DISTANCE, dt)) {
+      this.waypointIndex = (this.waypointIndex + 1) % this.patrolRoute.length;
+      this.patrolWaitRemaining = this.archetype.patrolWait;
+    }
+  }
+
+  /**
+   * Turn toward a point (via NavMesh waypoints) and walk forward until within stopDistance
+   *
+   * @returns true if already within stopDistance
+   */
+  private moveToward(
+    point: THREE.Vector3,
+    speed: number,
+    stopDistance: number,
+    dt: number
+  ): boolean {
+    if (this.horizontalDistanceTo(point) <= stopDistance) return true;
+
+    const steerPoint = this.pathFollower.steer(
+      this._position,
+      point,
+      Time.getLocalElapsed(this.id)
+    );
+    this.turnToward(this.getRotationToward(steerPoint), dt);
+    if (speed > 0) {
+      this.moveAgainstWalls(this.getForward().multiplyScalar(speed * dt));
+
+      // Follow the walkable surface (ramps)
+      const groundHeight = NavMesh.sampleHeight(this._position);
+      if (groundHeight !== null) {
+        this._position.y = groundHeight;
+      }
+    }
+    return false;
+  }
+
+  private turnToward(targetRotation: number, dt: number): void {
+    const rotationDiff = this.normalizeAngle(targetRotation - this._rotation);
+    const rotationStep = this.archetype.turnSpeed * this._fsm.rotationMultiplier * dt;
+
+    if (Math.abs(rotationDiff) > rotationStep) {
+      this._rotation += Math.sign(rotationDiff) * rotationStep;
+    } else {
+      this._rotation = targetRotation;
+    }
+  }
+
+  private getRotationToward(point: THREE.Vector3): number {
+    return Math.atan2(point.x - this._position.x, point.z - this._position.z);
+  }
+
+  private horizontalDistanceTo(point: THREE.Vector3): number {
+    return Math.hypot(point.x - this._position.x, point.z - this._position.z);
+  }
+
+  private getForward(): THREE.Vector3 {
+    return new THREE.Vector3(0, 0, 1).applyAxisAngle(new THREE.Vector3(0, 1, 0), this._rotation);
+  }
+
+  /**
+   * Slide along the knockback push, stopping at walls
+   */
+  private updateKnockback(dt: number): void {
+    if (!this.knockback.active) return;
+
+    if (this.moveAgainstWalls(this.knockback.step(dt))) {
+      this.knockback.clear();
+    }
+  }
+
+  /**
+   * Move along the attack lunge, stopping at walls
+   */
+  private updateLunge(dt: number): void {
+    if (this.lungeRemaining <= 0) return;
+
+    const step = Math.min(dt, this.lungeRemaining);
+    this.lungeRemaining -= step;
+
+    if (this.moveAgainstWalls(this.lungeVelocity.clone().multiplyScalar(step))) {
+      this.lungeRemaining = 0;
+    }
+  }
+
+  /**
+   * Move horizontally, stopping just short of walls
+   *
+   * @returns true if a wall blocked the move
+   */
+  private moveAgainstWalls(displacement: THREE.Vector3): boolean {
+    const distance = displacement.length();
+    if (distance <= 0) return false;
+
+    const direction = displacement.divideScalar(distance);
+    const center = this._position.clone();
+    center.y += this.archetype.colliderHeight / 2;
+
+    const hit = PhysicsWorld.shapeCast(
+      new RAPIER.Ball(this.archetype.colliderRadius),
+      center,
+      direction,
+      distance,
+      CollisionGroups.ENEMY_MOVEMENT_QUERY,
+      this._collider ? [this._collider] : undefined
+    );
+
+    if (hit) {
+      // Stop just short of the wall
+      this._position.addScaledVector(direction, Math.max(0, hit.timeOfImpact - 0.01));
+      return true;
+    }
+
+    this._position.addScaledVector(direction, distance);
+    return false;
+  }
+
+  private normalizeAngle(angle: number): number {
+    while (angle > Math.PI) angle -= Math.PI * 2;
+    while (angle < -Math.PI) angle += Math.PI * 2;
+    return angle;
+  }
+
+  // ========== Attacks ==========
+
+  private updateAttack(): void {
+    const state = this._fsm.currentState;
+
+    // Start attack when entering AttackActive
+    if (state === EnemyStateType.AttackActive && !this.activeAttack) {
+      this.startAttackExecution();
+    }
+
+    // Update active attack (hits are applied by AttackSystem -> DamageSystem)
+    if (this.activeAttack) {
+      this.updateWeaponSockets();
+
+      AttackSystem.updateAttack(
+        this.activeAttack,
+        this._fsm.progress,
+        this.weaponSockets,
+        CollisionGroups.ENEMY_ATTACK_QUERY
+      );
+
+      const volley = this._fsm.attackPattern?.projectile;
+      if (volley && !this.volleyFired && this._fsm.progress >= volley.fireAt) {
+        this.fireVolley(volley);
+      }
+    }
+
+    // End attack when leaving AttackActive
+    if (state !== EnemyStateType.AttackActive && this.activeAttack) {
+      AttackSystem.endAttack(this.activeAttack);
+      this.activeAttack = null;
+      this.lungeRemaining = 0;
+    }
+  }
+
+  private startAttackExecution(): void {
+    const pattern = this._fsm.attackPattern;
+    if (!pattern || !this._collider) return;
+
+    this.updateWeaponSockets();
+
+    this.activeAttack = AttackSystem.startAttack(
+      this.id,
+      pattern.attackId,
+      this._collider,
+      this.weaponSockets,
+      this.getForward(),
+      this.handleAttackCue.bind(this)
+    );
+    this.volleyFired = false;
+  }
+
+  /**
+   * Fire the projectiles of a ranged attack pattern, fanned around the target direction
+   */
+  private fireVolley(volley: PatternProjectile): void {
+    this.volleyFired = true;
+
+    const origin = this.weaponSockets.base.clone();
+    const aimPoint = this._targetPosition.clone();
+    aimPoint.y += TARGET_CHEST_HEIGHT;
+    const aim = aimPoint.sub(origin).normalize();
+    if (aim.lengthSq() < 1e-6) {
+      aim.copy(this.getForward());
+    }
+
+    const count = volley.count ?? 1;
+    const spread = THREE.MathUtils.degToRad(volley.spreadAngle ?? 0);
+    const up = new THREE.Vector3(0, 1, 0);
+
+    for (let i = 0; i < count; i++) {
+      const direction = aim.clone().applyAxisAngle(up, (i - (count - 1) / 2) * spread);
+      ProjectileSystem.spawn(volley.projectileId, this.id, origin, direction, {
+        side: 'enemy',
+        homingTarget: volley.homing === false ? undefined : () => this._targetPosition,
+      });
+    }
+  }
+
+  /**
+   * Act on attack timeline cues that move the enemy
+   */
+  private handleAttackCue(cue: AttackCue, attack: ActiveAttack): void {
+    if (cue.type === AttackCueType.Lunge) {
+      this.lungeVelocity
+        .set(attack.attackDirection.x, 0, attack.attackDirection.z)
+        .normalize()
+        .multiplyScalar(cue.speed ?? 0);
+      this.lungeRemaining = cue.duration ?? 0;
+    }
+  }
+
+  private updateWeaponSockets(): void {
+    const { colliderRadius: radius, colliderHeight: height, weaponLength } = this.archetype;
+    const up = new THREE.Vector3(0, 1, 0);
+    const forward = this.getForward();
+    const right = new THREE.Vector3(1, 0, 0).applyAxisAngle(up, this._rotation);
+
+    this.weaponSockets.root?.copy(this._position);
+
+    // Base: hand at chest height, on the weapon side
+    this.weaponSockets.base.copy(this._position);
+    this.weaponSockets.base.y += height * 0.6;
+    this.weaponSockets.base.addScaledVector(right, radius * 0.8);
+
+    // Tip: held forward (thrusts stay straight)
+    const bladeDir = forward.clone();
+
+    // Slashes sweep the blade from the weapon side across the front
+    if (this.activeAttack && this._fsm.attackPattern?.attackId === 'hollow_slash') {
+      const sweepAngle = (0.45 - this._fsm.progress) * Math.PI * 1.5;
+      bladeDir.applyAxisAngle(up, sweepAngle);
+    }
+
+    this.weaponSockets.tip.copy(this.weaponSockets.base);
+    this.weaponSockets.tip.addScaledVector(bladeDir, weaponLength + radius);
+  }
+
+  // ========== Recovery ==========
+
+  private updatePoiseRecovery(dt: number): void {
+    // Only recover if not recently hit
+    if (
+      Time.getLocalElapsed(this.id) - this.lastPoiseHitTime <
+      this.archetype.poiseRecoveryDelay
+    ) {
+      return;
+    }
+
+    if (this._currentPoise < this.archetype.maxPoise) {
+      this._currentPoise = Math.min(
+        this.archetype.maxPoise,
+        this._currentPoise + this.archetype.poiseRecoveryRate * dt
+      );
+    }
+  }
+
+  private updateStaminaRegen(dt: number): void {
+    if (this._currentStamina < this.archetype.maxStamina) {
+      this._currentStamina = Math.min(
+        this.archetype.maxStamina,
+        this._currentStamina + this.archetype.staminaRegenRate * dt
+      );
+    }
+  }
+
+  /**
+   * Back home after leashing: full HP, poise and stamina
+   */
+  private recoverAtHome(): void {
+    this._currentHP = this.archetype.maxHP;
+    this._currentPoise = this.archetype.maxPoise;
+    this._currentStamina = this.archetype.maxStamina;
+    this.patrolWaitRemaining = 0;
+    DamageSystem.resetPoise(this.id);
+    this.updateDamageSystemState();
+  }
+
+  private syncMeshWithPhysics(): void {
+    if (!this._mesh) return;
+
+    this._mesh.position.copy(this._position);
+    this._mesh.rotation.y = this._rotation;
+
+    // Update rigid body
+    if (this._rigidBody) {
+      this._rigidBody.setNextKinematicTranslation({
+        x: this._position.x,
+        y: this._position.y,
+        z: this._position.z,
+      });
+    }
+  }
+
+  // ========== Drops ==========
+
+  /**
+   * Roll the archetype's drop table at the corpse
+   */
+  private dropItems(): void {
+    const drops = this.archetype.drops ?? [];
+
+    drops.forEach((drop, index) => {
+      if (Random.next() >= drop.chance) return;
+
+      // Fan multiple drops around the corpse
+      const offset = new THREE.Vector3(0.4, 0, 0).applyAxisAngle(
+        new THREE.Vector3(0, 1, 0),
+        (index / Math.max(1, drops.length)) * Math.PI * 2
+      );
+      this.spawnDrop(drop.itemId, this._position.clone().add(offset));
+    });
+  }
+
+  private spawnDrop(itemId: string, position: THREE.Vector3): void {
+    const triggerId = `${this.id}_drop_${Enemy.nextDropId++}`;
+
+    const marker = new THREE.Mesh(
+      new THREE.SphereGeometry(0.15, 10, 8),
+      new THREE.MeshBasicMaterial({ color: DROP_COLOR, transparent: true, opacity: 0.9 })
+    );
+    marker.position.copy(position);
+    marker.position.y += 0.3;
+    this.scene?.add(marker);
+    this.drops.set(triggerId, marker);
+
+    const trigger = TriggerManager.create(
+      {
+        id: triggerId,
+        position: position.clone(),
+        shape: TriggerShape.Sphere,
+        radius: DROP_PICKUP_RADIUS,
+        oneShot: true,
+      },
+      {
+        onEnter: (entityId) => {
+          if (entityId !== 'player') return;
+
+          EventBus.emit('item:pickup', {
+            itemId,
+            itemType: getItem(itemId)?.type ?? '',
+          });
+          this.removeDrop(triggerId);
+        },
+      }
+    );
+    trigger.spawn();
+
+    const { x, y, z } = position;
+    EventBus.emit('enemy:itemDropped', { enemyId: this.id, itemId, position: { x, y, z } });
+  }
+
+  private removeDrop(triggerId: string): void {
+    const marker = this.drops.get(triggerId);
+    if (!marker) return;
+
+    marker.removeFromParent();
+    marker.geometry.dispose();
+    (marker.material as THREE.Material).dispose();
+    this.drops.delete(triggerId);
+    TriggerManager.remove(triggerId);
+  }
+
+  // ========== Callbacks ==========
+
+  private onStateEnter(state: EnemyStateType, prevState: EnemyStateType): void {
+    if (state === EnemyStateType.Staggered && this.activeAttack) {
+      // Cancel any active attack
+      AttackSystem.cancelAttacks(this.id);
+      this.activeAttack = null;
+    }
+
+    if (prevState === EnemyStateType.Return && !this._fsm.isAggro) {
+      this.recoverAtHome();
+    }
+  }
+
+  private onStateExit(state: EnemyStateType, nextState: EnemyStateType): void {
+    if (state === EnemyStateType.Staggered) {
+      // Reset poise after stagger
+      DamageSystem.resetPoise(this.id);
+      this._currentPoise = this.archetype.maxPoise;
+    }
+  }
+
+  private onAnimationTrigger(animationName: string, options?: { loop?: boolean }): void {
+    // Would trigger actual animation here
+    EventBus.emit('debug:log', {
+      message: `Enemy ${this.id} animation: ${animationName}`,
+      level: 'info',
+    });
+  }
+
+  private onTakeDamage(result: DamageResult): void {
+    this._currentHP = Math.max(0, this._currentHP - result.finalDamage);
+    this._currentPoise -= result.poiseDamage;
+    this.lastPoiseHitTime = Time.getLocalElapsed(this.id);
+
+    // Notify FSM
+    this._fsm.onDamaged(this._currentPoise, result.hyperarmor);
+
+    // Hyperarmor tanks the hit: no push, no knockdown
+    if (!this._isDead && !result.hyperarmor) {
+      this.applyHitReaction(result);
+    }
+
+    EventBus.emit('enemy:damaged', {
+      enemyId: this.id,
+      damage: result.finalDamage,
+      currentHp: this._currentHP,
+      maxHp: this.archetype.maxHP,
+    });
+  }
+
+  /**
+   * Push along the hit direction; heavy poise-breaking hits knock the enemy down
+   */
+  private applyHitReaction(result: DamageResult): void {
+    const knockbackForce = result.knockbackForce * (1 - (this.archetype.knockbackResistance ?? 0));
+    const reaction = resolveHitReaction(
+      knockbackForce,
+      result.poiseDamage,
+      result.targetStaggered || this._currentPoise <= 0
+    );
+
+    if (result.hitDirection && knockbackForce > 0) {
+      this.knockback.apply(getKnockbackVelocity(result.hitDirection, knockbackForce, reaction));
+    }
+
+    // Kinematic bodies are never launched; both heavy reactions keep them down
+    if (reaction === HitReaction.Knockdown || reaction === HitReaction.Launch) {
+      this._fsm.onKnockedDown(ENEMY_KNOCKDOWN_DURATION);
+    }
+  }
+
+  /**
+   * Blocked hit: pay the guard stamina and slide back
+   */
+  private onGuardHit(request: DamageRequest, staminaCost: number): void {
+    this._currentStamina = Math.max(0, this._currentStamina - staminaCost);
+
+    const knockbackForce = request.knockbackForce ?? 0;
+    if (request.hitDirection && knockbackForce > 0) {
+      this.knockback.apply(
+        getKnockbackVelocity(request.hitDirection, knockbackForce, HitReaction.Flinch)
+      );
+    }
+  }
+
+  private onDie(): void {
+    this._isDead = true;
+    this._fsm.onDeath();
+
+    // Cancel any active attack
+    if (this.activeAttack) {
+      AttackSystem.cancelAttacks(this.id);
+      this.activeAttack = null;
+    }
+
+    // The corpse doesn't block movement
+    this._collider?.setEnabled(false);
+
+    this.dropItems();
+
+    const { x, y, z } = this._position;
+    EventBus.emit('enemy:died', {
+      enemyId: this.id,
+      archetype: this.archetype.id,
+      position: { x, y, z },
+    });
+  }
+
+  private onStagger(): void {
+    this._fsm.tryTransition(EnemyStateType.Staggered);
+  }
+
+  // ========== Public API ==========
+
+  /**
+   * Get mesh
+   */
+  get mesh(): THREE.Group | null {
+    return this._mesh;
+  }
+
+  /**
+   * Get position
+   */
+  get position(): THREE.Vector3 {
+    return this._position.clone();
+  }
+
+  /**
+   * Get rotation
+   */
+  get rotation(): number {
+    return this._rotation;
+  }
+
+  /**
+   * Get FSM
+   */
+  get fsm(): EnemyFSM {
+    return this._fsm;
+  }
+
+  /**
+   * Get current HP
+   */
+  get currentHP(): number {
+    return this._currentHP;
+  }
+
+  /**
+   * Get max HP
+   */
+  get maxHP(): number {
+    return this.archetype.maxHP;
+  }
+
+  /**
+   * Get health percentage
+   */
+  get healthPercent(): number {
+    return this._currentHP / this.archetype.maxHP;
+  }
+
+  /**
+   * Check if dead
+   */
+  get isDead(): boolean {
+    return this._isDead;
+  }
+
+  /**
+   * Check if spawned
+   */
+  get isSpawned(): boolean {
+    return this._isSpawned;
+  }
+
+  /**
+   * Get collider
+   */
+  get collider(): RAPIER.Collider | null {
+    return this._collider;
+  }
+
+  /**
+   * Reset enemy to its spawn point and initial state
+   */
+  reset(): void {
+    this._isDead = false;
+    this.lastPoiseHitTime = 0;
+    this.knockback.clear();
+    this.lungeRemaining = 0;
+    this.waypointIndex = 0;
+    this.pathFollower.clear();
+
+    if (this.activeAttack) {
+      AttackSystem.cancelAttacks(this.id);
+      this.activeAttack = null;
+    }
+
+    this._collider?.setEnabled(true);
+    this._fsm.reset();
+    this.setRotation(this.homeRotation);
+    this.setPosition(this.homePosition);
+    this.recoverAtHome();
+  }
+
+  /**
+   * Set position directly
+   */
+  setPosition(position: THREE.Vector3): void {
+    this._position.copy(position);
+    this.knockback.clear();
+    this.lungeRemaining = 0;
+    this.syncMeshWithPhysics();
+  }
+
+  /**
+   * Set rotation directly
+   */
+  setRotation(rotation: number): void {
+    this._rotation = rotation;
+    if (this._mesh) {
+      this._mesh.rotation.y = rotation;
+    }
+  }
+}
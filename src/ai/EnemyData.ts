@@ -0,0 +1,198 @@
+/**
+ * Enemy Data - Regular enemy archetypes
+ *
+ * An archetype is everything an Enemy needs besides its spawn point and
+ * patrol route: stats, rewards, perception, leash, guard and attack patterns.
+ * Level spawners reference archetypes by ID (SpawnerDef.entityType).
+ *
+ * Perception:
+ * - Sight: within sightRange and sightAngle in front, with a clear line of sight
+ * - Hearing: anything within hearingRange, from any direction
+ *
+ * Leash: an enemy pulled further than leashRadius from its spawn point (or whose
+ * target gets further than loseTargetRange) walks back home and recovers.
+ */
+
+import type { AttackPattern } from './BossFSM';
+
+/**
+ * Item dropped on death
+ */
+export interface ItemDrop {
+  itemId: string;
+  chance: number; // 0-1
+}
+
+/**
+ * Shield guard of an archetype
+ */
+export interface EnemyGuard {
+  chance: number; // Chance (0-1) to raise the guard at each decision
+  duration: number; // Seconds the guard is held
+  stability: number; // 0-100 (see DamageSystem guard)
+  damageReduction: number; // 0-1
+  arc?: number; // Degrees covered in front (default 180)
+}
+
+/**
+ * Enemy archetype definition
+ */
+export interface EnemyArchetype {
+  id: string;
+  name: string;
+
+  // Stats
+  maxHP: number;
+  maxPoise: number;
+  poiseRecoveryDelay: number; // Seconds before poise starts recovering
+  poiseRecoveryRate: number; // Poise per second
+  maxStamina: number; // Spent by guarding
+  staminaRegenRate: number; // Per second
+
+  // Rewards
+  souls: number; // Awarded to the killer
+  drops?: ItemDrop[];
+
+  // Criticals and hit reactions
+  canBeBackstabbed?: boolean; // Default true
+  knockbackResistance?: number; // 0-1
+
+  // Movement
+  walkSpeed: number; // Patrol and return
+  runSpeed: number; // Chase
+  turnSpeed: number; // Radians per second
+  patrolWait: number; // Seconds spent at each waypoint
+
+  // Perception and leash
+  sightRange: number;
+  sightAngle: number; // Full field of view in degrees
+  hearingRange: number;
+  loseTargetRange: number;
+  leashRadius: number;
+
+  // Combat
+  attackDecisionDistance: number; // Consider attacking within this distance
+  preferredDistance: number; // Stop approaching at this distance
+  patterns: AttackPattern[];
+  guard?: EnemyGuard;
+
+  // Physics and placeholder mesh
+  colliderRadius: number;
+  colliderHeight: number;
+  weaponLength: number;
+  color: number;
+}
+
+/**
+ * Default enemy archetypes
+ */
+export const DEFAULT_ENEMIES: Record<string, EnemyArchetype> = {
+  hollow_soldier: {
+    id: 'hollow_soldier',
+    name: 'Hollow Soldier',
+    maxHP: 160,
+    maxPoise: 30,
+    poiseRecoveryDelay: 2.0,
+    poiseRecoveryRate: 15.0,
+    maxStamina: 80,
+    staminaRegenRate: 20,
+    souls: 50,
+    drops: [{ itemId: 'firebomb', chance: 0.15 }],
+    walkSpeed: 1.4,
+    runSpeed: 3.2,
+    turnSpeed: 4.0,
+    patrolWait: 2.0,
+    sightRange: 10,
+    sightAngle: 120,
+    hearingRange: 3,
+    loseTargetRange: 18,
+    leashRadius: 12,
+    attackDecisionDistance: 2.5,
+    preferredDistance: 1.6,
+    patterns: [
+      {
+        attackId: 'hollow_slash',
+        weight: 60,
+        minDistance: 0,
+        maxDistance: 2.2,
+        telegraphDuration: 0.5,
+        recoveryDuration: 0.7,
+        cooldown: 1.5,
+      },
+      {
+        attackId: 'hollow_thrust',
+        weight: 40,
+        minDistance: 1.2,
+        maxDistance: 2.5,
+        telegraphDuration: 0.6,
+        recoveryDuration: 0.9,
+        cooldown: 2.5,
+      },
+    ],
+    guard: {
+      chance: 0.5,
+      duration: 2.0,
+      stability: 45,
+      damageReduction: 0.8,
+    },
+    colliderRadius: 0.4,
+    colliderHeight: 1.8,
+    weaponLength: 1.0,
+    color: 0x6b5a45,
+  },
+  hollow_archer: {
+    id: 'hollow_archer',
+    name: 'Hollow Archer',
+    maxHP: 110,
+    maxPoise: 15,
+    poiseRecoveryDelay: 2.0,
+    poiseRecoveryRate: 10.0,
+    maxStamina: 60,
+    staminaRegenRate: 20,
+    souls: 60,
+    drops: [{ itemId: 'throwing_knife', chance: 0.2 }],
+    walkSpeed: 1.2,
+    runSpeed: 2.6,
+    turnSpeed: 3.5,
+    patrolWait: 3.0,
+    sightRange: 16,
+    sightAngle: 100,
+    hearingRange: 3,
+    loseTargetRange: 22,
+    leashRadius: 8,
+    attackDecisionDistance: 14,
+    preferredDistance: 8,
+    patterns: [
+      {
+        attackId: 'hollow_bow_shot',
+        weight: 70,
+        minDistance: 3.0,
+        maxDistance: 14.0,
+        telegraphDuration: 0.9,
+        recoveryDuration: 0.8,
+        cooldown: 2.5,
+        projectile: { projectileId: 'arrow', fireAt: 0.5 },
+      },
+      {
+        attackId: 'hollow_slash',
+        weight: 30,
+        minDistance: 0,
+        maxDistance: 2.2,
+        telegraphDuration: 0.6,
+        recoveryDuration: 0.9,
+        cooldown: 2.0,
+      },
+    ],
+    colliderRadius: 0.4,
+    colliderHeight: 1.8,
+    weaponLength: 0.6,
+    color: 0x5a6045,
+  },
+};
+
+/**
+ * Get an enemy archetype by ID
+ */
+export function getEnemyArchetype(archetypeId: string): EnemyArchetype | undefined {
+  return DEFAULT_ENEMIES[archetypeId];
+}
@@ -0,0 +1,760 @@
+/**
+ * Enemy Finite State Machine
+ *
+ * Manages regular enemy AI states:
+ * - Idle: Standing at the spawn point (no patrol route)
+ * - Patrol: Walking the patrol route
+ * - Chase: Running toward the target
+ * - Guard: Approaching with the shield raised (blocks hits in front)
+ * - AttackTelegraph / AttackActive / Recover: Attack pattern (as in BossFSM)
+ * - Return: Leashed, walking back to the spawn point (ignores the target)
+ * - Staggered: Stunned, vulnerable to critical
+ * - Dead: Enemy defeated
+ *
+ * The Enemy entity feeds perception (target distance, angle, line of sight)
+ * and its distance from home every tick. Aggro comes from sight or hearing;
+ * leashing happens past the archetype's leash radius or lose-target range.
+ */
+
+import { Time } from '../core/Time';
+import { Random } from '../core/Random';
+import { EventBus } from '../core/EventBus';
+import { AttackSystem, AttackData } from '../combat/AttackSystem';
+import type { AttackPattern } from './BossFSM';
+import type { EnemyArchetype } from './EnemyData';
+
+/**
+ * Enemy state types
+ */
+export enum EnemyStateType {
+  Idle = 'Idle',
+  Patrol = 'Patrol',
+  Chase = 'Chase',
+  Guard = 'Guard',
+  AttackTelegraph = 'AttackTelegraph',
+  AttackActive = 'AttackActive',
+  Recover = 'Recover',
+  Return = 'Return',
+  Staggered = 'Staggered',
+  Dead = 'Dead',
+}
+
+/**
+ * State configuration
+ */
+interface StateConfig {
+  // Duration (0 = indefinite)
+  duration: number;
+
+  // Can be staggered during this state?
+  canBeStaggered: boolean;
+
+  // Movement multiplier (0 = no movement)
+  movementMultiplier: number;
+
+  // Rotation multiplier (0 = no rotation)
+  rotationMultiplier: number;
+}
+
+/**
+ * State configurations
+ */
+const STATE_CONFIGS: Record<EnemyStateType, StateConfig> = {
+  [EnemyStateType.Idle]: {
+    duration: 0,
+    canBeStaggered: true,
+    movementMultiplier: 0,
+    rotationMultiplier: 1.0,
+  },
+  [EnemyStateType.Patrol]: {
+    duration: 0,
+    canBeStaggered: true,
+    movementMultiplier: 1.0,
+    rotationMultiplier: 1.0,
+  },
+  [EnemyStateType.Chase]: {
+    duration: 0,
+    canBeStaggered: true,
+    movementMultiplier: 1.0,
+    rotationMultiplier: 1.0,
+  },
+  [EnemyStateType.Guard]: {
+    duration: 0, // Set dynamically
+    canBeStaggered: true,
+    movementMultiplier: 0.4,
+    rotationMultiplier: 1.0,
+  },
+  [EnemyStateType.AttackTelegraph]: {
+    duration: 0, // Set dynamically
+    canBeStaggered: true,
+    movementMultiplier: 0,
+    rotationMultiplier: 0.6,
+  },
+  [EnemyStateType.AttackActive]: {
+    duration: 0, // Set dynamically
+    canBeStaggered: true,
+    movementMultiplier: 0,
+    rotationMultiplier: 0,
+  },
+  [EnemyStateType.Recover]: {
+    duration: 0, // Set dynamically
+    canBeStaggered: true,
+    movementMultiplier: 0,
+    rotationMultiplier: 0.3,
+  },
+  [EnemyStateType.Return]: {
+    duration: 0,
+    canBeStaggered: true,
+    movementMultiplier: 1.0,
+    rotationMultiplier: 1.0,
+  },
+  [EnemyStateType.Staggered]: {
+    duration: 1.5,
+    canBeStaggered: false,
+    movementMultiplier: 0,
+    rotationMultiplier: 0,
+  },
+  [EnemyStateType.Dead]: {
+    duration: 0,
+    canBeStaggered: false,
+    movementMultiplier: 0,
+    rotationMultiplier: 0,
+  },
+};
+
+/**
+ * Seconds between guard decisions while chasing
+ */
+const GUARD_DECISION_INTERVAL = 0.5;
+
+/**
+ * FSM callbacks
+ */
+export interface EnemyFSMCallbacks {
+  onStateEnter?: (state: EnemyStateType, prevState: EnemyStateType) => void;
+  onStateExit?: (state: EnemyStateType, nextState: EnemyStateType) => void;
+  onAttackSelected?: (pattern: AttackPattern) => void;
+  onAnimationTrigger?: (animationName: string, options?: AnimationOptions) => void;
+}
+
+interface AnimationOptions {
+  loop?: boolean;
+  speed?: number;
+  fadeIn?: number;
+}
+
+/**
+ * Enemy FSM
+ */
+export class EnemyFSM {
+  // Enemy identity
+  private readonly enemyId: string;
+  private readonly archetype: EnemyArchetype;
+
+  // Current state
+  private _currentState: EnemyStateType;
+  private _previousState: EnemyStateType;
+
+  // State timing
+  private stateStartTime: number = 0;
+  private stateProgress: number = 0;
+  private stateDuration: number = 0;
+
+  // Attack patterns
+  private currentPattern: AttackPattern | null = null;
+  private patternCooldowns: Map<string, number> = new Map();
+  private nextGuardDecision: number = 0;
+
+  // Target tracking
+  private _targetId: string | null = null;
+  private _targetDistance: number = Infinity;
+  private _targetAngle: number = 0;
+  private _targetVisible: boolean = false;
+
+  // Leash
+  private _homeDistance: number = 0;
+  private readonly homeState: EnemyStateType;
+
+  // Callbacks
+  private callbacks: EnemyFSMCallbacks = {};
+
+  constructor(
+    enemyId: string,
+    archetype: EnemyArchetype,
+    hasPatrolRoute: boolean,
+    callbacks?: EnemyFSMCallbacks
+  ) {
+    this.enemyId = enemyId;
+    this.archetype = archetype;
+    this.homeState = hasPatrolRoute ? EnemyStateType.Patrol : EnemyStateType.Idle;
+    this._currentState = this.homeState;
+    this._previousState = this.homeState;
+
+    if (callbacks) {
+      this.callbacks = callbacks;
+    }
+  }
+
+  /**
+   * Update the FSM
+   */
+  update(dt: number): void {
+    // Update state progress
+    if (this.stateDuration > 0) {
+      this.stateProgress =
+        (Time.getLocalElapsed(this.enemyId) - this.stateStartTime) / this.stateDuration;
+
+      // Check for state completion
+      if (this.stateProgress >= 1.0) {
+        this.onStateComplete();
+      }
+    }
+
+    // State-specific logic
+    this.updateStateLogic();
+  }
+
+  /**
+   * Set target entity
+   */
+  setTarget(targetId: string | null): void {
+    this._targetId = targetId;
+  }
+
+  /**
+   * Update target perception
+   *
+   * @param distance Distance to the target (Infinity if lost)
+   * @param angle Angle between the enemy's forward and the target (radians)
+   * @param visible Clear line of sight to the target
+   */
+  updateTargetInfo(distance: number, angle: number, visible: boolean): void {
+    this._targetDistance = distance;
+    this._targetAngle = angle;
+    this._targetVisible = visible;
+  }
+
+  /**
+   * Update distance from the spawn point (for leashing)
+   */
+  updateHomeDistance(distance: number): void {
+    this._homeDistance = distance;
+  }
+
+  // ========== State Transitions ==========
+
+  /**
+   * Attempt to transition to a new state
+   */
+  tryTransition(newState: EnemyStateType): boolean {
+    if (!this.canTransitionTo(newState)) {
+      return false;
+    }
+
+    this.transition(newState);
+    return true;
+  }
+
+  /**
+   * Force a transition (bypasses checks)
+   */
+  forceTransition(newState: EnemyStateType): void {
+    this.transition(newState);
+  }
+
+  /**
+   * Check if transition is allowed
+   */
+  canTransitionTo(newState: EnemyStateType): boolean {
+    // Dead state is terminal
+    if (this._currentState === EnemyStateType.Dead) {
+      return false;
+    }
+
+    // Death can always happen
+    if (newState === EnemyStateType.Dead) {
+      return true;
+    }
+
+    // Stagger can happen if allowed by current state
+    if (newState === EnemyStateType.Staggered) {
+      return STATE_CONFIGS[this._currentState].canBeStaggered;
+    }
+
+    // AttackActive cannot be interrupted
+    if (this._currentState === EnemyStateType.AttackActive) {
+      return false;
+    }
+
+    // Staggered must complete
+    if (this._currentState === EnemyStateType.Staggered && this.stateProgress < 1.0) {
+      return false;
+    }
+
+    return true;
+  }
+
+  private transition(newState: EnemyStateType, duration?: number): void {
+    const prevState = this._currentState;
+
+    // Exit current state
+    this.callbacks.onStateExit?.(prevState, newState);
+
+    // Update state
+    this._previousState = prevState;
+    this._currentState = newState;
+    this.stateStartTime = Time.getLocalElapsed(this.enemyId);
+    this.stateProgress = 0;
+
+    // Set duration
+    if (duration !== undefined) {
+      this.stateDuration = duration;
+    } else {
+      this.stateDuration = STATE_CONFIGS[newState].duration;
+    }
+
+    // Enter new state
+    this.callbacks.onStateEnter?.(newState, prevState);
+
+    // Trigger animation
+    this.callbacks.onAnimationTrigger?.(this.getAnimationForState(newState), {
+      loop: this.stateDuration === 0,
+      speed: 1,
+      fadeIn: 0.1,
+    });
+
+    EventBus.emit('debug:log', {
+      message: `Enemy ${this.enemyId}: ${prevState} -> ${newState}`,
+      level: 'info',
+    });
+  }
+
+  private onStateComplete(): void {
+    switch (this._currentState) {
+      case EnemyStateType.AttackTelegraph:
+        // Start attack
+        this.transition(EnemyStateType.AttackActive, this.getAttackDuration());
+        break;
+
+      case EnemyStateType.AttackActive:
+        // Start recovery
+        const recoveryDuration = this.currentPattern?.recoveryDuration ?? 0.5;
+        this.transition(EnemyStateType.Recover, recoveryDuration);
+        break;
+
+      case EnemyStateType.Recover:
+        // Raise the shield or keep pressing
+        this.currentPattern = null;
+        if (this.archetype.guard && Random.next() < this.archetype.guard.chance) {
+          this.startGuard();
+        } else {
+          this.transition(EnemyStateType.Chase);
+        }
+        break;
+
+      case EnemyStateType.Guard:
+      case EnemyStateType.Staggered:
+        this.transition(EnemyStateType.Chase);
+        break;
+    }
+  }
+
+  // ========== State Logic ==========
+
+  private updateStateLogic(): void {
+    switch (this._currentState) {
+      case EnemyStateType.Idle:
+      case EnemyStateType.Patrol:
+        this.updateUnaware();
+        break;
+
+      case EnemyStateType.Chase:
+        this.updateChase();
+        break;
+
+      case EnemyStateType.Guard:
+        this.updateGuard();
+        break;
+    }
+  }
+
+  private updateUnaware(): void {
+    if (this.canPerceiveTarget()) {
+      this.aggro();
+    }
+  }
+
+  private updateChase(): void {
+    if (this.shouldLeash()) {
+      this.leash();
+      return;
+    }
+
+    if (this.tryAttack()) return;
+
+    // Raise the shield when closing in
+    const guard = this.archetype.guard;
+    if (
+      guard &&
+      this._targetDistance <= this.archetype.attackDecisionDistance * 2 &&
+      Time.getLocalElapsed(this.enemyId) >= this.nextGuardDecision
+    ) {
+      this.nextGuardDecision = Time.getLocalElapsed(this.enemyId) + GUARD_DECISION_INTERVAL;
+      if (Random.next() < guard.chance) {
+        this.startGuard();
+      }
+    }
+  }
+
+  private updateGuard(): void {
+    if (this.shouldLeash()) {
+      this.leash();
+      return;
+    }
+
+    // Attacking lowers the shield
+    this.tryAttack();
+  }
+
+  /**
+   * Start an attack if the target is in reach and a pattern is ready
+   */
+  private tryAttack(): boolean {
+    if (this._targetDistance > this.archetype.attackDecisionDistance) return false;
+
+    const pattern = this.selectAttackPattern();
+    if (!pattern) return false;
+
+    this.startAttack(pattern);
+    return true;
+  }
+
+  private startGuard(): void {
+    this.transition(EnemyStateType.Guard, this.archetype.guard?.duration ?? 0);
+  }
+
+  // ========== Perception ==========
+
+  /**
+   * Target heard nearby, or seen inside the field of view
+   */
+  private canPerceiveTarget(): boolean {
+    if (!this._targetId) return false;
+    if (this._targetDistance <= this.archetype.hearingRange) return true;
+
+    const halfFov = (this.archetype.sightAngle * Math.PI) / 360;
+    return (
+      this._targetVisible &&
+      this._targetDistance <= this.archetype.sightRange &&
+      this._targetAngle <= halfFov
+    );
+  }
+
+  private shouldLeash(): boolean {
+    return (
+      !this._targetId ||
+      this._targetDistance > this.archetype.loseTargetRange ||
+      this._homeDistance > this.archetype.leashRadius
+    );
+  }
+
+  private aggro(): void {
+    this.transition(EnemyStateType.Chase);
+
+    EventBus.emit('enemy:aggro', {
+      enemyId: this.enemyId,
+      targetId: this._targetId ?? '',
+    });
+  }
+
+  private leash(): void {
+    this.currentPattern = null;
+    this.transition(EnemyStateType.Return);
+
+    EventBus.emit('enemy:leashed', { enemyId: this.enemyId });
+  }
+
+  // ========== Attack Selection ==========
+
+  /**
+   * Select an attack pattern based on weights and constraints
+   */
+  selectAttackPattern(): AttackPattern | null {
+    const now = Time.getLocalElapsed(this.enemyId);
+    const validPatterns = this.archetype.patterns.filter(
+      (pattern) =>
+        this._targetDistance >= pattern.minDistance &&
+        this._targetDistance <= pattern.maxDistance &&
+        now >= (this.patternCooldowns.get(pattern.attackId) ?? 0)
+    );
+
+    if (validPatterns.length === 0) {
+      return null;
+    }
+
+    // Random selection based on weights
+    const totalWeight = validPatterns.reduce((sum, p) => sum + p.weight, 0);
+    let roll = Random.next() * totalWeight;
+    for (const pattern of validPatterns) {
+      roll -= pattern.weight;
+      if (roll <= 0) {
+        return pattern;
+      }
+    }
+
+    // Fallback to last valid pattern
+    return validPatterns[validPatterns.length - 1];
+  }
+
+  /**
+   * Start an attack with the given pattern
+   */
+  startAttack(pattern: AttackPattern): void {
+    this.currentPattern = pattern;
+    this.patternCooldowns.set(
+      pattern.attackId,
+      Time.getLocalElapsed(this.enemyId) + pattern.cooldown
+    );
+
+    this.callbacks.onAttackSelected?.(pattern);
+    this.transition(EnemyStateType.AttackTelegraph, pattern.telegraphDuration);
+  }
+
+  /**
+   * Get current attack data
+   */
+  getCurrentAttackData(): AttackData | null {
+    if (!this.currentPattern) return null;
+    return AttackSystem.getAttack(this.currentPattern.attackId) ?? null;
+  }
+
+  private getAttackDuration(): number {
+    const span = this.currentPattern
+      ? AttackSystem.getActiveSpan(this.currentPattern.attackId)
+      : undefined;
+    if (!span) return 1.0;
+
+    const fireAt = this.currentPattern?.projectile?.fireAt ?? 0;
+    return Math.max(span[1], fireAt) + 0.2;
+  }
+
+  // ========== Combat Events ==========
+
+  /**
+   * Called when the enemy takes damage
+   */
+  onDamaged(currentPoise: number, hyperarmor: boolean = false): void {
+    // Hits from an unseen attacker still draw aggro
+    if (
+      this._currentState === EnemyStateType.Idle ||
+      this._currentState === EnemyStateType.Patrol
+    ) {
+      this.aggro();
+    }
+
+    if (hyperarmor && this._currentState === EnemyStateType.AttackActive) return;
+
+    // Poise break causes stagger
+    if (currentPoise <= 0) {
+      this.tryTransition(EnemyStateType.Staggered);
+    }
+  }
+
+  /**
+   * Called when the guard runs out of stamina
+   */
+  onGuardBroken(): void {
+    if (this._currentState === EnemyStateType.Dead) return;
+    this.transition(EnemyStateType.Staggered);
+  }
+
+  /**
+   * Called when an attack is parried (stunned, open to a riposte)
+   */
+  onParried(stunDuration: number): void {
+    if (this._currentState === EnemyStateType.Dead) return;
+    this.transition(EnemyStateType.Staggered, stunDuration);
+  }
+
+  /**
+   * Called when knocked down by a heavy hit
+   */
+  onKnockedDown(duration: number): void {
+    if (this._currentState === EnemyStateType.Dead) return;
+    this.transition(EnemyStateType.Staggered, duration);
+  }
+
+  /**
+   * Called when caught in a riposte/backstab (locked until it ends)
+   */
+  onCriticalReceived(duration: number): void {
+    if (this._currentState === EnemyStateType.Dead) return;
+    this.transition(EnemyStateType.Staggered, duration);
+  }
+
+  /**
+   * Called when the enemy is back at its spawn point after leashing
+   */
+  onReturnedHome(): void {
+    if (this._currentState !== EnemyStateType.Return) return;
+    this.transition(this.homeState);
+  }
+
+  /**
+   * Called when the enemy dies
+   */
+  onDeath(): void {
+    this.forceTransition(EnemyStateType.Dead);
+  }
+
+  // ========== Queries ==========
+
+  /**
+   * Get current state
+   */
+  get currentState(): EnemyStateType {
+    return this._currentState;
+  }
+
+  /**
+   * Get previous state
+   */
+  get previousState(): EnemyStateType {
+    return this._previousState;
+  }
+
+  /**
+   * Get state progress (0-1)
+   */
+  get progress(): number {
+    return this.stateProgress;
+  }
+
+  /**
+   * Get current attack pattern
+   */
+  get attackPattern(): AttackPattern | null {
+    return this.currentPattern;
+  }
+
+  /**
+   * Get target entity ID
+   */
+  get targetId(): string | null {
+    return this._targetId;
+  }
+
+  /**
+   * Get target distance
+   */
+  get targetDistance(): number {
+    return this._targetDistance;
+  }
+
+  /**
+   * Get movement multiplier for current state
+   */
+  get movementMultiplier(): number {
+    return STATE_CONFIGS[this._currentState].movementMultiplier;
+  }
+
+  /**
+   * Get rotation multiplier for current state
+   */
+  get rotationMultiplier(): number {
+    return STATE_CONFIGS[this._currentState].rotationMultiplier;
+  }
+
+  /**
+   * Check if the enemy is fighting its target
+   */
+  get isAggro(): boolean {
+    return (
+      this._currentState !== this.homeState &&
+      this._currentState !== EnemyStateType.Return &&
+      this._currentState !== EnemyStateType.Dead
+    );
+  }
+
+  /**
+   * Check if the enemy is in attack state (telegraph or active)
+   */
+  get isAttacking(): boolean {
+    return (
+      this._currentState === EnemyStateType.AttackTelegraph ||
+      this._currentState === EnemyStateType.AttackActive
+    );
+  }
+
+  /**
+   * Check if the shield is raised
+   */
+  get isGuarding(): boolean {
+    return this._currentState === EnemyStateType.Guard;
+  }
+
+  /**
+   * Check if the enemy can be staggered
+   */
+  get canBeStaggered(): boolean {
+    return STATE_CONFIGS[this._currentState].canBeStaggered;
+  }
+
+  /**
+   * Check if the enemy is dead
+   */
+  get isDead(): boolean {
+    return this._currentState === EnemyStateType.Dead;
+  }
+
+  /**
+   * Get preferred distance to the target
+   */
+  getPreferredDistance(): number {
+    return this.archetype.preferredDistance;
+  }
+
+  private getAnimationForState(state: EnemyStateType): string {
+    switch (state) {
+      case EnemyStateType.Idle:
+        return 'Enemy_Idle';
+      case EnemyStateType.Patrol:
+      case EnemyStateType.Return:
+        return 'Enemy_Walk';
+      case EnemyStateType.Chase:
+        return 'Enemy_Run';
+      case EnemyStateType.Guard:
+        return 'Enemy_Guard';
+      case EnemyStateType.AttackTelegraph:
+        return 'Enemy_Telegraph';
+      case EnemyStateType.AttackActive:
+        return 'Enemy_Attack';
+      case EnemyStateType.Recover:
+        return 'Enemy_Recover';
+      case EnemyStateType.Staggered:
+        return 'Enemy_Stagger';
+      case EnemyStateType.Dead:
+        return 'Enemy_Death';
+      default:
+        return 'Enemy_Idle';
+    }
+  }
+
+  /**
+   * Reset FSM to its home state
+   */
+  reset(): void {
+    this._currentState = this.homeState;
+    this._previousState = this.homeState;
+    this.stateStartTime = 0;
+    this.stateProgress = 0;
+    this.stateDuration = 0;
+    this.currentPattern = null;
+    this.patternCooldowns.clear();
+    this.nextGuardDecision = 0;
+    this._targetDistance = Infinity;
+    this._targetAngle = 0;
+    this._targetVisible = false;
+    this._homeDistance = 0;
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * PathFollower - NavMesh steering for AI movement
+ *
+ * Turns "move toward the goal" into "move toward the next waypoint": agents
+ * walk straight when nothing is in the way, otherwise along a NavMesh path
+ * that is refreshed periodically and whenever the goal moves.
+ *
+ * Usage:
+ * - const follower = new PathFollower(colliderRadius)
+ * - const steerPoint = follower.steer(position, goal, now) every movement tick
+ * - follower.clear() when the goal changes meaning (e.g. leash home)
+ *
+ * Without a built NavMesh (or when no path exists) the goal itself is returned,
+ * so agents fall back to steering straight at it.
+ */
+
+import * as THREE from 'three';
+import { NavMesh } from '../level/NavMesh';
+
+/**
+ * Seconds between path refreshes toward the same goal
+ */
+const REPATH_INTERVAL = 0.5;
+
+/**
+ * Goal movement that triggers an immediate refresh
+ */
+const REPATH_GOAL_DISTANCE = 1.0;
+
+/**
+ * Horizontal distance at which a waypoint counts as reached
+ */
+const WAYPOINT_REACHED_DISTANCE = 0.4;
+
+/**
+ * Path follower class
+ */
+export class PathFollower {
+  private path: THREE.Vector3[] = [];
+  private waypointIndex: number = 0;
+  private goal: THREE.Vector3 = new THREE.Vector3(Infinity, Infinity, Infinity);
+  private nextRepathTime: number = 0;
+
+  constructor(private readonly agentRadius: number) {}
+
+  /**
+   * Point to steer toward on the way to the goal
+   *
+   * @param now Agent time (seconds) used to pace path refreshes
+   */
+  steer(position: THREE.Vector3, goal: THREE.Vector3, now: number): THREE.Vector3 {
+    if (!NavMesh.isBuilt) return goal.clone();
+
+    if (goal.distanceTo(this.goal) > REPATH_GOAL_DISTANCE || now >= this.nextRepathTime) {
+      this.repath(position, goal, now);
+    }
+
+    // Skip reached waypoints
+    while (
+      this.waypointIndex < this.path.length &&
+      Math.hypot(
+        this.path[this.waypointIndex].x - position.x,
+        this.path[this.waypointIndex].z - position.z
+      ) < WAYPOINT_REACHED_DISTANCE
+    ) {
+      this.waypointIndex++;
+    }
+
+    return this.waypointIndex < this.path.length
+      ? this.path[this.waypointIndex].clone()
+      : goal.clone();
+  }
+
+  /**
+   * Remaining waypoints (empty when steering straight)
+   */
+  get waypoints(): readonly THREE.Vector3[] {
+    return this.path.slice(this.waypointIndex);
+  }
+
+  /**
+   * Forget the current path
+   */
+  clear(): void {
+    this.path = [];
+    this.waypointIndex = 0;
+    this.goal.set(Infinity, Infinity, Infinity);
+    this.nextRepathTime = 0;
+  }
+
+  private repath(position: THREE.Vector3, goal: THREE.Vector3, now: number): void {
+    this.goal.copy(goal);
+    this.nextRepathTime = now + REPATH_INTERVAL;
+    this.waypointIndex = 0;
+
+    // Walk straight when nothing is in the way
+    this.path = NavMesh.hasClearPath(position, goal, this.agentRadius)
+      ? []
+      : NavMesh.findPath(position, goal, this.agentRadius) ?? [];
+  }
+}
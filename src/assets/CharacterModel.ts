@@ -1,5 +1,7 @@
 import * as THREE from 'three';
 import { AssetLoader, LoadedModel } from './AssetLoader';
+import { Time } from '../core/Time';
+import type { WeaponModel, ShieldModel } from '../equipment/WeaponData';
 
 export interface AnimationMapping {
   idle: string;
@@ -20,6 +22,12 @@ export interface AnimationMapping {
   falling?: string;
   landing?: string;
   use_item?: string;
+  interact?: string;
+  rest?: string;
+  riposte?: string;
+  backstab?: string;
+  knockdown?: string;
+  get_up?: string;
 }
 
 export interface CharacterModelConfig {
@@ -68,6 +76,21 @@ const DEFAULT_ANIMATION_MAPPING: AnimationMapping = {
   falling: 'Fall',
   landing: 'Land',
   use_item: 'Use_Item',
+  interact: 'Interact',
+  rest: 'Rest',
+  riposte: 'Riposte',
+  backstab: 'Backstab',
+  knockdown: 'Knockdown',
+  get_up: 'Get_Up',
+};
+
+const DEFAULT_WEAPON_MODEL: WeaponModel = {
+  bladeLength: 0.92,
+  bladeWidth: 0.045,
+  guardWidth: 0.22,
+  gripLength: 0.22,
+  bladeColor: 0xcfd6df,
+  guardColor: 0x8b7c62,
 };
 
 const PROCEDURAL_DURATIONS: Record<
@@ -100,10 +123,17 @@ export class CharacterModel {
   private leftArmBone: THREE.Bone | null = null;
   private rightForeArmBone: THREE.Bone | null = null;
   private rightHandBone: THREE.Bone | null = null;
+  private leftHandBone: THREE.Bone | null = null;
   private spineBone: THREE.Bone | null = null;
   private sword: THREE.Group | null = null;
+  private shield: THREE.Group | null = null;
+  private weaponModel: WeaponModel = DEFAULT_WEAPON_MODEL;
+  private shieldModel: ShieldModel | null = null;
   private modelBasePitch: number = 0;
 
+  // Entity whose local time scale drives the animations (hit-stop, slow-mo)
+  private timeEntityId: string | null = null;
+
   private proceduralMotion: ProceduralMotion = {
     type: 'none',
     time: 0,
@@ -179,8 +209,10 @@ export class CharacterModel {
     this.leftArmBone = this.findBone('mixamorigLeftArm');
     this.rightForeArmBone = this.findBone('mixamorigRightForeArm');
     this.rightHandBone = this.findBone('mixamorigRightHand');
+    this.leftHandBone = this.findBone('mixamorigLeftHand');
 
     this.attachSwordToRightHand();
+    this.attachShieldToLeftHand();
   }
 
   private findBone(name: string): THREE.Bone | null {
@@ -192,7 +224,7 @@ export class CharacterModel {
   private attachSwordToRightHand(): void {
     if (!this.rightHandBone || this.sword) return;
 
-    const sword = this.createSwordMesh();
+    const sword = this.createSwordMesh(this.weaponModel);
     sword.name = 'PlayerSword';
     sword.position.set(0.025, 0.03, -0.02);
     sword.rotation.set(Math.PI / 2, 0, -Math.PI / 2);
@@ -200,16 +232,53 @@ export class CharacterModel {
     this.sword = sword;
   }
 
-  private createSwordMesh(): THREE.Group {
+  private attachShieldToLeftHand(): void {
+    if (!this.leftHandBone || this.shield || !this.shieldModel) return;
+
+    const shield = this.createShieldMesh(this.shieldModel);
+    shield.name = 'PlayerShield';
+    shield.position.set(-0.03, 0.06, 0.05);
+    shield.rotation.set(0, Math.PI / 2, 0);
+    this.leftHandBone.add(shield);
+    this.shield = shield;
+  }
+
+  /**
+   * Replace the sword mesh (equipment change)
+   */
+  setWeaponModel(model: WeaponModel): void {
+    this.weaponModel = model;
+
+    if (this.sword) {
+      this.disposeObject(this.sword);
+      this.sword = null;
+    }
+    this.attachSwordToRightHand();
+  }
+
+  /**
+   * Replace the shield mesh (null to remove)
+   */
+  setShieldModel(model: ShieldModel | null): void {
+    this.shieldModel = model;
+
+    if (this.shield) {
+      this.disposeObject(this.shield);
+      this.shield = null;
+    }
+    this.attachShieldToLeftHand();
+  }
+
+  private createSwordMesh(model: WeaponModel): THREE.Group {
     const sword = new THREE.Group();
 
     const steel = new THREE.MeshStandardMaterial({
-      color: 0xcfd6df,
+      color: model.bladeColor,
       metalness: 0.95,
       roughness: 0.18,
     });
     const guardMaterial = new THREE.MeshStandardMaterial({
-      color: 0x8b7c62,
+      color: model.guardColor,
       metalness: 0.7,
       roughness: 0.35,
     });
@@ -219,29 +288,33 @@ export class CharacterModel {
       metalness: 0.08,
     });
 
-    const blade = new THREE.Mesh(new THREE.BoxGeometry(0.045, 0.92, 0.02), steel);
-    blade.position.y = 0.56;
+    // Blade starts at the guard (y = 0.1), grip hangs below it
+    const blade = new THREE.Mesh(
+      new THREE.BoxGeometry(model.bladeWidth, model.bladeLength, 0.02),
+      steel
+    );
+    blade.position.y = 0.1 + model.bladeLength / 2;
 
     const bladeTip = new THREE.Mesh(
-      new THREE.ConeGeometry(0.022, 0.09, 6),
+      new THREE.ConeGeometry(model.bladeWidth / 2, 0.09, 6),
       steel
     );
-    bladeTip.position.y = 1.065;
+    bladeTip.position.y = 0.1 + model.bladeLength + 0.045;
 
     const guard = new THREE.Mesh(
-      new THREE.BoxGeometry(0.22, 0.035, 0.04),
+      new THREE.BoxGeometry(model.guardWidth, 0.035, 0.04),
       guardMaterial
     );
     guard.position.y = 0.1;
 
     const grip = new THREE.Mesh(
-      new THREE.CylinderGeometry(0.02, 0.025, 0.22, 12),
+      new THREE.CylinderGeometry(0.02, 0.025, model.gripLength, 12),
       gripMaterial
     );
-    grip.position.y = -0.03;
+    grip.position.y = 0.08 - model.gripLength / 2;
 
     const pommel = new THREE.Mesh(new THREE.SphereGeometry(0.03, 12, 10), guardMaterial);
-    pommel.position.y = -0.16;
+    pommel.position.y = 0.06 - model.gripLength;
 
     sword.add(blade, bladeTip, guard, grip, pommel);
     sword.traverse((obj) => {
@@ -254,6 +327,47 @@ export class CharacterModel {
     return sword;
   }
 
+  private createShieldMesh(model: ShieldModel): THREE.Group {
+    const shield = new THREE.Group();
+
+    const face = new THREE.Mesh(
+      new THREE.BoxGeometry(model.width, model.height, model.thickness),
+      new THREE.MeshStandardMaterial({ color: model.color, roughness: 0.7, metalness: 0.2 })
+    );
+
+    const rim = new THREE.Mesh(
+      new THREE.BoxGeometry(model.width + 0.04, model.height + 0.04, model.thickness * 0.5),
+      new THREE.MeshStandardMaterial({ color: model.rimColor, roughness: 0.4, metalness: 0.7 })
+    );
+    rim.position.z = -model.thickness * 0.5;
+
+    shield.add(face, rim);
+    shield.traverse((obj) => {
+      if (obj instanceof THREE.Mesh) {
+        obj.castShadow = true;
+        obj.receiveShadow = true;
+      }
+    });
+
+    return shield;
+  }
+
+  private disposeObject(object: THREE.Object3D): void {
+    object.traverse((obj) => {
+      if (obj instanceof THREE.Mesh) {
+        obj.geometry.dispose();
+        if (Array.isArray(obj.material)) {
+          for (const mat of obj.material) {
+            mat.dispose();
+          }
+        } else {
+          obj.material.dispose();
+        }
+      }
+    });
+    object.removeFromParent();
+  }
+
   playAnimation(
     name: string,
     options?: {
@@ -325,11 +439,18 @@ export class CharacterModel {
     if (lower.startsWith('attack_light')) return 'attack_light';
     if (lower === 'attack_heavy') return 'attack_heavy';
     if (lower === 'guard_idle' || lower === 'guard') return 'guard';
+    if (lower === 'guard_hit') return 'guard_hit';
     if (lower === 'hit_react' || lower === 'hit') return 'hit_stun';
     if (lower === 'death') return 'death';
     if (lower === 'fall') return 'falling';
     if (lower === 'land') return 'landing';
     if (lower === 'use_item') return 'use_item';
+    if (lower === 'interact') return 'interact';
+    if (lower === 'rest') return 'rest';
+    if (lower === 'riposte') return 'riposte';
+    if (lower === 'backstab') return 'backstab';
+    if (lower === 'knockdown') return 'knockdown';
+    if (lower === 'get_up') return 'get_up';
 
     return null;
   }
@@ -357,8 +478,15 @@ export class CharacterModel {
     const fallbackMap: Record<string, string> = {
       Walk_Back: 'Walk',
       Sprint: 'Run',
+      Guard_Hit: 'Guard_Idle',
       Fall: 'Idle',
       Land: 'Idle',
+      Interact: 'Idle',
+      Rest: 'Idle',
+      Riposte: 'Attack_Heavy',
+      Backstab: 'Attack_Heavy',
+      Knockdown: 'Hit_React',
+      Get_Up: 'Idle',
     };
     return fallbackMap[name] ?? null;
   }
@@ -404,7 +532,16 @@ export class CharacterModel {
     this.setModelPitch(0);
   }
 
+  /**
+   * Follow an entity's local time scale (null = world time scale)
+   */
+  setTimeEntity(entityId: string | null): void {
+    this.timeEntityId = entityId;
+  }
+
   update(dt: number): void {
+    dt *= this.timeEntityId ? Time.getLocalTimeScale(this.timeEntityId) : Time.worldTimeScale;
+
     if (this.mixer) {
       this.mixer.update(dt);
     }
@@ -670,22 +807,15 @@ export class CharacterModel {
     }
 
     if (this.sword) {
-      this.sword.traverse((obj) => {
-        if (obj instanceof THREE.Mesh) {
-          obj.geometry.dispose();
-          if (Array.isArray(obj.material)) {
-            for (const mat of obj.material) {
-              mat.dispose();
-            }
-          } else {
-            obj.material.dispose();
-          }
-        }
-      });
-      this.sword.removeFromParent();
+      this.disposeObject(this.sword);
       this.sword = null;
     }
 
+    if (this.shield) {
+      this.disposeObject(this.shield);
+      this.shield = null;
+    }
+
     while (this.root.children.length > 0) {
       this.root.remove(this.root.children[0]);
     }
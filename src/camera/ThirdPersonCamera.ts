@@ -7,6 +7,7 @@
  * - Smooth interpolation
  * - Lock-on mode support
  * - Shoulder offset for better combat visibility
+ * - Camera shake (heavy impacts)
  */
 
 import * as THREE from 'three';
@@ -100,6 +101,11 @@ export class ThirdPersonCamera {
   private lockOnTarget: THREE.Vector3 | null = null;
   private isLockedOn: boolean = false;
 
+  // Camera shake (decays linearly over its duration)
+  private shakeIntensity: number = 0;
+  private shakeDuration: number = 0;
+  private shakeElapsed: number = 0;
+
   // Temporary vectors (avoid allocations)
   private _tempVec3: THREE.Vector3 = new THREE.Vector3();
   private _tempVec3B: THREE.Vector3 = new THREE.Vector3();
@@ -235,6 +241,7 @@ export class ThirdPersonCamera {
 
     // Apply to camera
     this.camera.position.copy(this.currentPosition);
+    this.applyShake(dt);
 
     // Look at target (with lock-on offset if applicable)
     if (this.isLockedOn && this.lockOnTarget) {
@@ -247,6 +254,39 @@ export class ThirdPersonCamera {
     }
   }
 
+  /**
+   * Shake the camera (a stronger shake replaces a weaker one)
+   *
+   * @param intensity Max offset in meters
+   * @param duration Seconds
+   */
+  shake(intensity: number, duration: number): void {
+    if (duration <= 0) return;
+
+    const remaining =
+      this.shakeIntensity * Math.max(0, 1 - this.shakeElapsed / Math.max(this.shakeDuration, 1e-6));
+    if (intensity < remaining) return;
+
+    this.shakeIntensity = intensity;
+    this.shakeDuration = duration;
+    this.shakeElapsed = 0;
+  }
+
+  /**
+   * Offset the camera by the current shake
+   */
+  private applyShake(dt: number): void {
+    if (this.shakeElapsed >= this.shakeDuration) return;
+
+    this.shakeElapsed += dt;
+    const strength = this.shakeIntensity * Math.max(0, 1 - this.shakeElapsed / this.shakeDuration);
+    const t = this.shakeElapsed * 40;
+
+    this.camera.position.x += Math.sin(t * 1.3) * strength;
+    this.camera.position.y += Math.sin(t * 1.7 + 1.1) * strength;
+    this.camera.position.z += Math.sin(t * 1.1 + 2.3) * strength * 0.5;
+  }
+
   /**
    * Update rotation for lock-on mode
    */
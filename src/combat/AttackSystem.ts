@@ -3,10 +3,14 @@
  *
  * Manages attack execution and hit detection:
  * - Attack data definitions
+ * - Attack timelines: hitbox windows (weapon sweep, sphere, cone, ring) and cues
+ *   (see AttackTimeline)
  * - Frame-based hitbox sweeping (weapon socket -> shapeCast)
- * - Multi-hit prevention (same target hit once per attack)
+ * - Multi-hit prevention (same target hit once per hitbox window)
  * - Combo chain management
  * - Damage request generation
+ * - Status buildup on connecting hits
+ * - Hit-stop on connecting hits (heavier attacks freeze longer)
  */
 
 import * as THREE from 'three';
@@ -14,8 +18,24 @@ import RAPIER from '@dimforge/rapier3d-compat';
 import { PhysicsWorld } from '../physics/PhysicsWorld';
 import { CollisionGroups, CollisionGroup } from '../physics/CollisionGroups';
 import { EventBus } from '../core/EventBus';
+import { Time } from '../core/Time';
 import { DamageSystem, DamageRequest, DamageSourceType } from './DamageSystem';
+import { StatusEffectSystem, StatusBuildup } from './StatusEffectSystem';
 import { DamageType } from '../player/PlayerStats';
+import {
+  AttackTimeline,
+  AttackCue,
+  AttackCueType,
+  AttackBone,
+  HitboxShape,
+  HitboxShapeType,
+  HitboxWindow,
+  DEFAULT_SHAPE_HEIGHT,
+  DEFAULT_TIMELINES,
+  buildTimelineFromAttack,
+  getTimelineActiveSpan,
+  parseAttackTimelines,
+} from './AttackTimeline';
 
 /**
  * Attack data definition
@@ -34,8 +54,9 @@ export interface AttackData {
   staminaCost: number;
 
   // Timing (normalized 0-1 progress)
-  activeFrames: [number, number]; // When hitbox is active
+  activeFrames: [number, number]; // When hitbox is active (a registered timeline overrides)
   comboWindow?: [number, number]; // When next attack can chain
+  hyperarmor?: [number, number]; // Poise breaks don't interrupt (a registered timeline overrides)
 
   // Hitbox
   hitboxRadius: number;
@@ -48,6 +69,35 @@ export interface AttackData {
 
   // Critical hit
   criticalMultiplier?: number;
+
+  // Status buildup applied on unblocked hits
+  statusBuildup?: StatusBuildup;
+
+  // World freeze on a clean hit (seconds; defaults from attack weight)
+  hitStop?: number;
+}
+
+/**
+ * Hit-stop range (seconds)
+ */
+const MIN_HIT_STOP = 0.04;
+const MAX_HIT_STOP = 0.15;
+
+/**
+ * Hit-stop per point of poise damage / knockback force
+ */
+const HIT_STOP_PER_POISE = 0.0008;
+const HIT_STOP_PER_KNOCKBACK = 0.004;
+
+/**
+ * Hit-stop of an attack (explicit value or derived from its weight)
+ */
+export function getHitStopDuration(attack: AttackData): number {
+  if (attack.hitStop !== undefined) return attack.hitStop;
+
+  const weight =
+    attack.poiseDamage * HIT_STOP_PER_POISE + (attack.knockbackForce ?? 0) * HIT_STOP_PER_KNOCKBACK;
+  return THREE.MathUtils.clamp(MIN_HIT_STOP + weight, MIN_HIT_STOP, MAX_HIT_STOP);
 }
 
 /**
@@ -60,6 +110,7 @@ export interface ActiveAttack {
 
   // Attack data
   attackData: AttackData;
+  timeline: AttackTimeline;
 
   // State
   startTime: number;
@@ -71,20 +122,32 @@ export interface ActiveAttack {
   prevWeaponTip: THREE.Vector3;
   currentWeaponBase: THREE.Vector3;
   currentWeaponTip: THREE.Vector3;
+  currentRoot: THREE.Vector3;
 
   // Hit tracking (prevent multi-hit)
-  hitEntities: Set<string>;
+  hitEntities: Set<string>; // Every entity hit by the attack
+  windowHits: Set<string>[]; // Per hitbox window
+
+  // Cues
+  nextCue: number; // Index of the next timeline cue to fire
+  onCue?: AttackCueHandler;
 
   // Direction for knockback
   attackDirection: THREE.Vector3;
 }
 
+/**
+ * Attacker-side cue handler (e.g. lunge movement)
+ */
+export type AttackCueHandler = (cue: AttackCue, attack: ActiveAttack) => void;
+
 /**
  * Weapon socket positions (for melee hitbox)
  */
 export interface WeaponSockets {
   base: THREE.Vector3; // Handle/grip position
   tip: THREE.Vector3; // Blade/tip position
+  root?: THREE.Vector3; // Attacker position (origin of cones/rings; defaults to base)
 }
 
 /**
@@ -95,87 +158,16 @@ export interface HitResult {
   hitPoint: THREE.Vector3;
   hitNormal: THREE.Vector3;
   collider: RAPIER.Collider;
+  direction?: THREE.Vector3; // Push direction (defaults to the attack direction)
 }
 
+const UP = new THREE.Vector3(0, 1, 0);
+
 /**
  * Default attack library
  */
 export const DEFAULT_ATTACKS: Record<string, AttackData> = {
-  // Player attacks
-  player_light_1: {
-    id: 'player_light_1',
-    name: 'Light Attack 1',
-    baseDamage: 25,
-    damageType: DamageType.Physical,
-    poiseDamage: 15,
-    staminaCost: 16,
-    activeFrames: [0.22, 0.38],
-    comboWindow: [0.4, 0.6],
-    hitboxRadius: 0.4,
-    hitboxLength: 1.2,
-    canBeBlocked: true,
-    canBeDodged: true,
-    knockbackForce: 2,
-  },
-  player_light_2: {
-    id: 'player_light_2',
-    name: 'Light Attack 2',
-    baseDamage: 28,
-    damageType: DamageType.Physical,
-    poiseDamage: 18,
-    staminaCost: 18,
-    activeFrames: [0.2, 0.36],
-    comboWindow: [0.4, 0.6],
-    hitboxRadius: 0.45,
-    hitboxLength: 1.3,
-    canBeBlocked: true,
-    canBeDodged: true,
-    knockbackForce: 2.5,
-  },
-  player_light_3: {
-    id: 'player_light_3',
-    name: 'Light Attack 3',
-    baseDamage: 35,
-    damageType: DamageType.Physical,
-    poiseDamage: 25,
-    staminaCost: 22,
-    activeFrames: [0.25, 0.45],
-    hitboxRadius: 0.5,
-    hitboxLength: 1.4,
-    canBeBlocked: true,
-    canBeDodged: true,
-    knockbackForce: 4,
-  },
-  player_heavy: {
-    id: 'player_heavy',
-    name: 'Heavy Attack',
-    baseDamage: 50,
-    damageType: DamageType.Physical,
-    poiseDamage: 40,
-    staminaCost: 28,
-    activeFrames: [0.3, 0.52],
-    hitboxRadius: 0.6,
-    hitboxLength: 1.5,
-    canBeBlocked: true,
-    canBeDodged: true,
-    knockbackForce: 6,
-    criticalMultiplier: 2.5,
-  },
-  player_plunge: {
-    id: 'player_plunge',
-    name: 'Plunge Attack',
-    baseDamage: 80,
-    damageType: DamageType.Physical,
-    poiseDamage: 60,
-    staminaCost: 20,
-    activeFrames: [0.0, 0.5],
-    hitboxRadius: 1.5,
-    hitboxLength: 0, // AoE, not sweep
-    canBeBlocked: false,
-    canBeDodged: true,
-    knockbackForce: 8,
-    criticalMultiplier: 3.0,
-  },
+  // Player attacks come from the equipped weapon (see equipment/WeaponData)
 
   // Boss attacks (examples)
   boss_wide_sweep: {
@@ -234,6 +226,66 @@ export const DEFAULT_ATTACKS: Record<string, AttackData> = {
     canBeDodged: true,
     knockbackForce: 3,
   },
+  // Ranged: damage comes from the projectiles (BossFSM pattern volley)
+  boss_fireball_cast: {
+    id: 'boss_fireball_cast',
+    name: 'Fireball Cast',
+    baseDamage: 0,
+    damageType: DamageType.Fire,
+    poiseDamage: 0,
+    staminaCost: 0,
+    activeFrames: [0, 0],
+    hitboxRadius: 0,
+    hitboxLength: 0,
+    canBeBlocked: true,
+    canBeDodged: true,
+    knockbackForce: 0,
+  },
+
+  // Regular enemy attacks (see ai/EnemyData)
+  hollow_slash: {
+    id: 'hollow_slash',
+    name: 'Hollow Slash',
+    baseDamage: 22,
+    damageType: DamageType.Physical,
+    poiseDamage: 20,
+    staminaCost: 0,
+    activeFrames: [0.35, 0.55],
+    hitboxRadius: 0.3,
+    hitboxLength: 1.0,
+    canBeBlocked: true,
+    canBeDodged: true,
+    knockbackForce: 2,
+  },
+  hollow_thrust: {
+    id: 'hollow_thrust',
+    name: 'Hollow Thrust',
+    baseDamage: 26,
+    damageType: DamageType.Physical,
+    poiseDamage: 25,
+    staminaCost: 0,
+    activeFrames: [0.4, 0.55],
+    hitboxRadius: 0.25,
+    hitboxLength: 1.0,
+    canBeBlocked: true,
+    canBeDodged: true,
+    knockbackForce: 3,
+  },
+  // Ranged: damage comes from the arrow (EnemyData pattern volley)
+  hollow_bow_shot: {
+    id: 'hollow_bow_shot',
+    name: 'Bow Shot',
+    baseDamage: 0,
+    damageType: DamageType.Physical,
+    poiseDamage: 0,
+    staminaCost: 0,
+    activeFrames: [0, 0],
+    hitboxRadius: 0,
+    hitboxLength: 0,
+    canBeBlocked: true,
+    canBeDodged: true,
+    knockbackForce: 0,
+  },
 };
 
 /**
@@ -243,6 +295,9 @@ class AttackSystemManager {
   // Registered attacks
   private attacks: Map<string, AttackData> = new Map();
 
+  // Registered timelines (attacks without one use their AttackData)
+  private timelines: Map<string, AttackTimeline> = new Map();
+
   // Active attacks being processed
   private activeAttacks: Map<string, ActiveAttack> = new Map();
 
@@ -255,6 +310,9 @@ class AttackSystemManager {
     for (const [id, data] of Object.entries(DEFAULT_ATTACKS)) {
       this.attacks.set(id, data);
     }
+    for (const timeline of DEFAULT_TIMELINES) {
+      this.timelines.set(timeline.attackId, timeline);
+    }
   }
 
   /**
@@ -271,6 +329,45 @@ class AttackSystemManager {
     return this.attacks.get(attackId);
   }
 
+  // ========== Timelines ==========
+
+  /**
+   * Register a timeline (replaces the attack's existing timeline)
+   */
+  registerTimeline(timeline: AttackTimeline): void {
+    this.timelines.set(timeline.attackId, timeline);
+  }
+
+  /**
+   * Register timelines from JSON text
+   *
+   * @throws Error if the JSON is malformed
+   */
+  loadTimelines(json: string): void {
+    for (const timeline of parseAttackTimelines(json)) {
+      this.registerTimeline(timeline);
+    }
+  }
+
+  /**
+   * Get the timeline of an attack (registered, or built from its AttackData)
+   */
+  getTimeline(attackId: string): AttackTimeline | undefined {
+    const timeline = this.timelines.get(attackId);
+    if (timeline) return timeline;
+
+    const attackData = this.attacks.get(attackId);
+    return attackData ? buildTimelineFromAttack(attackData) : undefined;
+  }
+
+  /**
+   * Progress span in which an attack can hit (first window start to last window end)
+   */
+  getActiveSpan(attackId: string): [number, number] | undefined {
+    const timeline = this.getTimeline(attackId);
+    return timeline ? getTimelineActiveSpan(timeline) : undefined;
+  }
+
   /**
    * Start an attack
    *
@@ -279,6 +376,7 @@ class AttackSystemManager {
    * @param attackerCollider Collider to exclude from hit detection
    * @param weaponSockets Current weapon socket positions
    * @param attackDirection Direction the attack is facing
+   * @param onCue Handler for timeline cues the attacker acts on (lunges)
    * @returns Active attack instance or null if failed
    */
   startAttack(
@@ -286,10 +384,12 @@ class AttackSystemManager {
     attackId: string,
     attackerCollider: RAPIER.Collider,
     weaponSockets: WeaponSockets,
-    attackDirection: THREE.Vector3
+    attackDirection: THREE.Vector3,
+    onCue?: AttackCueHandler
   ): ActiveAttack | null {
     const attackData = this.attacks.get(attackId);
-    if (!attackData) {
+    const timeline = this.getTimeline(attackId);
+    if (!attackData || !timeline) {
       console.warn(`Attack not found: ${attackId}`);
       return null;
     }
@@ -299,14 +399,19 @@ class AttackSystemManager {
       attackerId,
       attackerCollider,
       attackData,
-      startTime: Date.now(),
+      timeline,
+      startTime: Time.fixedElapsed,
       progress: 0,
       isActive: false,
       prevWeaponBase: weaponSockets.base.clone(),
       prevWeaponTip: weaponSockets.tip.clone(),
       currentWeaponBase: weaponSockets.base.clone(),
       currentWeaponTip: weaponSockets.tip.clone(),
+      currentRoot: (weaponSockets.root ?? weaponSockets.base).clone(),
       hitEntities: new Set(),
+      windowHits: timeline.windows.map(() => new Set<string>()),
+      nextCue: 0,
+      onCue,
       attackDirection: attackDirection.clone().normalize(),
     };
 
@@ -325,6 +430,8 @@ class AttackSystemManager {
   /**
    * Update an active attack
    *
+   * Fires timeline cues and runs hit detection for every open hitbox window.
+   *
    * @param attack Active attack instance
    * @param progress Animation progress (0-1)
    * @param weaponSockets Current weapon socket positions
@@ -347,11 +454,18 @@ class AttackSystemManager {
     attack.prevWeaponTip.copy(attack.currentWeaponTip);
     attack.currentWeaponBase.copy(weaponSockets.base);
     attack.currentWeaponTip.copy(weaponSockets.tip);
+    attack.currentRoot.copy(weaponSockets.root ?? weaponSockets.base);
 
-    // Check if in active frames
-    const [activeStart, activeEnd] = attack.attackData.activeFrames;
+    // Fire cues the progress has passed
+    const cues = attack.timeline.cues;
+    while (attack.nextCue < cues.length && cues[attack.nextCue].at <= progress) {
+      this.fireCue(attack, cues[attack.nextCue++]);
+    }
+
+    // Check if in active frames (any hitbox window open)
+    const windows = attack.timeline.windows;
     const wasActive = attack.isActive;
-    attack.isActive = progress >= activeStart && progress <= activeEnd;
+    attack.isActive = windows.some((window) => progress >= window.start && progress <= window.end);
 
     // Just entered active frames
     if (attack.isActive && !wasActive) {
@@ -369,23 +483,26 @@ class AttackSystemManager {
       });
     }
 
-    // Perform hit detection if active
-    if (attack.isActive) {
-      if (attack.attackData.hitboxLength > 0) {
-        // Sweeping attack - use shapeCast between previous and current positions
-        const sweepHits = this.performSweepHitDetection(attack, targetGroups);
-        hits.push(...sweepHits);
-      } else {
-        // AoE attack - use overlap sphere
-        const aoeHits = this.performAoEHitDetection(attack, targetGroups);
-        hits.push(...aoeHits);
+    // Perform hit detection for each open window
+    windows.forEach((window, index) => {
+      if (progress < window.start || progress > window.end) return;
+
+      const windowHits = attack.windowHits[index];
+      const found: HitResult[] = [];
+      for (const shape of window.shapes) {
+        for (const hit of this.detectShape(attack, shape, windowHits, targetGroups)) {
+          if (!found.some((h) => h.entityId === hit.entityId)) {
+            found.push(hit);
+          }
+        }
       }
 
       // Process hits through damage system
-      for (const hit of hits) {
-        this.processHit(attack, hit);
+      for (const hit of found) {
+        this.processHit(attack, hit, window, windowHits);
       }
-    }
+      hits.push(...found);
+    });
 
     return hits;
   }
@@ -443,6 +560,21 @@ class AttackSystemManager {
     return this.getActiveAttack(attackerId) !== null;
   }
 
+  /**
+   * Check if an entity's attack is inside a hyperarmor window
+   */
+  hasHyperarmor(attackerId: string): boolean {
+    const attack = this.getActiveAttack(attackerId);
+    if (!attack) return false;
+
+    return attack.timeline.cues.some(
+      (cue) =>
+        cue.type === AttackCueType.Hyperarmor &&
+        attack.progress >= cue.at &&
+        attack.progress <= (cue.end ?? cue.at)
+    );
+  }
+
   /**
    * Check if attack is in combo window
    */
@@ -457,8 +589,8 @@ class AttackSystemManager {
    * Clean up expired attacks
    */
   cleanup(): void {
-    const now = Date.now();
-    const maxAttackDuration = 3000; // 3 seconds max
+    const now = Time.fixedElapsed;
+    const maxAttackDuration = 3; // 3 seconds max
 
     for (const [key, attack] of this.activeAttacks.entries()) {
       if (now - attack.startTime > maxAttackDuration) {
@@ -469,14 +601,38 @@ class AttackSystemManager {
 
   // ========== Private Methods ==========
 
+  /**
+   * Run hit detection for one shape
+   */
+  private detectShape(
+    attack: ActiveAttack,
+    shape: HitboxShape,
+    alreadyHit: Set<string>,
+    targetGroups: number
+  ): HitResult[] {
+    switch (shape.type) {
+      case HitboxShapeType.WeaponSweep:
+        return this.performSweepHitDetection(attack, shape, alreadyHit, targetGroups);
+      case HitboxShapeType.Sphere:
+        return this.performSphereHitDetection(attack, shape, alreadyHit, targetGroups);
+      case HitboxShapeType.Cone:
+      case HitboxShapeType.Ring:
+        return this.performAreaHitDetection(attack, shape, alreadyHit, targetGroups);
+    }
+  }
+
   /**
    * Perform sweep hit detection (for melee weapons)
    */
   private performSweepHitDetection(
     attack: ActiveAttack,
+    shape: HitboxShape,
+    alreadyHit: Set<string>,
     targetGroups: number
   ): HitResult[] {
     const hits: HitResult[] = [];
+    const radius = shape.radius ?? attack.attackData.hitboxRadius;
+    const length = shape.length ?? attack.attackData.hitboxLength;
 
     // Calculate sweep direction (from previous to current weapon position)
     const sweepDir = this._tempVec3
@@ -491,10 +647,7 @@ class AttackSystemManager {
     sweepDir.normalize();
 
     // Create capsule shape for the weapon
-    const capsule = new RAPIER.Capsule(
-      attack.attackData.hitboxLength / 2,
-      attack.attackData.hitboxRadius
-    );
+    const capsule = new RAPIER.Capsule(length / 2, radius);
 
     // Shape cast from previous to current position
     const shapeCastHit = PhysicsWorld.shapeCast(
@@ -509,7 +662,7 @@ class AttackSystemManager {
     if (shapeCastHit) {
       const entityId = PhysicsWorld.getEntityFromCollider(shapeCastHit.collider);
 
-      if (entityId && !attack.hitEntities.has(entityId)) {
+      if (entityId && !alreadyHit.has(entityId)) {
         hits.push({
           entityId,
           hitPoint: shapeCastHit.point.clone(),
@@ -522,7 +675,7 @@ class AttackSystemManager {
     // Also check overlap at current position for immediate contacts
     const overlapHits = PhysicsWorld.overlapSphere(
       attack.currentWeaponTip,
-      attack.attackData.hitboxRadius * 1.5,
+      radius * 1.5,
       targetGroups
     );
 
@@ -530,10 +683,10 @@ class AttackSystemManager {
       if (overlap.collider.handle === attack.attackerCollider.handle) continue;
 
       const entityId = PhysicsWorld.getEntityFromCollider(overlap.collider);
-      if (entityId && !attack.hitEntities.has(entityId)) {
+      if (entityId && !alreadyHit.has(entityId)) {
         // Check if already in hits
-        const alreadyHit = hits.some((h) => h.entityId === entityId);
-        if (!alreadyHit) {
+        const alreadyFound = hits.some((h) => h.entityId === entityId);
+        if (!alreadyFound) {
           hits.push({
             entityId,
             hitPoint: attack.currentWeaponTip.clone(),
@@ -548,41 +701,94 @@ class AttackSystemManager {
   }
 
   /**
-   * Perform AoE hit detection (for slam attacks, etc.)
+   * Perform sphere hit detection (sphere following a socket)
    */
-  private performAoEHitDetection(
+  private performSphereHitDetection(
     attack: ActiveAttack,
+    shape: HitboxShape,
+    alreadyHit: Set<string>,
     targetGroups: number
   ): HitResult[] {
-    const hits: HitResult[] = [];
+    const center = this.getBonePosition(attack, shape.bone ?? 'base').clone();
+
+    if (shape.offset) {
+      const forward = this._tempVec3.copy(attack.attackDirection).setY(0).normalize();
+      const right = this._tempVec3B.crossVectors(UP, forward);
+      center
+        .addScaledVector(right, shape.offset.x)
+        .addScaledVector(UP, shape.offset.y)
+        .addScaledVector(forward, shape.offset.z);
+    }
+
+    return this.collectOverlaps(attack, center, shape.radius ?? 0, alreadyHit, targetGroups);
+  }
+
+  /**
+   * Perform cone/ring hit detection around the attacker
+   */
+  private performAreaHitDetection(
+    attack: ActiveAttack,
+    shape: HitboxShape,
+    alreadyHit: Set<string>,
+    targetGroups: number
+  ): HitResult[] {
+    const origin = attack.currentRoot;
+    const isCone = shape.type === HitboxShapeType.Cone;
+    const reach = (isCone ? shape.range : shape.outerRadius) ?? 0;
+    const height = shape.height ?? DEFAULT_SHAPE_HEIGHT;
+
+    const halfAngle = THREE.MathUtils.degToRad((shape.angle ?? 0) / 2);
+    const forward = this._tempVec3.copy(attack.attackDirection).setY(0).normalize();
+
+    return this.collectOverlaps(attack, origin, reach, alreadyHit, targetGroups).filter((hit) => {
+      const pos = hit.collider.translation();
+      if (Math.abs(pos.y - origin.y) > height) return false;
+
+      const offset = this._tempVec3B.set(pos.x - origin.x, 0, pos.z - origin.z);
+      const distance = offset.length();
 
-    // Use weapon base as center for AoE
-    const center = attack.currentWeaponBase;
+      if (isCone) {
+        return distance < 1e-3 || offset.angleTo(forward) <= halfAngle;
+      }
+      return distance >= (shape.innerRadius ?? 0);
+    });
+  }
+
+  /**
+   * Entities overlapping a sphere, pushed away from its center
+   */
+  private collectOverlaps(
+    attack: ActiveAttack,
+    center: THREE.Vector3,
+    radius: number,
+    alreadyHit: Set<string>,
+    targetGroups: number
+  ): HitResult[] {
+    const hits: HitResult[] = [];
 
     // Overlap sphere check
-    const overlapHits = PhysicsWorld.overlapSphere(
-      center,
-      attack.attackData.hitboxRadius,
-      targetGroups
-    );
+    const overlapHits = PhysicsWorld.overlapSphere(center, radius, targetGroups);
 
     for (const overlap of overlapHits) {
       if (overlap.collider.handle === attack.attackerCollider.handle) continue;
 
       const entityId = PhysicsWorld.getEntityFromCollider(overlap.collider);
-      if (entityId && !attack.hitEntities.has(entityId)) {
+      if (entityId && !alreadyHit.has(entityId) && !hits.some((h) => h.entityId === entityId)) {
         // Calculate direction from center to target
         const colliderPos = overlap.collider.translation();
-        const hitNormal = this._tempVec3B
-          .set(colliderPos.x, colliderPos.y, colliderPos.z)
+        const hitNormal = new THREE.Vector3(colliderPos.x, colliderPos.y, colliderPos.z)
           .sub(center)
           .normalize();
 
+        // Push outward from the center (horizontal)
+        const direction = hitNormal.clone().setY(0);
+
         hits.push({
           entityId,
           hitPoint: center.clone(),
-          hitNormal: hitNormal.clone(),
+          hitNormal,
           collider: overlap.collider,
+          direction: direction.lengthSq() > 1e-4 ? direction.normalize() : undefined,
         });
       }
     }
@@ -590,12 +796,62 @@ class AttackSystemManager {
     return hits;
   }
 
+  /**
+   * Current world position of an attacker socket
+   */
+  private getBonePosition(attack: ActiveAttack, bone: AttackBone): THREE.Vector3 {
+    switch (bone) {
+      case 'root':
+        return attack.currentRoot;
+      case 'tip':
+        return attack.currentWeaponTip;
+      default:
+        return attack.currentWeaponBase;
+    }
+  }
+
+  /**
+   * Fire a timeline cue (EventBus + the attacker's handler)
+   */
+  private fireCue(attack: ActiveAttack, cue: AttackCue): void {
+    const position = this.getBonePosition(attack, cue.bone ?? 'tip');
+
+    EventBus.emit('attack:cue', {
+      attackerId: attack.attackerId,
+      attackId: attack.attackData.id,
+      type: cue.type,
+      name: cue.name,
+      intensity: cue.intensity,
+      duration: cue.duration,
+      position: { x: position.x, y: position.y, z: position.z },
+    });
+
+    attack.onCue?.(cue, attack);
+  }
+
   /**
    * Process a hit through the damage system
    */
-  private processHit(attack: ActiveAttack, hit: HitResult): void {
+  private processHit(
+    attack: ActiveAttack,
+    hit: HitResult,
+    window: HitboxWindow,
+    windowHits: Set<string>
+  ): void {
     // Mark as hit to prevent multi-hit
     attack.hitEntities.add(hit.entityId);
+    windowHits.add(hit.entityId);
+
+    // Window values override the attack's
+    const attackData = attack.attackData;
+    const poiseDamage = window.poiseDamage ?? attackData.poiseDamage;
+    const knockbackForce = window.knockbackForce ?? attackData.knockbackForce;
+    const hitStop = getHitStopDuration({
+      ...attackData,
+      poiseDamage,
+      knockbackForce,
+      hitStop: window.hitStop ?? attackData.hitStop,
+    });
 
     // Determine damage source type
     let sourceType = DamageSourceType.PlayerAttack;
@@ -610,19 +866,40 @@ class AttackSystemManager {
       sourceEntityId: attack.attackerId,
       sourceType,
       targetEntityId: hit.entityId,
-      baseDamage: attack.attackData.baseDamage,
-      damageType: attack.attackData.damageType,
-      poiseDamage: attack.attackData.poiseDamage,
+      baseDamage: attackData.baseDamage * (window.damageMultiplier ?? 1),
+      damageType: attackData.damageType,
+      poiseDamage,
       hitPoint: hit.hitPoint,
-      hitDirection: attack.attackDirection,
-      canBeBlocked: attack.attackData.canBeBlocked,
-      canBeDodged: attack.attackData.canBeDodged,
-      criticalMultiplier: attack.attackData.criticalMultiplier,
+      hitDirection: hit.direction ?? attack.attackDirection,
+      knockbackForce,
+      canBeBlocked: window.canBeBlocked ?? attackData.canBeBlocked,
+      canBeDodged: attackData.canBeDodged,
+      criticalMultiplier: attackData.criticalMultiplier,
+      hitStop,
     };
 
     // Process through damage system
     const result = DamageSystem.processDamage(damageRequest);
 
+    // Hit-stop / time dilation requested by the result
+    Time.hitStop(result.hitStop);
+    if (result.attackerTimeScale) {
+      Time.setLocalTimeScale(
+        attack.attackerId,
+        result.attackerTimeScale.scale,
+        result.attackerTimeScale.duration
+      );
+    }
+
+    // Status buildup only on clean hits
+    if (attack.attackData.statusBuildup && result.applied && !result.blockedReason) {
+      StatusEffectSystem.addBuildup(
+        hit.entityId,
+        attack.attackData.statusBuildup,
+        attack.attackerId
+      );
+    }
+
     // Emit hit event
     EventBus.emit('attack:hit', {
       attackerId: attack.attackerId,
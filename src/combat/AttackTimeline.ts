@@ -0,0 +1,382 @@
+/**
+ * Attack Timeline - Hitbox windows and cue events of an attack
+ *
+ * A timeline runs on the attack's normalized progress (0-1):
+ * - Hitbox windows: each with its own shapes, damage multiplier, poise and knockback
+ *   (a target can be hit once per window)
+ * - Cues: sound, VFX, camera shake, lunge movement and hyperarmor windows
+ *
+ * Usage:
+ * - AttackSystem.registerTimeline(timeline) / AttackSystem.loadTimelines(json)
+ * - Attacks without a timeline get one built from their AttackData
+ *   (buildTimelineFromAttack: one window, weapon sweep or sphere, optional hyperarmor)
+ *
+ * Timeline JSON structure:
+ * {
+ *   attackId: string,
+ *   windows: [{ start, end, shapes: HitboxShape[], damageMultiplier?, poiseDamage?, ... }],
+ *   cues: [{ type, at, ...type-specific fields }]
+ * }
+ */
+
+import type { AttackData } from './AttackSystem';
+
+// ============ Data Types ============
+
+/**
+ * Vector3 in JSON format
+ */
+export interface Vec3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+/**
+ * Hitbox shape types
+ */
+export enum HitboxShapeType {
+  WeaponSweep = 'weaponSweep', // Capsule swept along the weapon sockets
+  Sphere = 'sphere', // Sphere following a socket
+  Cone = 'cone', // Cone in front of the attacker
+  Ring = 'ring', // Ring around the attacker (shockwaves)
+}
+
+/**
+ * Attacker sockets a shape can follow
+ * (see WeaponSockets: root = attacker position, base/tip = weapon)
+ */
+export type AttackBone = 'root' | 'base' | 'tip';
+
+/**
+ * Hitbox shape definition
+ */
+export interface HitboxShape {
+  type: HitboxShapeType;
+
+  // Type-specific
+  radius?: number; // weaponSweep (blade thickness), sphere
+  length?: number; // weaponSweep (blade length)
+  bone?: AttackBone; // sphere (default 'base')
+  offset?: Vec3; // sphere: attacker space (x right, y up, z forward)
+  range?: number; // cone
+  angle?: number; // cone: full opening angle in degrees
+  innerRadius?: number; // ring
+  outerRadius?: number; // ring
+  height?: number; // cone/ring: max vertical distance from the attacker (default 2)
+}
+
+/**
+ * Hitbox window
+ */
+export interface HitboxWindow {
+  start: number; // Progress (0-1)
+  end: number;
+  shapes: HitboxShape[];
+
+  // Overrides of the attack's values
+  damageMultiplier?: number; // x baseDamage (default 1)
+  poiseDamage?: number;
+  knockbackForce?: number;
+  hitStop?: number;
+  canBeBlocked?: boolean;
+}
+
+/**
+ * Cue event types
+ */
+export enum AttackCueType {
+  Sound = 'sound',
+  Vfx = 'vfx',
+  CameraShake = 'cameraShake',
+  Lunge = 'lunge',
+  Hyperarmor = 'hyperarmor',
+}
+
+/**
+ * Cue event definition
+ */
+export interface AttackCue {
+  type: AttackCueType;
+  at: number; // Progress (0-1) when the cue fires
+
+  // Type-specific
+  name?: string; // sound/vfx: asset or effect ID
+  bone?: AttackBone; // vfx: where to spawn (default 'tip')
+  intensity?: number; // cameraShake
+  duration?: number; // cameraShake, lunge (seconds)
+  speed?: number; // lunge: m/s along the attack direction
+  end?: number; // hyperarmor: progress when the window closes
+}
+
+/**
+ * Attack timeline
+ */
+export interface AttackTimeline {
+  attackId: string;
+  windows: HitboxWindow[];
+  cues: AttackCue[];
+}
+
+// ============ Helpers ============
+
+/**
+ * Default vertical reach of cones and rings
+ */
+export const DEFAULT_SHAPE_HEIGHT = 2.0;
+
+/**
+ * Build a timeline from legacy AttackData fields
+ * (activeFrames + weapon sweep, or a sphere at the weapon base for AoE;
+ * the hyperarmor window becomes a cue)
+ */
+export function buildTimelineFromAttack(attack: AttackData): AttackTimeline {
+  const shape: HitboxShape =
+    attack.hitboxLength > 0
+      ? {
+          type: HitboxShapeType.WeaponSweep,
+          radius: attack.hitboxRadius,
+          length: attack.hitboxLength,
+        }
+      : { type: HitboxShapeType.Sphere, bone: 'base', radius: attack.hitboxRadius };
+
+  const cues: AttackCue[] = attack.hyperarmor
+    ? [{ type: AttackCueType.Hyperarmor, at: attack.hyperarmor[0], end: attack.hyperarmor[1] }]
+    : [];
+
+  return {
+    attackId: attack.id,
+    windows: [{ start: attack.activeFrames[0], end: attack.activeFrames[1], shapes: [shape] }],
+    cues,
+  };
+}
+
+/**
+ * Progress span covered by the timeline's hitbox windows
+ */
+export function getTimelineActiveSpan(timeline: AttackTimeline): [number, number] {
+  if (timeline.windows.length === 0) return [0, 0];
+
+  let start = 1;
+  let end = 0;
+  for (const window of timeline.windows) {
+    start = Math.min(start, window.start);
+    end = Math.max(end, window.end);
+  }
+  return [start, end];
+}
+
+/**
+ * Parse timelines from JSON text (an array or { timelines: [...] })
+ *
+ * @throws Error if the data is malformed
+ */
+export function parseAttackTimelines(json: string): AttackTimeline[] {
+  const data: unknown = JSON.parse(json);
+  const list = Array.isArray(data) ? data : (data as { timelines?: unknown })?.timelines;
+
+  if (!Array.isArray(list)) {
+    throw new Error('[AttackTimeline] Expected an array of timelines');
+  }
+
+  return list.map((entry) => validateTimeline(entry));
+}
+
+/**
+ * Validate one timeline object
+ *
+ * @throws Error if the data is malformed
+ */
+export function validateTimeline(data: unknown): AttackTimeline {
+  const timeline = data as Partial<AttackTimeline>;
+  if (!timeline || typeof timeline.attackId !== 'string') {
+    throw new Error('[AttackTimeline] Timeline is missing attackId');
+  }
+
+  const id = timeline.attackId;
+  const windows = timeline.windows ?? [];
+  const cues = timeline.cues ?? [];
+  if (!Array.isArray(windows) || !Array.isArray(cues)) {
+    throw new Error(`[AttackTimeline] ${id}: windows and cues must be arrays`);
+  }
+
+  for (const window of windows) {
+    if (!isProgress(window.start) || !isProgress(window.end) || window.start > window.end) {
+      throw new Error(`[AttackTimeline] ${id}: invalid window [${window.start}, ${window.end}]`);
+    }
+    if (!Array.isArray(window.shapes) || window.shapes.length === 0) {
+      throw new Error(`[AttackTimeline] ${id}: window without shapes`);
+    }
+    for (const shape of window.shapes) {
+      validateShape(id, shape);
+    }
+  }
+
+  for (const cue of cues) {
+    validateCue(id, cue);
+  }
+
+  return {
+    attackId: id,
+    windows: windows.map((window) => ({ ...window, shapes: [...window.shapes] })),
+    cues: [...cues].sort((a, b) => a.at - b.at),
+  };
+}
+
+function validateShape(attackId: string, shape: HitboxShape): void {
+  const fail = (reason: string): never => {
+    throw new Error(`[AttackTimeline] ${attackId}: ${shape?.type ?? 'unknown'} shape ${reason}`);
+  };
+
+  switch (shape?.type) {
+    case HitboxShapeType.WeaponSweep:
+      if (!isPositive(shape.radius) || !isPositive(shape.length)) fail('needs radius and length');
+      break;
+    case HitboxShapeType.Sphere:
+      if (!isPositive(shape.radius)) fail('needs a radius');
+      break;
+    case HitboxShapeType.Cone:
+      if (!isPositive(shape.range) || !isPositive(shape.angle)) fail('needs range and angle');
+      break;
+    case HitboxShapeType.Ring:
+      if (!isPositive(shape.outerRadius) || (shape.innerRadius ?? 0) >= shape.outerRadius!) {
+        fail('needs outerRadius > innerRadius');
+      }
+      break;
+    default:
+      fail('has an unknown type');
+  }
+}
+
+function validateCue(attackId: string, cue: AttackCue): void {
+  if (!Object.values(AttackCueType).includes(cue?.type) || !isProgress(cue.at)) {
+    throw new Error(`[AttackTimeline] ${attackId}: invalid cue ${JSON.stringify(cue)}`);
+  }
+
+  if (cue.type === AttackCueType.Hyperarmor && (!isProgress(cue.end) || cue.end! < cue.at)) {
+    throw new Error(`[AttackTimeline] ${attackId}: hyperarmor cue needs an end after at`);
+  }
+  if (cue.type === AttackCueType.Lunge && (!isPositive(cue.speed) || !isPositive(cue.duration))) {
+    throw new Error(`[AttackTimeline] ${attackId}: lunge cue needs speed and duration`);
+  }
+}
+
+function isProgress(value: unknown): value is number {
+  return typeof value === 'number' && value >= 0 && value <= 1;
+}
+
+function isPositive(value: unknown): value is number {
+  return typeof value === 'number' && value > 0;
+}
+
+// ============ Default Timelines ============
+
+/**
+ * Boss and enemy attack timelines
+ * (this can also be loaded from a JSON file)
+ */
+export const DEFAULT_TIMELINES: AttackTimeline[] = [
+  {
+    attackId: 'boss_wide_sweep',
+    windows: [
+      {
+        start: 0.3,
+        end: 0.55,
+        shapes: [{ type: HitboxShapeType.WeaponSweep, radius: 1.2, length: 3.0 }],
+      },
+    ],
+    cues: [
+      { type: AttackCueType.Lunge, at: 0.2, speed: 3.0, duration: 0.3 },
+      { type: AttackCueType.Sound, at: 0.3, name: 'swing_heavy' },
+    ],
+  },
+  {
+    attackId: 'boss_overhead_smash',
+    windows: [
+      {
+        start: 0.4,
+        end: 0.6,
+        shapes: [{ type: HitboxShapeType.WeaponSweep, radius: 1.5, length: 0.5 }],
+      },
+      // Shockwave where the weapon lands
+      {
+        start: 0.58,
+        end: 0.66,
+        shapes: [{ type: HitboxShapeType.Sphere, bone: 'tip', radius: 2.0 }],
+        damageMultiplier: 0.4,
+        poiseDamage: 30,
+        knockbackForce: 6,
+      },
+    ],
+    cues: [
+      { type: AttackCueType.Hyperarmor, at: 0.2, end: 0.6 },
+      { type: AttackCueType.Sound, at: 0.4, name: 'swing_heavy' },
+      { type: AttackCueType.CameraShake, at: 0.58, intensity: 0.4, duration: 0.3 },
+      { type: AttackCueType.Vfx, at: 0.58, name: 'dust_burst', bone: 'tip' },
+    ],
+  },
+  {
+    attackId: 'boss_jump_slam',
+    windows: [
+      {
+        start: 0.5,
+        end: 0.7,
+        shapes: [
+          { type: HitboxShapeType.Sphere, bone: 'root', offset: { x: 0, y: 1, z: 0 }, radius: 2.5 },
+        ],
+      },
+    ],
+    cues: [
+      { type: AttackCueType.Hyperarmor, at: 0.0, end: 0.7 },
+      { type: AttackCueType.CameraShake, at: 0.5, intensity: 0.7, duration: 0.5 },
+      { type: AttackCueType.Vfx, at: 0.5, name: 'dust_ring', bone: 'root' },
+    ],
+  },
+  {
+    attackId: 'boss_aoe_stomp',
+    windows: [
+      // Expanding shockwave: near ring first, outer ring after
+      {
+        start: 0.35,
+        end: 0.42,
+        shapes: [{ type: HitboxShapeType.Ring, innerRadius: 0, outerRadius: 2.0, height: 1.5 }],
+      },
+      {
+        start: 0.42,
+        end: 0.5,
+        shapes: [{ type: HitboxShapeType.Ring, innerRadius: 2.0, outerRadius: 4.0, height: 1.0 }],
+        damageMultiplier: 0.7,
+        poiseDamage: 20,
+      },
+    ],
+    cues: [
+      { type: AttackCueType.Hyperarmor, at: 0.1, end: 0.5 },
+      { type: AttackCueType.CameraShake, at: 0.35, intensity: 0.5, duration: 0.4 },
+      { type: AttackCueType.Vfx, at: 0.35, name: 'dust_ring', bone: 'root' },
+      { type: AttackCueType.Sound, at: 0.35, name: 'stomp' },
+    ],
+  },
+  {
+    // No hitboxes: the volley is fired by the boss pattern
+    attackId: 'boss_fireball_cast',
+    windows: [],
+    cues: [
+      { type: AttackCueType.Vfx, at: 0.2, name: 'fire_gather', bone: 'base' },
+      { type: AttackCueType.Sound, at: 0.5, name: 'fireball_cast' },
+    ],
+  },
+  {
+    attackId: 'hollow_thrust',
+    windows: [
+      {
+        start: 0.4,
+        end: 0.55,
+        shapes: [{ type: HitboxShapeType.WeaponSweep, radius: 0.25, length: 1.0 }],
+      },
+    ],
+    cues: [
+      { type: AttackCueType.Lunge, at: 0.35, speed: 4.0, duration: 0.2 },
+      { type: AttackCueType.Sound, at: 0.4, name: 'swing_light' },
+    ],
+  },
+];
@@ -0,0 +1,438 @@
+/**
+ * Critical System - Ripostes and backstabs
+ *
+ * Features:
+ * - Parry stun: a parried attacker is open to a riposte for a short window
+ * - Riposte: parry-stunned or staggered target in front of the attacker
+ * - Backstab: target facing away, attacker behind it (facing vectors)
+ * - Synced lock: attacker is snapped into position and both entities play
+ *   their critical animations for the same duration
+ * - Damage through DamageSystem with the critical multiplier at the hit time;
+ *   the attacker has i-frames for the whole animation
+ *
+ * Usage:
+ * - CriticalSystem.registerParticipant({ entityId, getPosition, getForward, ... })
+ * - CriticalSystem.tryCritical(attackerId) on the light attack input
+ * - CriticalSystem.update() every fixed tick
+ */
+
+import * as THREE from 'three';
+import { EventBus } from '../core/EventBus';
+import { Time } from '../core/Time';
+import { DamageSystem, DamageSourceType } from './DamageSystem';
+import { IFrameSystem, IFrameSource } from './IFrameSystem';
+import { DamageType } from '../player/PlayerStats';
+
+/**
+ * Critical attack types
+ */
+export enum CriticalType {
+  Riposte = 'Riposte',
+  Backstab = 'Backstab',
+}
+
+/**
+ * Role of an entity in a critical
+ */
+export type CriticalRole = 'attacker' | 'victim';
+
+/**
+ * Timing and damage of a critical type
+ */
+export interface CriticalDefinition {
+  duration: number; // Seconds both entities are locked
+  hitTime: number; // Normalized (0-1) time the damage lands
+  multiplier: number; // DamageRequest.criticalMultiplier
+  syncDistance: number; // Attacker distance from the victim's surface
+  attackerAnimation: string;
+  victimAnimation: string;
+}
+
+export const CRITICAL_DEFINITIONS: Record<CriticalType, CriticalDefinition> = {
+  [CriticalType.Riposte]: {
+    duration: 1.6,
+    hitTime: 0.55,
+    multiplier: 3.0,
+    syncDistance: 0.6,
+    attackerAnimation: 'Riposte',
+    victimAnimation: 'Riposted',
+  },
+  [CriticalType.Backstab]: {
+    duration: 1.8,
+    hitTime: 0.5,
+    multiplier: 2.5,
+    syncDistance: 0.4,
+    attackerAnimation: 'Backstab',
+    victimAnimation: 'Backstabbed',
+  },
+};
+
+/**
+ * Detection configuration
+ */
+export interface CriticalConfig {
+  riposteRange: number; // Max distance from the victim's surface
+  backstabRange: number;
+  frontAngle: number; // Degrees: victim must be within this of the attacker's forward
+  backstabAngle: number; // Degrees: victim must face within this of the attacker's forward
+  parryStunDuration: number; // Seconds a parried attacker stays riposte-able
+  hitStop: number; // Seconds of world freeze when the critical lands
+}
+
+const DEFAULT_CONFIG: CriticalConfig = {
+  riposteRange: 1.5,
+  backstabRange: 1.0,
+  frontAngle: 45,
+  backstabAngle: 50,
+  parryStunDuration: 1.5,
+  hitStop: 0.15,
+};
+
+/**
+ * Damage dealt by an attacker's criticals (before the multiplier)
+ */
+export interface CriticalDamage {
+  baseDamage: number;
+  damageType: DamageType;
+  sourceType: DamageSourceType;
+}
+
+/**
+ * An active critical
+ */
+export interface Critical {
+  type: CriticalType;
+  attackerId: string;
+  victimId: string;
+  definition: CriticalDefinition;
+  startTime: number;
+
+  // Synced placement
+  attackerPosition: THREE.Vector3;
+  attackerFacing: THREE.Vector3;
+  victimFacing: THREE.Vector3;
+}
+
+/**
+ * Entity taking part in criticals
+ */
+export interface CriticalParticipant {
+  entityId: string;
+  radius?: number; // Body radius (sync distance and range start at the surface)
+
+  getPosition(): THREE.Vector3;
+  getForward(): THREE.Vector3; // Horizontal facing
+
+  // Victim side
+  canBeRiposted?: boolean; // Default true
+  canBeBackstabbed?: boolean; // Default false
+  isStaggered?(): boolean;
+  onParried?(stunDuration: number): void;
+
+  // Attacker side (no damage = cannot perform criticals)
+  getCriticalDamage?(): CriticalDamage;
+
+  // Synced lock (move/face/animate according to role)
+  onCriticalStart?(critical: Critical, role: CriticalRole): void;
+  onCriticalEnd?(critical: Critical, role: CriticalRole): void;
+}
+
+/**
+ * Active critical bookkeeping
+ */
+interface CriticalEntry {
+  critical: Critical;
+  damageApplied: boolean;
+}
+
+/**
+ * Critical System class
+ */
+class CriticalSystemManager {
+  private config: CriticalConfig = { ...DEFAULT_CONFIG };
+
+  // Participants by entity ID
+  private participants: Map<string, CriticalParticipant> = new Map();
+
+  // Parry stun end times by entity ID
+  private parryStuns: Map<string, number> = new Map();
+
+  // Active criticals by attacker ID
+  private active: Map<string, CriticalEntry> = new Map();
+
+  constructor() {
+    EventBus.on('combat:parried', ({ attackerEntityId }) => {
+      this.applyParryStun(attackerEntityId);
+    });
+  }
+
+  /**
+   * Override detection config
+   */
+  configure(config: Partial<CriticalConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  // ========== Participants ==========
+
+  /**
+   * Register an entity for criticals
+   */
+  registerParticipant(participant: CriticalParticipant): void {
+    this.participants.set(participant.entityId, participant);
+  }
+
+  /**
+   * Unregister an entity (ends its criticals)
+   */
+  unregisterParticipant(entityId: string): void {
+    for (const [attackerId, entry] of [...this.active]) {
+      if (attackerId === entityId || entry.critical.victimId === entityId) {
+        this.endCritical(attackerId);
+      }
+    }
+
+    this.participants.delete(entityId);
+    this.parryStuns.delete(entityId);
+  }
+
+  // ========== Criticals ==========
+
+  /**
+   * Find a riposte or backstab target for an attacker
+   */
+  findTarget(attackerId: string): { victimId: string; type: CriticalType } | null {
+    const attacker = this.participants.get(attackerId);
+    if (!attacker?.getCriticalDamage || this.isLocked(attackerId)) return null;
+
+    const attackerPos = attacker.getPosition();
+    const attackerForward = this.flatten(attacker.getForward().clone()).normalize();
+    const minFrontDot = Math.cos(THREE.MathUtils.degToRad(this.config.frontAngle));
+    const minBackDot = Math.cos(THREE.MathUtils.degToRad(this.config.backstabAngle));
+
+    let best: { victimId: string; type: CriticalType } | null = null;
+    let bestDistance = Infinity;
+
+    for (const victim of this.participants.values()) {
+      if (victim.entityId === attackerId || this.isLocked(victim.entityId)) continue;
+      if (DamageSystem.getEntityState(victim.entityId)?.isDead) continue;
+
+      const toVictim = this.flatten(victim.getPosition().clone().sub(attackerPos));
+      const surfaceDistance = toVictim.length() - (victim.radius ?? 0);
+      if (surfaceDistance >= bestDistance) continue;
+
+      // Victim must be in front of the attacker
+      toVictim.normalize();
+      if (attackerForward.dot(toVictim) < minFrontDot) continue;
+
+      let type: CriticalType | null = null;
+
+      if (
+        victim.canBeRiposted !== false &&
+        surfaceDistance <= this.config.riposteRange &&
+        (this.isParryStunned(victim.entityId) || victim.isStaggered?.())
+      ) {
+        type = CriticalType.Riposte;
+      } else if (
+        victim.canBeBackstabbed &&
+        surfaceDistance <= this.config.backstabRange &&
+        this.flatten(victim.getForward().clone()).normalize().dot(toVictim) >= minBackDot
+      ) {
+        // Victim faces away from the attacker
+        type = CriticalType.Backstab;
+      }
+
+      if (type) {
+        best = { victimId: victim.entityId, type };
+        bestDistance = surfaceDistance;
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Start a critical on the best target, if any
+   *
+   * @returns true if a critical started
+   */
+  tryCritical(attackerId: string): boolean {
+    const target = this.findTarget(attackerId);
+    if (!target) return false;
+
+    this.startCritical(attackerId, target.victimId, target.type);
+    return true;
+  }
+
+  /**
+   * Check if an entity is parry-stunned
+   */
+  isParryStunned(entityId: string): boolean {
+    const endTime = this.parryStuns.get(entityId);
+    return endTime !== undefined && Time.fixedElapsed < endTime;
+  }
+
+  /**
+   * Check if an entity is locked in a critical (either role)
+   */
+  isLocked(entityId: string): boolean {
+    if (this.active.has(entityId)) return true;
+
+    for (const entry of this.active.values()) {
+      if (entry.critical.victimId === entityId) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Get the active critical an entity is part of
+   */
+  getCritical(entityId: string): Critical | null {
+    for (const entry of this.active.values()) {
+      if (entry.critical.attackerId === entityId || entry.critical.victimId === entityId) {
+        return entry.critical;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Update system (call every fixed tick: damage at hit time, unlock at the end)
+   */
+  update(): void {
+    const now = Time.fixedElapsed;
+
+    for (const [entityId, endTime] of [...this.parryStuns]) {
+      if (now >= endTime) {
+        this.parryStuns.delete(entityId);
+      }
+    }
+
+    for (const [attackerId, entry] of [...this.active]) {
+      const { critical } = entry;
+      const elapsed = now - critical.startTime;
+
+      if (!entry.damageApplied && elapsed >= critical.definition.duration * critical.definition.hitTime) {
+        entry.damageApplied = true;
+        this.applyCriticalDamage(critical);
+      }
+
+      if (elapsed >= critical.definition.duration) {
+        this.endCritical(attackerId);
+      }
+    }
+  }
+
+  /**
+   * Clear all criticals and participants
+   */
+  clear(): void {
+    this.active.clear();
+    this.parryStuns.clear();
+    this.participants.clear();
+  }
+
+  // ========== Private Methods ==========
+
+  private applyParryStun(entityId: string): void {
+    const participant = this.participants.get(entityId);
+    if (!participant) return;
+
+    this.parryStuns.set(entityId, Time.fixedElapsed + this.config.parryStunDuration);
+    participant.onParried?.(this.config.parryStunDuration);
+  }
+
+  private startCritical(attackerId: string, victimId: string, type: CriticalType): void {
+    const attacker = this.participants.get(attackerId)!;
+    const victim = this.participants.get(victimId)!;
+    const definition = CRITICAL_DEFINITIONS[type];
+
+    const attackerPos = attacker.getPosition();
+    const victimPos = victim.getPosition();
+    const offset = (victim.radius ?? 0) + definition.syncDistance;
+
+    // Riposte: face to face along the current line; backstab: right behind the victim
+    const victimFacing =
+      type === CriticalType.Riposte
+        ? this.flatten(attackerPos.clone().sub(victimPos)).normalize()
+        : this.flatten(victim.getForward().clone()).normalize();
+    const attackerFacing =
+      type === CriticalType.Riposte ? victimFacing.clone().negate() : victimFacing.clone();
+
+    const attackerPosition = victimPos.clone().addScaledVector(attackerFacing, -offset);
+    attackerPosition.y = attackerPos.y;
+
+    const critical: Critical = {
+      type,
+      attackerId,
+      victimId,
+      definition,
+      startTime: Time.fixedElapsed,
+      attackerPosition,
+      attackerFacing,
+      victimFacing,
+    };
+
+    this.active.set(attackerId, { critical, damageApplied: false });
+    this.parryStuns.delete(victimId);
+
+    // Attacker cannot be hit out of the animation
+    IFrameSystem.grantIFrames(attackerId, IFrameSource.Critical, definition.duration);
+
+    attacker.onCriticalStart?.(critical, 'attacker');
+    victim.onCriticalStart?.(critical, 'victim');
+
+    EventBus.emit('combat:criticalStarted', {
+      attacker: attackerId,
+      target: victimId,
+      type,
+    });
+  }
+
+  private applyCriticalDamage(critical: Critical): void {
+    const damage = this.participants.get(critical.attackerId)?.getCriticalDamage?.();
+    if (!damage) return;
+
+    const result = DamageSystem.processDamage({
+      sourceEntityId: critical.attackerId,
+      sourceType: damage.sourceType,
+      targetEntityId: critical.victimId,
+      baseDamage: damage.baseDamage,
+      damageType: damage.damageType,
+      isCritical: true,
+      criticalMultiplier: critical.definition.multiplier,
+      canBeBlocked: false,
+      canBeDodged: false,
+      hitStop: this.config.hitStop,
+    });
+
+    Time.hitStop(result.hitStop);
+
+    if (result.applied) {
+      EventBus.emit('combat:criticalHit', {
+        attacker: critical.attackerId,
+        target: critical.victimId,
+        damage: result.finalDamage,
+      });
+    }
+  }
+
+  private endCritical(attackerId: string): void {
+    const entry = this.active.get(attackerId);
+    if (!entry) return;
+
+    this.active.delete(attackerId);
+
+    const { critical } = entry;
+    this.participants.get(critical.attackerId)?.onCriticalEnd?.(critical, 'attacker');
+    this.participants.get(critical.victimId)?.onCriticalEnd?.(critical, 'victim');
+  }
+
+  private flatten(vector: THREE.Vector3): THREE.Vector3 {
+    vector.y = 0;
+    return vector;
+  }
+}
+
+// Singleton instance
+export const CriticalSystem = new CriticalSystemManager();
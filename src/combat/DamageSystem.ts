@@ -2,16 +2,21 @@
  * Damage System
  *
  * Centralized damage processing:
+ * 0. Invulnerability check (scripted, e.g. boss phase transitions) -> ignore damage
  * 1. I-frame check -> ignore damage
- * 2. Guard check -> stamina damage + reduced HP damage
+ * 2. Guard check (hits inside the guard arc only) -> stamina damage + reduced HP damage
  * 3. Apply HP damage + poise damage
  * 4. Check death
  *
- * Supports damage types, resistances, and modifiers.
+ * Supports damage types, resistances, and modifiers (global, plus per-entity
+ * dealt/taken multipliers from buffs that can expire on their own).
+ * Results carry hit-stop / time dilation requests for the caller to apply
+ * (see Time.hitStop / Time.setLocalTimeScale).
  */
 
 import * as THREE from 'three';
 import { EventBus } from '../core/EventBus';
+import { Time, type TimeScaleRequest } from '../core/Time';
 import { IFrameSystem, IFrameSource } from './IFrameSystem';
 import { DamageType } from '../player/PlayerStats';
 
@@ -34,6 +39,7 @@ export interface DamageRequest {
   // Position/direction for knockback
   hitPoint?: THREE.Vector3;
   hitDirection?: THREE.Vector3;
+  knockbackForce?: number;
 
   // Modifiers
   canBeBlocked?: boolean;
@@ -43,6 +49,9 @@ export interface DamageRequest {
   // Critical hit
   isCritical?: boolean;
   criticalMultiplier?: number;
+
+  // World freeze on a clean hit (seconds, scaled down when guarded)
+  hitStop?: number;
 }
 
 /**
@@ -77,11 +86,21 @@ export interface DamageResult {
   targetStaggered: boolean;
   targetDied: boolean;
   guardBroken: boolean;
+  hyperarmor: boolean; // Tanked through inside a hyperarmor window (poise damage taken, no stagger)
 
   // For UI effects
   damageType: DamageType;
+  sourceType: DamageSourceType;
   isCritical: boolean;
   hitPoint?: THREE.Vector3;
+
+  // Knockback (the target resolves its own hit reaction)
+  knockbackForce: number;
+  hitDirection?: THREE.Vector3;
+
+  // Time requests (applied by the caller)
+  hitStop: number; // Seconds of world freeze (0 = none)
+  attackerTimeScale?: TimeScaleRequest; // Slow-down of the attacker (parried)
 }
 
 /**
@@ -117,21 +136,68 @@ export interface EntityCombatState {
   isGuarding: boolean;
   isParrying: boolean;
   isDead: boolean;
+  isInvulnerable?: boolean; // Ignores all damage (dodge-proof attacks included)
 
   // Guard properties
-  guardStaminaCostMultiplier?: number; // How much stamina blocking costs
+  guardStability?: number; // 0-100, higher = less stamina per blocked damage point
   guardDamageReduction?: number; // 0-1, how much damage is reduced when blocking
+  guardArc?: number; // Degrees covered in front (default 180)
+  getFacing?: () => THREE.Vector3; // Horizontal facing (no facing = guard covers all sides)
+
+  // Attack hyperarmor window (poise breaks don't stagger)
+  hasHyperarmor?: () => boolean;
 
   // Resistances (damage type -> reduction %)
   resistances?: Map<DamageType, number>;
 
+  // Souls awarded to the killer
+  soulValue?: number;
+
   // Callbacks
   onTakeDamage?: (result: DamageResult) => void;
   onDie?: () => void;
   onStagger?: () => void;
+  onGuardHit?: (request: DamageRequest, staminaCost: number) => void; // Blocked, guard held
   onGuardBreak?: () => void;
 }
 
+/**
+ * Damage multiplier on an entity (buffs/debuffs, stacked multiplicatively)
+ */
+export interface DamageModifier {
+  id: string; // Adding the same ID again replaces (refreshes) it
+  dealt?: number; // x damage the entity deals
+  taken?: number; // x damage the entity takes
+  damageType?: DamageType; // Only this damage type (default all)
+  sourceType?: DamageSourceType; // Only this source type (default all)
+  expiresAt?: number; // Time.fixedElapsed when it ends (default until removed)
+}
+
+/**
+ * Guard defaults
+ */
+const DEFAULT_GUARD_ARC = 180;
+const DEFAULT_GUARD_STABILITY = 50;
+
+/**
+ * Hit-stop / time dilation tuning
+ */
+const GUARD_HIT_STOP_SCALE = 0.5; // Guarded hits freeze for half as long
+const PARRY_HIT_STOP = 0.12;
+const PARRY_ATTACKER_SLOW: TimeScaleRequest = { scale: 0.5, duration: 1.0 };
+
+/**
+ * Guard stamina cost per blocked damage point at a stability (1.0 at 50)
+ */
+export function getGuardStaminaCostMultiplier(stability: number): number {
+  return (100 - THREE.MathUtils.clamp(stability, 0, 100)) / 50;
+}
+
+/**
+ * Called when any registered entity dies
+ */
+export type DeathListener = (victim: EntityCombatState, killerEntityId: string) => void;
+
 /**
  * Damage System Manager
  */
@@ -141,6 +207,10 @@ class DamageSystemManager {
 
   // Damage modifiers (for buffs/debuffs)
   private globalDamageMultiplier: number = 1.0;
+  private modifiers: Map<string, DamageModifier[]> = new Map();
+
+  // Death listeners (rewards, world state)
+  private deathListeners: Set<DeathListener> = new Set();
 
   /**
    * Register an entity for damage processing
@@ -154,6 +224,7 @@ class DamageSystemManager {
    */
   unregisterEntity(entityId: string): void {
     this.entities.delete(entityId);
+    this.modifiers.delete(entityId);
   }
 
   /**
@@ -166,6 +237,16 @@ class DamageSystemManager {
     }
   }
 
+  /**
+   * Listen for entity deaths
+   *
+   * @returns Unsubscribe function
+   */
+  onDeath(listener: DeathListener): () => void {
+    this.deathListeners.add(listener);
+    return () => this.deathListeners.delete(listener);
+  }
+
   /**
    * Get entity state
    */
@@ -189,9 +270,14 @@ class DamageSystemManager {
       targetStaggered: false,
       targetDied: false,
       guardBroken: false,
+      hyperarmor: false,
       damageType: request.damageType,
+      sourceType: request.sourceType,
       isCritical: request.isCritical ?? false,
       hitPoint: request.hitPoint,
+      knockbackForce: request.knockbackForce ?? 0,
+      hitDirection: request.hitDirection,
+      hitStop: 0,
     };
 
     // Check if target exists and is alive
@@ -204,6 +290,12 @@ class DamageSystemManager {
       return result;
     }
 
+    // Step 0: Scripted invulnerability
+    if (targetState.isInvulnerable) {
+      result.blockedReason = DamageBlockedReason.TargetInvulnerable;
+      return result;
+    }
+
     // Step 1: Check I-Frames
     if (request.canBeDodged !== false) {
       if (IFrameSystem.hasIFrames(request.targetEntityId)) {
@@ -234,11 +326,21 @@ class DamageSystemManager {
     // Apply global multiplier
     damage *= this.globalDamageMultiplier;
 
+    // Apply attacker and target modifiers
+    damage *= this.getModifierScale(request.sourceEntityId, 'dealt', request);
+    damage *= this.getModifierScale(request.targetEntityId, 'taken', request);
+
     // Step 2: Check Guard
-    if (request.canBeBlocked !== false && targetState.isGuarding) {
+    if (
+      request.canBeBlocked !== false &&
+      targetState.isGuarding &&
+      this.isInsideGuardArc(targetState, request.hitDirection)
+    ) {
       // Check for parry window
       if (targetState.isParrying) {
         result.blockedReason = DamageBlockedReason.Parried;
+        result.hitStop = PARRY_HIT_STOP;
+        result.attackerTimeScale = { ...PARRY_ATTACKER_SLOW };
         EventBus.emit('combat:parried', {
           parryEntityId: request.targetEntityId,
           attackerEntityId: request.sourceEntityId,
@@ -246,9 +348,10 @@ class DamageSystemManager {
         return result;
       }
 
-      // Calculate stamina cost for blocking
+      // Calculate stamina cost for blocking (stability absorbs the impact)
       const staminaCost =
-        damage * (targetState.guardStaminaCostMultiplier ?? 1.0);
+        damage *
+        getGuardStaminaCostMultiplier(targetState.guardStability ?? DEFAULT_GUARD_STABILITY);
 
       if (targetState.currentStamina >= staminaCost) {
         // Successful block
@@ -259,6 +362,7 @@ class DamageSystemManager {
         damage *= 1 - damageReduction;
 
         result.blockedReason = DamageBlockedReason.GuardBlocked;
+        result.hitStop = (request.hitStop ?? 0) * GUARD_HIT_STOP_SCALE;
 
         EventBus.emit('combat:blocked', {
           blockerEntityId: request.targetEntityId,
@@ -267,6 +371,8 @@ class DamageSystemManager {
           chipDamage: damage,
         });
 
+        targetState.onGuardHit?.(request, staminaCost);
+
         // If chip damage is 0, block was complete
         if (damage <= 0) {
           return result;
@@ -291,25 +397,40 @@ class DamageSystemManager {
     result.finalDamage = Math.max(0, Math.floor(damage));
     targetState.currentHP -= result.finalDamage;
     result.applied = true;
+    if (!result.blockedReason) {
+      result.hitStop = request.hitStop ?? 0;
+    }
 
-    // Step 4: Apply poise damage
+    // Step 4: Apply poise damage (hyperarmor takes it without staggering)
     result.poiseDamage = request.poiseDamage ?? 0;
+    result.hyperarmor = !result.blockedReason && (targetState.hasHyperarmor?.() ?? false);
     if (result.poiseDamage > 0) {
       targetState.currentPoise -= result.poiseDamage;
 
       if (targetState.currentPoise <= 0) {
-        result.targetStaggered = true;
         targetState.currentPoise = 0;
 
-        EventBus.emit('combat:staggered', {
-          entityId: request.targetEntityId,
-          sourceEntityId: request.sourceEntityId,
-        });
+        if (!result.hyperarmor) {
+          result.targetStaggered = true;
 
-        targetState.onStagger?.();
+          EventBus.emit('combat:staggered', {
+            entityId: request.targetEntityId,
+            sourceEntityId: request.sourceEntityId,
+          });
+
+          targetState.onStagger?.();
+        }
       }
     }
 
+    if (result.hyperarmor) {
+      EventBus.emit('combat:hyperarmor', {
+        entityId: request.targetEntityId,
+        sourceEntityId: request.sourceEntityId,
+        poiseDamage: result.poiseDamage,
+      });
+    }
+
     // Step 5: Check death
     if (targetState.currentHP <= 0) {
       targetState.currentHP = 0;
@@ -323,6 +444,10 @@ class DamageSystemManager {
       });
 
       targetState.onDie?.();
+
+      for (const listener of this.deathListeners) {
+        listener(targetState, request.sourceEntityId);
+      }
     }
 
     // Emit damage event
@@ -341,6 +466,21 @@ class DamageSystemManager {
     return result;
   }
 
+  /**
+   * Check if a hit comes from inside the target's guard arc
+   * (hitDirection points where the attack travels, so the attacker is opposite)
+   */
+  private isInsideGuardArc(state: EntityCombatState, hitDirection?: THREE.Vector3): boolean {
+    if (!hitDirection || !state.getFacing) return true;
+
+    const incoming = new THREE.Vector3(-hitDirection.x, 0, -hitDirection.z);
+    const facing = state.getFacing().clone().setY(0);
+    if (incoming.lengthSq() < 1e-6 || facing.lengthSq() < 1e-6) return true;
+
+    const halfArc = THREE.MathUtils.degToRad(state.guardArc ?? DEFAULT_GUARD_ARC) / 2;
+    return facing.normalize().dot(incoming.normalize()) >= Math.cos(halfArc);
+  }
+
   /**
    * Apply healing to an entity
    */
@@ -436,11 +576,74 @@ class DamageSystemManager {
     return this.globalDamageMultiplier;
   }
 
+  // ========== Entity Modifiers ==========
+
+  /**
+   * Add a damage modifier to an entity (replaces one with the same ID)
+   */
+  addDamageModifier(entityId: string, modifier: DamageModifier): void {
+    const list = (this.modifiers.get(entityId) ?? []).filter((m) => m.id !== modifier.id);
+    list.push({ ...modifier });
+    this.modifiers.set(entityId, list);
+  }
+
+  /**
+   * Remove a damage modifier
+   *
+   * @returns false if the entity had no modifier with this ID
+   */
+  removeDamageModifier(entityId: string, modifierId: string): boolean {
+    const list = this.modifiers.get(entityId);
+    const index = list?.findIndex((m) => m.id === modifierId) ?? -1;
+    if (!list || index < 0) return false;
+
+    list.splice(index, 1);
+    return true;
+  }
+
+  /**
+   * Get an entity's active damage modifiers (expired ones are dropped)
+   */
+  getDamageModifiers(entityId: string): readonly DamageModifier[] {
+    const list = this.modifiers.get(entityId);
+    if (!list) return [];
+
+    const now = Time.fixedElapsed;
+    const active = list.filter((m) => m.expiresAt === undefined || m.expiresAt > now);
+    this.modifiers.set(entityId, active);
+    return active;
+  }
+
+  /**
+   * Remove all damage modifiers of an entity (death, respawn)
+   */
+  clearDamageModifiers(entityId: string): void {
+    this.modifiers.delete(entityId);
+  }
+
+  /**
+   * Combined dealt/taken multiplier of an entity's modifiers that match a request
+   */
+  private getModifierScale(
+    entityId: string,
+    field: 'dealt' | 'taken',
+    request: DamageRequest
+  ): number {
+    let scale = 1;
+    for (const modifier of this.getDamageModifiers(entityId)) {
+      if (modifier.damageType && modifier.damageType !== request.damageType) continue;
+      if (modifier.sourceType && modifier.sourceType !== request.sourceType) continue;
+      scale *= modifier[field] ?? 1;
+    }
+    return scale;
+  }
+
   /**
    * Clear all registered entities
    */
   clear(): void {
     this.entities.clear();
+    this.modifiers.clear();
   }
 }
 
@@ -0,0 +1,159 @@
+/**
+ * Hit Reactions - How hard a hit throws its target around
+ *
+ * Reactions scale with the attack's knockback force and poise damage:
+ * - Flinch: poise held, short shove without interrupting
+ * - Stagger: poise broken, pushed back and stunned
+ * - Knockdown: poise broken by a heavy hit, thrown to the ground
+ * - Launch: poise broken by a very heavy hit, thrown into the air
+ *
+ * Poise lives on each entity, so entities resolve their own reaction from
+ * DamageResult.knockbackForce and move along DamageResult.hitDirection with
+ * their own collision-aware movement (KnockbackState tracks the push).
+ */
+
+import * as THREE from 'three';
+
+/**
+ * Hit reaction types (weakest to strongest)
+ */
+export enum HitReaction {
+  None = 'None',
+  Flinch = 'Flinch',
+  Stagger = 'Stagger',
+  Knockdown = 'Knockdown',
+  Launch = 'Launch',
+}
+
+/**
+ * Reaction thresholds on hit impact (knockback force + poise damage)
+ */
+export const HIT_REACTION_THRESHOLDS = {
+  knockdown: 9,
+  launch: 12,
+};
+
+/**
+ * Poise damage per point of impact
+ */
+const POISE_DAMAGE_PER_IMPACT = 50;
+
+/**
+ * Initial push speed (m/s) per point of knockback force
+ */
+const KNOCKBACK_SPEED_PER_FORCE = 0.6;
+
+/**
+ * Push speed multiplier per reaction
+ */
+const REACTION_PUSH_SCALE: Record<HitReaction, number> = {
+  [HitReaction.None]: 0,
+  [HitReaction.Flinch]: 0.3,
+  [HitReaction.Stagger]: 1.0,
+  [HitReaction.Knockdown]: 1.4,
+  [HitReaction.Launch]: 1.2,
+};
+
+/**
+ * Upward speed (m/s) of a launch
+ */
+const LAUNCH_VERTICAL_SPEED = 6.0;
+
+/**
+ * Exponential decay rate of the push (1/s)
+ */
+const KNOCKBACK_DECAY = 8.0;
+
+/**
+ * Pushes slower than this (m/s) stop
+ */
+const KNOCKBACK_MIN_SPEED = 0.05;
+
+/**
+ * Resolve the reaction to a landed hit
+ *
+ * @param knockbackForce Attack knockback force (after the target's resistance)
+ * @param poiseDamage Poise damage dealt
+ * @param poiseBroken Whether the hit broke the target's poise
+ */
+export function resolveHitReaction(
+  knockbackForce: number,
+  poiseDamage: number,
+  poiseBroken: boolean
+): HitReaction {
+  if (!poiseBroken) {
+    return HitReaction.Flinch;
+  }
+
+  const impact = knockbackForce + poiseDamage / POISE_DAMAGE_PER_IMPACT;
+  if (impact >= HIT_REACTION_THRESHOLDS.launch) return HitReaction.Launch;
+  if (impact >= HIT_REACTION_THRESHOLDS.knockdown) return HitReaction.Knockdown;
+  return HitReaction.Stagger;
+}
+
+/**
+ * Initial knockback velocity along the hit direction
+ * (horizontal push; y > 0 only for launches)
+ */
+export function getKnockbackVelocity(
+  hitDirection: THREE.Vector3,
+  knockbackForce: number,
+  reaction: HitReaction
+): THREE.Vector3 {
+  const velocity = new THREE.Vector3(hitDirection.x, 0, hitDirection.z);
+  if (velocity.lengthSq() < 1e-6) return velocity.set(0, 0, 0);
+
+  velocity
+    .normalize()
+    .multiplyScalar(knockbackForce * KNOCKBACK_SPEED_PER_FORCE * REACTION_PUSH_SCALE[reaction]);
+
+  if (reaction === HitReaction.Launch) {
+    velocity.y = LAUNCH_VERTICAL_SPEED;
+  }
+
+  return velocity;
+}
+
+/**
+ * Decaying horizontal push of one entity
+ */
+export class KnockbackState {
+  private velocity: THREE.Vector3 = new THREE.Vector3();
+
+  /**
+   * Start a push (replaces any push in progress; vertical speed is ignored)
+   */
+  apply(velocity: THREE.Vector3): void {
+    this.velocity.set(velocity.x, 0, velocity.z);
+  }
+
+  /**
+   * Advance the push
+   *
+   * @returns Displacement for this step
+   */
+  step(dt: number): THREE.Vector3 {
+    const displacement = this.velocity.clone().multiplyScalar(dt);
+
+    this.velocity.multiplyScalar(Math.exp(-KNOCKBACK_DECAY * dt));
+    if (this.velocity.lengthSq() < KNOCKBACK_MIN_SPEED * KNOCKBACK_MIN_SPEED) {
+      this.velocity.set(0, 0, 0);
+    }
+
+    return displacement;
+  }
+
+  /**
+   * Check if a push is in progress
+   */
+  get active(): boolean {
+    return this.velocity.lengthSq() > 0;
+  }
+
+  /**
+   * Stop the push (e.g. blocked by a wall)
+   */
+  clear(): void {
+    this.velocity.set(0, 0, 0);
+  }
+}
@@ -22,6 +22,8 @@ export enum IFrameSource {
   HyperArmor = 'HyperArmor',
   Respawn = 'Respawn',
   PlungeAttack = 'PlungeAttack',
+  Critical = 'Critical',
+  WakeUp = 'WakeUp',
   Custom = 'Custom',
 }
 
@@ -69,7 +71,7 @@ class IFrameSystemManager {
     damageReduction: number = 1.0
   ): void {
     const state = this.getOrCreateState(entityId);
-    const now = Time.elapsed;
+    const now = Time.fixedElapsed;
 
     const entry: IFrameEntry = {
       source,
@@ -118,7 +120,7 @@ class IFrameSystemManager {
       const state = this.getOrCreateState(entityId);
       const existingEntry = state.entries.find((e) => e.source === source);
 
-      if (!existingEntry || existingEntry.endTime < Time.elapsed) {
+      if (!existingEntry || existingEntry.endTime < Time.fixedElapsed) {
         this.grantIFrames(entityId, source, remainingDuration);
       }
     }
@@ -204,7 +206,7 @@ class IFrameSystemManager {
     const state = this.entities.get(entityId);
     if (!state) return false;
 
-    const now = Time.elapsed;
+    const now = Time.fixedElapsed;
     return state.entries.some((e) => e.source === source && e.endTime > now);
   }
 
@@ -215,7 +217,7 @@ class IFrameSystemManager {
     const state = this.entities.get(entityId);
     if (!state) return 0;
 
-    const now = Time.elapsed;
+    const now = Time.fixedElapsed;
     let maxRemaining = 0;
 
     for (const entry of state.entries) {
@@ -270,7 +272,7 @@ class IFrameSystemManager {
     const state = this.entities.get(entityId);
     if (!state) return;
 
-    const now = Time.elapsed;
+    const now = Time.fixedElapsed;
     const hadEntries = state.entries.length > 0;
 
     state.entries = state.entries.filter((e) => e.endTime > now);
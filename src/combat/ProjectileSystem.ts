@@ -0,0 +1,557 @@
+/**
+ * Projectile System - Thrown items, arrows, spells and ranged attacks
+ *
+ * Features:
+ * - Flight stepped every fixed tick with sphere shape casts (no rigid bodies)
+ * - Speed, gravity, lifetime
+ * - Homing toward a target (e.g. the player's lock-on point) with a turn rate
+ * - Pierce: pass through a number of targets before stopping
+ * - Explode on impact: AoE damage to everything in a radius
+ * - Damage through DamageSystem (DamageSourceType.Magic or Environment),
+ *   scaled per shot (e.g. by the caster's catalyst)
+ * - Frozen during hit-stop
+ *
+ * Usage:
+ * - ProjectileSystem.spawn(projectileId, ownerId, origin, direction, { side, homingTarget })
+ * - ProjectileSystem.update(dt) every fixed tick
+ * - ProjectileSystem.setScene(scene) to show projectile meshes
+ */
+
+import * as THREE from 'three';
+import RAPIER from '@dimforge/rapier3d-compat';
+import { PhysicsWorld } from '../physics/PhysicsWorld';
+import { CollisionGroups } from '../physics/CollisionGroups';
+import { EventBus } from '../core/EventBus';
+import { Time } from '../core/Time';
+import { DamageSystem, DamageSourceType } from './DamageSystem';
+import { StatusEffectSystem, StatusEffectType, StatusBuildup } from './StatusEffectSystem';
+import { DamageType } from '../player/PlayerStats';
+
+/**
+ * Projectile definition
+ */
+export interface ProjectileData {
+  id: string;
+  name: string;
+
+  // Damage
+  baseDamage: number;
+  damageType: DamageType;
+  poiseDamage: number;
+  sourceType: DamageSourceType.Magic | DamageSourceType.Environment;
+  knockbackForce?: number;
+  canBeBlocked?: boolean;
+  statusBuildup?: StatusBuildup;
+
+  // Flight
+  speed: number; // m/s
+  gravity?: number; // m/s² downward (0 = straight line)
+  radius: number; // Collision sphere
+  lifetime: number; // Seconds before despawning
+  homingTurnRate?: number; // Degrees per second toward the target (0 = none)
+
+  // Impact
+  pierce?: number; // Targets passed through before stopping
+  explosionRadius?: number; // AoE damage on impact (0 = direct hit only)
+
+  // Visual
+  color?: number;
+}
+
+/**
+ * Which side fired the projectile (decides what it can hit)
+ */
+export type ProjectileSide = 'player' | 'enemy';
+
+/**
+ * Spawn options
+ */
+export interface ProjectileSpawnOptions {
+  side: ProjectileSide;
+  homingTarget?: () => THREE.Vector3 | null; // Polled every tick
+  damageScale?: number; // x baseDamage (default 1)
+}
+
+/**
+ * Live projectile
+ */
+export interface Projectile {
+  id: number;
+  data: ProjectileData;
+  ownerId: string;
+  side: ProjectileSide;
+  position: THREE.Vector3;
+  velocity: THREE.Vector3;
+  age: number;
+  pierceLeft: number;
+  damageScale: number;
+  hitEntities: Set<string>;
+  homingTarget?: () => THREE.Vector3 | null;
+  mesh: THREE.Mesh | null;
+}
+
+/**
+ * Default projectile library
+ */
+export const DEFAULT_PROJECTILES: Record<string, ProjectileData> = {
+  firebomb: {
+    id: 'firebomb',
+    name: 'Firebomb',
+    baseDamage: 80,
+    damageType: DamageType.Fire,
+    poiseDamage: 20,
+    sourceType: DamageSourceType.Environment,
+    knockbackForce: 3,
+    canBeBlocked: true,
+    speed: 12,
+    gravity: 9.8,
+    radius: 0.12,
+    lifetime: 3.0,
+    explosionRadius: 1.5,
+    color: 0xff6a1a,
+  },
+  throwing_knife: {
+    id: 'throwing_knife',
+    name: 'Throwing Knife',
+    baseDamage: 28,
+    damageType: DamageType.Physical,
+    poiseDamage: 5,
+    sourceType: DamageSourceType.Environment,
+    canBeBlocked: true,
+    speed: 22,
+    gravity: 2.0,
+    radius: 0.06,
+    lifetime: 1.5,
+    homingTurnRate: 30,
+    statusBuildup: { [StatusEffectType.Bleed]: 15 },
+    color: 0xcfd6df,
+  },
+  arrow: {
+    id: 'arrow',
+    name: 'Arrow',
+    baseDamage: 35,
+    damageType: DamageType.Physical,
+    poiseDamage: 10,
+    sourceType: DamageSourceType.Environment,
+    canBeBlocked: true,
+    speed: 30,
+    gravity: 4.0,
+    radius: 0.05,
+    lifetime: 3.0,
+    pierce: 1,
+    color: 0x8b7c62,
+  },
+  boss_fireball: {
+    id: 'boss_fireball',
+    name: 'Demon Fireball',
+    baseDamage: 45,
+    damageType: DamageType.Fire,
+    poiseDamage: 40,
+    sourceType: DamageSourceType.Magic,
+    knockbackForce: 5,
+    canBeBlocked: true,
+    speed: 9,
+    radius: 0.4,
+    lifetime: 4.0,
+    homingTurnRate: 45,
+    explosionRadius: 2.0,
+    color: 0xff4010,
+  },
+
+  // Spells (fired by the caster at the end of the cast)
+  soul_arrow: {
+    id: 'soul_arrow',
+    name: 'Soul Arrow',
+    baseDamage: 40,
+    damageType: DamageType.Magic,
+    poiseDamage: 10,
+    sourceType: DamageSourceType.Magic,
+    canBeBlocked: true,
+    speed: 18,
+    radius: 0.12,
+    lifetime: 2.0,
+    homingTurnRate: 20,
+    color: 0x7fb8ff,
+  },
+  heavy_soul_arrow: {
+    id: 'heavy_soul_arrow',
+    name: 'Heavy Soul Arrow',
+    baseDamage: 70,
+    damageType: DamageType.Magic,
+    poiseDamage: 25,
+    sourceType: DamageSourceType.Magic,
+    knockbackForce: 3,
+    canBeBlocked: true,
+    speed: 14,
+    radius: 0.2,
+    lifetime: 2.5,
+    homingTurnRate: 15,
+    color: 0x5a8cff,
+  },
+  lightning_spear: {
+    id: 'lightning_spear',
+    name: 'Lightning Spear',
+    baseDamage: 60,
+    damageType: DamageType.Lightning,
+    poiseDamage: 20,
+    sourceType: DamageSourceType.Magic,
+    canBeBlocked: true,
+    speed: 26,
+    radius: 0.1,
+    lifetime: 1.5,
+    pierce: 1,
+    color: 0xffe27a,
+  },
+};
+
+/**
+ * Max shape casts per projectile per tick (pierce re-casts)
+ */
+const MAX_CASTS_PER_STEP = 4;
+
+/**
+ * Projectile System Manager
+ */
+class ProjectileSystemManager {
+  // Registered projectile definitions
+  private definitions: Map<string, ProjectileData> = new Map();
+
+  // Live projectiles
+  private projectiles: Map<number, Projectile> = new Map();
+  private nextId: number = 1;
+
+  // Scene for meshes (null = headless)
+  private scene: THREE.Scene | null = null;
+
+  // Temporary vectors
+  private _tempVec3: THREE.Vector3 = new THREE.Vector3();
+
+  constructor() {
+    for (const data of Object.values(DEFAULT_PROJECTILES)) {
+      this.definitions.set(data.id, data);
+    }
+  }
+
+  /**
+   * Register a custom projectile
+   */
+  registerProjectile(data: ProjectileData): void {
+    this.definitions.set(data.id, data);
+  }
+
+  /**
+   * Get a projectile definition by ID
+   */
+  getProjectile(projectileId: string): ProjectileData | undefined {
+    return this.definitions.get(projectileId);
+  }
+
+  /**
+   * Show projectile meshes in a scene (null = no meshes)
+   */
+  setScene(scene: THREE.Scene | null): void {
+    for (const projectile of this.projectiles.values()) {
+      this.removeMesh(projectile);
+    }
+    this.scene = scene;
+  }
+
+  // ========== Spawning ==========
+
+  /**
+   * Fire a projectile
+   *
+   * @param direction Launch direction (normalized internally)
+   * @returns The projectile or null if the definition is unknown
+   */
+  spawn(
+    projectileId: string,
+    ownerId: string,
+    origin: THREE.Vector3,
+    direction: THREE.Vector3,
+    options: ProjectileSpawnOptions
+  ): Projectile | null {
+    const data = this.definitions.get(projectileId);
+    if (!data) {
+      console.warn(`Projectile not found: ${projectileId}`);
+      return null;
+    }
+
+    const projectile: Projectile = {
+      id: this.nextId++,
+      data,
+      ownerId,
+      side: options.side,
+      position: origin.clone(),
+      velocity: direction.clone().normalize().multiplyScalar(data.speed),
+      age: 0,
+      pierceLeft: data.pierce ?? 0,
+      damageScale: options.damageScale ?? 1,
+      hitEntities: new Set(),
+      homingTarget: options.homingTarget,
+      mesh: this.createMesh(data, origin),
+    };
+
+    this.projectiles.set(projectile.id, projectile);
+
+    EventBus.emit('projectile:spawned', {
+      projectileId: data.id,
+      ownerId,
+      position: { x: origin.x, y: origin.y, z: origin.z },
+    });
+
+    return projectile;
+  }
+
+  // ========== Update ==========
+
+  /**
+   * Step all projectiles (call every fixed tick)
+   */
+  update(dt: number): void {
+    dt *= Time.worldTimeScale;
+    if (dt <= 0) return;
+
+    for (const projectile of [...this.projectiles.values()]) {
+      this.step(projectile, dt);
+    }
+  }
+
+  /**
+   * Number of live projectiles
+   */
+  get count(): number {
+    return this.projectiles.size;
+  }
+
+  /**
+   * Live projectiles fired by an entity
+   */
+  getProjectilesOf(ownerId: string): Projectile[] {
+    return [...this.projectiles.values()].filter((p) => p.ownerId === ownerId);
+  }
+
+  /**
+   * Remove all projectiles
+   */
+  clear(): void {
+    for (const projectile of this.projectiles.values()) {
+      this.removeMesh(projectile);
+    }
+    this.projectiles.clear();
+  }
+
+  // ========== Private Methods ==========
+
+  private step(projectile: Projectile, dt: number): void {
+    const { data } = projectile;
+
+    projectile.age += dt;
+    if (projectile.age >= data.lifetime) {
+      this.despawn(projectile, null);
+      return;
+    }
+
+    this.updateHoming(projectile, dt);
+    projectile.velocity.y -= (data.gravity ?? 0) * dt;
+
+    const speed = projectile.velocity.length();
+    if (speed <= 0) return;
+
+    const direction = projectile.velocity.clone().divideScalar(speed);
+    const distance = speed * dt;
+    const shape = new RAPIER.Ball(data.radius);
+    const groups = this.getQueryGroups(projectile.side);
+    const exclude: RAPIER.Collider[] = [];
+
+    for (let i = 0; i < MAX_CASTS_PER_STEP; i++) {
+      const hit = PhysicsWorld.shapeCast(
+        shape,
+        projectile.position,
+        direction,
+        distance,
+        groups,
+        exclude
+      );
+      if (!hit) break;
+
+      const entityId = PhysicsWorld.getEntityFromCollider(hit.collider);
+
+      // Environment: stop here
+      if (!entityId) {
+        this.impact(projectile, hit.point);
+        return;
+      }
+
+      // Already pierced this target: look past it
+      if (projectile.hitEntities.has(entityId)) {
+        exclude.push(hit.collider);
+        continue;
+      }
+
+      if (data.explosionRadius) {
+        this.impact(projectile, hit.point);
+        return;
+      }
+
+      this.damage(projectile, entityId, hit.point, direction);
+
+      if (projectile.pierceLeft <= 0) {
+        this.despawn(projectile, hit.point);
+        return;
+      }
+      projectile.pierceLeft--;
+      exclude.push(hit.collider);
+    }
+
+    projectile.position.addScaledVector(direction, distance);
+    projectile.mesh?.position.copy(projectile.position);
+  }
+
+  /**
+   * Turn the velocity toward the homing target (speed unchanged)
+   */
+  private updateHoming(projectile: Projectile, dt: number): void {
+    const turnRate = projectile.data.homingTurnRate ?? 0;
+    const target = turnRate > 0 ? projectile.homingTarget?.() : null;
+    if (!target) return;
+
+    const speed = projectile.velocity.length();
+    const toTarget = this._tempVec3.copy(target).sub(projectile.position);
+    if (speed <= 0 || toTarget.lengthSq() < 1e-6) return;
+
+    const current = projectile.velocity.clone().divideScalar(speed);
+    toTarget.normalize();
+
+    const angle = current.angleTo(toTarget);
+    const maxTurn = THREE.MathUtils.degToRad(turnRate) * dt;
+    if (angle <= maxTurn) {
+      current.copy(toTarget);
+    } else {
+      const axis = new THREE.Vector3().crossVectors(current, toTarget);
+      if (axis.lengthSq() < 1e-8) return; // Pointing straight away
+      current.applyAxisAngle(axis.normalize(), maxTurn);
+    }
+
+    projectile.velocity.copy(current.multiplyScalar(speed));
+  }
+
+  /**
+   * Hit something: explode (if AoE) and despawn
+   */
+  private impact(projectile: Projectile, point: THREE.Vector3): void {
+    const radius = projectile.data.explosionRadius ?? 0;
+
+    if (radius > 0) {
+      const groups = this.getQueryGroups(projectile.side);
+      const damaged = new Set<string>();
+
+      for (const overlap of PhysicsWorld.overlapSphere(point, radius, groups)) {
+        const entityId = PhysicsWorld.getEntityFromCollider(overlap.collider);
+        if (!entityId || damaged.has(entityId)) continue;
+        damaged.add(entityId);
+
+        // Push away from the blast
+        const pos = overlap.collider.translation();
+        const direction = new THREE.Vector3(pos.x - point.x, 0, pos.z - point.z);
+        if (direction.lengthSq() < 1e-4) {
+          direction.copy(projectile.velocity).setY(0);
+        }
+        this.damage(projectile, entityId, point, direction.normalize());
+      }
+
+      EventBus.emit('projectile:exploded', {
+        projectileId: projectile.data.id,
+        ownerId: projectile.ownerId,
+        position: { x: point.x, y: point.y, z: point.z },
+        radius,
+      });
+    }
+
+    this.despawn(projectile, point);
+  }
+
+  /**
+   * Damage one target through DamageSystem
+   */
+  private damage(
+    projectile: Projectile,
+    targetId: string,
+    point: THREE.Vector3,
+    direction: THREE.Vector3
+  ): void {
+    const { data } = projectile;
+    projectile.hitEntities.add(targetId);
+
+    const result = DamageSystem.processDamage({
+      sourceEntityId: projectile.ownerId,
+      sourceType: data.sourceType,
+      targetEntityId: targetId,
+      baseDamage: data.baseDamage * projectile.damageScale,
+      damageType: data.damageType,
+      poiseDamage: data.poiseDamage,
+      hitPoint: point.clone(),
+      hitDirection: direction.clone(),
+      knockbackForce: data.knockbackForce,
+      canBeBlocked: data.canBeBlocked,
+      canBeDodged: true,
+    });
+
+    // Status buildup only on clean hits
+    if (data.statusBuildup && result.applied && !result.blockedReason) {
+      StatusEffectSystem.addBuildup(targetId, data.statusBuildup, projectile.ownerId);
+    }
+
+    EventBus.emit('projectile:hit', {
+      projectileId: data.id,
+      ownerId: projectile.ownerId,
+      targetId,
+      damage: result.finalDamage,
+      blocked: result.blockedReason !== undefined,
+    });
+  }
+
+  private despawn(projectile: Projectile, point: THREE.Vector3 | null): void {
+    this.projectiles.delete(projectile.id);
+    this.removeMesh(projectile);
+
+    EventBus.emit('projectile:ended', {
+      projectileId: projectile.data.id,
+      ownerId: projectile.ownerId,
+      impacted: point !== null,
+    });
+  }
+
+  /**
+   * Query groups: what a side's projectiles hit (environment + the other side)
+   */
+  private getQueryGroups(side: ProjectileSide): number {
+    return side === 'player'
+      ? CollisionGroups.PLAYER_PROJECTILE_QUERY
+      : CollisionGroups.ENEMY_PROJECTILE_QUERY;
+  }
+
+  private createMesh(data: ProjectileData, position: THREE.Vector3): THREE.Mesh | null {
+    if (!this.scene) return null;
+
+    const mesh = new THREE.Mesh(
+      new THREE.SphereGeometry(Math.max(data.radius, 0.05), 12, 8),
+      new THREE.MeshBasicMaterial({ color: data.color ?? 0xffffff })
+    );
+    mesh.position.copy(position);
+    this.scene.add(mesh);
+    return mesh;
+  }
+
+  private removeMesh(projectile: Projectile): void {
+    if (!projectile.mesh) return;
+
+    projectile.mesh.parent?.remove(projectile.mesh);
+    projectile.mesh.geometry.dispose();
+    (projectile.mesh.material as THREE.Material).dispose();
+    projectile.mesh = null;
+  }
+}
+
+// Singleton instance
+export const ProjectileSystem = new ProjectileSystemManager();
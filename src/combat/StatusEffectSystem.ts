@@ -0,0 +1,440 @@
+/**
+ * Status Effect System
+ *
+ * Manages status buildup and triggered effects for all entities:
+ * - Buildup meters per entity and effect (filled by attacks, drained by decay)
+ * - Bleed: instant burst when the meter fills
+ * - Poison / Toxic: damage over time when the meter fills
+ * - Per-entity resistances (buildup multiplier) and immunities
+ *
+ * Effect damage is routed through DamageSystem.processDamage.
+ *
+ * Usage:
+ * - StatusEffectSystem.addBuildup(targetId, { Bleed: 30 }, sourceId)
+ * - StatusEffectSystem.update() every fixed tick
+ * - StatusEffectSystem.getMeters(entityId) for UI
+ */
+
+import { EventBus } from '../core/EventBus';
+import { Time } from '../core/Time';
+import { DamageSystem, DamageSourceType } from './DamageSystem';
+import { DamageType } from '../player/PlayerStats';
+
+/**
+ * Status effect types
+ */
+export enum StatusEffectType {
+  Bleed = 'Bleed',
+  Poison = 'Poison',
+  Toxic = 'Toxic',
+}
+
+/**
+ * Buildup amounts per effect (attack data, items, hazards)
+ */
+export type StatusBuildup = Partial<Record<StatusEffectType, number>>;
+
+/**
+ * Status effect definition
+ */
+export interface StatusEffectDefinition {
+  type: StatusEffectType;
+
+  // Buildup
+  threshold: number; // Meter value that triggers the effect
+  decayRate: number; // Meter drain per second
+  decayDelay: number; // Seconds after last buildup before decay starts
+
+  // Instant damage on trigger
+  burstDamage?: number;
+  burstPercent?: number; // Fraction of target max HP
+
+  // Damage over time while active
+  tickDamage?: number;
+  tickInterval?: number;
+  duration?: number; // 0/undefined = instant effect
+
+  // Damage routing
+  damageType: DamageType;
+  sourceType: DamageSourceType;
+}
+
+/**
+ * Default effect definitions
+ */
+export const STATUS_EFFECTS: Record<StatusEffectType, StatusEffectDefinition> = {
+  [StatusEffectType.Bleed]: {
+    type: StatusEffectType.Bleed,
+    threshold: 100,
+    decayRate: 10,
+    decayDelay: 2.0,
+    burstDamage: 15,
+    burstPercent: 0.1,
+    damageType: DamageType.Bleed,
+    sourceType: DamageSourceType.Bleed,
+  },
+  [StatusEffectType.Poison]: {
+    type: StatusEffectType.Poison,
+    threshold: 100,
+    decayRate: 5,
+    decayDelay: 2.0,
+    tickDamage: 2,
+    tickInterval: 1.0,
+    duration: 30,
+    damageType: DamageType.Poison,
+    sourceType: DamageSourceType.Poison,
+  },
+  [StatusEffectType.Toxic]: {
+    type: StatusEffectType.Toxic,
+    threshold: 150,
+    decayRate: 5,
+    decayDelay: 2.0,
+    tickDamage: 6,
+    tickInterval: 1.0,
+    duration: 20,
+    damageType: DamageType.Poison,
+    sourceType: DamageSourceType.Poison,
+  },
+};
+
+/**
+ * Per-entity status profile
+ */
+export interface StatusProfile {
+  // Buildup multiplier per effect (0.5 = half buildup)
+  resistances: Partial<Record<StatusEffectType, number>>;
+
+  // Effects that never build up
+  immunities: StatusEffectType[];
+}
+
+/**
+ * Meter snapshot (for UI)
+ */
+export interface StatusMeter {
+  type: StatusEffectType;
+  buildup: number;
+  threshold: number;
+  active: boolean;
+  remaining: number; // Seconds left on an active effect
+}
+
+/**
+ * Meter state for one effect on one entity
+ */
+interface StatusEntry {
+  buildup: number;
+  lastBuildupTime: number;
+
+  // Active effect (damage over time)
+  active: boolean;
+  endTime: number;
+  nextTickTime: number;
+  sourceEntityId: string;
+}
+
+/**
+ * Entity status state
+ */
+interface EntityStatusState {
+  profile: StatusProfile;
+  entries: Map<StatusEffectType, StatusEntry>;
+}
+
+/**
+ * Status Effect System class
+ */
+class StatusEffectSystemManager {
+  // Entity status states
+  private entities: Map<string, EntityStatusState> = new Map();
+
+  // Effect definitions (overridable for tuning)
+  private definitions: Record<StatusEffectType, StatusEffectDefinition> = {
+    ...STATUS_EFFECTS,
+  };
+
+  /**
+   * Set resistances/immunities for an entity
+   */
+  configureEntity(entityId: string, profile: Partial<StatusProfile>): void {
+    const state = this.getOrCreateState(entityId);
+    state.profile = { ...state.profile, ...profile };
+
+    // Drop meters for effects the entity is now immune to
+    for (const type of state.profile.immunities) {
+      if (state.entries.has(type)) {
+        this.cure(entityId, type);
+      }
+    }
+  }
+
+  /**
+   * Override an effect definition
+   */
+  setDefinition(definition: StatusEffectDefinition): void {
+    this.definitions[definition.type] = definition;
+  }
+
+  /**
+   * Get an effect definition
+   */
+  getDefinition(type: StatusEffectType): StatusEffectDefinition {
+    return this.definitions[type];
+  }
+
+  /**
+   * Add buildup to an entity
+   *
+   * @param entityId Target entity
+   * @param buildup Buildup per effect
+   * @param sourceEntityId Entity credited with triggered damage
+   */
+  addBuildup(entityId: string, buildup: StatusBuildup, sourceEntityId: string): void {
+    const combatState = DamageSystem.getEntityState(entityId);
+    if (combatState?.isDead) return;
+
+    const state = this.getOrCreateState(entityId);
+    const now = Time.fixedElapsed;
+
+    for (const [key, amount] of Object.entries(buildup)) {
+      const type = key as StatusEffectType;
+      if (!amount || amount <= 0) continue;
+      if (state.profile.immunities.includes(type)) continue;
+
+      const entry = this.getOrCreateEntry(state, type);
+
+      // Meter stays full while the effect runs
+      if (entry.active) continue;
+
+      const multiplier = state.profile.resistances[type] ?? 1.0;
+      const definition = this.definitions[type];
+
+      entry.buildup = Math.min(definition.threshold, entry.buildup + amount * multiplier);
+      entry.lastBuildupTime = now;
+
+      this.emitMeter(entityId, type, entry);
+
+      if (entry.buildup >= definition.threshold) {
+        this.trigger(entityId, type, entry, sourceEntityId);
+      }
+    }
+  }
+
+  /**
+   * Remove an effect and its buildup (items, resting)
+   */
+  cure(entityId: string, type: StatusEffectType): void {
+    const state = this.entities.get(entityId);
+    const entry = state?.entries.get(type);
+    if (!state || !entry) return;
+
+    const wasActive = entry.active;
+    state.entries.delete(type);
+
+    if (wasActive) {
+      EventBus.emit('status:ended', { entityId, effect: type, cured: true });
+    }
+    this.emitMeter(entityId, type, null);
+  }
+
+  /**
+   * Remove all effects and buildup from an entity
+   */
+  cureAll(entityId: string): void {
+    const state = this.entities.get(entityId);
+    if (!state) return;
+
+    for (const type of [...state.entries.keys()]) {
+      this.cure(entityId, type);
+    }
+  }
+
+  /**
+   * Check if an effect is active on an entity
+   */
+  hasEffect(entityId: string, type: StatusEffectType): boolean {
+    return this.entities.get(entityId)?.entries.get(type)?.active ?? false;
+  }
+
+  /**
+   * Get meter snapshots for an entity (non-empty meters only)
+   */
+  getMeters(entityId: string): StatusMeter[] {
+    const state = this.entities.get(entityId);
+    if (!state) return [];
+
+    const now = Time.fixedElapsed;
+    const meters: StatusMeter[] = [];
+
+    for (const [type, entry] of state.entries) {
+      meters.push({
+        type,
+        buildup: entry.buildup,
+        threshold: this.definitions[type].threshold,
+        active: entry.active,
+        remaining: entry.active ? Math.max(0, entry.endTime - now) : 0,
+      });
+    }
+
+    return meters;
+  }
+
+  /**
+   * Update system (call every fixed tick: decay and damage over time)
+   */
+  update(): void {
+    const now = Time.fixedElapsed;
+    const dt = Time.fixedDelta;
+
+    for (const [entityId, state] of this.entities) {
+      // Dead entities lose all effects
+      if (DamageSystem.getEntityState(entityId)?.isDead) {
+        if (state.entries.size > 0) {
+          this.cureAll(entityId);
+        }
+        continue;
+      }
+
+      for (const [type, entry] of [...state.entries]) {
+        if (entry.active) {
+          this.updateActiveEffect(entityId, type, entry, now);
+        } else if (now - entry.lastBuildupTime >= this.definitions[type].decayDelay) {
+          entry.buildup = Math.max(0, entry.buildup - this.definitions[type].decayRate * dt);
+          this.emitMeter(entityId, type, entry);
+
+          if (entry.buildup <= 0) {
+            state.entries.delete(type);
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Clear all status data
+   */
+  clear(): void {
+    this.entities.clear();
+  }
+
+  /**
+   * Remove entity from system
+   */
+  removeEntity(entityId: string): void {
+    this.entities.delete(entityId);
+  }
+
+  // ========== Private Methods ==========
+
+  private getOrCreateState(entityId: string): EntityStatusState {
+    let state = this.entities.get(entityId);
+    if (!state) {
+      state = {
+        profile: { resistances: {}, immunities: [] },
+        entries: new Map(),
+      };
+      this.entities.set(entityId, state);
+    }
+    return state;
+  }
+
+  private getOrCreateEntry(state: EntityStatusState, type: StatusEffectType): StatusEntry {
+    let entry = state.entries.get(type);
+    if (!entry) {
+      entry = {
+        buildup: 0,
+        lastBuildupTime: 0,
+        active: false,
+        endTime: 0,
+        nextTickTime: 0,
+        sourceEntityId: '',
+      };
+      state.entries.set(type, entry);
+    }
+    return entry;
+  }
+
+  /**
+   * Meter filled: apply burst and/or start damage over time
+   */
+  private trigger(
+    entityId: string,
+    type: StatusEffectType,
+    entry: StatusEntry,
+    sourceEntityId: string
+  ): void {
+    const definition = this.definitions[type];
+    const now = Time.fixedElapsed;
+
+    EventBus.emit('status:triggered', { entityId, effect: type, sourceEntityId });
+
+    if (definition.duration && definition.duration > 0) {
+      entry.active = true;
+      entry.endTime = now + definition.duration;
+      entry.nextTickTime = now + (definition.tickInterval ?? 1.0);
+      entry.sourceEntityId = sourceEntityId;
+      this.emitMeter(entityId, type, entry);
+    } else {
+      // Instant effect: meter empties immediately
+      this.entities.get(entityId)?.entries.delete(type);
+      this.emitMeter(entityId, type, null);
+    }
+
+    const maxHP = DamageSystem.getEntityState(entityId)?.maxHP ?? 0;
+    const burst = (definition.burstDamage ?? 0) + maxHP * (definition.burstPercent ?? 0);
+    if (burst > 0) {
+      this.applyEffectDamage(entityId, definition, burst, sourceEntityId);
+    }
+  }
+
+  private updateActiveEffect(
+    entityId: string,
+    type: StatusEffectType,
+    entry: StatusEntry,
+    now: number
+  ): void {
+    const definition = this.definitions[type];
+
+    if (definition.tickDamage && now >= entry.nextTickTime) {
+      entry.nextTickTime += definition.tickInterval ?? 1.0;
+      this.applyEffectDamage(entityId, definition, definition.tickDamage, entry.sourceEntityId);
+    }
+
+    if (now >= entry.endTime) {
+      this.entities.get(entityId)?.entries.delete(type);
+      EventBus.emit('status:ended', { entityId, effect: type, cured: false });
+      this.emitMeter(entityId, type, null);
+    }
+  }
+
+  private applyEffectDamage(
+    entityId: string,
+    definition: StatusEffectDefinition,
+    amount: number,
+    sourceEntityId: string
+  ): void {
+    DamageSystem.processDamage({
+      sourceEntityId,
+      sourceType: definition.sourceType,
+      targetEntityId: entityId,
+      baseDamage: amount,
+      damageType: definition.damageType,
+      poiseDamage: 0,
+      canBeBlocked: false,
+      canBeDodged: false,
+    });
+  }
+
+  private emitMeter(entityId: string, type: StatusEffectType, entry: StatusEntry | null): void {
+    EventBus.emit('status:meterChanged', {
+      entityId,
+      effect: type,
+      buildup: entry?.buildup ?? 0,
+      threshold: this.definitions[type].threshold,
+      active: entry?.active ?? false,
+    });
+  }
+}
+
+// Singleton instance
+export const StatusEffectSystem = new StatusEffectSystemManager();
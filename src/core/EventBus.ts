@@ -17,15 +17,32 @@ export interface GameEvents {
   'player:respawned': { checkpoint: string };
   'player:staminaChanged': { current: number; max: number };
   'player:healthChanged': { current: number; max: number };
+  'player:fpChanged': { current: number; max: number };
   'player:stateChanged': { previous: string; current: string };
 
   // Boss events
   'boss:engaged': { bossId: string; name: string; maxHp: number };
   'boss:damaged': { damage: number; currentHp: number; maxHp: number };
   'boss:staggered': { duration: number };
-  'boss:phaseChanged': { phase: number };
+  'boss:phaseChanged': { bossId: string; phase: number; phaseCount: number };
   'boss:died': { bossId: string };
   'boss:healthChanged': { current: number; max: number };
+  'boss:reacted': { bossId: string; reaction: string }; // BossReactionType
+
+  // Enemy events
+  'enemy:aggro': { enemyId: string; targetId: string };
+  'enemy:leashed': { enemyId: string };
+  'enemy:damaged': { enemyId: string; damage: number; currentHp: number; maxHp: number };
+  'enemy:died': {
+    enemyId: string;
+    archetype: string;
+    position: { x: number; y: number; z: number };
+  };
+  'enemy:itemDropped': {
+    enemyId: string;
+    itemId: string;
+    position: { x: number; y: number; z: number };
+  };
 
   // Combat events
   'combat:hit': {
@@ -35,15 +52,104 @@ export interface GameEvents {
     type: string;
   };
   'combat:blocked': { blocker: string; attacker: string; staminaDamage: number };
-  'combat:parried': { defender: string; attacker: string };
+  'combat:parried': { parryEntityId: string; attackerEntityId: string };
+  'combat:criticalStarted': { attacker: string; target: string; type: string };
   'combat:criticalHit': { attacker: string; target: string; damage: number };
+  'combat:hyperarmor': { entityId: string; sourceEntityId: string; poiseDamage: number };
+  'attack:hit': {
+    attackerId: string;
+    attackId: string;
+    targetId: string;
+    damage: number;
+    hitPoint: { x: number; y: number; z: number };
+    blocked: boolean;
+    staggered: boolean;
+    killed: boolean;
+  };
+  'attack:cue': {
+    attackerId: string;
+    attackId: string;
+    type: string; // AttackCueType
+    name?: string;
+    intensity?: number;
+    duration?: number;
+    position: { x: number; y: number; z: number };
+  };
+
+  // Projectile events
+  'projectile:spawned': {
+    projectileId: string;
+    ownerId: string;
+    position: { x: number; y: number; z: number };
+  };
+  'projectile:hit': {
+    projectileId: string;
+    ownerId: string;
+    targetId: string;
+    damage: number;
+    blocked: boolean;
+  };
+  'projectile:exploded': {
+    projectileId: string;
+    ownerId: string;
+    position: { x: number; y: number; z: number };
+    radius: number;
+  };
+  'projectile:ended': { projectileId: string; ownerId: string; impacted: boolean };
+
+  // Status effect events
+  'status:meterChanged': {
+    entityId: string;
+    effect: string;
+    buildup: number;
+    threshold: number;
+    active: boolean;
+  };
+  'status:triggered': { entityId: string; effect: string; sourceEntityId: string };
+  'status:ended': { entityId: string; effect: string; cured: boolean };
+
+  // Equipment events
+  'equipment:changed': {
+    entityId: string;
+    slot: 'weapon' | 'shield' | 'catalyst' | 'head' | 'chest' | 'hands' | 'legs';
+    itemId: string | null;
+  };
 
   // Trigger/Level events
   'trigger:enter': { triggerId: string; entityId: string };
   'trigger:exit': { triggerId: string; entityId: string };
   'trigger:stay': { triggerId: string; entityId: string };
   'checkpoint:activated': { checkpointId: string };
+  'checkpoint:entered': { checkpointId: string };
+  'checkpoint:exited': { checkpointId: string };
   'item:pickup': { itemId: string; itemType: string };
+  'door:opened': { doorId: string };
+  'door:locked': { doorId: string; requiredFlag: string };
+
+  // Souls events
+  'souls:changed': { entityId: string; souls: number; delta: number };
+  'souls:bloodstainDropped': {
+    entityId: string;
+    souls: number;
+    position: { x: number; y: number; z: number };
+  };
+  'souls:retrieved': { entityId: string; souls: number };
+  'souls:lost': { entityId: string; souls: number };
+
+  // Attribute events
+  'attributes:changed': { entityId: string; level: number; attributes: Record<string, number> };
+
+  // Inventory events
+  'inventory:changed': { entityId: string; itemId: string; count: number };
+  'inventory:quickSlotChanged': { entityId: string; itemId: string | null; count: number };
+  'item:used': { entityId: string; itemId: string };
+  'item:useCancelled': { entityId: string; itemId: string };
+
+  // Spell events
+  'spell:cast': { entityId: string; spellId: string };
+  'spell:castCancelled': { entityId: string; spellId: string };
+  'attunement:changed': { entityId: string; attuned: string[] };
+  'attunement:activeChanged': { entityId: string; spellId: string | null };
 
   // Game state events
   'game:pause': void;
@@ -52,12 +158,17 @@ export interface GameEvents {
   'game:over': { reason: string };
   'game:victory': void;
 
+  // Save events
+  'save:written': { slot: number };
+  'save:loaded': { slot: number };
+
   // Flag events
   'flag:set': { flag: string };
   'flag:cleared': { flag: string };
 
   // Input events (for tutorials)
   'input:action': { action: string; pressed: boolean };
+  'input:replayFinished': { ticks: number };
 
   // UI events
   'ui:tutorialShow': { message: string; action?: string };
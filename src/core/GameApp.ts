@@ -10,29 +10,46 @@
  * - GameApp.init() to start
  * - GameApp.startGameplay() to transition from title to game
  * - GameApp.pause() / GameApp.resume() for pause menu
+ * - GameApp.startGameplay(replay) to replay a recorded session
+ * - GameApp.stopRecording() to get the replay of the current session
  */
 
 import * as THREE from 'three';
 import { Time } from './Time';
+import { Random } from './Random';
 import { EventBus } from './EventBus';
 import { getScene, getRenderer } from './Scene';
 
 // Systems
 import { PhysicsWorld } from '../physics/PhysicsWorld';
 import { InputManager } from '../input/InputManager';
+import type { ReplayFile } from '../input/InputReplay';
 import { Player, PlayerConfig } from '../player/Player';
+import { PlayerStateType } from '../player/PlayerState';
 import { ThirdPersonCamera } from '../camera/ThirdPersonCamera';
 import { LockOnSystem } from '../camera/LockOnSystem';
 import { AttackSystem } from '../combat/AttackSystem';
+import { AttackCueType } from '../combat/AttackTimeline';
 import { DamageSystem } from '../combat/DamageSystem';
 import { IFrameSystem } from '../combat/IFrameSystem';
+import { StatusEffectSystem } from '../combat/StatusEffectSystem';
+import { CriticalSystem } from '../combat/CriticalSystem';
+import { ProjectileSystem } from '../combat/ProjectileSystem';
+import { getItem } from '../items/ItemData';
+import { SoulSystem } from '../progression/SoulSystem';
+import { ATTRIBUTES, ATTRIBUTE_NAMES, Attribute } from '../progression/AttributeData';
 import { Boss, TUTORIAL_BOSS_CONFIG } from '../ai/Boss';
-import { LevelLoader, TUTORIAL_LEVEL } from '../level/LevelLoader';
+import { Enemy } from '../ai/Enemy';
+import { DEFAULT_ENEMIES, getEnemyArchetype } from '../ai/EnemyData';
+import { LevelLoader, TUTORIAL_LEVEL, SpawnerDef } from '../level/LevelLoader';
 import { TriggerManager } from '../level/TriggerVolume';
+import { NavMesh } from '../level/NavMesh';
 import { GameFlags, GameFlag } from '../level/GameFlags';
+import { SaveSystem } from '../save/SaveSystem';
 import { HUDView } from '../ui/HUDView';
 import { BossBar } from '../ui/BossBar';
 import { TutorialPrompts, TUTORIAL_MESSAGES } from '../ui/TutorialPrompts';
+import { RestMenu, RestMenuOption } from '../ui/RestMenu';
 
 // Assets
 import { CharacterModel, CharacterModelConfig, KNIGHT_MODEL_PRESETS } from '../assets/CharacterModel';
@@ -54,8 +71,34 @@ export enum GameState {
  */
 export interface GameAppConfig {
   debugPhysics?: boolean;
+  debugNavMesh?: boolean; // Draw the walkable NavMesh cells
+  recordInput?: boolean; // Record per-tick input for replays
 }
 
+/**
+ * Delay before respawning after death (seconds of simulation time)
+ */
+const RESPAWN_DELAY = 3.0;
+
+/**
+ * Options shown while resting at a checkpoint
+ */
+const REST_MENU_OPTIONS: RestMenuOption[] = [
+  { id: 'level_up', label: 'Level Up' },
+  { id: 'attune', label: 'Attune Spells' },
+  { id: 'leave', label: 'Leave' },
+];
+
+/**
+ * Level-up page option IDs ('level:<attribute>')
+ */
+const LEVEL_OPTION_PREFIX = 'level:';
+
+/**
+ * Attunement page option IDs ('attune:<spellId>')
+ */
+const ATTUNE_OPTION_PREFIX = 'attune:';
+
 /**
  * GameApp class
  */
@@ -66,6 +109,7 @@ class GameAppClass {
   // Entity references
   private player: Player | null = null;
   private boss: Boss | null = null;
+  private enemies: Map<string, Enemy> = new Map();
   private camera: ThirdPersonCamera | null = null;
   private lockOn: LockOnSystem | null = null;
 
@@ -74,10 +118,22 @@ class GameAppClass {
 
   // Debug
   private debugMesh: THREE.LineSegments | null = null;
+  private navDebugMesh: THREE.LineSegments | null = null;
 
   // Animation frame ID
   private animationFrameId: number | null = null;
 
+  // Respawn countdown (ticked in fixedUpdate so replays stay in sync)
+  private respawnTimer: number = 0;
+
+  // Checkpoint the player stands at / is resting at
+  private nearbyCheckpoint: string | null = null;
+  private restingAt: string | null = null;
+  private restMenuPage: 'main' | 'levelUp' | 'attune' = 'main';
+
+  // Glow marking the player's unretrieved souls
+  private bloodstainMarker: THREE.Mesh | null = null;
+
   /**
    * Initialize the game application
    */
@@ -94,12 +150,14 @@ class GameAppClass {
     HUDView.init();
     BossBar.init();
     TutorialPrompts.init();
+    RestMenu.init();
 
     // Subscribe to game events
     this.subscribeEvents();
 
-    // Load saved flags
-    GameFlags.loadFromStorage();
+    // Load active save slot
+    await SaveSystem.init();
+    await SaveSystem.loadActiveSlot();
 
     console.log('[GameApp] Initialized');
   }
@@ -116,8 +174,8 @@ class GameAppClass {
     });
 
     // Player death
-    EventBus.on('player:died', () => {
-      this.onPlayerDied();
+    EventBus.on('player:died', (data) => {
+      this.onPlayerDied(data.position);
     });
 
     // Boss death
@@ -125,16 +183,101 @@ class GameAppClass {
       this.onBossDied();
     });
 
+    // Enemy death (respawning spawners come back on rest)
+    EventBus.on('enemy:died', ({ enemyId }) => {
+      LevelLoader.markEntityDefeated(enemyId);
+      this.lockOn?.unregisterTarget(enemyId);
+    });
+
     // Trigger events
     EventBus.on('trigger:enter', (data) => {
       this.handleTriggerEnter(data);
     });
+
+    // Record the respawn point, then autosave (the save must include it)
+    EventBus.on('checkpoint:activated', ({ checkpointId }) => {
+      SaveSystem.setLastCheckpoint(checkpointId);
+      void SaveSystem.save();
+    });
+
+    // Rest prompt while standing at a checkpoint
+    EventBus.on('checkpoint:entered', ({ checkpointId }) => {
+      this.nearbyCheckpoint = checkpointId;
+      if (!this.restingAt) {
+        TutorialPrompts.show('Rest at checkpoint', TUTORIAL_MESSAGES.INTERACT.action);
+      }
+    });
+
+    EventBus.on('checkpoint:exited', ({ checkpointId }) => {
+      if (this.nearbyCheckpoint === checkpointId) {
+        this.nearbyCheckpoint = null;
+        TutorialPrompts.hide();
+      }
+    });
+
+    // Picked-up items go to the player's inventory
+    EventBus.on('item:pickup', ({ itemId }) => {
+      if (this.player && this.player.getInventory().add(itemId) > 0) {
+        TutorialPrompts.show(`Picked up ${getItem(itemId)?.name ?? itemId}`);
+      }
+    });
+
+    EventBus.on('door:locked', () => {
+      TutorialPrompts.show('Locked. A key is required');
+    });
+
+    // Bloodstain marker
+    EventBus.on('souls:bloodstainDropped', ({ entityId, position }) => {
+      if (entityId === this.player?.entityId) {
+        this.showBloodstainMarker(new THREE.Vector3(position.x, position.y, position.z));
+      }
+    });
+
+    EventBus.on('souls:retrieved', ({ entityId }) => {
+      if (entityId === this.player?.entityId) {
+        this.clearBloodstainMarker();
+        TutorialPrompts.show('Souls retrieved');
+      }
+    });
+
+    EventBus.on('souls:lost', ({ entityId }) => {
+      if (entityId === this.player?.entityId) {
+        this.clearBloodstainMarker();
+      }
+    });
+
+    // Attack timeline camera shake
+    EventBus.on('attack:cue', (data) => {
+      if (data.type === AttackCueType.CameraShake) {
+        this.camera?.shake(data.intensity ?? 0, data.duration ?? 0);
+      }
+    });
+
+    // Weapon/shield meshes follow the player's equipment
+    EventBus.on('equipment:changed', (data) => {
+      if (data.entityId === this.player?.entityId) {
+        this.syncEquipmentModels();
+      }
+    });
+  }
+
+  /**
+   * Show the player's equipped weapon and shield on the character model
+   */
+  private syncEquipmentModels(): void {
+    if (!this.player || !this.characterModel?.isLoaded()) return;
+
+    const equipment = this.player.getEquipment();
+    this.characterModel.setWeaponModel(equipment.weapon.model);
+    this.characterModel.setShieldModel(equipment.shield?.model ?? null);
   }
 
   /**
    * Start gameplay (transition from title)
+   *
+   * @param replay Optional replay to play back instead of live input
    */
-  async startGameplay(): Promise<void> {
+  async startGameplay(replay?: ReplayFile): Promise<void> {
     if (this.state === GameState.Gameplay) return;
 
     console.log('[GameApp] Starting gameplay...');
@@ -146,9 +289,10 @@ class GameAppClass {
     const scene = getScene();
     this.removeTitleGroundOverlays(scene);
     await LevelLoader.load(TUTORIAL_LEVEL, scene);
+    ProjectileSystem.setScene(scene);
 
-    // Get spawn position
-    const spawnPos = LevelLoader.getPlayerSpawn();
+    // Get spawn position (last rested checkpoint if any)
+    const spawnPos = this.getRespawnPosition();
 
     // Create player (with 3D model loading)
     await this.createPlayer(spawnPos, scene);
@@ -164,6 +308,18 @@ class GameAppClass {
       return this.spawnBoss(spawner.position, scene);
     });
 
+    // Register enemy spawner callbacks (one per archetype), then spawn the
+    // enemies the level load skipped for lack of a callback
+    for (const archetypeId of Object.keys(DEFAULT_ENEMIES)) {
+      LevelLoader.registerSpawnCallback(archetypeId, (spawner) => {
+        return this.spawnEnemy(spawner, scene);
+      });
+      LevelLoader.registerDespawnCallback(archetypeId, (entityId) => {
+        this.despawnEnemy(entityId);
+      });
+    }
+    LevelLoader.processSpawns();
+
     // Spawn triggers
     TriggerManager.spawnAll();
 
@@ -185,14 +341,53 @@ class GameAppClass {
       }
     }
 
+    // Debug navigation visualization
+    if (this.config.debugNavMesh) {
+      this.navDebugMesh = NavMesh.createDebugMesh();
+      scene.add(this.navDebugMesh);
+      NavMesh.setDebugEnabled(true);
+    }
+
     this.state = GameState.Gameplay;
 
+    // Seed RNG / start recording or playback from tick 0
+    this.beginSession(replay);
+
     // Start game loop
     this.startGameLoop();
 
     console.log('[GameApp] Gameplay started');
   }
 
+  /**
+   * Reset the deterministic clock and RNG for a recorded or replayed session
+   */
+  private beginSession(replay?: ReplayFile): void {
+    Time.resetFixedClock();
+
+    if (replay) {
+      Random.seed(replay.seed);
+      InputManager.startPlayback(replay);
+      console.log('[GameApp] Replaying recorded session');
+      return;
+    }
+
+    Random.seed(Math.floor(Math.random() * 0xffffffff));
+    if (this.config.recordInput) {
+      InputManager.startRecording(Random.getSeed());
+    }
+  }
+
+  /**
+   * Stop recording and return the replay of the current session
+   */
+  stopRecording(): ReplayFile | null {
+    return InputManager.stopRecording({
+      level: LevelLoader.getCurrentLevel()?.id,
+      recordedAt: Date.now(),
+    });
+  }
+
   /**
    * Create player entity
    */
@@ -231,19 +426,41 @@ class GameAppClass {
     };
 
     this.player = new Player(config);
+    HUDView.setStatusEntity(this.player.entityId);
+
+    // Restore saved attributes, stats, items and spells
+    SaveSystem.bindAttributes(this.player.getAttributes());
+    SaveSystem.bindPlayerStats(this.player.getStats());
+    SaveSystem.bindInventory(this.player.getInventory());
+    SaveSystem.bindAttunement(this.player.getAttunement());
+    SoulSystem.registerHolder(this.player.entityId);
+    SaveSystem.bindSoulHolder(this.player.entityId);
+    HUDView.setSouls(SoulSystem.getSouls(this.player.entityId));
+
+    // Quick slot was filled before the HUD knew the player
+    const inventory = this.player.getInventory();
+    const quickItem = inventory.activeItem;
+    HUDView.setQuickSlot(quickItem?.id ?? null, quickItem ? inventory.count(quickItem.id) : 0);
+    HUDView.setSpellSlot(this.player.getAttunement().activeSpell?.id ?? null);
 
     // Set animation callback if model was loaded
     if (this.characterModel?.isLoaded()) {
       this.player.setAnimationCallback((name, options) => {
         this.characterModel?.playAnimation(name, options);
       });
+      this.characterModel.setTimeEntity(this.player.entityId);
+      this.syncEquipmentModels();
     }
 
-    // Emit initial health/stamina
+    // Emit initial health/FP/stamina
     EventBus.emit('player:healthChanged', {
       current: this.player.currentHP,
       max: this.player.maxHP,
     });
+    EventBus.emit('player:fpChanged', {
+      current: this.player.currentFP,
+      max: this.player.maxFP,
+    });
     EventBus.emit('player:staminaChanged', {
       current: this.player.currentStamina,
       max: this.player.maxStamina,
@@ -291,6 +508,11 @@ class GameAppClass {
 
     this.boss.spawn(scene);
 
+    // Target the player
+    if (this.player) {
+      this.boss.setTarget(this.player.entityId, this.player.position);
+    }
+
     // Register as lock-on target
     if (this.lockOn) {
       this.lockOn.registerTarget({
@@ -302,6 +524,53 @@ class GameAppClass {
     return this.boss.id;
   }
 
+  /**
+   * Spawn a regular enemy from a level spawner
+   */
+  private spawnEnemy(spawner: SpawnerDef, scene: THREE.Scene): string | undefined {
+    const archetype = getEnemyArchetype(spawner.entityType);
+    if (!archetype) return undefined;
+
+    const toVector = (point: { x: number; y: number; z: number }) =>
+      new THREE.Vector3(point.x, point.y, point.z);
+
+    const enemy = new Enemy({
+      id: spawner.id,
+      archetype,
+      position: toVector(spawner.position),
+      rotation: THREE.MathUtils.degToRad(spawner.rotation?.y ?? 0),
+      patrolRoute: spawner.patrol?.map(toVector),
+    });
+
+    enemy.spawn(scene);
+    this.enemies.set(enemy.id, enemy);
+
+    // Target the player
+    if (this.player) {
+      enemy.setTarget(this.player.entityId, this.player.position);
+    }
+
+    // Register as lock-on target
+    this.lockOn?.registerTarget({
+      entityId: enemy.id,
+      position: enemy.position,
+    });
+
+    return enemy.id;
+  }
+
+  /**
+   * Remove a regular enemy (spawner reset)
+   */
+  private despawnEnemy(entityId: string): void {
+    const enemy = this.enemies.get(entityId);
+    if (!enemy) return;
+
+    enemy.despawn(getScene());
+    this.enemies.delete(entityId);
+    this.lockOn?.unregisterTarget(entityId);
+  }
+
   /**
    * Remove title-scene ground overlays that overlap level geometry.
    * This avoids z-fighting shimmer after entering gameplay.
@@ -360,36 +629,68 @@ class GameAppClass {
    * Fixed timestep update (physics)
    */
   private fixedUpdate(dt: number): void {
-    if (this.state !== GameState.Gameplay) return;
+    if (this.state !== GameState.Gameplay && this.state !== GameState.GameOver) return;
+
+    InputManager.beginFixedTick();
+
+    if (this.state === GameState.GameOver) {
+      this.updateRespawnTimer(dt);
+    } else {
+      this.fixedUpdateGameplay(dt);
+    }
 
+    InputManager.endFixedTick();
+  }
+
+  /**
+   * Fixed timestep gameplay simulation
+   */
+  private fixedUpdateGameplay(dt: number): void {
     // Update i-frames
     IFrameSystem.update(dt);
 
+    // Update status effects (decay, damage over time)
+    StatusEffectSystem.update();
+
+    // Update riposte/backstab locks (damage at hit time)
+    CriticalSystem.update();
+
     // Update player
     if (this.player && !this.player.isDead) {
       // Update camera yaw for input transformation.
       // Derive from the camera's actual forward vector so movement stays aligned
       // even when camera look direction diverges from internal yaw (e.g. lock-on).
+      // Sampled through InputManager so replays see the recorded camera.
       if (this.camera) {
         const forward = this.camera.forward;
         const flatLenSq = forward.x * forward.x + forward.z * forward.z;
         if (flatLenSq > 1e-6) {
           const cameraYaw = Math.atan2(-forward.x, -forward.z);
-          this.player.setCameraYaw(cameraYaw);
+          this.player.setCameraYaw(InputManager.sampleChannel('cameraYaw', cameraYaw));
         }
       }
 
       // Update lock-on target
-      if (this.lockOn && this.lockOn.isLockedOn) {
-        const targetPos = this.lockOn.lockOnPoint;
-        if (targetPos) {
-          this.player.setLockOnTarget(targetPos);
-        }
+      const targetPos = this.lockOn?.isLockedOn ? this.lockOn.lockOnPoint : null;
+      const lockedOn = InputManager.sampleChannel('lockOn', targetPos ? 1 : 0) === 1;
+      if (lockedOn) {
+        this.player.setLockOnTarget(
+          new THREE.Vector3(
+            InputManager.sampleChannel('lockOnX', targetPos?.x ?? 0),
+            InputManager.sampleChannel('lockOnY', targetPos?.y ?? 0),
+            InputManager.sampleChannel('lockOnZ', targetPos?.z ?? 0)
+          )
+        );
       } else {
         this.player.setLockOnTarget(null);
       }
 
       this.player.update(dt);
+
+      // Standing up (roll, attack, hit) closes the rest menu
+      if (this.restingAt && this.player.currentState !== PlayerStateType.Interacting) {
+        this.leaveRest();
+      }
     }
 
     // Update boss
@@ -406,6 +707,17 @@ class GameAppClass {
       }
     }
 
+    // Update enemies
+    if (this.player) {
+      for (const enemy of this.enemies.values()) {
+        enemy.updateTargetPosition(this.player.position);
+        enemy.update(dt);
+      }
+    }
+
+    // Update projectiles (after attackers fire, before physics)
+    ProjectileSystem.update(dt);
+
     // Update triggers
     TriggerManager.update(dt);
 
@@ -419,6 +731,9 @@ class GameAppClass {
   private update(dt: number): void {
     if (this.state !== GameState.Gameplay) return;
 
+    // Track play time
+    SaveSystem.update(dt);
+
     // Update camera
     if (this.camera && this.player) {
       this.camera.setTarget(this.player.position);
@@ -456,6 +771,15 @@ class GameAppClass {
       this.lockOn.updateTargetPosition(this.boss.id, this.boss.position);
     }
 
+    // Update enemy lock-on target positions
+    if (this.lockOn) {
+      for (const enemy of this.enemies.values()) {
+        if (!enemy.isDead) {
+          this.lockOn.updateTargetPosition(enemy.id, enemy.position);
+        }
+      }
+    }
+
     // Update character model animations
     if (this.characterModel) {
       this.characterModel.update(dt);
@@ -465,6 +789,9 @@ class GameAppClass {
     if (this.config.debugPhysics) {
       PhysicsWorld.updateDebugMesh();
     }
+    if (this.config.debugNavMesh) {
+      NavMesh.updateDebugMesh();
+    }
   }
 
   /**
@@ -485,6 +812,18 @@ class GameAppClass {
   private handleGameplayInput(data: { action: string; pressed: boolean }): void {
     if (!this.player || this.player.isDead) return;
 
+    // Rest menu takes over input while resting
+    if (this.restingAt) {
+      this.handleRestInput(data);
+      return;
+    }
+
+    // Rest at checkpoint
+    if (data.action === 'Interact' && data.pressed && this.nearbyCheckpoint) {
+      this.startRest(this.nearbyCheckpoint);
+      return;
+    }
+
     // Lock-on toggle
     if (data.action === 'LockOn' && data.pressed) {
       if (this.lockOn) {
@@ -501,12 +840,188 @@ class GameAppClass {
       this.player.useItem();
     }
 
+    // Quick slot cycling
+    if (data.action === 'CycleItem' && data.pressed) {
+      this.player.cycleItem();
+    }
+
+    // Spell cycling (casting is read by the player FSM)
+    if (data.action === 'CycleSpell' && data.pressed) {
+      this.player.cycleSpell();
+    }
+
     // Pause
     if (data.action === 'Escape' && data.pressed) {
       this.pause();
     }
   }
 
+  // ========== Resting ==========
+
+  /**
+   * Sit at a checkpoint: restore the player, reset the world, set the respawn point
+   */
+  private startRest(checkpointId: string): void {
+    if (!this.player || !this.player.interact('Rest')) return;
+
+    this.restingAt = checkpointId;
+    TutorialPrompts.hide();
+
+    this.player.rest();
+    this.resetWorld();
+
+    // Sets the respawn point and autosaves
+    EventBus.emit('checkpoint:activated', { checkpointId });
+
+    this.showRestMenu();
+
+    console.log(`[GameApp] Resting at ${this.getRestName()}`);
+  }
+
+  /**
+   * Show the main rest page
+   */
+  private showRestMenu(selectedId?: string): void {
+    this.restMenuPage = 'main';
+    RestMenu.show(this.getRestName(), REST_MENU_OPTIONS, selectedId);
+  }
+
+  /**
+   * Show the level-up page (attribute levels and the next level's cost)
+   */
+  private showLevelUpMenu(selectedId?: string): void {
+    if (!this.player) return;
+
+    const attributes = this.player.getAttributes();
+    const souls = SoulSystem.getSouls(this.player.entityId);
+    const options: RestMenuOption[] = ATTRIBUTES.map((attribute) => ({
+      id: `${LEVEL_OPTION_PREFIX}${attribute}`,
+      label: `${ATTRIBUTE_NAMES[attribute]}  ${attributes.get(attribute)}`,
+    }));
+    options.push({ id: 'back', label: 'Back' });
+
+    this.restMenuPage = 'levelUp';
+    RestMenu.show(
+      `Level ${attributes.level}  ·  ${attributes.levelUpCost} / ${souls} souls`,
+      options,
+      selectedId
+    );
+  }
+
+  /**
+   * Show the attunement page (known spells; selecting one attunes/unattunes it)
+   */
+  private showAttuneMenu(selectedId?: string): void {
+    if (!this.player) return;
+
+    const attunement = this.player.getAttunement();
+    const options: RestMenuOption[] = attunement.getKnownSpells().map((spell) => ({
+      id: `${ATTUNE_OPTION_PREFIX}${spell.id}`,
+      label: `${attunement.isAttuned(spell.id) ? '◆' : '◇'} ${spell.name}  (${spell.slots})`,
+    }));
+    options.push({ id: 'back', label: 'Back' });
+
+    this.restMenuPage = 'attune';
+    RestMenu.show(
+      `Attunement  ·  ${attunement.freeSlots} / ${attunement.totalSlots} slots free`,
+      options,
+      selectedId
+    );
+  }
+
+  /**
+   * Return from a sub-page to the main rest page
+   */
+  private showRestMenuFromPage(): void {
+    this.showRestMenu(this.restMenuPage === 'attune' ? 'attune' : 'level_up');
+  }
+
+  private getRestName(): string {
+    if (!this.restingAt) return '';
+    return LevelLoader.getCheckpoint(this.restingAt)?.name ?? this.restingAt;
+  }
+
+  /**
+   * Stand up and close the rest menu
+   */
+  private leaveRest(): void {
+    this.restingAt = null;
+    RestMenu.hide();
+    this.player?.stopInteracting();
+  }
+
+  /**
+   * Handle rest menu input
+   */
+  private handleRestInput(data: { action: string; pressed: boolean }): void {
+    if (!data.pressed) return;
+
+    switch (data.action) {
+      case 'MoveForward':
+        RestMenu.moveSelection(-1);
+        break;
+      case 'MoveBack':
+        RestMenu.moveSelection(1);
+        break;
+      case 'Interact':
+        this.selectRestOption(RestMenu.getSelected());
+        break;
+      case 'Pause':
+        if (this.restMenuPage !== 'main') {
+          this.showRestMenuFromPage();
+        } else {
+          this.leaveRest();
+        }
+        break;
+    }
+  }
+
+  private selectRestOption(optionId: string | null): void {
+    if (optionId?.startsWith(LEVEL_OPTION_PREFIX)) {
+      const attribute = optionId.slice(LEVEL_OPTION_PREFIX.length) as Attribute;
+      if (!this.player?.levelUp(attribute)) {
+        TutorialPrompts.show('Not enough souls');
+      }
+      this.showLevelUpMenu(optionId);
+      return;
+    }
+
+    if (optionId?.startsWith(ATTUNE_OPTION_PREFIX)) {
+      const spellId = optionId.slice(ATTUNE_OPTION_PREFIX.length);
+      const attunement = this.player?.getAttunement();
+      if (attunement?.isAttuned(spellId)) {
+        attunement.unattune(spellId);
+      } else if (attunement && !attunement.attune(spellId)) {
+        TutorialPrompts.show('Not enough attunement slots');
+      }
+      this.showAttuneMenu(optionId);
+      return;
+    }
+
+    switch (optionId) {
+      case 'level_up':
+        this.showLevelUpMenu();
+        break;
+      case 'attune':
+        this.showAttuneMenu();
+        break;
+      case 'back':
+        this.showRestMenuFromPage();
+        break;
+      case 'leave':
+        this.leaveRest();
+        break;
+    }
+  }
+
+  /**
+   * Reset respawning enemies (resting and dying)
+   */
+  private resetWorld(): void {
+    ProjectileSystem.clear();
+    LevelLoader.resetSpawners();
+  }
+
   /**
    * Handle trigger enter
    */
@@ -531,6 +1046,11 @@ class GameAppClass {
         // Process boss spawn
         LevelLoader.processSpawns();
       }
+
+      // Spawn boss (also on revisits after loading a save)
+      if (!this.boss && !LevelLoader.isSpawnerCleared('boss_spawner')) {
+        LevelLoader.triggerSpawner('boss_spawner');
+      }
     }
   }
 
@@ -567,9 +1087,20 @@ class GameAppClass {
   /**
    * Handle player death
    */
-  private onPlayerDied(): void {
+  private onPlayerDied(position: { x: number; y: number; z: number }): void {
     console.log('[GameApp] Player died');
 
+    if (this.player) {
+      SoulSystem.dropBloodstain(
+        this.player.entityId,
+        new THREE.Vector3(position.x, position.y, position.z)
+      );
+    }
+
+    if (this.restingAt) {
+      this.leaveRest();
+    }
+
     this.state = GameState.GameOver;
     HUDView.hide();
 
@@ -577,9 +1108,17 @@ class GameAppClass {
     this.showDeathScreen();
 
     // Respawn after delay
-    setTimeout(() => {
+    this.respawnTimer = RESPAWN_DELAY;
+  }
+
+  /**
+   * Count down to respawn while on the death screen
+   */
+  private updateRespawnTimer(dt: number): void {
+    this.respawnTimer -= dt;
+    if (this.respawnTimer <= 0) {
       this.respawnPlayer();
-    }, 3000);
+    }
   }
 
   /**
@@ -624,8 +1163,9 @@ class GameAppClass {
   private respawnPlayer(): void {
     if (!this.player) return;
 
-    const spawnPos = LevelLoader.getPlayerSpawn();
+    const spawnPos = this.getRespawnPosition();
     this.player.respawn(spawnPos);
+    this.resetWorld();
 
     HUDView.show();
     this.state = GameState.Gameplay;
@@ -633,6 +1173,44 @@ class GameAppClass {
     console.log('[GameApp] Player respawned');
   }
 
+  /**
+   * Place the bloodstain glow (replaces any previous one)
+   */
+  private showBloodstainMarker(position: THREE.Vector3): void {
+    this.clearBloodstainMarker();
+
+    const geometry = new THREE.SphereGeometry(0.25, 12, 8);
+    const material = new THREE.MeshBasicMaterial({
+      color: 0x6fd66f,
+      transparent: true,
+      opacity: 0.8,
+    });
+
+    this.bloodstainMarker = new THREE.Mesh(geometry, material);
+    this.bloodstainMarker.position.copy(position);
+    this.bloodstainMarker.position.y += 0.3;
+    getScene().add(this.bloodstainMarker);
+  }
+
+  private clearBloodstainMarker(): void {
+    if (!this.bloodstainMarker) return;
+
+    this.bloodstainMarker.removeFromParent();
+    this.bloodstainMarker.geometry.dispose();
+    (this.bloodstainMarker.material as THREE.Material).dispose();
+    this.bloodstainMarker = null;
+  }
+
+  /**
+   * Get respawn position (last rested checkpoint, else level spawn)
+   */
+  private getRespawnPosition(): THREE.Vector3 {
+    const checkpointId = SaveSystem.getLastCheckpoint();
+    const checkpoint = checkpointId ? LevelLoader.getCheckpoint(checkpointId) : null;
+
+    return checkpoint ? checkpoint.position : LevelLoader.getPlayerSpawn();
+  }
+
   /**
    * Handle boss death
    */
@@ -640,7 +1218,11 @@ class GameAppClass {
     console.log('[GameApp] Boss defeated!');
 
     GameFlags.set(GameFlag.BOSS_DEFEATED);
-    GameFlags.saveToStorage();
+    if (this.boss) {
+      LevelLoader.markEntityDefeated(this.boss.id);
+      SaveSystem.recordBossDefeated(this.boss.id);
+    }
+    void SaveSystem.save();
 
     // Show victory after delay
     setTimeout(() => {
@@ -710,9 +1292,17 @@ class GameAppClass {
    */
   destroy(): void {
     this.stopGameLoop();
+    InputManager.stopRecording();
+    InputManager.stopPlayback();
 
     // Destroy entities
     if (this.player) {
+      SaveSystem.bindPlayerStats(null);
+      SaveSystem.bindAttributes(null);
+      SaveSystem.bindInventory(null);
+      SaveSystem.bindAttunement(null);
+      SaveSystem.bindSoulHolder(null);
+      SoulSystem.removeHolder(this.player.entityId);
       this.player.destroy();
       this.player = null;
     }
@@ -727,12 +1317,22 @@ class GameAppClass {
       this.boss = null;
     }
 
+    for (const enemy of this.enemies.values()) {
+      enemy.despawn(getScene());
+    }
+    this.enemies.clear();
+
+    this.clearBloodstainMarker();
+
     // Destroy systems
+    ProjectileSystem.clear();
+    ProjectileSystem.setScene(null);
     LevelLoader.unload();
     TriggerManager.destroyAll();
     HUDView.destroy();
     BossBar.destroy();
     TutorialPrompts.destroy();
+    RestMenu.destroy();
     InputManager.destroy();
     PhysicsWorld.destroy();
 
@@ -741,6 +1341,10 @@ class GameAppClass {
       this.debugMesh.parent.remove(this.debugMesh);
       this.debugMesh = null;
     }
+    if (this.navDebugMesh && this.navDebugMesh.parent) {
+      this.navDebugMesh.parent.remove(this.navDebugMesh);
+      this.navDebugMesh = null;
+    }
 
     this.state = GameState.Loading;
 
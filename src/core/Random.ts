@@ -0,0 +1,84 @@
+/**
+ * Seeded random number generator for deterministic gameplay
+ *
+ * Usage:
+ * - Random.next(): float in [0, 1) (drop-in for Math.random in gameplay code)
+ * - Random.range(min, max): float in [min, max)
+ * - Random.seed(value): reseed (replays store and restore the seed)
+ *
+ * Gameplay logic that must replay identically (AI decisions, crit rolls, etc.)
+ * should use this instead of Math.random. Cosmetic effects can keep Math.random.
+ */
+
+class RandomManager {
+  private _seed: number = 0;
+  private _state: number = 0;
+
+  constructor() {
+    this.seed(Math.floor(Math.random() * 0xffffffff));
+  }
+
+  /**
+   * Reseed the generator
+   */
+  seed(value: number): void {
+    this._seed = value >>> 0;
+    this._state = this._seed;
+  }
+
+  /**
+   * Get the seed the generator was last reset with
+   */
+  getSeed(): number {
+    return this._seed;
+  }
+
+  /**
+   * Get the internal state (for snapshots)
+   */
+  getState(): number {
+    return this._state;
+  }
+
+  /**
+   * Restore the internal state (from snapshots)
+   */
+  setState(state: number): void {
+    this._state = state >>> 0;
+  }
+
+  /**
+   * Next float in [0, 1) (mulberry32)
+   */
+  next(): number {
+    this._state = (this._state + 0x6d2b79f5) >>> 0;
+    let t = this._state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Float in [min, max)
+   */
+  range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  /**
+   * Integer in [min, max]
+   */
+  int(min: number, max: number): number {
+    return Math.floor(this.range(min, max + 1));
+  }
+
+  /**
+   * True with the given probability (0-1)
+   */
+  chance(probability: number): boolean {
+    return this.next() < probability;
+  }
+}
+
+// Singleton instance
+export const Random = new RandomManager();
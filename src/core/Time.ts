@@ -5,8 +5,34 @@
  * - Time.delta: Variable frame delta (use for rendering/animations)
  * - Time.fixedDelta: Fixed physics timestep (use for physics/gameplay logic)
  * - Time.elapsed: Total elapsed time since start
+ * - Time.fixedElapsed: Simulation time of the current fixed tick (deterministic)
  * - Time.fixedUpdate(callback): Run callback at fixed timestep intervals
+ * - Time.stepFixed(callback): Run exactly one fixed tick (replays, headless runs)
+ * - Time.hitStop(duration): Freeze gameplay briefly on a heavy hit
+ * - Time.setLocalTimeScale(entityId, scale, duration): Slow one entity down
+ * - Time.getLocalElapsed(entityId) / Time.localDelta(entityId, dt): An entity's own clock
+ *
+ * Hit-stop and local time scales are measured in fixed ticks, so they replay
+ * deterministically. The fixed clock keeps running; entities read their local
+ * clock instead, which skips the time they spent frozen or slowed.
+ */
+
+/**
+ * Requested local time scale
  */
+export interface TimeScaleRequest {
+  scale: number; // 0-1 (0 = frozen)
+  duration: number; // Seconds of fixed time
+}
+
+/**
+ * Local clock of one entity
+ */
+interface LocalClock {
+  scale: number;
+  until: number; // fixedElapsed when the scale expires
+  lost: number; // Fixed time this entity did not live through (slowed)
+}
 
 class TimeManager {
   // Frame timing
@@ -18,11 +44,19 @@ class TimeManager {
   // Fixed timestep
   private readonly _fixedDelta: number = 1 / 60; // 60 Hz physics
   private _accumulator: number = 0;
+  private _fixedTick: number = 0;
   private readonly _maxDelta: number = 0.1; // Cap to prevent spiral of death
 
   // Time scale (for slow-mo effects)
   private _timeScale: number = 1.0;
 
+  // Hit-stop (gameplay freeze)
+  private _hitStopUntil: number = 0;
+  private _hitStopLost: number = 0;
+
+  // Per-entity time dilation
+  private localClocks: Map<string, LocalClock> = new Map();
+
   // Frame counting
   private _frameCount: number = 0;
   private _fps: number = 0;
@@ -59,6 +93,22 @@ class TimeManager {
     return this._elapsed;
   }
 
+  /**
+   * Simulation time at the current fixed tick in seconds
+   * Advances only with fixed steps, so it is identical across replays.
+   * Use for gameplay timers (state durations, cooldowns, i-frames).
+   */
+  get fixedElapsed(): number {
+    return this._fixedTick * this._fixedDelta;
+  }
+
+  /**
+   * Number of fixed ticks simulated since the fixed clock was reset
+   */
+  get fixedTick(): number {
+    return this._fixedTick;
+  }
+
   /**
    * Current frames per second
    */
@@ -136,7 +186,7 @@ class TimeManager {
     const maxSteps = 10; // Prevent infinite loop on very slow frames
 
     while (this._accumulator >= this._fixedDelta && steps < maxSteps) {
-      callback(this._fixedDelta);
+      this.stepFixed(callback);
       this._accumulator -= this._fixedDelta;
       steps++;
     }
@@ -144,6 +194,138 @@ class TimeManager {
     return steps;
   }
 
+  /**
+   * Run exactly one fixed tick, independent of wall-clock time
+   * fixedElapsed is the tick's start time during the callback.
+   */
+  stepFixed(callback: (fixedDelta: number) => void): void {
+    callback(this._fixedDelta);
+    this.advanceLocalClocks();
+    this._fixedTick++;
+  }
+
+  /**
+   * Reset the fixed clock to tick 0 (start of a recorded/replayed session)
+   */
+  resetFixedClock(): void {
+    this._fixedTick = 0;
+    this._accumulator = 0;
+    this.clearDilation();
+  }
+
+  // ========== Hit-Stop / Time Dilation ==========
+
+  /**
+   * Freeze gameplay for a short time (extends, never stacks)
+   *
+   * @param duration Seconds of fixed time
+   */
+  hitStop(duration: number): void {
+    if (duration <= 0) return;
+    this._hitStopUntil = Math.max(this._hitStopUntil, this.fixedElapsed + duration);
+  }
+
+  /**
+   * Check if gameplay is frozen by hit-stop
+   */
+  get isHitStopped(): boolean {
+    return this.fixedElapsed < this._hitStopUntil;
+  }
+
+  /**
+   * Gameplay time scale of the world (0 during hit-stop)
+   * Use for effects that are not tied to an entity (particles).
+   */
+  get worldTimeScale(): number {
+    return this.isHitStopped ? 0 : 1;
+  }
+
+  /**
+   * Slow down (or speed up) one entity while the world keeps running
+   * Replaces the entity's current scale.
+   *
+   * @param duration Seconds of fixed time (Infinity = until cleared)
+   */
+  setLocalTimeScale(entityId: string, scale: number, duration: number = Infinity): void {
+    const clock = this.getOrCreateClock(entityId);
+    clock.scale = Math.max(0, scale);
+    clock.until = this.fixedElapsed + duration;
+  }
+
+  /**
+   * Restore an entity's normal time scale
+   */
+  clearLocalTimeScale(entityId: string): void {
+    const clock = this.localClocks.get(entityId);
+    if (clock) {
+      clock.until = 0;
+    }
+  }
+
+  /**
+   * Current time scale of an entity (hit-stop included)
+   */
+  getLocalTimeScale(entityId: string): number {
+    if (this.isHitStopped) return 0;
+
+    const clock = this.localClocks.get(entityId);
+    return clock && this.fixedElapsed < clock.until ? clock.scale : 1;
+  }
+
+  /**
+   * Scale a delta by an entity's time scale
+   */
+  localDelta(entityId: string, dt: number): number {
+    return dt * this.getLocalTimeScale(entityId);
+  }
+
+  /**
+   * Time an entity has lived through (fixedElapsed minus hit-stops and slow-mo)
+   * Use for entity timers (state durations, cooldowns).
+   */
+  getLocalElapsed(entityId: string): number {
+    return this.fixedElapsed - this._hitStopLost - (this.localClocks.get(entityId)?.lost ?? 0);
+  }
+
+  /**
+   * Forget an entity's clock (entity destroyed)
+   */
+  removeLocalClock(entityId: string): void {
+    this.localClocks.delete(entityId);
+  }
+
+  private getOrCreateClock(entityId: string): LocalClock {
+    let clock = this.localClocks.get(entityId);
+    if (!clock) {
+      clock = { scale: 1, until: 0, lost: 0 };
+      this.localClocks.set(entityId, clock);
+    }
+    return clock;
+  }
+
+  /**
+   * Account the tick that just ran against frozen/slowed clocks
+   */
+  private advanceLocalClocks(): void {
+    if (this.isHitStopped) {
+      this._hitStopLost += this._fixedDelta;
+      return;
+    }
+
+    const now = this.fixedElapsed;
+    for (const clock of this.localClocks.values()) {
+      if (now < clock.until) {
+        clock.lost += this._fixedDelta * (1 - clock.scale);
+      }
+    }
+  }
+
+  private clearDilation(): void {
+    this._hitStopUntil = 0;
+    this._hitStopLost = 0;
+    this.localClocks.clear();
+  }
+
   /**
    * Get interpolation alpha for rendering between physics steps
    * Use for smooth visual interpolation
@@ -159,12 +341,14 @@ class TimeManager {
     this._delta = 0;
     this._elapsed = 0;
     this._accumulator = 0;
+    this._fixedTick = 0;
     this._frameCount = 0;
     this._fps = 0;
     this._fpsAccumulator = 0;
     this._fpsFrameCount = 0;
     this._timeScale = 1.0;
     this._started = false;
+    this.clearDilation();
   }
 
   /**
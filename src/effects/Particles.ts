@@ -1,5 +1,6 @@
 import * as THREE from 'three';
 import { getScene } from '../core/Scene';
+import { Time } from '../core/Time';
 
 interface Particle {
   position: THREE.Vector3;
@@ -67,7 +68,8 @@ function createParticle(): Particle {
 }
 
 export function updateParticles(delta: number): void {
-  const effectiveDelta = delta * intensityMultiplier;
+  // Frozen during hit-stop
+  const effectiveDelta = delta * intensityMultiplier * Time.worldTimeScale;
 
   for (let i = 0; i < particles.length; i++) {
     const p = particles[i];
@@ -0,0 +1,177 @@
+/**
+ * Armor definitions
+ *
+ * An armor piece fills one slot (head, chest, hands, legs) and gives:
+ * - Absorption per damage type (fraction of the damage removed)
+ * - Poise (added to the wearer's max poise)
+ * - Weight (counts toward the equip load, see EquipLoad)
+ *
+ * Absorption of several pieces stacks multiplicatively, so a full set
+ * never reaches 100%: total = 1 - (1 - a1) * (1 - a2) * ...
+ */
+
+import { DamageType } from '../player/PlayerStats';
+
+/**
+ * Armor slots
+ */
+export enum ArmorSlot {
+  Head = 'head',
+  Chest = 'chest',
+  Hands = 'hands',
+  Legs = 'legs',
+}
+
+export const ARMOR_SLOTS: readonly ArmorSlot[] = [
+  ArmorSlot.Head,
+  ArmorSlot.Chest,
+  ArmorSlot.Hands,
+  ArmorSlot.Legs,
+];
+
+/**
+ * Absorption per damage type (0-1)
+ */
+export type Absorption = Partial<Record<DamageType, number>>;
+
+/**
+ * Armor piece definition
+ */
+export interface ArmorData {
+  id: string;
+  name: string;
+  slot: ArmorSlot;
+
+  absorption: Absorption;
+  poise: number;
+  weight: number;
+}
+
+/**
+ * Equipped armor IDs per slot (missing slot = bare)
+ */
+export type ArmorLoadout = Partial<Record<ArmorSlot, string>>;
+
+/**
+ * Default armor library
+ */
+export const DEFAULT_ARMOR: Record<string, ArmorData> = {
+  // Leather set: light, keeps a fast roll with the starting weapon and shield
+  leather_hood: {
+    id: 'leather_hood',
+    name: 'Leather Hood',
+    slot: ArmorSlot.Head,
+    absorption: { [DamageType.Physical]: 0.03, [DamageType.Magic]: 0.03, [DamageType.Dark]: 0.02 },
+    poise: 1,
+    weight: 1.0,
+  },
+  leather_armor: {
+    id: 'leather_armor',
+    name: 'Leather Armor',
+    slot: ArmorSlot.Chest,
+    absorption: { [DamageType.Physical]: 0.08, [DamageType.Magic]: 0.06, [DamageType.Dark]: 0.05 },
+    poise: 3,
+    weight: 3.0,
+  },
+  leather_gloves: {
+    id: 'leather_gloves',
+    name: 'Leather Gloves',
+    slot: ArmorSlot.Hands,
+    absorption: { [DamageType.Physical]: 0.02, [DamageType.Magic]: 0.02 },
+    poise: 0,
+    weight: 1.0,
+  },
+  leather_boots: {
+    id: 'leather_boots',
+    name: 'Leather Boots',
+    slot: ArmorSlot.Legs,
+    absorption: { [DamageType.Physical]: 0.04, [DamageType.Magic]: 0.03, [DamageType.Dark]: 0.02 },
+    poise: 2,
+    weight: 2.0,
+  },
+
+  // Knight set: plate, strong against physical, weak against lightning
+  knight_helm: {
+    id: 'knight_helm',
+    name: 'Knight Helm',
+    slot: ArmorSlot.Head,
+    absorption: {
+      [DamageType.Physical]: 0.09,
+      [DamageType.Fire]: 0.05,
+      [DamageType.Magic]: 0.04,
+      [DamageType.Lightning]: 0.02,
+    },
+    poise: 5,
+    weight: 4.5,
+  },
+  knight_armor: {
+    id: 'knight_armor',
+    name: 'Knight Armor',
+    slot: ArmorSlot.Chest,
+    absorption: {
+      [DamageType.Physical]: 0.2,
+      [DamageType.Fire]: 0.12,
+      [DamageType.Magic]: 0.1,
+      [DamageType.Lightning]: 0.05,
+      [DamageType.Dark]: 0.08,
+    },
+    poise: 12,
+    weight: 10.0,
+  },
+  knight_gauntlets: {
+    id: 'knight_gauntlets',
+    name: 'Knight Gauntlets',
+    slot: ArmorSlot.Hands,
+    absorption: {
+      [DamageType.Physical]: 0.06,
+      [DamageType.Fire]: 0.04,
+      [DamageType.Magic]: 0.03,
+      [DamageType.Lightning]: 0.01,
+    },
+    poise: 3,
+    weight: 3.5,
+  },
+  knight_leggings: {
+    id: 'knight_leggings',
+    name: 'Knight Leggings',
+    slot: ArmorSlot.Legs,
+    absorption: {
+      [DamageType.Physical]: 0.12,
+      [DamageType.Fire]: 0.07,
+      [DamageType.Magic]: 0.06,
+      [DamageType.Lightning]: 0.03,
+      [DamageType.Dark]: 0.05,
+    },
+    poise: 6,
+    weight: 6.0,
+  },
+};
+
+/**
+ * Starting armor
+ */
+export const DEFAULT_ARMOR_LOADOUT: ArmorLoadout = {
+  [ArmorSlot.Head]: 'leather_hood',
+  [ArmorSlot.Chest]: 'leather_armor',
+  [ArmorSlot.Hands]: 'leather_gloves',
+  [ArmorSlot.Legs]: 'leather_boots',
+};
+
+/**
+ * Total absorption of several pieces (multiplicative stacking)
+ */
+export function combineAbsorption(pieces: readonly ArmorData[]): Map<DamageType, number> {
+  const remaining = new Map<DamageType, number>();
+
+  for (const piece of pieces) {
+    for (const [type, value] of Object.entries(piece.absorption) as [DamageType, number][]) {
+      remaining.set(type, (remaining.get(type) ?? 1) * (1 - value));
+    }
+  }
+
+  const total = new Map<DamageType, number>();
+  for (const [type, left] of remaining) {
+    total.set(type, 1 - left);
+  }
+  return total;
+}
@@ -0,0 +1,48 @@
+/**
+ * Catalyst definitions
+ *
+ * A catalyst fills the catalyst slot and lets its holder cast spells of one
+ * school (staff: sorceries, talisman: miracles). Its spell buff scales the
+ * damage of the spells cast through it. Weight counts toward the equip load.
+ */
+
+import { SpellSchool } from '../magic/SpellData';
+
+/**
+ * Catalyst definition
+ */
+export interface CatalystData {
+  id: string;
+  name: string;
+  school: SpellSchool;
+
+  spellBuff: number; // x spell damage
+  weight: number;
+}
+
+/**
+ * Default catalyst library
+ */
+export const DEFAULT_CATALYSTS: Record<string, CatalystData> = {
+  sorcerers_staff: {
+    id: 'sorcerers_staff',
+    name: "Sorcerer's Staff",
+    school: SpellSchool.Sorcery,
+    spellBuff: 1.0,
+    weight: 1.5,
+  },
+  talisman: {
+    id: 'talisman',
+    name: 'Talisman',
+    school: SpellSchool.Miracle,
+    spellBuff: 1.0,
+    weight: 0.5,
+  },
+  oolacile_catalyst: {
+    id: 'oolacile_catalyst',
+    name: 'Oolacile Catalyst',
+    school: SpellSchool.Sorcery,
+    spellBuff: 1.3,
+    weight: 2.5,
+  },
+};
@@ -0,0 +1,76 @@
+/**
+ * Equip Load - Weight tiers of the equipped weapon, shield and armor
+ *
+ * Equip load = total weight / max equip load (from Endurance).
+ * Each tier sets:
+ * - Roll profile: duration, speed and i-frame window (fast, mid, fat roll)
+ * - Stamina regen multiplier
+ *
+ * The Light tier reproduces the original roll (0.62s, i-frames 0.1-0.54).
+ */
+
+/**
+ * Equip load tiers
+ */
+export enum EquipLoadTier {
+  Light = 'Light', // Fast roll
+  Medium = 'Medium', // Mid roll
+  Heavy = 'Heavy', // Fat roll
+}
+
+/**
+ * Roll timing and speed (fed to PlayerFSM and PlayerMotor)
+ */
+export interface RollProfile {
+  duration: number; // Seconds
+  speedScale: number; // x motor roll speed
+  iframeStart: number; // Normalized 0-1
+  iframeEnd: number;
+}
+
+/**
+ * Tier effects
+ */
+export interface EquipLoadProfile {
+  tier: EquipLoadTier;
+  roll: RollProfile;
+  staminaRegenScale: number;
+}
+
+/**
+ * Upper load ratio of each tier (above medium = heavy)
+ */
+export const EQUIP_LOAD_THRESHOLDS = {
+  light: 0.3,
+  medium: 0.7,
+};
+
+/**
+ * Tier profiles
+ */
+export const EQUIP_LOAD_PROFILES: Record<EquipLoadTier, EquipLoadProfile> = {
+  [EquipLoadTier.Light]: {
+    tier: EquipLoadTier.Light,
+    roll: { duration: 0.62, speedScale: 1.0, iframeStart: 0.1, iframeEnd: 0.54 },
+    staminaRegenScale: 1.0,
+  },
+  [EquipLoadTier.Medium]: {
+    tier: EquipLoadTier.Medium,
+    roll: { duration: 0.7, speedScale: 0.85, iframeStart: 0.1, iframeEnd: 0.45 },
+    staminaRegenScale: 0.9,
+  },
+  [EquipLoadTier.Heavy]: {
+    tier: EquipLoadTier.Heavy,
+    roll: { duration: 0.95, speedScale: 0.55, iframeStart: 0.12, iframeEnd: 0.32 },
+    staminaRegenScale: 0.75,
+  },
+};
+
+/**
+ * Tier of a load ratio (total weight / max equip load)
+ */
+export function getEquipLoadTier(ratio: number): EquipLoadTier {
+  if (ratio <= EQUIP_LOAD_THRESHOLDS.light) return EquipLoadTier.Light;
+  if (ratio <= EQUIP_LOAD_THRESHOLDS.medium) return EquipLoadTier.Medium;
+  return EquipLoadTier.Heavy;
+}
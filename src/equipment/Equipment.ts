@@ -0,0 +1,379 @@
+/**
+ * Equipment - Equipped weapon, shield, catalyst and armor for an entity
+ *
+ * Usage:
+ * - const equipment = new Equipment(entityId, { weapon: 'longsword', shield: 'heater_shield' })
+ * - equipment.equipWeapon('greatsword') registers the weapon's attacks with AttackSystem
+ * - equipment.equipArmor(ArmorSlot.Chest, 'knight_armor')
+ * - equipment.equipCatalyst('talisman'); equipment.canCast(school) gates spellcasting
+ * - equipment.moveSet feeds PlayerFSM; equipment.guard and equipment.absorption feed EntityCombatState
+ * - equipment.setMaxEquipLoad(n); equipment.loadProfile sets roll and stamina regen
+ *
+ * Emits 'equipment:changed' when a slot changes.
+ */
+
+import { EventBus } from '../core/EventBus';
+import { AttackSystem } from '../combat/AttackSystem';
+import type { PlayerMove, PlayerMoveSet } from '../player/PlayerFSM';
+import type { DamageType } from '../player/PlayerStats';
+import {
+  WeaponData,
+  WeaponMove,
+  WeaponSingleMove,
+  ShieldData,
+  ScalingAttribute,
+  DEFAULT_WEAPONS,
+  DEFAULT_SHIELDS,
+  buildWeaponAttacks,
+  getLightAttackId,
+  getMoveAttackId,
+  getMoveDamage,
+} from './WeaponData';
+import {
+  ArmorData,
+  ArmorSlot,
+  ArmorLoadout,
+  ARMOR_SLOTS,
+  DEFAULT_ARMOR,
+  DEFAULT_ARMOR_LOADOUT,
+  combineAbsorption,
+} from './ArmorData';
+import { CatalystData, DEFAULT_CATALYSTS } from './CatalystData';
+import { EquipLoadProfile, EQUIP_LOAD_PROFILES, getEquipLoadTier } from './EquipLoad';
+import type { SpellSchool } from '../magic/SpellData';
+
+/**
+ * Equipped item IDs
+ */
+export interface EquipmentLoadout {
+  weapon: string;
+  shield: string | null;
+  catalyst: string | null;
+  armor: ArmorLoadout;
+}
+
+export const DEFAULT_LOADOUT: EquipmentLoadout = {
+  weapon: 'longsword',
+  shield: 'heater_shield',
+  catalyst: 'sorcerers_staff',
+  armor: DEFAULT_ARMOR_LOADOUT,
+};
+
+/**
+ * Max equip load before attributes are applied (Endurance 10)
+ */
+const DEFAULT_MAX_EQUIP_LOAD = 50;
+
+/**
+ * Guard stats of the current loadout
+ */
+export interface GuardStats {
+  guardDamageReduction: number;
+  guardStability: number;
+  guardArc: number;
+}
+
+/**
+ * Equipment class
+ */
+export class Equipment {
+  private _weapon: WeaponData;
+  private _shield: ShieldData | null = null;
+  private _catalyst: CatalystData | null = null;
+  private _armor: Map<ArmorSlot, ArmorData> = new Map();
+  private _moveSet: PlayerMoveSet;
+  private _maxEquipLoad: number = DEFAULT_MAX_EQUIP_LOAD;
+
+  // Attribute levels used for weapon scaling
+  private attributes: Partial<Record<ScalingAttribute, number>> = {};
+
+  constructor(
+    private readonly entityId: string,
+    loadout: Partial<EquipmentLoadout> = {}
+  ) {
+    const weapon = loadout.weapon ?? DEFAULT_LOADOUT.weapon;
+    const shield = loadout.shield === undefined ? DEFAULT_LOADOUT.shield : loadout.shield;
+    const catalyst = loadout.catalyst === undefined ? DEFAULT_LOADOUT.catalyst : loadout.catalyst;
+
+    this._weapon = DEFAULT_WEAPONS[weapon] ?? DEFAULT_WEAPONS[DEFAULT_LOADOUT.weapon];
+    this._shield = shield ? DEFAULT_SHIELDS[shield] ?? null : null;
+    this._catalyst = catalyst ? DEFAULT_CATALYSTS[catalyst] ?? null : null;
+    this._moveSet = this.applyWeapon();
+
+    const armor = loadout.armor ?? DEFAULT_LOADOUT.armor;
+    for (const slot of ARMOR_SLOTS) {
+      const piece = DEFAULT_ARMOR[armor[slot] ?? ''];
+      if (piece?.slot === slot) {
+        this._armor.set(slot, piece);
+      }
+    }
+  }
+
+  // ========== Equip ==========
+
+  /**
+   * Equip a weapon by ID
+   *
+   * @returns false if the weapon is unknown
+   */
+  equipWeapon(weaponId: string): boolean {
+    const weapon = DEFAULT_WEAPONS[weaponId];
+    if (!weapon) {
+      console.warn(`[Equipment] Unknown weapon: ${weaponId}`);
+      return false;
+    }
+
+    this._weapon = weapon;
+    this._moveSet = this.applyWeapon();
+
+    EventBus.emit('equipment:changed', {
+      entityId: this.entityId,
+      slot: 'weapon',
+      itemId: weapon.id,
+    });
+
+    return true;
+  }
+
+  /**
+   * Equip a shield by ID (null to unequip)
+   *
+   * @returns false if the shield is unknown
+   */
+  equipShield(shieldId: string | null): boolean {
+    const shield = shieldId ? DEFAULT_SHIELDS[shieldId] : null;
+    if (shieldId && !shield) {
+      console.warn(`[Equipment] Unknown shield: ${shieldId}`);
+      return false;
+    }
+
+    this._shield = shield;
+
+    EventBus.emit('equipment:changed', {
+      entityId: this.entityId,
+      slot: 'shield',
+      itemId: shield?.id ?? null,
+    });
+
+    return true;
+  }
+
+  /**
+   * Equip a catalyst by ID (null to unequip)
+   *
+   * @returns false if the catalyst is unknown
+   */
+  equipCatalyst(catalystId: string | null): boolean {
+    const catalyst = catalystId ? DEFAULT_CATALYSTS[catalystId] : null;
+    if (catalystId && !catalyst) {
+      console.warn(`[Equipment] Unknown catalyst: ${catalystId}`);
+      return false;
+    }
+
+    this._catalyst = catalyst;
+
+    EventBus.emit('equipment:changed', {
+      entityId: this.entityId,
+      slot: 'catalyst',
+      itemId: catalyst?.id ?? null,
+    });
+
+    return true;
+  }
+
+  /**
+   * Equip an armor piece by ID (null to leave the slot bare)
+   *
+   * @returns false if the armor is unknown or belongs to another slot
+   */
+  equipArmor(slot: ArmorSlot, armorId: string | null): boolean {
+    const piece = armorId ? DEFAULT_ARMOR[armorId] : null;
+    if (armorId && piece?.slot !== slot) {
+      console.warn(`[Equipment] Unknown ${slot} armor: ${armorId}`);
+      return false;
+    }
+
+    if (piece) {
+      this._armor.set(slot, piece);
+    } else {
+      this._armor.delete(slot);
+    }
+
+    EventBus.emit('equipment:changed', {
+      entityId: this.entityId,
+      slot,
+      itemId: piece?.id ?? null,
+    });
+
+    return true;
+  }
+
+  /**
+   * Set the max equip load (derived from Endurance)
+   */
+  setMaxEquipLoad(maxEquipLoad: number): void {
+    this._maxEquipLoad = Math.max(1, maxEquipLoad);
+  }
+
+  /**
+   * Set attribute levels for weapon damage scaling (rebuilds attacks)
+   */
+  setAttributes(attributes: Partial<Record<ScalingAttribute, number>>): void {
+    this.attributes = { ...attributes };
+    this.applyWeapon();
+  }
+
+  // ========== Queries ==========
+
+  get weapon(): WeaponData {
+    return this._weapon;
+  }
+
+  get shield(): ShieldData | null {
+    return this._shield;
+  }
+
+  get catalyst(): CatalystData | null {
+    return this._catalyst;
+  }
+
+  /**
+   * Check if the equipped catalyst casts spells of a school
+   */
+  canCast(school: SpellSchool): boolean {
+    return this._catalyst?.school === school;
+  }
+
+  /**
+   * Attack IDs and timings of the equipped weapon (for PlayerFSM)
+   */
+  get moveSet(): PlayerMoveSet {
+    return this._moveSet;
+  }
+
+  /**
+   * Guard stats (shield if equipped, otherwise the weapon)
+   */
+  get guard(): GuardStats {
+    const source = this._shield ?? this._weapon;
+    return {
+      guardDamageReduction: source.guardDamageReduction,
+      guardStability: source.guardStability,
+      guardArc: source.guardArc,
+    };
+  }
+
+  /**
+   * Riposte/backstab base damage (first light attack rating times the weapon's critical)
+   */
+  get criticalDamage(): number {
+    const weapon = this._weapon;
+    return Math.round(
+      getMoveDamage(weapon, weapon.moves.light[0], this.attributes) * (weapon.critical ?? 1.0)
+    );
+  }
+
+  /**
+   * Armor piece in a slot
+   */
+  getArmor(slot: ArmorSlot): ArmorData | null {
+    return this._armor.get(slot) ?? null;
+  }
+
+  /**
+   * Damage absorption of the worn armor (damage type -> fraction removed)
+   */
+  get absorption(): Map<DamageType, number> {
+    return combineAbsorption([...this._armor.values()]);
+  }
+
+  /**
+   * Poise of the worn armor (added to the wearer's max poise)
+   */
+  get armorPoise(): number {
+    let poise = 0;
+    for (const piece of this._armor.values()) {
+      poise += piece.poise;
+    }
+    return poise;
+  }
+
+  /**
+   * Total weight of equipped items
+   */
+  get weight(): number {
+    let weight = this._weapon.weight + (this._shield?.weight ?? 0) + (this._catalyst?.weight ?? 0);
+    for (const piece of this._armor.values()) {
+      weight += piece.weight;
+    }
+    return weight;
+  }
+
+  get maxEquipLoad(): number {
+    return this._maxEquipLoad;
+  }
+
+  /**
+   * Equip load ratio (weight / max equip load)
+   */
+  get equipLoad(): number {
+    return this.weight / this._maxEquipLoad;
+  }
+
+  /**
+   * Roll profile and stamina regen of the current equip load tier
+   */
+  get loadProfile(): EquipLoadProfile {
+    return EQUIP_LOAD_PROFILES[getEquipLoadTier(this.equipLoad)];
+  }
+
+  get loadout(): EquipmentLoadout {
+    const armor: ArmorLoadout = {};
+    for (const [slot, piece] of this._armor) {
+      armor[slot] = piece.id;
+    }
+
+    return {
+      weapon: this._weapon.id,
+      shield: this._shield?.id ?? null,
+      catalyst: this._catalyst?.id ?? null,
+      armor,
+    };
+  }
+
+  // ========== Private Methods ==========
+
+  /**
+   * Register the weapon's attacks and build its move set
+   */
+  private applyWeapon(): PlayerMoveSet {
+    const weapon = this._weapon;
+
+    for (const attack of buildWeaponAttacks(weapon, this.attributes)) {
+      AttackSystem.registerAttack(attack);
+    }
+
+    const toPlayerMove = (attackId: string, move: WeaponMove): PlayerMove => ({
+      attackId,
+      duration: move.duration,
+      staminaCost: move.staminaCost,
+      comboWindow: move.comboWindow,
+      hyperarmor: move.hyperarmor,
+      charge: move.charge,
+      lunge: move.lunge,
+    });
+    const single = (key: WeaponSingleMove): PlayerMove =>
+      toPlayerMove(getMoveAttackId(weapon.id, key), weapon.moves[key]);
+
+    return {
+      light: weapon.moves.light.map((move, i) => toPlayerMove(getLightAttackId(weapon.id, i), move)),
+      heavy: single('heavy'),
+      plunge: single('plunge'),
+      running: single('running'),
+      rolling: single('rolling'),
+      backstep: single('backstep'),
+      jumping: single('jumping'),
+      charged: single('charged'),
+    };
+  }
+}
@@ -0,0 +1,640 @@
+/**
+ * Weapon and shield definitions
+ *
+ * A weapon owns its move set (light combo, heavy, plunge and the
+ * context-sensitive moves), base damage, attribute scaling, reach, weight and
+ * procedural model. Moves are turned into AttackSystem attacks with
+ * buildWeaponAttacks().
+ *
+ * Attack IDs: `${weaponId}_light_${n}`, `${weaponId}_heavy`, `${weaponId}_plunge`,
+ * `${weaponId}_running`, `${weaponId}_rolling`, `${weaponId}_backstep`,
+ * `${weaponId}_jumping`, `${weaponId}_charged`
+ */
+
+import type { AttackData } from '../combat/AttackSystem';
+import { StatusEffectType, type StatusBuildup } from '../combat/StatusEffectSystem';
+import { DamageType } from '../player/PlayerStats';
+
+/**
+ * Weapon categories
+ */
+export enum WeaponCategory {
+  Dagger = 'Dagger',
+  StraightSword = 'StraightSword',
+  Greatsword = 'Greatsword',
+}
+
+/**
+ * Attributes that weapon damage scales with
+ */
+export type ScalingAttribute = 'strength' | 'dexterity';
+
+/**
+ * Scaling coefficients (bonus damage fraction per 100 attribute points)
+ */
+export type WeaponScaling = Partial<Record<ScalingAttribute, number>>;
+
+/**
+ * A single weapon move
+ */
+export interface WeaponMove {
+  motionValue: number; // Multiplier of weapon base damage
+  poiseDamage: number;
+  staminaCost: number;
+  duration: number; // Seconds (player state duration)
+
+  // Timing (normalized 0-1 progress)
+  activeFrames: [number, number];
+  comboWindow?: [number, number]; // Light attacks only
+
+  // Reach override (defaults to weapon reach); aoeRadius makes it an AoE
+  reachMultiplier?: number;
+  aoeRadius?: number;
+
+  canBeBlocked?: boolean;
+  knockbackForce?: number;
+  criticalMultiplier?: number;
+
+  // Poise breaks don't interrupt the move (normalized 0-1)
+  hyperarmor?: [number, number];
+
+  // Heavy attacks: the swing holds at `at` (normalized 0-1) while the button
+  // is held, and becomes the charged move after `time` seconds of holding
+  charge?: { at: number; time: number };
+
+  // Forward lunge on entry (defaults to the light/heavy lunge)
+  lunge?: { speed: number; duration: number };
+}
+
+/**
+ * Weapon move set
+ */
+export interface WeaponMoveSet {
+  light: WeaponMove[]; // Combo chain (max 3, one animation per step)
+  heavy: WeaponMove;
+  plunge: WeaponMove;
+
+  // Context-sensitive attacks (pressed out of another action)
+  running: WeaponMove; // Attack while sprinting
+  rolling: WeaponMove; // Attack at the end of a roll
+  backstep: WeaponMove; // Attack at the end of a backstep
+  jumping: WeaponMove; // Attack in the air after a jump
+  charged: WeaponMove; // Fully charged heavy (staminaCost is paid on top of the heavy's)
+}
+
+/**
+ * Single (non-combo) moves, in attack ID order
+ */
+export const WEAPON_SINGLE_MOVES = [
+  'heavy',
+  'plunge',
+  'running',
+  'rolling',
+  'backstep',
+  'jumping',
+  'charged',
+] as const;
+
+export type WeaponSingleMove = (typeof WEAPON_SINGLE_MOVES)[number];
+
+/**
+ * Procedural weapon model parameters
+ */
+export interface WeaponModel {
+  bladeLength: number;
+  bladeWidth: number;
+  guardWidth: number;
+  gripLength: number;
+  bladeColor: number;
+  guardColor: number;
+}
+
+/**
+ * Weapon definition
+ */
+export interface WeaponData {
+  id: string;
+  name: string;
+  category: WeaponCategory;
+
+  // Damage
+  baseDamage: number;
+  damageType: DamageType;
+  scaling: WeaponScaling;
+  statusBuildup?: StatusBuildup; // Added to every move
+  critical?: number; // Riposte/backstab damage multiplier (default 1.0)
+
+  // Reach (sweep hitbox)
+  hitboxRadius: number;
+  hitboxLength: number;
+
+  // Guarding with the weapon (no shield)
+  guardDamageReduction: number;
+  guardStability: number;
+  guardArc: number;
+
+  weight: number;
+  moves: WeaponMoveSet;
+  model: WeaponModel;
+}
+
+/**
+ * Procedural shield model parameters
+ */
+export interface ShieldModel {
+  width: number;
+  height: number;
+  thickness: number;
+  color: number;
+  rimColor: number;
+}
+
+/**
+ * Shield definition
+ */
+export interface ShieldData {
+  id: string;
+  name: string;
+
+  // Guard (feeds EntityCombatState)
+  guardDamageReduction: number; // 0-1
+  guardStability: number; // 0-100, higher = less stamina per blocked hit
+  guardArc: number; // Degrees covered in front of the holder
+
+  weight: number;
+  model: ShieldModel;
+}
+
+/**
+ * Default weapon library
+ */
+export const DEFAULT_WEAPONS: Record<string, WeaponData> = {
+  longsword: {
+    id: 'longsword',
+    name: 'Longsword',
+    category: WeaponCategory.StraightSword,
+    baseDamage: 25,
+    damageType: DamageType.Physical,
+    scaling: { strength: 0.4, dexterity: 0.4 },
+    hitboxRadius: 0.4,
+    hitboxLength: 1.2,
+    guardDamageReduction: 0.6,
+    guardStability: 25,
+    guardArc: 100,
+    weight: 3.0,
+    moves: {
+      light: [
+        {
+          motionValue: 1.0,
+          poiseDamage: 15,
+          staminaCost: 16,
+          duration: 0.62,
+          activeFrames: [0.22, 0.38],
+          comboWindow: [0.45, 0.7],
+          knockbackForce: 2,
+        },
+        {
+          motionValue: 1.12,
+          poiseDamage: 18,
+          staminaCost: 18,
+          duration: 0.62,
+          activeFrames: [0.2, 0.36],
+          comboWindow: [0.45, 0.7],
+          reachMultiplier: 1.08,
+          knockbackForce: 2.5,
+        },
+        {
+          motionValue: 1.4,
+          poiseDamage: 25,
+          staminaCost: 22,
+          duration: 0.62,
+          activeFrames: [0.25, 0.45],
+          reachMultiplier: 1.17,
+          knockbackForce: 4,
+        },
+      ],
+      heavy: {
+        motionValue: 2.0,
+        poiseDamage: 40,
+        staminaCost: 28,
+        duration: 0.9,
+        activeFrames: [0.3, 0.52],
+        reachMultiplier: 1.25,
+        knockbackForce: 6,
+        criticalMultiplier: 2.5,
+        charge: { at: 0.25, time: 0.9 },
+      },
+      plunge: {
+        motionValue: 3.2,
+        poiseDamage: 60,
+        staminaCost: 20,
+        duration: 0.8,
+        activeFrames: [0.0, 0.5],
+        aoeRadius: 1.5,
+        canBeBlocked: false,
+        knockbackForce: 8,
+        criticalMultiplier: 3.0,
+      },
+      running: {
+        motionValue: 1.25,
+        poiseDamage: 22,
+        staminaCost: 20,
+        duration: 0.75,
+        activeFrames: [0.25, 0.45],
+        reachMultiplier: 1.1,
+        knockbackForce: 3,
+        lunge: { speed: 6.0, duration: 0.35 },
+      },
+      rolling: {
+        motionValue: 1.0,
+        poiseDamage: 15,
+        staminaCost: 16,
+        duration: 0.6,
+        activeFrames: [0.2, 0.4],
+        knockbackForce: 2,
+        lunge: { speed: 4.0, duration: 0.25 },
+      },
+      backstep: {
+        motionValue: 1.1,
+        poiseDamage: 18,
+        staminaCost: 18,
+        duration: 0.65,
+        activeFrames: [0.25, 0.45],
+        reachMultiplier: 1.08,
+        knockbackForce: 2.5,
+        lunge: { speed: 5.0, duration: 0.3 },
+      },
+      jumping: {
+        motionValue: 1.5,
+        poiseDamage: 30,
+        staminaCost: 22,
+        duration: 0.8,
+        activeFrames: [0.3, 0.55],
+        knockbackForce: 5,
+        lunge: { speed: 3.5, duration: 0.4 },
+      },
+      charged: {
+        motionValue: 2.6,
+        poiseDamage: 55,
+        staminaCost: 10,
+        duration: 0.9,
+        activeFrames: [0.3, 0.52],
+        reachMultiplier: 1.25,
+        knockbackForce: 8,
+        criticalMultiplier: 2.5,
+      },
+    },
+    model: {
+      bladeLength: 0.92,
+      bladeWidth: 0.045,
+      guardWidth: 0.22,
+      gripLength: 0.22,
+      bladeColor: 0xcfd6df,
+      guardColor: 0x8b7c62,
+    },
+  },
+
+  dagger: {
+    id: 'dagger',
+    name: 'Bandit Knife',
+    category: WeaponCategory.Dagger,
+    baseDamage: 16,
+    damageType: DamageType.Physical,
+    scaling: { strength: 0.1, dexterity: 0.7 },
+    statusBuildup: { [StatusEffectType.Bleed]: 25 },
+    critical: 1.3,
+    hitboxRadius: 0.3,
+    hitboxLength: 0.8,
+    guardDamageReduction: 0.4,
+    guardStability: 0,
+    guardArc: 80,
+    weight: 1.0,
+    moves: {
+      light: [
+        {
+          motionValue: 1.0,
+          poiseDamage: 8,
+          staminaCost: 10,
+          duration: 0.42,
+          activeFrames: [0.2, 0.4],
+          comboWindow: [0.4, 0.75],
+          knockbackForce: 1,
+        },
+        {
+          motionValue: 1.0,
+          poiseDamage: 8,
+          staminaCost: 10,
+          duration: 0.42,
+          activeFrames: [0.2, 0.4],
+          comboWindow: [0.4, 0.75],
+          knockbackForce: 1,
+        },
+        {
+          motionValue: 1.3,
+          poiseDamage: 12,
+          staminaCost: 14,
+          duration: 0.5,
+          activeFrames: [0.25, 0.45],
+          knockbackForce: 2,
+        },
+      ],
+      heavy: {
+        motionValue: 1.6,
+        poiseDamage: 20,
+        staminaCost: 18,
+        duration: 0.7,
+        activeFrames: [0.3, 0.5],
+        reachMultiplier: 1.2,
+        knockbackForce: 3,
+        criticalMultiplier: 3.0,
+        charge: { at: 0.25, time: 0.7 },
+      },
+      plunge: {
+        motionValue: 3.0,
+        poiseDamage: 40,
+        staminaCost: 16,
+        duration: 0.7,
+        activeFrames: [0.0, 0.5],
+        aoeRadius: 1.2,
+        canBeBlocked: false,
+        knockbackForce: 5,
+        criticalMultiplier: 3.5,
+      },
+      running: {
+        motionValue: 1.2,
+        poiseDamage: 12,
+        staminaCost: 12,
+        duration: 0.5,
+        activeFrames: [0.2, 0.45],
+        knockbackForce: 1.5,
+        lunge: { speed: 6.5, duration: 0.3 },
+      },
+      rolling: {
+        motionValue: 1.0,
+        poiseDamage: 8,
+        staminaCost: 10,
+        duration: 0.42,
+        activeFrames: [0.2, 0.4],
+        knockbackForce: 1,
+        lunge: { speed: 4.5, duration: 0.2 },
+      },
+      backstep: {
+        motionValue: 1.1,
+        poiseDamage: 10,
+        staminaCost: 12,
+        duration: 0.48,
+        activeFrames: [0.22, 0.42],
+        knockbackForce: 1.5,
+        lunge: { speed: 5.5, duration: 0.25 },
+      },
+      jumping: {
+        motionValue: 1.4,
+        poiseDamage: 16,
+        staminaCost: 14,
+        duration: 0.6,
+        activeFrames: [0.25, 0.5],
+        knockbackForce: 2,
+        lunge: { speed: 3.5, duration: 0.35 },
+      },
+      charged: {
+        motionValue: 2.2,
+        poiseDamage: 30,
+        staminaCost: 8,
+        duration: 0.7,
+        activeFrames: [0.3, 0.5],
+        reachMultiplier: 1.2,
+        knockbackForce: 4,
+        criticalMultiplier: 3.0,
+      },
+    },
+    model: {
+      bladeLength: 0.34,
+      bladeWidth: 0.035,
+      guardWidth: 0.1,
+      gripLength: 0.14,
+      bladeColor: 0xb8bec6,
+      guardColor: 0x4a3a2a,
+    },
+  },
+
+  greatsword: {
+    id: 'greatsword',
+    name: 'Greatsword',
+    category: WeaponCategory.Greatsword,
+    baseDamage: 42,
+    damageType: DamageType.Physical,
+    scaling: { strength: 0.8, dexterity: 0.2 },
+    hitboxRadius: 0.6,
+    hitboxLength: 1.9,
+    guardDamageReduction: 0.75,
+    guardStability: 40,
+    guardArc: 120,
+    weight: 12.0,
+    moves: {
+      light: [
+        {
+          motionValue: 1.0,
+          poiseDamage: 35,
+          staminaCost: 26,
+          duration: 0.95,
+          activeFrames: [0.35, 0.55],
+          comboWindow: [0.55, 0.8],
+          knockbackForce: 5,
+        },
+        {
+          motionValue: 1.15,
+          poiseDamage: 40,
+          staminaCost: 30,
+          duration: 1.0,
+          activeFrames: [0.35, 0.55],
+          knockbackForce: 6,
+        },
+      ],
+      heavy: {
+        motionValue: 1.8,
+        poiseDamage: 70,
+        staminaCost: 38,
+        duration: 1.35,
+        activeFrames: [0.45, 0.62],
+        reachMultiplier: 1.1,
+        knockbackForce: 10,
+        criticalMultiplier: 2.0,
+        hyperarmor: [0.2, 0.62],
+        charge: { at: 0.35, time: 1.2 },
+      },
+      plunge: {
+        motionValue: 3.0,
+        poiseDamage: 90,
+        staminaCost: 28,
+        duration: 0.95,
+        activeFrames: [0.0, 0.5],
+        aoeRadius: 2.2,
+        canBeBlocked: false,
+        knockbackForce: 12,
+        criticalMultiplier: 2.5,
+      },
+      running: {
+        motionValue: 1.3,
+        poiseDamage: 45,
+        staminaCost: 30,
+        duration: 1.05,
+        activeFrames: [0.35, 0.55],
+        knockbackForce: 7,
+        hyperarmor: [0.2, 0.55],
+        lunge: { speed: 5.5, duration: 0.45 },
+      },
+      rolling: {
+        motionValue: 1.0,
+        poiseDamage: 35,
+        staminaCost: 26,
+        duration: 0.95,
+        activeFrames: [0.35, 0.55],
+        knockbackForce: 5,
+        lunge: { speed: 3.5, duration: 0.3 },
+      },
+      backstep: {
+        motionValue: 1.1,
+        poiseDamage: 38,
+        staminaCost: 28,
+        duration: 1.0,
+        activeFrames: [0.35, 0.55],
+        knockbackForce: 5,
+        lunge: { speed: 4.5, duration: 0.35 },
+      },
+      jumping: {
+        motionValue: 1.7,
+        poiseDamage: 60,
+        staminaCost: 32,
+        duration: 1.1,
+        activeFrames: [0.4, 0.6],
+        knockbackForce: 9,
+        hyperarmor: [0.2, 0.6],
+        lunge: { speed: 3.0, duration: 0.45 },
+      },
+      charged: {
+        motionValue: 2.5,
+        poiseDamage: 100,
+        staminaCost: 14,
+        duration: 1.35,
+        activeFrames: [0.45, 0.62],
+        reachMultiplier: 1.1,
+        knockbackForce: 14,
+        criticalMultiplier: 2.0,
+        hyperarmor: [0.2, 0.62],
+      },
+    },
+    model: {
+      bladeLength: 1.45,
+      bladeWidth: 0.09,
+      guardWidth: 0.36,
+      gripLength: 0.34,
+      bladeColor: 0x9ea4ab,
+      guardColor: 0x5a4c3a,
+    },
+  },
+};
+
+/**
+ * Default shield library
+ */
+export const DEFAULT_SHIELDS: Record<string, ShieldData> = {
+  heater_shield: {
+    id: 'heater_shield',
+    name: 'Heater Shield',
+    guardDamageReduction: 0.9,
+    guardStability: 50,
+    guardArc: 160,
+    weight: 2.5,
+    model: { width: 0.45, height: 0.55, thickness: 0.04, color: 0x6b4a2a, rimColor: 0x8b7c62 },
+  },
+  buckler: {
+    id: 'buckler',
+    name: 'Buckler',
+    guardDamageReduction: 0.7,
+    guardStability: 35,
+    guardArc: 120,
+    weight: 1.0,
+    model: { width: 0.32, height: 0.32, thickness: 0.03, color: 0x7a7f86, rimColor: 0x4a4f56 },
+  },
+  kite_shield: {
+    id: 'kite_shield',
+    name: 'Kite Shield',
+    guardDamageReduction: 1.0,
+    guardStability: 60,
+    guardArc: 180,
+    weight: 5.5,
+    model: { width: 0.5, height: 0.8, thickness: 0.05, color: 0x2a3a5a, rimColor: 0xa89a7a },
+  },
+};
+
+/**
+ * Attack ID for a light combo step (0-based)
+ */
+export function getLightAttackId(weaponId: string, step: number): string {
+  return `${weaponId}_light_${step + 1}`;
+}
+
+/**
+ * Attack ID for a single move
+ */
+export function getMoveAttackId(weaponId: string, move: WeaponSingleMove): string {
+  return `${weaponId}_${move}`;
+}
+
+/**
+ * Attack rating of a move, including attribute scaling
+ */
+export function getMoveDamage(
+  weapon: WeaponData,
+  move: WeaponMove,
+  attributes: Partial<Record<ScalingAttribute, number>> = {}
+): number {
+  let bonus = 0;
+  for (const [attribute, coefficient] of Object.entries(weapon.scaling)) {
+    bonus += (coefficient ?? 0) * ((attributes[attribute as ScalingAttribute] ?? 0) / 100);
+  }
+  return Math.round(weapon.baseDamage * move.motionValue * (1 + bonus));
+}
+
+/**
+ * Build AttackSystem attacks for every move of a weapon
+ */
+export function buildWeaponAttacks(
+  weapon: WeaponData,
+  attributes: Partial<Record<ScalingAttribute, number>> = {}
+): AttackData[] {
+  const build = (id: string, name: string, move: WeaponMove): AttackData => {
+    const reach = move.reachMultiplier ?? 1.0;
+    return {
+      id,
+      name,
+      baseDamage: getMoveDamage(weapon, move, attributes),
+      damageType: weapon.damageType,
+      poiseDamage: move.poiseDamage,
+      staminaCost: move.staminaCost,
+      activeFrames: move.activeFrames,
+      comboWindow: move.comboWindow,
+      hyperarmor: move.hyperarmor,
+      hitboxRadius: move.aoeRadius ?? weapon.hitboxRadius * reach,
+      hitboxLength: move.aoeRadius !== undefined ? 0 : weapon.hitboxLength * reach,
+      canBeBlocked: move.canBeBlocked ?? true,
+      canBeDodged: true,
+      knockbackForce: move.knockbackForce,
+      criticalMultiplier: move.criticalMultiplier,
+      statusBuildup: weapon.statusBuildup,
+    };
+  };
+
+  return [
+    ...weapon.moves.light.map((move, i) =>
+      build(getLightAttackId(weapon.id, i), `${weapon.name} Light ${i + 1}`, move)
+    ),
+    ...WEAPON_SINGLE_MOVES.map((key) =>
+      build(
+        getMoveAttackId(weapon.id, key),
+        `${weapon.name} ${key[0].toUpperCase()}${key.slice(1)}`,
+        weapon.moves[key]
+      )
+    ),
+  ];
+}
@@ -17,10 +17,13 @@ export enum Action {
   Sprint = 'Sprint', // Hold to sprint
   Block = 'Block',
   Parry = 'Parry',
+  CastSpell = 'CastSpell',
 
   // Interaction
   Interact = 'Interact',
   UseItem = 'UseItem',
+  CycleItem = 'CycleItem',
+  CycleSpell = 'CycleSpell',
 
   // Camera
   LockOn = 'LockOn',
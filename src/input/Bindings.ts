@@ -134,6 +134,10 @@ export const DEFAULT_BINDINGS: BindingsConfig = {
       keys: ['Tab'],
       gamepadButtons: [GamepadButton.LT],
     },
+    [Action.CastSpell]: {
+      keys: ['KeyC'],
+      gamepadButtons: [GamepadButton.Y],
+    },
     [Action.Interact]: {
       keys: ['KeyE', 'KeyF'],
       gamepadButtons: [GamepadButton.A],
@@ -142,6 +146,14 @@ export const DEFAULT_BINDINGS: BindingsConfig = {
       keys: ['KeyR'],
       gamepadButtons: [GamepadButton.X],
     },
+    [Action.CycleItem]: {
+      keys: ['KeyX'],
+      gamepadButtons: [GamepadButton.DPadDown],
+    },
+    [Action.CycleSpell]: {
+      keys: ['KeyV'],
+      gamepadButtons: [GamepadButton.DPadUp],
+    },
     [Action.LockOn]: {
       keys: ['KeyQ', 'KeyZ'],
       mouseButtons: [MouseButton.Middle],
@@ -7,6 +7,12 @@
  * - Input buffering for combat
  * - Analog axis support
  * - Pointer lock for mouse look
+ * - Per-fixed-tick recording and replay playback (see InputReplay)
+ *
+ * Fixed tick protocol (deterministic replays):
+ * - beginFixedTick() at the start of every fixed step
+ * - endFixedTick() at the end of every fixed step
+ * - sampleChannel() for non-device values gameplay reads during a tick
  */
 
 import { Time } from '../core/Time';
@@ -24,6 +30,12 @@ import {
   GamepadButton,
   GamepadAxis,
 } from './Bindings';
+import {
+  InputRecorder,
+  InputPlayback,
+  type InputTickSource,
+  type ReplayFile,
+} from './InputReplay';
 
 /**
  * Buffered input for combat
@@ -66,6 +78,13 @@ class InputManagerClass {
   // Initialization state
   private initialized: boolean = false;
 
+  // Recording / playback
+  private recorder: InputRecorder | null = null;
+  private playback: InputTickSource | null = null;
+  private playbackChannels: Map<string, number> = new Map();
+  private emittedSinceTick: Set<Action> = new Set();
+  private tickEmitted: Set<Action> = new Set();
+
   /**
    * Initialize the input system
    * @param element Element to attach event listeners to (usually canvas)
@@ -136,6 +155,12 @@ class InputManagerClass {
    * Call once per frame at the start of the game loop
    */
   update(): void {
+    // Playback drives state per fixed tick instead of live devices
+    if (this.playback) {
+      this.mouseDelta = { x: 0, y: 0 };
+      return;
+    }
+
     // Poll gamepad
     this.pollGamepad();
 
@@ -147,14 +172,120 @@ class InputManagerClass {
 
     // Clear mouse delta (accumulated since last frame)
     this.mouseDelta = { x: 0, y: 0 };
+  }
+
+  // ========== Fixed Tick ==========
+
+  /**
+   * Begin a fixed tick
+   * Applies the next replay tick in playback mode and expires the input buffer.
+   */
+  beginFixedTick(): void {
+    this.tickEmitted = this.emittedSinceTick;
+    this.emittedSinceTick = new Set();
+
+    if (this.playback) {
+      this.applyPlaybackTick();
+    }
 
-    // Clean expired input buffer
-    const now = Time.elapsed;
+    // Clean expired input buffer (tick-based so replays match)
+    const now = Time.fixedElapsed;
     this.inputBuffer = this.inputBuffer.filter(
       (input) => now - input.timestamp < this.BUFFER_DURATION
     );
   }
 
+  /**
+   * End a fixed tick (records the tick's input in recording mode)
+   */
+  endFixedTick(): void {
+    if (this.recorder) {
+      this.recorder.recordTick(this.actionStates, this.tickEmitted, this.axisValues);
+    }
+    this.tickEmitted = new Set();
+  }
+
+  /**
+   * Sample a non-device value gameplay reads during a tick (e.g. camera yaw)
+   * Recorded while recording; replaced by the recorded value during playback.
+   */
+  sampleChannel(name: string, liveValue: number): number {
+    if (this.playback) {
+      return this.playbackChannels.get(name) ?? liveValue;
+    }
+    if (this.recorder) {
+      this.recorder.recordChannel(name, liveValue);
+    }
+    return liveValue;
+  }
+
+  // ========== Recording / Playback ==========
+
+  /**
+   * Start recording per-tick input
+   * @param seed RNG seed the session was started with (stored in the file)
+   */
+  startRecording(seed: number): void {
+    this.stopPlayback();
+    this.recorder = new InputRecorder(seed, Time.fixedDelta);
+    this.emittedSinceTick.clear();
+  }
+
+  /**
+   * Stop recording and return the replay file
+   */
+  stopRecording(meta?: Record<string, unknown>): ReplayFile | null {
+    if (!this.recorder) return null;
+
+    const replay = this.recorder.finish(meta);
+    this.recorder = null;
+    return replay;
+  }
+
+  /**
+   * Start feeding a replay instead of live devices
+   */
+  startPlayback(replay: ReplayFile): void {
+    this.startTickSource(new InputPlayback(replay));
+  }
+
+  /**
+   * Start feeding ticks from a custom source instead of live devices
+   * Used by scripted bots in the headless simulation.
+   */
+  startTickSource(source: InputTickSource): void {
+    this.recorder = null;
+    this.playback = source;
+    this.playbackChannels.clear();
+    this.inputBuffer = [];
+    this.resetActionStates();
+  }
+
+  /**
+   * Stop playback and return to live devices
+   */
+  stopPlayback(): void {
+    if (!this.playback) return;
+
+    this.playback = null;
+    this.playbackChannels.clear();
+    this.resetActionStates();
+  }
+
+  /**
+   * Check if recording
+   */
+  isRecording(): boolean {
+    return this.recorder !== null;
+  }
+
+  /**
+   * Check if playing back a replay
+   */
+  isPlayingBack(): boolean {
+    return this.playback !== null;
+  }
+
   // ========== Action Queries ==========
 
   /**
@@ -234,7 +365,7 @@ class InputManagerClass {
   bufferInput(action: Action): void {
     this.inputBuffer.push({
       action,
-      timestamp: Time.elapsed,
+      timestamp: Time.fixedElapsed,
     });
   }
 
@@ -378,21 +509,73 @@ class InputManagerClass {
 
       // Emit input event for tutorials
       if (justPressed) {
-        EventBus.emit('input:action', { action, pressed: true });
-
-        // Auto-buffer combat actions
-        if (
-          action === Action.Attack ||
-          action === Action.StrongAttack ||
-          action === Action.Roll ||
-          action === Action.Parry
-        ) {
-          this.bufferInput(action);
-        }
+        this.onActionPressed(action);
       }
     }
   }
 
+  /**
+   * Handle a press edge (shared by live input and playback)
+   */
+  private onActionPressed(action: Action): void {
+    this.emittedSinceTick.add(action);
+    EventBus.emit('input:action', { action, pressed: true });
+
+    // Auto-buffer combat actions
+    if (
+      action === Action.Attack ||
+      action === Action.StrongAttack ||
+      action === Action.Roll ||
+      action === Action.Parry
+    ) {
+      this.bufferInput(action);
+    }
+  }
+
+  /**
+   * Apply the next recorded tick
+   */
+  private applyPlaybackTick(): void {
+    const tick = this.playback!.next();
+
+    if (!tick) {
+      const ticks = this.playback!.tick;
+      this.stopPlayback();
+      EventBus.emit('input:replayFinished', { ticks });
+      return;
+    }
+
+    for (const [action, state] of tick.actions) {
+      this.actionStates.set(action, state);
+      this.previousActionStates.set(action, state.pressed);
+    }
+    for (const [axis, value] of tick.axes) {
+      this.axisValues.set(axis, value);
+    }
+    this.playbackChannels = tick.channels;
+
+    for (const action of tick.emitted) {
+      this.onActionPressed(action);
+    }
+
+    // Replayed presses belong to this tick, not the next one
+    this.tickEmitted = this.emittedSinceTick;
+    this.emittedSinceTick = new Set();
+  }
+
+  /**
+   * Reset all action and axis states to released
+   */
+  private resetActionStates(): void {
+    Object.values(Action).forEach((action) => {
+      this.actionStates.set(action, { ...DEFAULT_ACTION_STATE });
+      this.previousActionStates.set(action, false);
+    });
+    Object.values(Axis).forEach((axis) => {
+      this.axisValues.set(axis, 0);
+    });
+  }
+
   private updateAxisValues(): void {
     for (const axis of Object.values(Axis)) {
       const binding = this.bindings.axes[axis];
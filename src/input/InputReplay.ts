@@ -0,0 +1,281 @@
+/**
+ * Input replay - per-fixed-tick input recording and playback
+ *
+ * Usage:
+ * - InputManager.startRecording() / InputManager.stopRecording() -> ReplayFile
+ * - InputManager.startPlayback(replay) feeds the file back instead of live devices
+ * - serializeReplay() / parseReplay() for the compact JSON file
+ * - InputManager.startTickSource(source) for scripted input (headless bots)
+ *
+ * File format:
+ * - Header: version, RNG seed, fixed delta, action/axis/channel name tables
+ * - Frames: one per fixed tick, run-length encoded (identical ticks collapse)
+ *
+ * Frame layout (arrays keep the file compact):
+ *   [repeat, pressedMask, justPressedMask, justReleasedMask, emittedMask,
+ *    axes[], heldTimes[], channels[]]
+ * Masks index into the header's action table. heldTimes lists one value per
+ * set bit of pressedMask. Channels carry extra per-tick values that gameplay
+ * reads from outside the input devices (e.g. camera yaw).
+ */
+
+import { Action, Axis, type ActionState } from './Action';
+
+/**
+ * Current replay file version
+ */
+export const REPLAY_VERSION = 1;
+
+/**
+ * Encoded frame (see file header comment for layout)
+ */
+export type ReplayFrame = [
+  number,
+  number,
+  number,
+  number,
+  number,
+  number[],
+  number[],
+  (number | null)[],
+];
+
+/**
+ * Replay file
+ */
+export interface ReplayFile {
+  version: number;
+  seed: number;
+  fixedDelta: number;
+  actions: Action[];
+  axes: Axis[];
+  channels: string[];
+  frames: ReplayFrame[];
+  meta?: Record<string, unknown>;
+}
+
+/**
+ * Decoded per-tick input state
+ */
+export interface ReplayTick {
+  actions: Map<Action, ActionState>;
+  emitted: Action[]; // Actions that fired 'input:action' since the previous tick
+  axes: Map<Axis, number>;
+  channels: Map<string, number>;
+}
+
+/**
+ * Anything that can feed InputManager one tick at a time
+ * (replay playback, scripted bots in the headless simulation)
+ */
+export interface InputTickSource {
+  next(): ReplayTick | null;
+  readonly tick: number; // Ticks produced so far
+}
+
+// ========== Recording ==========
+
+/**
+ * Records one frame per fixed tick
+ */
+export class InputRecorder {
+  private readonly actions: Action[] = Object.values(Action);
+  private readonly axes: Axis[] = Object.values(Axis);
+  private channels: string[] = [];
+  private frames: ReplayFrame[] = [];
+  private lastKey: string | null = null;
+
+  // Channel values sampled during the current tick
+  private pendingChannels: Map<string, number> = new Map();
+
+  constructor(
+    private readonly seed: number,
+    private readonly fixedDelta: number
+  ) {}
+
+  /**
+   * Record a channel value for the tick currently being recorded
+   */
+  recordChannel(name: string, value: number): void {
+    if (!this.channels.includes(name)) {
+      this.channels.push(name);
+    }
+    this.pendingChannels.set(name, value);
+  }
+
+  /**
+   * Record the input state seen by a tick
+   */
+  recordTick(
+    states: Map<Action, ActionState>,
+    emitted: Set<Action>,
+    axisValues: Map<Axis, number>
+  ): void {
+    let pressed = 0;
+    let justPressed = 0;
+    let justReleased = 0;
+    let emittedMask = 0;
+    const held: number[] = [];
+
+    this.actions.forEach((action, i) => {
+      const state = states.get(action);
+      const bit = 1 << i;
+      if (state?.pressed) {
+        pressed |= bit;
+        held.push(state.heldTime);
+      }
+      if (state?.justPressed) justPressed |= bit;
+      if (state?.justReleased) justReleased |= bit;
+      if (emitted.has(action)) emittedMask |= bit;
+    });
+
+    const axes = this.axes.map((axis) => axisValues.get(axis) ?? 0);
+    const channels = this.channels.map((name) => this.pendingChannels.get(name) ?? null);
+    this.pendingChannels.clear();
+
+    const frame: ReplayFrame = [1, pressed, justPressed, justReleased, emittedMask, axes, held, channels];
+
+    // Run-length encode identical consecutive ticks
+    const key = JSON.stringify(frame.slice(1));
+    if (key === this.lastKey && this.frames.length > 0) {
+      this.frames[this.frames.length - 1][0]++;
+    } else {
+      this.frames.push(frame);
+      this.lastKey = key;
+    }
+  }
+
+  /**
+   * Build the replay file
+   */
+  finish(meta?: Record<string, unknown>): ReplayFile {
+    return {
+      version: REPLAY_VERSION,
+      seed: this.seed,
+      fixedDelta: this.fixedDelta,
+      actions: [...this.actions],
+      axes: [...this.axes],
+      channels: [...this.channels],
+      frames: this.frames.map((f) => [...f] as ReplayFrame),
+      meta,
+    };
+  }
+}
+
+// ========== Playback ==========
+
+/**
+ * Feeds recorded ticks back in order
+ */
+export class InputPlayback implements InputTickSource {
+  private frameIndex: number = 0;
+  private repeatIndex: number = 0;
+  private _tick: number = 0;
+
+  constructor(private readonly replay: ReplayFile) {}
+
+  /**
+   * Decode the next tick (null when the replay has ended)
+   */
+  next(): ReplayTick | null {
+    const frame = this.replay.frames[this.frameIndex];
+    if (!frame) return null;
+
+    const tick = this.decode(frame, this.repeatIndex === 0);
+
+    this.repeatIndex++;
+    if (this.repeatIndex >= frame[0]) {
+      this.frameIndex++;
+      this.repeatIndex = 0;
+    }
+    this._tick++;
+
+    return tick;
+  }
+
+  /**
+   * Check if all ticks have been played
+   */
+  get finished(): boolean {
+    return this.frameIndex >= this.replay.frames.length;
+  }
+
+  /**
+   * Number of ticks played so far
+   */
+  get tick(): number {
+    return this._tick;
+  }
+
+  /**
+   * Total number of ticks in the replay
+   */
+  get totalTicks(): number {
+    return this.replay.frames.reduce((sum, f) => sum + f[0], 0);
+  }
+
+  /**
+   * Get the replay file
+   */
+  getReplay(): ReplayFile {
+    return this.replay;
+  }
+
+  private decode(frame: ReplayFrame, firstOfRun: boolean): ReplayTick {
+    const [, pressed, justPressed, justReleased, emittedMask, axes, held, channels] = frame;
+    const actions = new Map<Action, ActionState>();
+    const emitted: Action[] = [];
+    let heldIndex = 0;
+
+    this.replay.actions.forEach((action, i) => {
+      const bit = 1 << i;
+      const isPressed = (pressed & bit) !== 0;
+      actions.set(action, {
+        pressed: isPressed,
+        justPressed: (justPressed & bit) !== 0,
+        justReleased: (justReleased & bit) !== 0,
+        heldTime: isPressed ? held[heldIndex++] : 0,
+      });
+
+      // A repeated frame means nothing new was emitted on later ticks of the run
+      if (firstOfRun && (emittedMask & bit) !== 0) {
+        emitted.push(action);
+      }
+    });
+
+    const axisMap = new Map<Axis, number>();
+    this.replay.axes.forEach((axis, i) => axisMap.set(axis, axes[i] ?? 0));
+
+    const channelMap = new Map<string, number>();
+    this.replay.channels.forEach((name, i) => {
+      const value = channels[i];
+      if (value !== null && value !== undefined) {
+        channelMap.set(name, value);
+      }
+    });
+
+    return { actions, emitted, axes: axisMap, channels: channelMap };
+  }
+}
+
+// ========== Serialization ==========
+
+/**
+ * Serialize a replay to JSON
+ */
+export function serializeReplay(replay: ReplayFile): string {
+  return JSON.stringify(replay);
+}
+
+/**
+ * Parse a replay from JSON
+ *
+ * @throws Error if the file version is unsupported
+ */
+export function parseReplay(json: string): ReplayFile {
+  const replay = JSON.parse(json) as ReplayFile;
+  if (replay.version !== REPLAY_VERSION) {
+    throw new Error(`Unsupported replay version: ${replay.version}`);
+  }
+  return replay;
+}
@@ -0,0 +1,261 @@
+/**
+ * Inventory - Item stacks and consumable quick slots for an entity
+ *
+ * Usage:
+ * - const inventory = new Inventory(entityId)
+ * - inventory.add('purple_moss', 2) on pickups (sets the item's GameFlags flag)
+ * - inventory.cycleQuickSlot() to select the next consumable
+ * - inventory.consumeActive() at the UsingItem effect frame
+ * - inventory.refillAtCheckpoint() when resting (Estus charges)
+ *
+ * Events emitted:
+ * - 'inventory:changed' when a stack count changes
+ * - 'inventory:quickSlotChanged' when the selected quick slot changes
+ */
+
+import { EventBus } from '../core/EventBus';
+import { GameFlags } from '../level/GameFlags';
+import type { InventorySnapshot } from '../save/SaveData';
+import { ItemData, ItemType, getItem } from './ItemData';
+
+/**
+ * Number of consumable quick slots
+ */
+export const QUICK_SLOT_COUNT = 5;
+
+/**
+ * Items a new character starts with
+ */
+export const DEFAULT_STARTING_ITEMS: Record<string, number> = {
+  estus_flask: 5,
+  firebomb: 3,
+};
+
+/**
+ * Inventory class
+ */
+export class Inventory {
+  // Stack counts by item ID (refillable items keep a 0 entry when empty)
+  private stacks: Map<string, number> = new Map();
+
+  // Consumable item IDs in quick slot order
+  private quickSlots: string[] = [];
+  private activeSlot: number = 0;
+
+  constructor(
+    private readonly entityId: string,
+    startingItems: Record<string, number> = DEFAULT_STARTING_ITEMS
+  ) {
+    for (const [itemId, count] of Object.entries(startingItems)) {
+      this.add(itemId, count);
+    }
+  }
+
+  // ========== Stacks ==========
+
+  /**
+   * Add items (capped at the item's maxStack)
+   *
+   * @returns Number of items actually added
+   */
+  add(itemId: string, count: number = 1): number {
+    const item = getItem(itemId);
+    if (!item) {
+      console.warn(`[Inventory] Unknown item: ${itemId}`);
+      return 0;
+    }
+
+    const current = this.stacks.get(itemId) ?? 0;
+    const next = Math.min(item.maxStack, current + Math.max(0, count));
+    this.setCount(item, next);
+
+    if (item.flag && !GameFlags.is(item.flag)) {
+      GameFlags.set(item.flag);
+    }
+
+    if (item.type === ItemType.Consumable && !this.quickSlots.includes(itemId)) {
+      this.assignQuickSlot(itemId);
+    }
+
+    return next - current;
+  }
+
+  /**
+   * Remove items
+   *
+   * @returns false if there were not enough
+   */
+  remove(itemId: string, count: number = 1): boolean {
+    const item = getItem(itemId);
+    const current = this.stacks.get(itemId) ?? 0;
+    if (!item || current < count) return false;
+
+    this.setCount(item, current - count);
+    return true;
+  }
+
+  /**
+   * Get the stack count of an item
+   */
+  count(itemId: string): number {
+    return this.stacks.get(itemId) ?? 0;
+  }
+
+  /**
+   * Check if at least one of an item is owned
+   */
+  has(itemId: string): boolean {
+    return this.count(itemId) > 0;
+  }
+
+  /**
+   * Restore refillable items (Estus) to full
+   */
+  refillAtCheckpoint(): void {
+    for (const itemId of [...this.stacks.keys()]) {
+      const item = getItem(itemId);
+      if (item?.refillAtCheckpoint) {
+        this.setCount(item, item.maxStack);
+      }
+    }
+  }
+
+  // ========== Quick Slots ==========
+
+  /**
+   * Select the next (or previous) occupied quick slot
+   *
+   * @returns Newly selected item, or null if no slots are assigned
+   */
+  cycleQuickSlot(direction: 1 | -1 = 1): ItemData | null {
+    if (this.quickSlots.length === 0) return null;
+
+    const length = this.quickSlots.length;
+    this.activeSlot = (this.activeSlot + direction + length) % length;
+    this.emitQuickSlot();
+
+    return this.activeItem;
+  }
+
+  /**
+   * Currently selected consumable (may have 0 left)
+   */
+  get activeItem(): ItemData | null {
+    const itemId = this.quickSlots[this.activeSlot];
+    return itemId ? getItem(itemId) ?? null : null;
+  }
+
+  /**
+   * Check if the selected consumable can be used
+   */
+  canUseActive(): boolean {
+    const item = this.activeItem;
+    return item !== null && this.has(item.id);
+  }
+
+  /**
+   * Consume one of the selected consumable
+   *
+   * @returns The consumed item, or null if none was left
+   */
+  consumeActive(): ItemData | null {
+    const item = this.activeItem;
+    if (!item || !this.remove(item.id)) return null;
+    return item;
+  }
+
+  /**
+   * Quick slot item IDs in order
+   */
+  getQuickSlots(): readonly string[] {
+    return this.quickSlots;
+  }
+
+  // ========== Persistence ==========
+
+  /**
+   * Export inventory state
+   */
+  export(): InventorySnapshot {
+    return {
+      items: Object.fromEntries(this.stacks),
+      quickSlots: [...this.quickSlots],
+      activeSlot: this.activeSlot,
+    };
+  }
+
+  /**
+   * Import inventory state (replaces current contents)
+   */
+  import(snapshot: InventorySnapshot): void {
+    this.stacks.clear();
+    this.quickSlots = [];
+    this.activeSlot = 0;
+
+    for (const [itemId, count] of Object.entries(snapshot.items)) {
+      const item = getItem(itemId);
+      if (item) {
+        this.setCount(item, Math.min(item.maxStack, count));
+      }
+    }
+
+    this.quickSlots = snapshot.quickSlots.filter((itemId) => this.stacks.has(itemId));
+    this.activeSlot =
+      snapshot.activeSlot < this.quickSlots.length ? Math.max(0, snapshot.activeSlot) : 0;
+    this.emitQuickSlot();
+  }
+
+  // ========== Private Methods ==========
+
+  private setCount(item: ItemData, count: number): void {
+    if (count <= 0 && !item.refillAtCheckpoint) {
+      this.stacks.delete(item.id);
+      this.unassignQuickSlot(item.id);
+    } else {
+      this.stacks.set(item.id, count);
+    }
+
+    EventBus.emit('inventory:changed', {
+      entityId: this.entityId,
+      itemId: item.id,
+      count,
+    });
+
+    if (this.activeItem?.id === item.id) {
+      this.emitQuickSlot();
+    }
+  }
+
+  private assignQuickSlot(itemId: string): void {
+    if (this.quickSlots.length >= QUICK_SLOT_COUNT) return;
+
+    this.quickSlots.push(itemId);
+    if (this.quickSlots.length === 1) {
+      this.activeSlot = 0;
+      this.emitQuickSlot();
+    }
+  }
+
+  /**
+   * Drop a used-up item from the quick slots (keeps the selection on the next slot)
+   */
+  private unassignQuickSlot(itemId: string): void {
+    const index = this.quickSlots.indexOf(itemId);
+    if (index < 0) return;
+
+    this.quickSlots.splice(index, 1);
+    if (this.activeSlot > index || this.activeSlot >= this.quickSlots.length) {
+      this.activeSlot = Math.max(0, this.activeSlot - 1);
+    }
+    this.emitQuickSlot();
+  }
+
+  private emitQuickSlot(): void {
+    const item = this.activeItem;
+    EventBus.emit('inventory:quickSlotChanged', {
+      entityId: this.entityId,
+      itemId: item?.id ?? null,
+      count: item ? this.count(item.id) : 0,
+    });
+  }
+}
@@ -0,0 +1,124 @@
+/**
+ * Item Data - Consumable and key item definitions
+ *
+ * Item types:
+ * - Consumable: used from a quick slot through PlayerFSM UsingItem
+ *   (drinks heal/cure; throwables fire a ProjectileSystem projectile)
+ * - Key: never used directly; owning it sets a GameFlags flag that gates doors
+ *
+ * Consumables with refillAtCheckpoint (Estus) are charges rather than
+ * pickups: they are restored to maxStack when resting at a checkpoint.
+ */
+
+import { GameFlag } from '../level/GameFlags';
+import { StatusEffectType } from '../combat/StatusEffectSystem';
+
+/**
+ * Item types
+ */
+export enum ItemType {
+  Consumable = 'Consumable',
+  Key = 'Key',
+}
+
+/**
+ * Consumable use effect
+ */
+export type ItemEffect =
+  | { kind: 'heal'; amount: number; percent?: number } // percent: fraction of max HP
+  | { kind: 'cure'; effects: StatusEffectType[] }
+  | { kind: 'projectile'; projectileId: string }; // Thrown toward the lock-on target or forward
+
+/**
+ * Item definition
+ */
+export interface ItemData {
+  id: string;
+  name: string;
+  type: ItemType;
+
+  // Stacking
+  maxStack: number;
+  refillAtCheckpoint?: boolean; // Restored to maxStack on checkpoint rest
+
+  // Flag set while the item is owned (keys, first Estus)
+  flag?: GameFlag | string;
+
+  // Consumables
+  effects?: ItemEffect[];
+  effectFrame?: number; // Normalized UsingItem progress (0-1) when effects apply
+}
+
+/**
+ * Default effect frame (drink/eat animation midpoint)
+ */
+export const DEFAULT_EFFECT_FRAME = 0.5;
+
+/**
+ * Default items
+ */
+export const DEFAULT_ITEMS: Record<string, ItemData> = {
+  estus_flask: {
+    id: 'estus_flask',
+    name: 'Estus Flask',
+    type: ItemType.Consumable,
+    maxStack: 5,
+    refillAtCheckpoint: true,
+    flag: GameFlag.HAS_ESTUS,
+    effects: [{ kind: 'heal', amount: 20, percent: 0.35 }],
+    effectFrame: 0.55,
+  },
+  purple_moss: {
+    id: 'purple_moss',
+    name: 'Purple Moss Clump',
+    type: ItemType.Consumable,
+    maxStack: 20,
+    effects: [{ kind: 'cure', effects: [StatusEffectType.Poison, StatusEffectType.Toxic] }],
+    effectFrame: 0.4,
+  },
+  bloodred_moss: {
+    id: 'bloodred_moss',
+    name: 'Bloodred Moss Clump',
+    type: ItemType.Consumable,
+    maxStack: 20,
+    effects: [{ kind: 'cure', effects: [StatusEffectType.Bleed] }],
+    effectFrame: 0.4,
+  },
+  firebomb: {
+    id: 'firebomb',
+    name: 'Firebomb',
+    type: ItemType.Consumable,
+    maxStack: 10,
+    effects: [{ kind: 'projectile', projectileId: 'firebomb' }],
+    effectFrame: 0.45,
+  },
+  throwing_knife: {
+    id: 'throwing_knife',
+    name: 'Throwing Knife',
+    type: ItemType.Consumable,
+    maxStack: 20,
+    effects: [{ kind: 'projectile', projectileId: 'throwing_knife' }],
+    effectFrame: 0.35,
+  },
+  cell_key: {
+    id: 'cell_key',
+    name: 'Dungeon Cell Key',
+    type: ItemType.Key,
+    maxStack: 1,
+    flag: GameFlag.KEY_CELL,
+  },
+  boss_room_key: {
+    id: 'boss_room_key',
+    name: 'Big Pilgrim Key',
+    type: ItemType.Key,
+    maxStack: 1,
+    flag: GameFlag.KEY_BOSS_ROOM,
+  },
+};
+
+/**
+ * Get an item definition by ID
+ */
+export function getItem(itemId: string): ItemData | undefined {
+  return DEFAULT_ITEMS[itemId];
+}
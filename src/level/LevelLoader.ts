@@ -4,6 +4,7 @@
  * Usage:
  * - Load level geometry, triggers, spawners from JSON
  * - Create physics colliders for level geometry
+ * - Build the NavMesh (door geometry becomes removable obstacles)
  * - Manage level transitions
  *
  * Level JSON structure:
@@ -24,6 +25,8 @@ import { CollisionGroups, CollisionGroup } from '../physics/CollisionGroups';
 import { TriggerManager, TriggerShape, TriggerConfig } from './TriggerVolume';
 import { GameFlags, GameFlag, FlagCondition, checkFlagCondition } from './GameFlags';
 import { EventBus } from '../core/EventBus';
+import { NavMesh } from './NavMesh';
+import type { SpawnerSaveState } from '../save/SaveData';
 
 // ============ Data Types ============
 
@@ -73,6 +76,9 @@ export interface GeometryDef {
 
   // Collision
   collisionGroup?: CollisionGroup;
+
+  // Only built while the condition holds (e.g. doors that stay open once opened)
+  condition?: FlagCondition;
 }
 
 /**
@@ -80,7 +86,7 @@ export interface GeometryDef {
  */
 export interface TriggerDef {
   id: string;
-  type: 'checkpoint' | 'boss_room' | 'item_pickup' | 'dialogue' | 'event' | 'teleport';
+  type: 'checkpoint' | 'boss_room' | 'item_pickup' | 'dialogue' | 'event' | 'teleport' | 'door';
   position: Vec3;
   shape: TriggerShape;
   halfExtents?: Vec3;
@@ -100,6 +106,8 @@ export interface TriggerDef {
   eventName?: string;
   eventData?: Record<string, unknown>;
   teleportTarget?: Vec3;
+  doorId?: string; // Geometry removed when the door opens
+  requiredFlag?: GameFlag | string; // Key flag needed to open the door
   flagToSet?: GameFlag | string;
 }
 
@@ -117,6 +125,9 @@ export interface SpawnerDef {
   spawnOnLoad?: boolean;
   respawns?: boolean;
   condition?: FlagCondition;
+
+  // Enemy patrol waypoints, walked in a loop
+  patrol?: Vec3[];
 }
 
 /**
@@ -172,6 +183,7 @@ interface LoadedGeometry {
 interface LoadedSpawner {
   def: SpawnerDef;
   spawned: boolean;
+  cleared: boolean; // Spawned entity was defeated
   entityId?: string;
 }
 
@@ -183,8 +195,12 @@ class LevelLoaderClass {
   private loadedSpawners: Map<string, LoadedSpawner> = new Map();
   private scene: THREE.Scene | null = null;
 
+  // Spawner states restored from save data (applied on load)
+  private savedSpawnerStates: Record<string, SpawnerSaveState> = {};
+
   // Callbacks
   private spawnCallbacks: Map<string, (spawner: SpawnerDef) => string | undefined> = new Map();
+  private despawnCallbacks: Map<string, (entityId: string) => void> = new Map();
 
   /**
    * Register a spawn callback for an entity type
@@ -196,6 +212,13 @@ class LevelLoaderClass {
     this.spawnCallbacks.set(entityType, callback);
   }
 
+  /**
+   * Register a despawn callback for an entity type (used when spawners reset)
+   */
+  registerDespawnCallback(entityType: string, callback: (entityId: string) => void): void {
+    this.despawnCallbacks.set(entityType, callback);
+  }
+
   /**
    * Load a level from data
    */
@@ -213,6 +236,9 @@ class LevelLoaderClass {
       this.loadGeometry(geoDef);
     }
 
+    // Build navigation from the geometry that was loaded
+    this.buildNavMesh(data);
+
     // Load triggers
     for (const triggerDef of data.triggers) {
       this.loadTrigger(triggerDef);
@@ -246,6 +272,11 @@ class LevelLoaderClass {
   private loadGeometry(def: GeometryDef): void {
     if (!this.scene) return;
 
+    // Check condition
+    if (def.condition && !checkFlagCondition(def.condition)) {
+      return;
+    }
+
     let mesh: THREE.Mesh | null = null;
     let collider: RAPIER.Collider | null = null;
 
@@ -403,6 +434,21 @@ class LevelLoaderClass {
     }
   }
 
+  /**
+   * Build the NavMesh from loaded geometry (closed doors are obstacles)
+   */
+  private buildNavMesh(data: LevelData): void {
+    const doorIds = new Set<string>();
+    for (const trigger of data.triggers) {
+      if (trigger.doorId) doorIds.add(trigger.doorId);
+    }
+
+    NavMesh.build(
+      data.geometry.filter((def) => this.loadedGeometry.has(def.id)),
+      doorIds
+    );
+  }
+
   /**
    * Load trigger
    */
@@ -440,8 +486,9 @@ class LevelLoaderClass {
 
         switch (def.type) {
           case 'checkpoint':
+            // Resting is an interaction; entering only discovers the checkpoint
             if (def.checkpointId) {
-              EventBus.emit('checkpoint:activated', { checkpointId: def.checkpointId });
+              EventBus.emit('checkpoint:entered', { checkpointId: def.checkpointId });
               if (def.flagToSet) {
                 GameFlags.set(def.flagToSet);
               }
@@ -493,6 +540,12 @@ class LevelLoaderClass {
             // Teleport handled by game logic listening to trigger:enter
             console.log(`[LevelLoader] Teleport to:`, def.teleportTarget);
             break;
+
+          case 'door':
+            if (def.doorId && this.loadedGeometry.has(def.doorId)) {
+              this.tryOpenDoor(def.doorId, def.requiredFlag, def.flagToSet);
+            }
+            break;
         }
       },
 
@@ -502,6 +555,10 @@ class LevelLoaderClass {
         if (def.type === 'dialogue') {
           EventBus.emit('ui:dialogueHide');
         }
+
+        if (def.type === 'checkpoint' && def.checkpointId) {
+          EventBus.emit('checkpoint:exited', { checkpointId: def.checkpointId });
+        }
       },
     };
   }
@@ -510,9 +567,14 @@ class LevelLoaderClass {
    * Load spawner
    */
   private loadSpawner(def: SpawnerDef): void {
+    // Only a defeated, non-respawning entity stays gone across sessions
+    const saved = this.savedSpawnerStates[def.id];
+    const cleared = (saved?.cleared ?? false) && !def.respawns;
+
     this.loadedSpawners.set(def.id, {
       def,
-      spawned: false,
+      spawned: cleared,
+      cleared,
     });
   }
 
@@ -566,8 +628,9 @@ class LevelLoaderClass {
    */
   processSpawns(): void {
     for (const [id, spawner] of this.loadedSpawners) {
-      // Skip already spawned
-      if (spawner.spawned && !spawner.def.respawns) continue;
+      // Skip already spawned or defeated (resetSpawners re-arms respawning spawners)
+      if (spawner.spawned) continue;
+      if (spawner.cleared && !spawner.def.respawns) continue;
 
       // Check condition
       if (spawner.def.condition && !checkFlagCondition(spawner.def.condition)) {
@@ -595,6 +658,7 @@ class LevelLoaderClass {
   triggerSpawner(spawnerId: string): string | undefined {
     const spawner = this.loadedSpawners.get(spawnerId);
     if (!spawner) return undefined;
+    if (spawner.cleared && !spawner.def.respawns) return undefined;
 
     const callback = this.spawnCallbacks.get(spawner.def.entityType);
     if (callback) {
@@ -607,6 +671,71 @@ class LevelLoaderClass {
     return undefined;
   }
 
+  /**
+   * Reset respawning spawners (rest, death): despawn their entities and spawn again
+   * Boss spawners are never reset.
+   */
+  resetSpawners(): void {
+    for (const spawner of this.loadedSpawners.values()) {
+      if (!spawner.def.respawns || spawner.def.type === 'boss') continue;
+
+      if (spawner.entityId) {
+        this.despawnCallbacks.get(spawner.def.entityType)?.(spawner.entityId);
+      }
+
+      spawner.entityId = undefined;
+      spawner.spawned = false;
+      spawner.cleared = false;
+    }
+
+    this.processSpawns();
+  }
+
+  /**
+   * Mark the spawner owning an entity as cleared (entity defeated)
+   */
+  markEntityDefeated(entityId: string): void {
+    for (const spawner of this.loadedSpawners.values()) {
+      if (spawner.entityId === entityId) {
+        spawner.cleared = true;
+      }
+    }
+  }
+
+  /**
+   * Check if a spawner's entity has been defeated
+   */
+  isSpawnerCleared(spawnerId: string): boolean {
+    return this.loadedSpawners.get(spawnerId)?.cleared ?? false;
+  }
+
+  /**
+   * Export spawner states (for save data)
+   */
+  exportSpawnerStates(): Record<string, SpawnerSaveState> {
+    const result: Record<string, SpawnerSaveState> = { ...this.savedSpawnerStates };
+    for (const [id, spawner] of this.loadedSpawners) {
+      result[id] = { spawned: spawner.spawned, cleared: spawner.cleared };
+    }
+    return result;
+  }
+
+  /**
+   * Import spawner states (from save data)
+   * Applied to the current level immediately and to future loads.
+   */
+  importSpawnerStates(states: Record<string, SpawnerSaveState>): void {
+    this.savedSpawnerStates = { ...states };
+
+    for (const [id, spawner] of this.loadedSpawners) {
+      const cleared = (states[id]?.cleared ?? false) && !spawner.def.respawns;
+      spawner.cleared = cleared;
+      if (cleared) {
+        spawner.spawned = true;
+      }
+    }
+  }
+
   /**
    * Get player spawn position
    */
@@ -629,13 +758,16 @@ class LevelLoaderClass {
   /**
    * Get checkpoint position
    */
-  getCheckpoint(checkpointId: string): { position: THREE.Vector3; rotation: number } | null {
+  getCheckpoint(
+    checkpointId: string
+  ): { name: string; position: THREE.Vector3; rotation: number } | null {
     if (!this.currentLevel) return null;
 
     const checkpoint = this.currentLevel.checkpoints.find((c) => c.id === checkpointId);
     if (!checkpoint) return null;
 
     return {
+      name: checkpoint.name,
       position: new THREE.Vector3(
         checkpoint.position.x,
         checkpoint.position.y,
@@ -652,26 +784,68 @@ class LevelLoaderClass {
     return this.currentLevel?.checkpoints.map((c) => c.id) ?? [];
   }
 
+  /**
+   * Open a door if its key flag is set (emits 'door:locked' otherwise)
+   */
+  private tryOpenDoor(
+    doorId: string,
+    requiredFlag?: GameFlag | string,
+    openedFlag?: GameFlag | string
+  ): void {
+    if (requiredFlag && !GameFlags.is(requiredFlag)) {
+      EventBus.emit('door:locked', { doorId, requiredFlag });
+      return;
+    }
+
+    this.removeGeometry(doorId);
+
+    // Opened flag keeps the door geometry out on later loads
+    if (openedFlag) {
+      GameFlags.set(openedFlag);
+    }
+
+    EventBus.emit('door:opened', { doorId });
+    console.log(`[LevelLoader] Door opened: ${doorId}`);
+  }
+
+  /**
+   * Remove a loaded geometry piece (mesh and collider)
+   */
+  removeGeometry(id: string): boolean {
+    const geo = this.loadedGeometry.get(id);
+    if (!geo) return false;
+
+    this.disposeGeometry(geo);
+    this.loadedGeometry.delete(id);
+    NavMesh.removeObstacle(id);
+    return true;
+  }
+
+  private disposeGeometry(geo: LoadedGeometry): void {
+    if (this.scene) {
+      this.scene.remove(geo.mesh);
+    }
+    if (geo.mesh instanceof THREE.Mesh) {
+      geo.mesh.geometry.dispose();
+      if (geo.mesh.material instanceof THREE.Material) {
+        geo.mesh.material.dispose();
+      }
+    }
+    if (geo.collider) {
+      PhysicsWorld.removeCollider(geo.collider);
+    }
+  }
+
   /**
    * Unload current level
    */
   unload(): void {
     // Remove geometry
     for (const geo of this.loadedGeometry.values()) {
-      if (this.scene) {
-        this.scene.remove(geo.mesh);
-      }
-      if (geo.mesh instanceof THREE.Mesh) {
-        geo.mesh.geometry.dispose();
-        if (geo.mesh.material instanceof THREE.Material) {
-          geo.mesh.material.dispose();
-        }
-      }
-      if (geo.collider) {
-        PhysicsWorld.removeCollider(geo.collider);
-      }
+      this.disposeGeometry(geo);
     }
     this.loadedGeometry.clear();
+    NavMesh.clear();
 
     // Clear triggers
     TriggerManager.clear();
@@ -778,6 +952,18 @@ export const TUTORIAL_LEVEL: LevelData = {
       material: { color: 0x666666 },
     },
 
+    // Boss room door (opened with the Big Pilgrim Key)
+    {
+      id: 'boss_door',
+      type: GeometryType.Box,
+      position: { x: 0, y: 2, z: 14.5 },
+      halfExtents: { x: 3.5, y: 2, z: 0.25 },
+      material: { color: 0x5a3a22 },
+      condition: {
+        exclude: [GameFlag.BOSS_DOOR_OPENED],
+      },
+    },
+
     // Ramp to boss room
     {
       id: 'ramp_to_boss',
@@ -803,6 +989,37 @@ export const TUTORIAL_LEVEL: LevelData = {
       flagToSet: GameFlag.LEARNED_ROLL,
     },
 
+    // Boss room key
+    {
+      id: 'pickup_boss_room_key',
+      type: 'item_pickup',
+      position: { x: 2.5, y: 1, z: 11 },
+      shape: TriggerShape.Sphere,
+      radius: 1,
+      oneShot: true,
+      condition: {
+        exclude: [GameFlag.KEY_BOSS_ROOM],
+      },
+      itemId: 'boss_room_key',
+      itemType: 'Key',
+    },
+
+    // Boss room door
+    {
+      id: 'boss_door_trigger',
+      type: 'door',
+      position: { x: 0, y: 1, z: 13.5 },
+      shape: TriggerShape.Box,
+      halfExtents: { x: 3, y: 2, z: 1 },
+      oneShot: false,
+      condition: {
+        exclude: [GameFlag.BOSS_DOOR_OPENED],
+      },
+      doorId: 'boss_door',
+      requiredFlag: GameFlag.KEY_BOSS_ROOM,
+      flagToSet: GameFlag.BOSS_DOOR_OPENED,
+    },
+
     // Boss room entrance
     {
       id: 'boss_room_trigger',
@@ -814,14 +1031,24 @@ export const TUTORIAL_LEVEL: LevelData = {
       flagToSet: GameFlag.MET_BOSS_ONCE,
     },
 
-    // Checkpoint
+    // Checkpoints (rest with Interact while inside)
+    {
+      id: 'checkpoint_cell',
+      type: 'checkpoint',
+      position: { x: 0, y: 1, z: -3 },
+      shape: TriggerShape.Sphere,
+      radius: 1.5,
+      oneShot: false,
+      checkpointId: 'cell',
+      flagToSet: GameFlag.CHECKPOINT_CELL,
+    },
     {
       id: 'checkpoint_corridor',
       type: 'checkpoint',
       position: { x: 0, y: 1, z: 8 },
       shape: TriggerShape.Sphere,
       radius: 2,
-      oneShot: true,
+      oneShot: false,
       checkpointId: 'corridor',
       flagToSet: GameFlag.CHECKPOINT_CORRIDOR,
     },
@@ -840,6 +1067,21 @@ export const TUTORIAL_LEVEL: LevelData = {
         exclude: [GameFlag.BOSS_DEFEATED],
       },
     },
+
+    // Corridor hollow guarding the boss room key
+    {
+      id: 'corridor_hollow',
+      type: 'enemy',
+      position: { x: 0, y: 0, z: 12 },
+      rotation: { x: 0, y: 180, z: 0 },
+      entityType: 'hollow_soldier',
+      spawnOnLoad: true,
+      respawns: true,
+      patrol: [
+        { x: -2.5, y: 0, z: 12 },
+        { x: 2.5, y: 0, z: 12 },
+      ],
+    },
   ],
 
   checkpoints: [
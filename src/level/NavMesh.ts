@@ -0,0 +1,884 @@
+/**
+ * NavMesh - Navigation grid built from level geometry
+ *
+ * The boxes, planes, cylinders and ramps of a level are rasterized into a 2.5D
+ * grid: every cell column holds one span per walkable surface (the ground under
+ * a platform and the platform top are separate spans), linked to the spans of
+ * the neighboring columns that are within step height.
+ *
+ * Usage:
+ * - NavMesh.build(geometry, doorIds) when a level loads (done by LevelLoader)
+ * - NavMesh.findPath(from, to, agentRadius) for smoothed waypoints
+ * - NavMesh.hasClearPath(from, to, agentRadius) to check a straight walk
+ * - NavMesh.removeObstacle(doorId) when a door opens
+ *
+ * Features:
+ * - Agent radius per query: spans store their distance to the nearest edge, so
+ *   one grid serves both human-sized enemies and the boss
+ * - A* over 8-connected cells (no corner cutting), then string pulling
+ * - Dynamic obstacles (doors) block spans at query time, without a rebuild
+ * - Debug line mesh of the walkable spans (red: blocked by an obstacle)
+ *
+ * Like the physics colliders, boxes are axis-aligned (rotation only turns the
+ * mesh) and ramps rise along their Y rotation.
+ */
+
+import * as THREE from 'three';
+import { GeometryType, type GeometryDef } from './LevelLoader';
+
+/**
+ * Navigation grid configuration
+ */
+export interface NavMeshConfig {
+  cellSize: number;
+  agentHeight: number; // Headroom needed above a walkable surface
+  maxStepHeight: number; // Height difference between linked neighbors
+  maxSlope: number; // Degrees (steeper ramps are not walkable)
+  maxSnapDistance: number; // Horizontal search when snapping a point to the grid
+  maxSnapHeight: number; // How far below a point a surface is searched
+  maxSearchNodes: number; // A* expansion budget per query
+}
+
+const DEFAULT_CONFIG: NavMeshConfig = {
+  cellSize: 0.5,
+  agentHeight: 1.8,
+  maxStepHeight: 0.6,
+  maxSlope: 45,
+  maxSnapDistance: 2.0,
+  maxSnapHeight: 2.0,
+  maxSearchNodes: 20000,
+};
+
+/**
+ * Solid volume of one geometry piece, sampled per cell column
+ */
+interface NavSolid {
+  footprint: THREE.Box2;
+  walkable: boolean; // Top surface can be walked on
+  sample(x: number, z: number): { bottom: number; top: number } | null;
+}
+
+/**
+ * Walkable surface in a cell column
+ */
+interface NavSpan {
+  ix: number;
+  iz: number;
+  y: number;
+  links: Int32Array; // Span index per direction (-1: not linked)
+  clearance: number; // Cells to the nearest edge (1: edge cell)
+}
+
+/**
+ * Removable obstacle (e.g. a closed door)
+ */
+interface NavObstacle {
+  id: string;
+  bounds: THREE.Box3;
+}
+
+/**
+ * Neighbor directions: 4 orthogonal, then 4 diagonal
+ */
+const DIRECTIONS: ReadonlyArray<readonly [number, number]> = [
+  [1, 0],
+  [-1, 0],
+  [0, 1],
+  [0, -1],
+  [1, 1],
+  [1, -1],
+  [-1, 1],
+  [-1, -1],
+];
+
+function directionIndex(dx: number, dz: number): number {
+  return DIRECTIONS.findIndex(([x, z]) => x === dx && z === dz);
+}
+
+/**
+ * Navigation mesh manager
+ */
+class NavMeshManager {
+  private config: NavMeshConfig = { ...DEFAULT_CONFIG };
+
+  // Grid
+  private originX: number = 0;
+  private originZ: number = 0;
+  private width: number = 0;
+  private depth: number = 0;
+  private columns: number[][] = []; // Span indices per column, sorted by height
+  private spans: NavSpan[] = [];
+  private built: boolean = false;
+
+  // Dynamic obstacles by ID
+  private obstacles: Map<string, NavObstacle> = new Map();
+
+  // A* scratch buffers (reused between queries)
+  private gScore: Float64Array = new Float64Array(0);
+  private cameFrom: Int32Array = new Int32Array(0);
+  private visited: Uint32Array = new Uint32Array(0);
+  private closed: Uint32Array = new Uint32Array(0);
+  private searchId: number = 0;
+
+  // Debug rendering
+  private debugLines: THREE.LineSegments | null = null;
+  private debugEnabled: boolean = false;
+  private debugDirty: boolean = true;
+
+  /**
+   * Override grid config (applies on the next build)
+   */
+  configure(config: Partial<NavMeshConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  // ========== Build ==========
+
+  /**
+   * Build the grid from level geometry
+   *
+   * @param geometry Geometry pieces present in the level
+   * @param obstacleIds Pieces registered as removable obstacles instead of solids
+   */
+  build(geometry: readonly GeometryDef[], obstacleIds: ReadonlySet<string> = new Set()): void {
+    this.clear();
+
+    const solids: NavSolid[] = [];
+    for (const def of geometry) {
+      const solid = this.createSolid(def);
+      if (!solid) continue;
+
+      if (obstacleIds.has(def.id)) {
+        const bounds = getSolidBounds(def, solid);
+        this.addObstacle(def.id, bounds);
+      } else {
+        solids.push(solid);
+      }
+    }
+    if (solids.length === 0) return;
+
+    const cellSize = this.config.cellSize;
+    const area = new THREE.Box2();
+    for (const solid of solids) {
+      area.union(solid.footprint);
+    }
+    this.originX = Math.floor(area.min.x / cellSize) * cellSize;
+    this.originZ = Math.floor(area.min.y / cellSize) * cellSize;
+    this.width = Math.ceil((area.max.x - this.originX) / cellSize);
+    this.depth = Math.ceil((area.max.y - this.originZ) / cellSize);
+
+    this.rasterize(solids);
+    this.linkSpans();
+    this.computeClearance();
+
+    const count = this.spans.length;
+    this.gScore = new Float64Array(count);
+    this.cameFrom = new Int32Array(count);
+    this.visited = new Uint32Array(count);
+    this.closed = new Uint32Array(count);
+    this.searchId = 0;
+
+    this.built = true;
+    this.debugDirty = true;
+  }
+
+  /**
+   * Remove the grid and all obstacles
+   */
+  clear(): void {
+    this.columns = [];
+    this.spans = [];
+    this.width = 0;
+    this.depth = 0;
+    this.obstacles.clear();
+    this.built = false;
+    this.debugDirty = true;
+  }
+
+  /**
+   * Check if a grid has been built
+   */
+  get isBuilt(): boolean {
+    return this.built;
+  }
+
+  /**
+   * Number of walkable spans
+   */
+  get spanCount(): number {
+    return this.spans.length;
+  }
+
+  // ========== Obstacles ==========
+
+  /**
+   * Block the spans inside a volume until the obstacle is removed
+   */
+  addObstacle(id: string, bounds: THREE.Box3): void {
+    this.obstacles.set(id, { id, bounds: bounds.clone() });
+    this.debugDirty = true;
+  }
+
+  /**
+   * Remove an obstacle
+   *
+   * @returns false if no obstacle has this ID
+   */
+  removeObstacle(id: string): boolean {
+    if (!this.obstacles.delete(id)) return false;
+
+    this.debugDirty = true;
+    return true;
+  }
+
+  hasObstacle(id: string): boolean {
+    return this.obstacles.has(id);
+  }
+
+  // ========== Queries ==========
+
+  /**
+   * Find a walkable path
+   *
+   * @param agentRadius Spans closer than this to an edge or obstacle are avoided
+   * @returns Waypoints after the start, ending at the goal; null if unreachable
+   */
+  findPath(
+    from: THREE.Vector3,
+    to: THREE.Vector3,
+    agentRadius: number = 0
+  ): THREE.Vector3[] | null {
+    if (!this.built) return null;
+
+    const start = this.findNearestSpan(from, agentRadius);
+    const goal = this.findNearestSpan(to, agentRadius);
+    if (start < 0 || goal < 0) return null;
+
+    const cells = this.search(start, goal, agentRadius);
+    if (!cells) return null;
+
+    const path = this.smoothPath(cells, agentRadius).map((index) => this.getSpanPoint(index));
+
+    // End exactly at the goal when it lies on the grid
+    const last = path[path.length - 1];
+    if (this.findColumnSpan(to, agentRadius) === goal) {
+      last.x = to.x;
+      last.z = to.z;
+    }
+
+    return path;
+  }
+
+  /**
+   * Check if an agent can walk in a straight line between two points
+   */
+  hasClearPath(from: THREE.Vector3, to: THREE.Vector3, agentRadius: number = 0): boolean {
+    if (!this.built) return false;
+
+    const start = this.findNearestSpan(from, agentRadius);
+    const goal = this.findNearestSpan(to, agentRadius);
+    if (start < 0 || goal < 0) return false;
+
+    const span = this.spans[goal];
+    return this.traceLine(start, this.cellX(span.ix), this.cellZ(span.iz), agentRadius) === goal;
+  }
+
+  /**
+   * Height of the walkable surface under a point
+   *
+   * @returns null if no surface is within snap height below (or a step above)
+   */
+  sampleHeight(point: THREE.Vector3): number | null {
+    const index = this.findColumnSpan(point, 0);
+    return index >= 0 ? this.spans[index].y : null;
+  }
+
+  /**
+   * Closest walkable point to a point
+   */
+  findNearestPoint(point: THREE.Vector3, agentRadius: number = 0): THREE.Vector3 | null {
+    const index = this.findNearestSpan(point, agentRadius);
+    return index >= 0 ? this.getSpanPoint(index) : null;
+  }
+
+  // ========== Debug ==========
+
+  setDebugEnabled(enabled: boolean): void {
+    this.debugEnabled = enabled;
+  }
+
+  /**
+   * Create debug visualization mesh
+   */
+  createDebugMesh(): THREE.LineSegments {
+    const material = new THREE.LineBasicMaterial({ vertexColors: true });
+    this.debugLines = new THREE.LineSegments(new THREE.BufferGeometry(), material);
+    this.debugLines.frustumCulled = false;
+    this.debugDirty = true;
+
+    return this.debugLines;
+  }
+
+  /**
+   * Update debug visualization (rebuilt only when the grid or obstacles change)
+   */
+  updateDebugMesh(): void {
+    if (!this.debugEnabled || !this.debugLines || !this.debugDirty) return;
+    this.debugDirty = false;
+
+    const vertices: number[] = [];
+    const colors: number[] = [];
+    const half = this.config.cellSize * 0.4;
+    const color = new THREE.Color();
+
+    for (let i = 0; i < this.spans.length; i++) {
+      const span = this.spans[i];
+      if (this.isBlockedByObstacle(span, 0)) {
+        color.setHex(0xff3030);
+      } else if (span.clearance <= 1) {
+        color.setHex(0x2060a0);
+      } else {
+        color.setHex(0x30c0ff);
+      }
+
+      const x = this.cellX(span.ix);
+      const z = this.cellZ(span.iz);
+      const y = span.y + 0.05;
+      const corners = [
+        [x - half, z - half],
+        [x + half, z - half],
+        [x + half, z + half],
+        [x - half, z + half],
+      ];
+      for (let c = 0; c < 4; c++) {
+        const [ax, az] = corners[c];
+        const [bx, bz] = corners[(c + 1) % 4];
+        vertices.push(ax, y, az, bx, y, bz);
+        colors.push(color.r, color.g, color.b, color.r, color.g, color.b);
+      }
+    }
+
+    const geometry = this.debugLines.geometry;
+    geometry.setAttribute('position', new THREE.Float32BufferAttribute(vertices, 3));
+    geometry.setAttribute('color', new THREE.Float32BufferAttribute(colors, 3));
+  }
+
+  // ========== Private: Build ==========
+
+  private createSolid(def: GeometryDef): NavSolid | null {
+    const { x: cx, y: cy, z: cz } = def.position;
+
+    switch (def.type) {
+      case GeometryType.Box:
+      case GeometryType.Plane: {
+        const half =
+          def.type === GeometryType.Box
+            ? {
+                x: (def.halfExtents?.x ?? 1) * (def.scale?.x ?? 1),
+                y: (def.halfExtents?.y ?? 1) * (def.scale?.y ?? 1),
+                z: (def.halfExtents?.z ?? 1) * (def.scale?.z ?? 1),
+              }
+            : { x: (def.width ?? 10) / 2, y: 0.1, z: (def.depth ?? 10) / 2 };
+
+        return {
+          footprint: new THREE.Box2(
+            new THREE.Vector2(cx - half.x, cz - half.z),
+            new THREE.Vector2(cx + half.x, cz + half.z)
+          ),
+          walkable: true,
+          sample: () => ({ bottom: cy - half.y, top: cy + half.y }),
+        };
+      }
+
+      case GeometryType.Cylinder: {
+        const radius = def.radius ?? 1;
+        const halfHeight = (def.height ?? 2) / 2;
+
+        return {
+          footprint: new THREE.Box2(
+            new THREE.Vector2(cx - radius, cz - radius),
+            new THREE.Vector2(cx + radius, cz + radius)
+          ),
+          walkable: true,
+          sample: (x, z) =>
+            (x - cx) ** 2 + (z - cz) ** 2 <= radius * radius
+              ? { bottom: cy - halfHeight, top: cy + halfHeight }
+              : null,
+        };
+      }
+
+      case GeometryType.Ramp: {
+        const halfWidth = (def.width ?? 4) / 2;
+        const halfDepth = (def.depth ?? 10) / 2;
+        const slope = THREE.MathUtils.degToRad(def.slopeAngle ?? 30);
+        const heading = THREE.MathUtils.degToRad(def.rotation?.y ?? 0);
+        const sin = Math.sin(heading);
+        const cos = Math.cos(heading);
+        const thickness = 0.2 / Math.cos(slope); // Vertical thickness of the tilted slab
+
+        // Horizontal extent of the tilted slab
+        const reach = Math.abs(sin) * halfDepth + Math.abs(cos) * halfWidth;
+        const reachZ = Math.abs(cos) * halfDepth + Math.abs(sin) * halfWidth;
+
+        return {
+          footprint: new THREE.Box2(
+            new THREE.Vector2(cx - reach, cz - reachZ),
+            new THREE.Vector2(cx + reach, cz + reachZ)
+          ),
+          walkable: slope <= THREE.MathUtils.degToRad(this.config.maxSlope),
+          sample: (x, z) => {
+            const along = (x - cx) * sin + (z - cz) * cos;
+            const across = (x - cx) * cos - (z - cz) * sin;
+            if (Math.abs(along) > halfDepth || Math.abs(across) > halfWidth) return null;
+
+            const top = cy + along * Math.tan(slope) + thickness / 2;
+            return { bottom: top - thickness, top };
+          },
+        };
+      }
+
+      default:
+        return null; // Mesh geometry has no collider either
+    }
+  }
+
+  /**
+   * Find the walkable surfaces of every column
+   */
+  private rasterize(solids: NavSolid[]): void {
+    const point = new THREE.Vector2();
+
+    this.columns = new Array(this.width * this.depth);
+    for (let iz = 0; iz < this.depth; iz++) {
+      for (let ix = 0; ix < this.width; ix++) {
+        const column: number[] = [];
+        this.columns[iz * this.width + ix] = column;
+
+        const x = this.cellX(ix);
+        const z = this.cellZ(iz);
+        point.set(x, z);
+
+        // Solid intervals in this column, merged where they touch
+        const intervals: { bottom: number; top: number; walkable: boolean }[] = [];
+        for (const solid of solids) {
+          if (!solid.footprint.containsPoint(point)) continue;
+          const interval = solid.sample(x, z);
+          if (interval) intervals.push({ ...interval, walkable: solid.walkable });
+        }
+        intervals.sort((a, b) => a.bottom - b.bottom);
+
+        const merged: typeof intervals = [];
+        for (const interval of intervals) {
+          const last = merged[merged.length - 1];
+          if (last && interval.bottom <= last.top) {
+            if (interval.top > last.top) {
+              last.top = interval.top;
+              last.walkable = interval.walkable;
+            }
+          } else {
+            merged.push({ ...interval });
+          }
+        }
+
+        // A top surface is walkable with enough headroom below the next solid
+        for (let i = 0; i < merged.length; i++) {
+          const ceiling = i + 1 < merged.length ? merged[i + 1].bottom : Infinity;
+          if (!merged[i].walkable || ceiling - merged[i].top < this.config.agentHeight) continue;
+
+          column.push(this.spans.length);
+          this.spans.push({
+            ix,
+            iz,
+            y: merged[i].top,
+            links: new Int32Array(DIRECTIONS.length).fill(-1),
+            clearance: 0,
+          });
+        }
+      }
+    }
+  }
+
+  /**
+   * Link each span to the closest span in height of every neighbor column
+   */
+  private linkSpans(): void {
+    for (const span of this.spans) {
+      for (let d = 0; d < DIRECTIONS.length; d++) {
+        const [dx, dz] = DIRECTIONS[d];
+        const column = this.getColumn(span.ix + dx, span.iz + dz);
+        if (!column) continue;
+
+        let best = -1;
+        let bestDelta = this.config.maxStepHeight;
+        for (const index of column) {
+          const delta = Math.abs(this.spans[index].y - span.y);
+          if (delta <= bestDelta) {
+            best = index;
+            bestDelta = delta;
+          }
+        }
+        span.links[d] = best;
+      }
+    }
+  }
+
+  /**
+   * Breadth-first distance (in cells) from the grid edges
+   */
+  private computeClearance(): void {
+    const queue: number[] = [];
+    for (let i = 0; i < this.spans.length; i++) {
+      if (this.spans[i].links.includes(-1)) {
+        this.spans[i].clearance = 1;
+        queue.push(i);
+      }
+    }
+
+    for (let head = 0; head < queue.length; head++) {
+      const span = this.spans[queue[head]];
+      for (const link of span.links) {
+        if (link >= 0 && this.spans[link].clearance === 0) {
+          this.spans[link].clearance = span.clearance + 1;
+          queue.push(link);
+        }
+      }
+    }
+  }
+
+  // ========== Private: Search ==========
+
+  /**
+   * A* from start to goal span
+   *
+   * @returns Span indices from start to goal, or null if not reached within budget
+   */
+  private search(start: number, goal: number, radius: number): number[] | null {
+    this.searchId++;
+    const id = this.searchId;
+    const open = new OpenList();
+    const goalSpan = this.spans[goal];
+
+    this.gScore[start] = 0;
+    this.cameFrom[start] = -1;
+    this.visited[start] = id;
+    open.push(start, this.heuristic(this.spans[start], goalSpan));
+
+    let expanded = 0;
+    while (open.size > 0) {
+      const current = open.pop();
+      if (this.closed[current] === id) continue;
+      if (current === goal) return this.reconstruct(goal);
+
+      this.closed[current] = id;
+      if (++expanded > this.config.maxSearchNodes) return null;
+
+      const span = this.spans[current];
+      for (let d = 0; d < DIRECTIONS.length; d++) {
+        const [dx, dz] = DIRECTIONS[d];
+        const next = this.step(current, dx, dz, radius);
+        if (next < 0 || this.closed[next] === id) continue;
+
+        const stepCost = (d < 4 ? 1 : Math.SQRT2) * this.config.cellSize;
+        const cost = this.gScore[current] + stepCost + Math.abs(this.spans[next].y - span.y);
+        if (this.visited[next] === id && cost >= this.gScore[next]) continue;
+
+        this.visited[next] = id;
+        this.gScore[next] = cost;
+        this.cameFrom[next] = current;
+        open.push(next, cost + this.heuristic(this.spans[next], goalSpan));
+      }
+    }
+
+    return null;
+  }
+
+  private heuristic(a: NavSpan, b: NavSpan): number {
+    const dx = Math.abs(a.ix - b.ix);
+    const dz = Math.abs(a.iz - b.iz);
+    const octile = Math.max(dx, dz) + (Math.SQRT2 - 1) * Math.min(dx, dz);
+    return octile * this.config.cellSize + Math.abs(a.y - b.y);
+  }
+
+  private reconstruct(goal: number): number[] {
+    const cells: number[] = [];
+    for (let index = goal; index >= 0; index = this.cameFrom[index]) {
+      cells.push(index);
+    }
+    return cells.reverse();
+  }
+
+  /**
+   * String pulling: skip every cell that a straight walk can bypass
+   *
+   * @returns Span indices after the start, ending at the goal
+   */
+  private smoothPath(cells: number[], radius: number): number[] {
+    const result: number[] = [];
+
+    let anchor = 0;
+    while (anchor < cells.length - 1) {
+      let next = anchor + 1;
+      while (next + 1 < cells.length) {
+        const candidate = this.spans[cells[next + 1]];
+        const reached = this.traceLine(
+          cells[anchor],
+          this.cellX(candidate.ix),
+          this.cellZ(candidate.iz),
+          radius
+        );
+        if (reached !== cells[next + 1]) break;
+        next++;
+      }
+
+      result.push(cells[next]);
+      anchor = next;
+    }
+
+    if (result.length === 0) {
+      result.push(cells[cells.length - 1]);
+    }
+    return result;
+  }
+
+  /**
+   * Walk the grid in a straight line from a span toward a point
+   *
+   * @returns Span reached in the point's column, or -1 if the walk is blocked
+   */
+  private traceLine(start: number, toX: number, toZ: number, radius: number): number {
+    let current = start;
+    let span = this.spans[start];
+    const fromX = this.cellX(span.ix);
+    const fromZ = this.cellZ(span.iz);
+
+    // Half-cell samples never skip a column
+    const steps = Math.ceil(Math.hypot(toX - fromX, toZ - fromZ) / (this.config.cellSize * 0.5));
+    for (let i = 1; i <= steps; i++) {
+      const t = i / steps;
+      const ix = this.toCellX(fromX + (toX - fromX) * t);
+      const iz = this.toCellZ(fromZ + (toZ - fromZ) * t);
+      if (ix === span.ix && iz === span.iz) continue;
+
+      current = this.step(current, ix - span.ix, iz - span.iz, radius);
+      if (current < 0) return -1;
+      span = this.spans[current];
+    }
+
+    return current;
+  }
+
+  /**
+   * Passable neighbor of a span in a direction (diagonals need both sides free)
+   */
+  private step(index: number, dx: number, dz: number, radius: number): number {
+    const links = this.spans[index].links;
+    const d = directionIndex(dx, dz);
+    if (d < 0) return -1;
+
+    const next = links[d];
+    if (next < 0 || !this.isPassable(next, radius)) return -1;
+
+    if (dx !== 0 && dz !== 0) {
+      const sideX = links[directionIndex(dx, 0)];
+      const sideZ = links[directionIndex(0, dz)];
+      if (sideX < 0 || sideZ < 0) return -1;
+      if (!this.isPassable(sideX, radius) || !this.isPassable(sideZ, radius)) return -1;
+    }
+
+    return next;
+  }
+
+  private isPassable(index: number, radius: number): boolean {
+    const span = this.spans[index];
+    const cellSize = this.config.cellSize;
+
+    // Distance from the cell center to the edge of the walkable area
+    if (span.clearance * cellSize - cellSize / 2 < radius) return false;
+
+    return !this.isBlockedByObstacle(span, radius);
+  }
+
+  private isBlockedByObstacle(span: NavSpan, radius: number): boolean {
+    const margin = radius + this.config.cellSize / 2;
+    const x = this.cellX(span.ix);
+    const z = this.cellZ(span.iz);
+
+    for (const { bounds } of this.obstacles.values()) {
+      if (span.y + this.config.agentHeight <= bounds.min.y || span.y >= bounds.max.y) continue;
+      if (
+        x >= bounds.min.x - margin &&
+        x <= bounds.max.x + margin &&
+        z >= bounds.min.z - margin &&
+        z <= bounds.max.z + margin
+      ) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  // ========== Private: Cells ==========
+
+  /**
+   * Passable span under a point, else the closest one within snap distance
+   */
+  private findNearestSpan(point: THREE.Vector3, radius: number): number {
+    const own = this.findColumnSpan(point, radius);
+    if (own >= 0) return own;
+
+    const reach = Math.ceil(this.config.maxSnapDistance / this.config.cellSize);
+    const centerX = this.toCellX(point.x);
+    const centerZ = this.toCellZ(point.z);
+
+    let best = -1;
+    let bestDistance = Infinity;
+    for (let iz = centerZ - reach; iz <= centerZ + reach; iz++) {
+      for (let ix = centerX - reach; ix <= centerX + reach; ix++) {
+        const column = this.getColumn(ix, iz);
+        if (!column) continue;
+
+        for (const index of column) {
+          const span = this.spans[index];
+          if (!this.isWithinSnapHeight(span, point) || !this.isPassable(index, radius)) continue;
+
+          const distance =
+            (this.cellX(ix) - point.x) ** 2 +
+            (this.cellZ(iz) - point.z) ** 2 +
+            (span.y - point.y) ** 2;
+          if (distance < bestDistance) {
+            best = index;
+            bestDistance = distance;
+          }
+        }
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Highest passable span in the point's own column
+   */
+  private findColumnSpan(point: THREE.Vector3, radius: number): number {
+    const column = this.getColumn(this.toCellX(point.x), this.toCellZ(point.z));
+    if (!column) return -1;
+
+    for (let i = column.length - 1; i >= 0; i--) {
+      const index = column[i];
+      if (this.isWithinSnapHeight(this.spans[index], point) && this.isPassable(index, radius)) {
+        return index;
+      }
+    }
+    return -1;
+  }
+
+  private isWithinSnapHeight(span: NavSpan, point: THREE.Vector3): boolean {
+    return (
+      span.y <= point.y + this.config.maxStepHeight &&
+      span.y >= point.y - this.config.maxSnapHeight
+    );
+  }
+
+  private getColumn(ix: number, iz: number): number[] | undefined {
+    if (ix < 0 || iz < 0 || ix >= this.width || iz >= this.depth) return undefined;
+    return this.columns[iz * this.width + ix];
+  }
+
+  private getSpanPoint(index: number): THREE.Vector3 {
+    const span = this.spans[index];
+    return new THREE.Vector3(this.cellX(span.ix), span.y, this.cellZ(span.iz));
+  }
+
+  private cellX(ix: number): number {
+    return this.originX + (ix + 0.5) * this.config.cellSize;
+  }
+
+  private cellZ(iz: number): number {
+    return this.originZ + (iz + 0.5) * this.config.cellSize;
+  }
+
+  private toCellX(x: number): number {
+    return Math.floor((x - this.originX) / this.config.cellSize);
+  }
+
+  private toCellZ(z: number): number {
+    return Math.floor((z - this.originZ) / this.config.cellSize);
+  }
+}
+
+/**
+ * Bounding volume of a solid (used for obstacles)
+ */
+function getSolidBounds(def: GeometryDef, solid: NavSolid): THREE.Box3 {
+  const { min, max } = solid.footprint;
+  const center = solid.sample((min.x + max.x) / 2, (min.y + max.y) / 2);
+  const bottom = center?.bottom ?? def.position.y;
+  const top = center?.top ?? def.position.y;
+
+  return new THREE.Box3(
+    new THREE.Vector3(min.x, bottom, min.y),
+    new THREE.Vector3(max.x, top, max.y)
+  );
+}
+
+/**
+ * Binary min-heap of span indices (stale entries are skipped by the search)
+ */
+class OpenList {
+  private indices: number[] = [];
+  private priorities: number[] = [];
+
+  get size(): number {
+    return this.indices.length;
+  }
+
+  push(index: number, priority: number): void {
+    let i = this.indices.length;
+    this.indices.push(index);
+    this.priorities.push(priority);
+
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.priorities[parent] <= priority) break;
+      this.swap(i, parent);
+      i = parent;
+    }
+  }
+
+  pop(): number {
+    const top = this.indices[0];
+    const lastIndex = this.indices.pop()!;
+    const lastPriority = this.priorities.pop()!;
+
+    if (this.indices.length > 0) {
+      this.indices[0] = lastIndex;
+      this.priorities[0] = lastPriority;
+
+      let i = 0;
+      for (;;) {
+        const left = i * 2 + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < this.indices.length && this.priorities[left] < this.priorities[smallest]) {
+          smallest = left;
+        }
+        if (right < this.indices.length && this.priorities[right] < this.priorities[smallest]) {
+          smallest = right;
+        }
+        if (smallest === i) break;
+        this.swap(i, smallest);
+        i = smallest;
+      }
+    }
+
+    return top;
+  }
+
+  private swap(a: number, b: number): void {
+    [this.indices[a], this.indices[b]] = [this.indices[b], this.indices[a]];
+    [this.priorities[a], this.priorities[b]] = [this.priorities[b], this.priorities[a]];
+  }
+}
+
+// Singleton instance
+export const NavMesh = new NavMeshManager();
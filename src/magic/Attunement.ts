@@ -0,0 +1,225 @@
+/**
+ * Attunement - Known spells and the spells attuned for casting
+ *
+ * Usage:
+ * - const attunement = new Attunement(entityId)
+ * - attunement.learn('heavy_soul_arrow') when a spell is acquired
+ * - attunement.attune(spellId) / unattune(spellId) while resting at a checkpoint
+ * - attunement.cycle() to select the next attuned spell
+ * - attunement.activeSpell is what the Casting state casts
+ *
+ * Events emitted:
+ * - 'attunement:changed' when the attuned list changes
+ * - 'attunement:activeChanged' when the selected spell changes
+ */
+
+import { EventBus } from '../core/EventBus';
+import type { AttunementSnapshot } from '../save/SaveData';
+import {
+  SpellData,
+  ATTUNEMENT_SLOTS,
+  DEFAULT_KNOWN_SPELLS,
+  DEFAULT_ATTUNED_SPELLS,
+  getSpell,
+} from './SpellData';
+
+/**
+ * Attunement class
+ */
+export class Attunement {
+  // Learned spell IDs (in learn order)
+  private known: string[] = [];
+
+  // Attuned spell IDs in cycle order
+  private attuned: string[] = [];
+  private activeSlot: number = 0;
+
+  constructor(
+    private readonly entityId: string,
+    knownSpells: readonly string[] = DEFAULT_KNOWN_SPELLS,
+    attunedSpells: readonly string[] = DEFAULT_ATTUNED_SPELLS,
+    private readonly slots: number = ATTUNEMENT_SLOTS
+  ) {
+    for (const spellId of knownSpells) {
+      this.learn(spellId);
+    }
+    for (const spellId of attunedSpells) {
+      this.attune(spellId);
+    }
+  }
+
+  // ========== Known Spells ==========
+
+  /**
+   * Learn a spell
+   *
+   * @returns false if the spell is unknown or already learned
+   */
+  learn(spellId: string): boolean {
+    if (!getSpell(spellId)) {
+      console.warn(`[Attunement] Unknown spell: ${spellId}`);
+      return false;
+    }
+    if (this.known.includes(spellId)) return false;
+
+    this.known.push(spellId);
+    return true;
+  }
+
+  /**
+   * Check if a spell has been learned
+   */
+  knows(spellId: string): boolean {
+    return this.known.includes(spellId);
+  }
+
+  /**
+   * Learned spells in learn order
+   */
+  getKnownSpells(): SpellData[] {
+    return this.known.map((spellId) => getSpell(spellId)!);
+  }
+
+  // ========== Attuned Spells ==========
+
+  /**
+   * Attune a learned spell (appended to the cycle order)
+   *
+   * @returns false if not learned, already attuned or not enough free slots
+   */
+  attune(spellId: string): boolean {
+    const spell = getSpell(spellId);
+    if (!spell || !this.knows(spellId) || this.isAttuned(spellId)) return false;
+    if (spell.slots > this.freeSlots) return false;
+
+    this.attuned.push(spellId);
+    this.emitAttuned();
+    if (this.attuned.length === 1) {
+      this.activeSlot = 0;
+      this.emitActive();
+    }
+    return true;
+  }
+
+  /**
+   * Remove a spell from attunement (keeps the selection on the next spell)
+   *
+   * @returns false if the spell was not attuned
+   */
+  unattune(spellId: string): boolean {
+    const index = this.attuned.indexOf(spellId);
+    if (index < 0) return false;
+
+    this.attuned.splice(index, 1);
+    if (this.activeSlot > index || this.activeSlot >= this.attuned.length) {
+      this.activeSlot = Math.max(0, this.activeSlot - 1);
+    }
+    this.emitAttuned();
+    this.emitActive();
+    return true;
+  }
+
+  /**
+   * Check if a spell is attuned
+   */
+  isAttuned(spellId: string): boolean {
+    return this.attuned.includes(spellId);
+  }
+
+  /**
+   * Attunement slots left
+   */
+  get freeSlots(): number {
+    let used = 0;
+    for (const spellId of this.attuned) {
+      used += getSpell(spellId)?.slots ?? 0;
+    }
+    return this.slots - used;
+  }
+
+  get totalSlots(): number {
+    return this.slots;
+  }
+
+  /**
+   * Attuned spells in cycle order
+   */
+  getAttunedSpells(): SpellData[] {
+    return this.attuned.map((spellId) => getSpell(spellId)!);
+  }
+
+  // ========== Selection ==========
+
+  /**
+   * Select the next (or previous) attuned spell
+   *
+   * @returns Newly selected spell, or null if nothing is attuned
+   */
+  cycle(direction: 1 | -1 = 1): SpellData | null {
+    if (this.attuned.length === 0) return null;
+
+    const length = this.attuned.length;
+    this.activeSlot = (this.activeSlot + direction + length) % length;
+    this.emitActive();
+
+    return this.activeSpell;
+  }
+
+  /**
+   * Currently selected spell
+   */
+  get activeSpell(): SpellData | null {
+    const spellId = this.attuned[this.activeSlot];
+    return spellId ? getSpell(spellId) ?? null : null;
+  }
+
+  // ========== Persistence ==========
+
+  /**
+   * Export attunement state
+   */
+  export(): AttunementSnapshot {
+    return {
+      known: [...this.known],
+      attuned: [...this.attuned],
+      activeSlot: this.activeSlot,
+    };
+  }
+
+  /**
+   * Import attunement state (replaces current spells)
+   */
+  import(snapshot: AttunementSnapshot): void {
+    this.known = snapshot.known.filter((spellId) => getSpell(spellId));
+    this.attuned = [];
+    this.activeSlot = 0;
+
+    for (const spellId of snapshot.attuned) {
+      const spell = getSpell(spellId);
+      if (spell && this.knows(spellId) && spell.slots <= this.freeSlots) {
+        this.attuned.push(spellId);
+      }
+    }
+
+    this.activeSlot =
+      snapshot.activeSlot < this.attuned.length ? Math.max(0, snapshot.activeSlot) : 0;
+    this.emitAttuned();
+    this.emitActive();
+  }
+
+  // ========== Private Methods ==========
+
+  private emitAttuned(): void {
+    EventBus.emit('attunement:changed', {
+      entityId: this.entityId,
+      attuned: [...this.attuned],
+    });
+  }
+
+  private emitActive(): void {
+    EventBus.emit('attunement:activeChanged', {
+      entityId: this.entityId,
+      spellId: this.activeSpell?.id ?? null,
+    });
+  }
+}
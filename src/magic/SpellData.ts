@@ -0,0 +1,139 @@
+/**
+ * Spell Data - Sorcery and miracle definitions
+ *
+ * A spell is cast through the PlayerFSM Casting state:
+ * - Needs an equipped catalyst of its school (staff: sorceries, talisman: miracles)
+ * - FP is paid when the cast releases (an interrupted cast costs nothing)
+ * - Only attuned spells can be cast; attunement is changed at checkpoints
+ *
+ * Spell effects:
+ * - projectile: fired toward the lock-on target or forward (ProjectileSystem)
+ * - buff: timed DamageSystem modifier on the caster (dealt/taken multipliers)
+ * - heal: restores HP like a consumable
+ */
+
+import { DamageSourceType, type DamageModifier } from '../combat/DamageSystem';
+
+/**
+ * Spell schools (each needs its own catalyst)
+ */
+export enum SpellSchool {
+  Sorcery = 'Sorcery',
+  Miracle = 'Miracle',
+}
+
+/**
+ * Spell effect on release
+ */
+export type SpellEffect =
+  | { kind: 'projectile'; projectileId: string } // Scaled by the catalyst's spell buff
+  | { kind: 'buff'; modifier: Omit<DamageModifier, 'id' | 'expiresAt'>; duration: number }
+  | { kind: 'heal'; amount: number; percent?: number }; // percent: fraction of max HP
+
+/**
+ * Spell definition
+ */
+export interface SpellData {
+  id: string;
+  name: string;
+  school: SpellSchool;
+
+  fpCost: number;
+  slots: number; // Attunement slots used
+
+  // Timing (seconds): effects fire at the end of castTime, then recovery plays out
+  castTime: number;
+  recovery: number;
+
+  effects: SpellEffect[];
+}
+
+/**
+ * Attunement slots of a character
+ */
+export const ATTUNEMENT_SLOTS = 3;
+
+/**
+ * Default spells
+ */
+export const DEFAULT_SPELLS: Record<string, SpellData> = {
+  soul_arrow: {
+    id: 'soul_arrow',
+    name: 'Soul Arrow',
+    school: SpellSchool.Sorcery,
+    fpCost: 7,
+    slots: 1,
+    castTime: 0.45,
+    recovery: 0.35,
+    effects: [{ kind: 'projectile', projectileId: 'soul_arrow' }],
+  },
+  heavy_soul_arrow: {
+    id: 'heavy_soul_arrow',
+    name: 'Heavy Soul Arrow',
+    school: SpellSchool.Sorcery,
+    fpCost: 12,
+    slots: 1,
+    castTime: 0.7,
+    recovery: 0.45,
+    effects: [{ kind: 'projectile', projectileId: 'heavy_soul_arrow' }],
+  },
+  magic_weapon: {
+    id: 'magic_weapon',
+    name: 'Magic Weapon',
+    school: SpellSchool.Sorcery,
+    fpCost: 20,
+    slots: 1,
+    castTime: 1.0,
+    recovery: 0.5,
+    effects: [
+      {
+        kind: 'buff',
+        modifier: { dealt: 1.2, sourceType: DamageSourceType.PlayerAttack }, // Weapon attacks only
+        duration: 60,
+      },
+    ],
+  },
+  lightning_spear: {
+    id: 'lightning_spear',
+    name: 'Lightning Spear',
+    school: SpellSchool.Miracle,
+    fpCost: 18,
+    slots: 1,
+    castTime: 0.6,
+    recovery: 0.4,
+    effects: [{ kind: 'projectile', projectileId: 'lightning_spear' }],
+  },
+  heal: {
+    id: 'heal',
+    name: 'Heal',
+    school: SpellSchool.Miracle,
+    fpCost: 30,
+    slots: 1,
+    castTime: 1.4,
+    recovery: 0.6,
+    effects: [{ kind: 'heal', amount: 30, percent: 0.3 }],
+  },
+  magic_barrier: {
+    id: 'magic_barrier',
+    name: 'Magic Barrier',
+    school: SpellSchool.Miracle,
+    fpCost: 25,
+    slots: 2,
+    castTime: 1.2,
+    recovery: 0.5,
+    effects: [{ kind: 'buff', modifier: { taken: 0.7 }, duration: 45 }],
+  },
+};
+
+/**
+ * Spells a new character knows, and the ones attuned at the start
+ */
+export const DEFAULT_KNOWN_SPELLS: readonly string[] = ['soul_arrow', 'magic_weapon', 'heal'];
+export const DEFAULT_ATTUNED_SPELLS: readonly string[] = ['soul_arrow', 'magic_weapon'];
+
+/**
+ * Get a spell definition by ID
+ */
+export function getSpell(spellId: string): SpellData | undefined {
+  return DEFAULT_SPELLS[spellId];
+}
@@ -6,6 +6,7 @@ import { initPhysics, updatePhysics, createAshDebris } from './physics/Physics';
 import { initUI } from './ui/Menu';
 import { initAudio, playFireSound } from './core/Audio';
 import { GameApp, GameState } from './core/GameApp';
+import { SaveSystem } from './save/SaveSystem';
 
 let isLoaded = false;
 let titleAnimationId: number | null = null;
@@ -30,7 +31,7 @@ async function init() {
   initAudio();
 
   // Initialize GameApp (gameplay systems)
-  await GameApp.init({ debugPhysics: false });
+  await GameApp.init({ debugPhysics: false, debugNavMesh: false });
   GameApp.setTitleState();
 
   // Setup menu action handlers
@@ -80,8 +81,8 @@ async function startNewGame() {
     titleAnimationId = null;
   }
 
-  // Clear saved progress (new game)
-  localStorage.removeItem('darksouls_flags');
+  // Clear saved progress in the active slot (new game)
+  await SaveSystem.startNewGame();
 
   // Transition to gameplay
   await GameApp.startGameplay();
@@ -98,7 +99,7 @@ async function continueGame() {
     titleAnimationId = null;
   }
 
-  // Start gameplay (flags will be loaded from storage)
+  // Start gameplay (active save slot was loaded during init)
   await GameApp.startGameplay();
 }
 
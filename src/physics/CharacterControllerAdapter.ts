@@ -234,8 +234,9 @@ export class CharacterControllerAdapter {
       this._verticalVelocity += gravity * dt;
       // Terminal velocity
       this._verticalVelocity = Math.max(this._verticalVelocity, -30);
-    } else {
+    } else if (this._verticalVelocity <= 0) {
       // Small downward force to maintain ground contact
+      // (an upward impulse from a jump/launch leaves the ground instead)
       this._verticalVelocity = -0.1;
     }
 
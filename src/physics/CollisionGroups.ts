@@ -225,6 +225,24 @@ export const CollisionGroups = {
     CollisionGroup.ENVIRONMENT
   ),
 
+  /**
+   * Query filter for boss movement sweeps (knockback against walls)
+   * - Hits: environment
+   */
+  BOSS_MOVEMENT_QUERY: createCollisionGroups(
+    CollisionGroup.BOSS,
+    CollisionGroup.ENVIRONMENT
+  ),
+
+  /**
+   * Query filter for enemy movement sweeps and line-of-sight rays
+   * - Hits: environment
+   */
+  ENEMY_MOVEMENT_QUERY: createCollisionGroups(
+    CollisionGroup.ENEMY,
+    CollisionGroup.ENVIRONMENT
+  ),
+
   /**
    * Query filter for raycasts that should hit characters
    */
@@ -240,6 +258,43 @@ export const CollisionGroups = {
     CollisionGroup.NONE,
     CollisionGroup.HURTBOX
   ),
+
+  /**
+   * Query filter for player attack sweeps
+   * - Hits: enemy and boss bodies
+   * - Membership is required: Rapier tests both sides of the pair
+   */
+  PLAYER_ATTACK_QUERY: createCollisionGroups(
+    CollisionGroup.PLAYER,
+    CollisionGroup.ENEMY | CollisionGroup.BOSS
+  ),
+
+  /**
+   * Query filter for enemy/boss attack sweeps
+   * - Hits: player body
+   */
+  ENEMY_ATTACK_QUERY: createCollisionGroups(
+    CollisionGroup.ENEMY | CollisionGroup.BOSS,
+    CollisionGroup.PLAYER
+  ),
+
+  /**
+   * Query filter for player projectiles
+   * - Hits: environment, enemy and boss bodies
+   */
+  PLAYER_PROJECTILE_QUERY: createCollisionGroups(
+    CollisionGroup.PROJECTILE,
+    CollisionGroup.ENVIRONMENT | CollisionGroup.ENEMY | CollisionGroup.BOSS
+  ),
+
+  /**
+   * Query filter for enemy/boss projectiles
+   * - Hits: environment, player body
+   */
+  ENEMY_PROJECTILE_QUERY: createCollisionGroups(
+    CollisionGroup.PROJECTILE,
+    CollisionGroup.ENVIRONMENT | CollisionGroup.PLAYER
+  ),
 };
 
 /**
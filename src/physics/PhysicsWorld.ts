@@ -317,7 +317,7 @@ class PhysicsWorldManager {
 
     const excludeSet = new Set(excludeColliders?.map((c) => c.handle) ?? []);
 
-    const hit = this.world.castRay(
+    const hit = this.world.castRayAndGetNormal(
       ray,
       maxDistance,
       true,
@@ -381,6 +381,7 @@ class PhysicsWorldManager {
         });
         return true; // Continue searching
       },
+      undefined,
       filterGroups
     );
 
@@ -407,19 +408,24 @@ class PhysicsWorldManager {
       { x: 0, y: 0, z: 0, w: 1 }, // Identity rotation
       { x: direction.x, y: direction.y, z: direction.z },
       shape,
-      { maxToi: maxDistance, targetDistance: 0 },
-      true,
+      0, // targetDistance
+      maxDistance,
+      true, // stopAtPenetration
+      undefined,
       filterGroups,
       undefined,
       undefined,
-      (collider) => !excludeSet.has(collider.handle)
+      (collider: RAPIER.Collider) => !excludeSet.has(collider.handle)
     );
 
     if (hit) {
+      // witness1 is local to the cast shape; report the world-space contact
+      const point = origin.clone().addScaledVector(direction, hit.time_of_impact);
+
       return {
-        point: new THREE.Vector3(hit.witness1.x, hit.witness1.y, hit.witness1.z),
+        point,
         normal: new THREE.Vector3(hit.normal1.x, hit.normal1.y, hit.normal1.z),
-        timeOfImpact: hit.timeOfImpact,
+        timeOfImpact: hit.time_of_impact,
         collider: hit.collider,
       };
     }
@@ -452,6 +458,7 @@ class PhysicsWorldManager {
         results.push({ collider });
         return true; // Continue searching
       },
+      undefined,
       filterGroups
     );
 
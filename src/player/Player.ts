@@ -4,7 +4,13 @@
  * Main player class that integrates all subsystems:
  * - Motor: Movement physics
  * - FSM: State machine
- * - Stats: HP/Stamina
+ * - Stats: HP/Stamina/FP
+ * - Attributes: Stat maxima and weapon scaling, leveled up with souls
+ * - Combat: DamageSystem registration, attacks via AttackSystem, ripostes/backstabs via CriticalSystem
+ * - Hit reactions: knockback pushes, stagger, knockdown/get-up, block-stagger
+ * - Equipment: Weapon move set, shield guard stats, catalyst, armor absorption and equip load
+ * - Inventory: Consumables used through the UsingItem state
+ * - Attunement: Spells cast through the Casting state (projectiles, buffs, heals)
  * - Mesh/Animation: Visual representation
  *
  * This is the primary interface for player-related operations.
@@ -12,12 +18,54 @@
 
 import * as THREE from 'three';
 import { PlayerMotor, PlayerMotorConfig } from './PlayerMotor';
-import { PlayerFSM, PlayerFSMCallbacks } from './PlayerFSM';
+import { PlayerFSM, PlayerFSMCallbacks, SpellCastTiming } from './PlayerFSM';
 import { PlayerStats, PlayerStatsConfig, DamageInfo } from './PlayerStats';
 import { PlayerStateType, IFRAME_STATES, STATE_ANIMATIONS } from './PlayerState';
 import { InputManager } from '../input/InputManager';
 import { Action } from '../input/Action';
+import { Time } from '../core/Time';
 import { EventBus } from '../core/EventBus';
+import { CollisionGroups } from '../physics/CollisionGroups';
+import {
+  DamageSystem,
+  DamageRequest,
+  DamageResult,
+  DamageBlockedReason,
+  DamageSourceType,
+  EntityCombatState,
+} from '../combat/DamageSystem';
+import { AttackSystem, ActiveAttack, WeaponSockets } from '../combat/AttackSystem';
+import { IFrameSystem, IFrameSource } from '../combat/IFrameSystem';
+import { CriticalSystem, Critical, CriticalRole } from '../combat/CriticalSystem';
+import { StatusEffectSystem } from '../combat/StatusEffectSystem';
+import { ProjectileSystem } from '../combat/ProjectileSystem';
+import { HitReaction, resolveHitReaction, getKnockbackVelocity } from '../combat/HitReaction';
+import { AttackCue, AttackCueType } from '../combat/AttackTimeline';
+import { Equipment, EquipmentLoadout } from '../equipment/Equipment';
+import { ArmorSlot } from '../equipment/ArmorData';
+import { Inventory } from '../items/Inventory';
+import { ItemData, DEFAULT_EFFECT_FRAME } from '../items/ItemData';
+import { Attunement } from '../magic/Attunement';
+import type { SpellData } from '../magic/SpellData';
+import { CharacterAttributes } from '../progression/CharacterAttributes';
+import { Attribute, AttributeSet } from '../progression/AttributeData';
+import { SoulSystem } from '../progression/SoulSystem';
+
+/**
+ * Thrown item launch (relative to the motor position)
+ */
+const THROW_HEIGHT = 0.6;
+const THROW_FORWARD_OFFSET = 0.5;
+const THROW_ANGLE = 15; // Degrees above horizontal
+const CAST_ANGLE = 0; // Spells fly flat (homing does the rest)
+
+/**
+ * Status effect damage sources (poison/bleed ticks and bursts): hurt without a hit reaction
+ */
+const STATUS_DAMAGE_SOURCES: ReadonlySet<DamageSourceType> = new Set([
+  DamageSourceType.Poison,
+  DamageSourceType.Bleed,
+]);
 
 /**
  * Player configuration
@@ -29,9 +77,21 @@ export interface PlayerConfig {
   // Motor config overrides
   motor?: Partial<PlayerMotorConfig>;
 
-  // Stats config overrides
+  // Stats config overrides (maxima are derived from attributes)
   stats?: PlayerStatsConfig;
 
+  // Starting attribute levels (defaults to STARTING_ATTRIBUTES)
+  attributes?: Partial<AttributeSet>;
+
+  // Starting weapon/shield (defaults to DEFAULT_LOADOUT)
+  equipment?: Partial<EquipmentLoadout>;
+
+  // Starting items by ID (defaults to DEFAULT_STARTING_ITEMS)
+  items?: Record<string, number>;
+
+  // Starting known/attuned spells (defaults to DEFAULT_KNOWN_SPELLS/DEFAULT_ATTUNED_SPELLS)
+  spells?: { known: string[]; attuned: string[] };
+
   // Visual
   mesh?: THREE.Object3D;
 
@@ -58,6 +118,10 @@ export class Player {
   private motor: PlayerMotor;
   private fsm: PlayerFSM;
   private stats: PlayerStats;
+  private attributes: CharacterAttributes;
+  private equipment: Equipment;
+  private inventory: Inventory;
+  private attunement: Attunement;
 
   // Visual
   private mesh: THREE.Object3D | null = null;
@@ -69,6 +133,20 @@ export class Player {
   // Camera yaw for input transformation
   private cameraYaw: number = 0;
 
+  // Attack state
+  private activeAttack: ActiveAttack | null = null;
+  private weaponSockets: WeaponSockets = {
+    base: new THREE.Vector3(),
+    tip: new THREE.Vector3(),
+    root: new THREE.Vector3(),
+  };
+
+  // Item being used (cleared once its effects apply or the use is interrupted)
+  private pendingItem: ItemData | null = null;
+
+  // Spell being cast (cleared on release or when the cast is interrupted)
+  private pendingSpell: SpellData | null = null;
+
   constructor(config: PlayerConfig) {
     this.entityId = config.entityId ?? `player_${Date.now()}`;
 
@@ -89,8 +167,34 @@ export class Player {
       onAnimationTrigger: this.handleAnimationTrigger.bind(this),
       onConsumeStamina: this.handleConsumeStamina.bind(this),
       getStamina: () => this.stats.currentStamina,
+      canUseItem: () => this.inventory.canUseActive(),
+      tryCritical: () => CriticalSystem.tryCritical(this.entityId),
+      getSpellCast: this.getSpellCast.bind(this),
+      onCastRelease: this.releaseSpell.bind(this),
     };
-    this.fsm = new PlayerFSM(fsmCallbacks);
+    this.fsm = new PlayerFSM(fsmCallbacks, this.entityId);
+
+    // Initialize equipment (registers weapon attacks)
+    this.equipment = new Equipment(this.entityId, config.equipment);
+    this.fsm.setMoveSet(this.equipment.moveSet);
+
+    // Initialize inventory
+    this.inventory = new Inventory(this.entityId, config.items);
+
+    // Initialize attunement
+    const spells = config.spells;
+    this.attunement = new Attunement(this.entityId, spells?.known, spells?.attuned);
+
+    // Initialize attributes (derive stat maxima and weapon scaling)
+    this.attributes = new CharacterAttributes(this.entityId, config.attributes);
+    this.attributes.onChange(() => this.applyAttributes());
+    this.applyAttributes();
+
+    // Register with damage system
+    this.registerWithDamageSystem();
+
+    // Ripostes/backstabs
+    this.registerCriticalParticipant();
 
     // Set mesh if provided
     if (config.mesh) {
@@ -142,6 +246,9 @@ export class Player {
     // Skip if dead
     if (this.stats.isDead) return;
 
+    // Hit-stop / time dilation
+    dt = Time.localDelta(this.entityId, dt);
+
     // Process input
     this.processInput();
 
@@ -149,8 +256,15 @@ export class Player {
     this.fsm.preUpdate();
     this.fsm.update(dt);
 
+    // Apply item effects at the UsingItem effect frame
+    this.updateItemUse();
+
     // Update motor state from FSM
-    this.motor.setState(this.fsm.currentState, this.fsm.movementMultiplier);
+    this.motor.setState(
+      this.fsm.currentState,
+      this.fsm.movementMultiplier,
+      this.fsm.currentLunge
+    );
 
     // Apply lock-on rotation if active
     if (this.lockOnTarget) {
@@ -160,9 +274,16 @@ export class Player {
     // Update physics
     this.motor.update(dt, this.fsm.movementMultiplier);
 
+    // Update attack hit detection
+    this.updateAttack();
+
     // Update stats (stamina regen, etc.)
     this.stats.update(dt);
 
+    // Update i-frames and damage system state
+    this.updateIFrames();
+    this.updateDamageSystemState();
+
     // Sync mesh transform
     this.syncMeshTransform();
 
@@ -227,6 +348,337 @@ export class Player {
     this.mesh.quaternion.copy(this.motor.getRotation());
   }
 
+  // ========== Combat ==========
+
+  private registerWithDamageSystem(): void {
+    const combatState: EntityCombatState = {
+      entityId: this.entityId,
+      currentHP: this.stats.currentHP,
+      maxHP: this.stats.maxHP,
+      currentStamina: this.stats.currentStamina,
+      maxStamina: this.stats.maxStamina,
+      currentPoise: this.stats.maxPoise,
+      maxPoise: this.stats.maxPoise,
+      isGuarding: false,
+      isParrying: false,
+      isDead: this.stats.isDead,
+      ...this.equipment.guard,
+      resistances: this.equipment.absorption,
+      getFacing: () => this.motor.forward,
+      hasHyperarmor: () => this.fsm.hasHyperarmor,
+      onTakeDamage: this.onCombatDamage.bind(this),
+      onGuardHit: this.onGuardHit.bind(this),
+      onGuardBreak: () => this.fsm.onGuardBroken(),
+    };
+
+    DamageSystem.registerEntity(combatState);
+  }
+
+  private registerCriticalParticipant(): void {
+    CriticalSystem.registerParticipant({
+      entityId: this.entityId,
+      getPosition: () => this.motor.position,
+      getForward: () => this.motor.forward,
+      canBeRiposted: false,
+      getCriticalDamage: () => ({
+        baseDamage: this.equipment.criticalDamage,
+        damageType: this.equipment.weapon.damageType,
+        sourceType: DamageSourceType.PlayerAttack,
+      }),
+      onCriticalStart: this.onCriticalStart.bind(this),
+    });
+  }
+
+  /**
+   * Snap into the synced critical position and play the riposte/backstab
+   */
+  private onCriticalStart(critical: Critical, role: CriticalRole): void {
+    if (role !== 'attacker') return;
+
+    if (this.activeAttack) {
+      AttackSystem.cancelAttacks(this.entityId);
+      this.activeAttack = null;
+    }
+
+    this.motor.teleport(critical.attackerPosition);
+    this.motor.setYaw(Math.atan2(critical.attackerFacing.x, critical.attackerFacing.z));
+    this.fsm.startCriticalAttack(
+      critical.definition.attackerAnimation,
+      critical.definition.duration
+    );
+    this.syncMeshTransform();
+  }
+
+  /**
+   * Push player stats/state to the damage system
+   * Stats stay the source of truth; the damage system works on a copy.
+   */
+  private updateDamageSystemState(): void {
+    const state = this.fsm.currentState;
+
+    DamageSystem.updateEntityState(this.entityId, {
+      currentHP: this.stats.currentHP,
+      currentStamina: this.stats.currentStamina,
+      currentPoise: this.stats.maxPoise, // Stagger is decided by PlayerStats
+      isGuarding:
+        state === PlayerStateType.Guard ||
+        state === PlayerStateType.GuardHit ||
+        state === PlayerStateType.Parry,
+      isParrying: state === PlayerStateType.Parry,
+      isDead: this.stats.isDead,
+    });
+  }
+
+  /**
+   * Mirror the FSM's roll/backstep i-frame window into IFrameSystem
+   */
+  private updateIFrames(): void {
+    const window = this.fsm.iframeWindow;
+    if (!window) return;
+
+    const state = this.fsm.currentState;
+    const source =
+      state === PlayerStateType.Backstep
+        ? IFrameSource.Backstep
+        : state === PlayerStateType.GetUp
+          ? IFrameSource.WakeUp
+          : IFrameSource.Roll;
+
+    IFrameSystem.updateProgressBasedIFrames(
+      this.entityId,
+      source,
+      this.fsm.progress,
+      window[0],
+      window[1],
+      this.fsm.stateDuration
+    );
+  }
+
+  private onCombatDamage(result: DamageResult): void {
+    if (result.finalDamage <= 0) return;
+
+    // Guarded chip damage: the block-stagger already reacted
+    const guarded = result.blockedReason === DamageBlockedReason.GuardBlocked;
+
+    // I-frames were already checked by the damage system
+    this.applyDamage(
+      {
+        amount: result.finalDamage,
+        type: result.damageType,
+        poiseDamage: guarded ? 0 : result.poiseDamage,
+        direction: result.hitDirection,
+        knockbackForce: guarded ? 0 : result.knockbackForce,
+      },
+      !STATUS_DAMAGE_SOURCES.has(result.sourceType)
+    );
+  }
+
+  /**
+   * Blocked hit: pay the guard stamina, slide back and block-stagger
+   */
+  private onGuardHit(request: DamageRequest, staminaCost: number): void {
+    this.stats.consumeStamina(staminaCost);
+
+    const knockbackForce = request.knockbackForce ?? 0;
+    if (request.hitDirection && knockbackForce > 0) {
+      this.motor.applyKnockback(
+        getKnockbackVelocity(request.hitDirection, knockbackForce, HitReaction.Flinch)
+      );
+    }
+
+    this.fsm.onGuardHit();
+  }
+
+  /**
+   * Drive AttackSystem from the FSM's attack states
+   */
+  private updateAttack(): void {
+    const attackId = this.fsm.currentAttackId;
+
+    // Swing finished or chained into the next combo step
+    if (this.activeAttack && this.activeAttack.attackData.id !== attackId) {
+      AttackSystem.endAttack(this.activeAttack);
+      this.activeAttack = null;
+    }
+
+    if (attackId && !this.activeAttack) {
+      this.updateWeaponSockets(attackId);
+      this.activeAttack = AttackSystem.startAttack(
+        this.entityId,
+        attackId,
+        this.motor.getKCC().getCollider(),
+        this.weaponSockets,
+        this.motor.forward,
+        this.handleAttackCue.bind(this)
+      );
+    }
+
+    if (this.activeAttack) {
+      this.updateWeaponSockets(this.activeAttack.attackData.id);
+      AttackSystem.updateAttack(
+        this.activeAttack,
+        this.fsm.progress,
+        this.weaponSockets,
+        CollisionGroups.PLAYER_ATTACK_QUERY
+      );
+    }
+  }
+
+  /**
+   * Act on attack timeline cues that move the player
+   */
+  private handleAttackCue(cue: AttackCue, attack: ActiveAttack): void {
+    if (cue.type === AttackCueType.Lunge) {
+      this.motor.lunge(attack.attackDirection, cue.speed ?? 0, cue.duration ?? 0);
+    }
+  }
+
+  /**
+   * Approximate weapon sockets from the swing progress (no skeleton needed)
+   */
+  private updateWeaponSockets(attackId: string): void {
+    const forward = this.motor.forward;
+    const right = this.motor.right;
+    const up = new THREE.Vector3(0, 1, 0);
+    const progress = this.fsm.progress;
+    const reach = (AttackSystem.getAttack(attackId)?.hitboxLength ?? 1.2) + 0.6;
+
+    this.weaponSockets.root?.copy(this.motor.position);
+
+    // Base: sword hand, chest height
+    this.weaponSockets.base.copy(this.motor.position);
+    this.weaponSockets.base.y += 0.3;
+    this.weaponSockets.base.add(right.clone().multiplyScalar(0.25));
+
+    const dir = forward.clone();
+    const state = this.fsm.currentState;
+    if (state === PlayerStateType.AttackHeavy) {
+      // Overhead: from above down to the front
+      dir.applyAxisAngle(right, -(1 - progress) * (Math.PI / 2));
+    } else if (state === PlayerStateType.PlungeAttack) {
+      // Straight down
+      dir.copy(up).negate();
+    } else {
+      // Horizontal slash, alternating direction per combo step
+      const side = this.fsm.combo % 2 === 1 ? -1 : 1;
+      dir.applyAxisAngle(up, side * (0.5 - progress) * (Math.PI * 0.8));
+    }
+
+    this.weaponSockets.tip.copy(this.weaponSockets.base).add(dir.multiplyScalar(reach));
+  }
+
+  // ========== Items ==========
+
+  /**
+   * Consume the pending item once the UsingItem state reaches its effect frame
+   */
+  private updateItemUse(): void {
+    const item = this.pendingItem;
+    if (!item || this.fsm.currentState !== PlayerStateType.UsingItem) return;
+    if (this.fsm.progress < (item.effectFrame ?? DEFAULT_EFFECT_FRAME)) return;
+
+    this.pendingItem = null;
+
+    // Selection may have changed or run out since the use started
+    if (this.inventory.activeItem?.id !== item.id || !this.inventory.consumeActive()) return;
+
+    this.applyItemEffects(item);
+    EventBus.emit('item:used', { entityId: this.entityId, itemId: item.id });
+  }
+
+  private applyItemEffects(item: ItemData): void {
+    for (const effect of item.effects ?? []) {
+      switch (effect.kind) {
+        case 'heal':
+          this.stats.heal(effect.amount + this.stats.maxHP * (effect.percent ?? 0));
+          break;
+        case 'cure':
+          for (const type of effect.effects) {
+            StatusEffectSystem.cure(this.entityId, type);
+          }
+          break;
+        case 'projectile':
+          this.launchProjectile(effect.projectileId, THROW_ANGLE);
+          break;
+      }
+    }
+  }
+
+  /**
+   * Launch a projectile from the hand, toward the lock-on target or forward
+   *
+   * @param elevation Degrees above horizontal
+   * @param damageScale x the projectile's base damage
+   */
+  private launchProjectile(projectileId: string, elevation: number, damageScale = 1): void {
+    const origin = this.motor.position.clone();
+    origin.y += THROW_HEIGHT;
+    origin.addScaledVector(this.motor.forward, THROW_FORWARD_OFFSET);
+
+    const direction = this.lockOnTarget
+      ? this.lockOnTarget.clone().sub(origin).setY(0).normalize()
+      : this.motor.forward.clone();
+    if (direction.lengthSq() < 1e-6) direction.copy(this.motor.forward);
+
+    direction.y = Math.tan(THREE.MathUtils.degToRad(elevation));
+
+    ProjectileSystem.spawn(projectileId, this.entityId, origin, direction, {
+      side: 'player',
+      homingTarget: () => this.lockOnTarget,
+      damageScale,
+    });
+  }
+
+  // ========== Spells ==========
+
+  /**
+   * Timing of the selected spell, or null if it can't be cast
+   * (nothing attuned, no catalyst of its school, not enough FP)
+   */
+  private getSpellCast(): SpellCastTiming | null {
+    const spell = this.attunement.activeSpell;
+    if (!spell || !this.equipment.canCast(spell.school)) return null;
+    if (!this.stats.hasFP(spell.fpCost)) return null;
+
+    return { castTime: spell.castTime, recovery: spell.recovery };
+  }
+
+  /**
+   * Pay the FP and fire the pending spell at the end of the windup
+   *
+   * @returns false if the spell fizzled
+   */
+  private releaseSpell(): boolean {
+    const spell = this.pendingSpell;
+    this.pendingSpell = null;
+    if (!spell || !this.stats.consumeFP(spell.fpCost)) return false;
+
+    for (const effect of spell.effects) {
+      switch (effect.kind) {
+        case 'projectile':
+          this.launchProjectile(
+            effect.projectileId,
+            CAST_ANGLE,
+            this.equipment.catalyst?.spellBuff ?? 1
+          );
+          break;
+        case 'buff':
+          DamageSystem.addDamageModifier(this.entityId, {
+            ...effect.modifier,
+            id: spell.id,
+            expiresAt: Time.fixedElapsed + effect.duration,
+          });
+          break;
+        case 'heal':
+          this.stats.heal(effect.amount + this.stats.maxHP * (effect.percent ?? 0));
+          break;
+      }
+    }
+
+    EventBus.emit('spell:cast', { entityId: this.entityId, spellId: spell.id });
+    return true;
+  }
+
   // ========== FSM Callbacks ==========
 
   private handleStateEnter(state: PlayerStateType, prevState: PlayerStateType): void {
@@ -236,11 +688,13 @@ export class Player {
       this.motor.getKCC().disableSnapToGround();
     }
 
-    // Emit event
-    EventBus.emit('player:stateChanged', {
-      newState: state,
-      prevState,
-    });
+    if (state === PlayerStateType.UsingItem) {
+      this.pendingItem = this.inventory.activeItem;
+    }
+
+    if (state === PlayerStateType.Casting) {
+      this.pendingSpell = this.attunement.activeSpell;
+    }
   }
 
   private handleStateExit(state: PlayerStateType, nextState: PlayerStateType): void {
@@ -248,6 +702,24 @@ export class Player {
     if (state === PlayerStateType.Falling || state === PlayerStateType.Landing) {
       this.motor.getKCC().setSnapToGround(0.3);
     }
+
+    // Left UsingItem before the effect frame (hit, death)
+    if (state === PlayerStateType.UsingItem && this.pendingItem) {
+      EventBus.emit('item:useCancelled', {
+        entityId: this.entityId,
+        itemId: this.pendingItem.id,
+      });
+      this.pendingItem = null;
+    }
+
+    // Left Casting before the release (hit, death): no FP is spent
+    if (state === PlayerStateType.Casting && this.pendingSpell) {
+      EventBus.emit('spell:castCancelled', {
+        entityId: this.entityId,
+        spellId: this.pendingSpell.id,
+      });
+      this.pendingSpell = null;
+    }
   }
 
   private handleAnimationTrigger(
@@ -263,6 +735,112 @@ export class Player {
     return this.stats.tryConsumeStamina(amount);
   }
 
+  // ========== Equipment ==========
+
+  /**
+   * Equip a weapon by ID
+   *
+   * @returns false if the weapon is unknown
+   */
+  equipWeapon(weaponId: string): boolean {
+    // Swapping mid-swing drops the swing
+    if (this.activeAttack) {
+      AttackSystem.cancelAttacks(this.entityId);
+      this.activeAttack = null;
+    }
+
+    if (!this.equipment.equipWeapon(weaponId)) return false;
+
+    this.fsm.setMoveSet(this.equipment.moveSet);
+    DamageSystem.updateEntityState(this.entityId, this.equipment.guard);
+    this.applyEquipLoad();
+    return true;
+  }
+
+  /**
+   * Equip a shield by ID (null to unequip)
+   *
+   * @returns false if the shield is unknown
+   */
+  equipShield(shieldId: string | null): boolean {
+    if (!this.equipment.equipShield(shieldId)) return false;
+
+    DamageSystem.updateEntityState(this.entityId, this.equipment.guard);
+    this.applyEquipLoad();
+    return true;
+  }
+
+  /**
+   * Equip a catalyst by ID (null to unequip)
+   *
+   * @returns false if the catalyst is unknown
+   */
+  equipCatalyst(catalystId: string | null): boolean {
+    if (!this.equipment.equipCatalyst(catalystId)) return false;
+
+    this.applyEquipLoad();
+    return true;
+  }
+
+  /**
+   * Equip an armor piece by ID (null to leave the slot bare)
+   *
+   * @returns false if the armor is unknown or belongs to another slot
+   */
+  equipArmor(slot: ArmorSlot, armorId: string | null): boolean {
+    if (!this.equipment.equipArmor(slot, armorId)) return false;
+
+    // Armor poise is part of max poise
+    this.applyAttributes();
+    return true;
+  }
+
+  /**
+   * Spend souls to raise an attribute by one level
+   *
+   * @returns false if the attribute is maxed or the souls are short
+   */
+  levelUp(attribute: Attribute): boolean {
+    if (!this.attributes.canIncrease(attribute)) return false;
+    if (!SoulSystem.spend(this.entityId, this.attributes.levelUpCost)) return false;
+
+    this.attributes.increase(attribute);
+    return true;
+  }
+
+  /**
+   * Push attribute-derived maxima and weapon scaling to stats/equipment
+   * (max poise includes armor poise)
+   */
+  private applyAttributes(): void {
+    const { maxHP, maxStamina, maxPoise, maxEquipLoad } = this.attributes.derived;
+    this.stats.setMaxima(maxHP, maxStamina, maxPoise + this.equipment.armorPoise);
+    this.equipment.setAttributes(this.attributes.weaponScaling);
+    this.equipment.setMaxEquipLoad(maxEquipLoad);
+
+    DamageSystem.updateEntityState(this.entityId, {
+      maxHP: this.stats.maxHP,
+      maxStamina: this.stats.maxStamina,
+      maxPoise: this.stats.maxPoise,
+    });
+
+    this.applyEquipLoad();
+  }
+
+  /**
+   * Push the equip load tier (roll, stamina regen) and armor absorption
+   */
+  private applyEquipLoad(): void {
+    const profile = this.equipment.loadProfile;
+    this.motor.setRollProfile(profile.roll);
+    this.fsm.setRollProfile(profile.roll);
+    this.stats.staminaRegenScale = profile.staminaRegenScale;
+
+    DamageSystem.updateEntityState(this.entityId, {
+      resistances: this.equipment.absorption,
+    });
+  }
+
   // ========== Combat Interface ==========
 
   /**
@@ -280,19 +858,54 @@ export class Player {
       return false;
     }
 
-    // Apply damage
+    return this.applyDamage(info);
+  }
+
+  /**
+   * Apply damage to stats and react (no i-frame check)
+   *
+   * @param react Run the hit reaction (false for status effect ticks)
+   */
+  private applyDamage(info: DamageInfo, react: boolean = true): boolean {
+    const wasDead = this.stats.isDead;
     const result = this.stats.takeDamage(info);
 
-    // Trigger hit stun if not dead and poise broken
-    if (result && !this.stats.isDead) {
-      if (this.stats.isStaggered) {
-        this.fsm.forceState(PlayerStateType.HitStun);
-      }
+    if (!wasDead && this.stats.isDead) {
+      const { x, y, z } = this.motor.position;
+      EventBus.emit('player:died', { position: { x, y, z } });
+    }
+
+    // React if not dead: broken poise staggers or knocks down, anything else flinches
+    if (react && result && !this.stats.isDead) {
+      const knockbackForce = info.knockbackForce ?? 0;
+      const reaction = resolveHitReaction(
+        knockbackForce,
+        info.poiseDamage ?? 0,
+        this.stats.isStaggered
+      );
+      this.applyHitReaction(reaction, knockbackForce, info.direction);
     }
 
     return result;
   }
 
+  /**
+   * Push along the hit direction and enter the reaction state
+   */
+  private applyHitReaction(
+    reaction: HitReaction,
+    knockbackForce: number,
+    hitDirection?: { x: number; y: number; z: number }
+  ): void {
+    // Hyperarmor tanks the hit without a push (the FSM keeps the attack going)
+    if (hitDirection && knockbackForce > 0 && !this.fsm.hasHyperarmor) {
+      const direction = new THREE.Vector3(hitDirection.x, hitDirection.y, hitDirection.z);
+      this.motor.applyKnockback(getKnockbackVelocity(direction, knockbackForce, reaction));
+    }
+
+    this.fsm.onHitReaction(reaction);
+  }
+
   /**
    * Check if player is in attack hit window
    */
@@ -307,6 +920,13 @@ export class Player {
     return this.fsm.hasIFrames;
   }
 
+  /**
+   * Check if the current attack tanks hits (hyperarmor window)
+   */
+  get hasHyperarmor(): boolean {
+    return this.fsm.hasHyperarmor;
+  }
+
   /**
    * Heal player
    */
@@ -321,6 +941,27 @@ export class Player {
     return this.fsm.tryUseItem();
   }
 
+  /**
+   * Select the next consumable quick slot
+   */
+  cycleItem(direction: 1 | -1 = 1): ItemData | null {
+    return this.inventory.cycleQuickSlot(direction);
+  }
+
+  /**
+   * Cast the selected spell (triggers the Casting state)
+   */
+  castSpell(): boolean {
+    return this.fsm.tryCastSpell();
+  }
+
+  /**
+   * Select the next attuned spell
+   */
+  cycleSpell(direction: 1 | -1 = 1): SpellData | null {
+    return this.attunement.cycle(direction);
+  }
+
   // ========== Action Triggers ==========
 
   /**
@@ -329,15 +970,37 @@ export class Player {
   jump(): void {
     if (this.motor.grounded && this.stats.canAct) {
       this.motor.jump();
-      this.fsm.setAirborne(true);
+      this.fsm.onJump();
     }
   }
 
   /**
    * Interact with nearby object
+   *
+   * @param animation Animation to hold while interacting (e.g. 'Rest')
+   */
+  interact(animation?: string): boolean {
+    return this.fsm.tryInteract(animation);
+  }
+
+  /**
+   * Stand up from an interaction
+   */
+  stopInteracting(): void {
+    if (this.fsm.currentState === PlayerStateType.Interacting) {
+      this.fsm.forceState(PlayerStateType.Idle);
+    }
+  }
+
+  /**
+   * Rest at a checkpoint: restore HP/stamina/FP, cure status effects, refill flasks
    */
-  interact(): boolean {
-    return this.fsm.tryInteract();
+  rest(): void {
+    if (this.stats.isDead) return;
+
+    StatusEffectSystem.cureAll(this.entityId);
+    this.stats.restore();
+    this.inventory.refillAtCheckpoint();
   }
 
   // ========== Getters ==========
@@ -383,6 +1046,13 @@ export class Player {
     return this.stats.staminaPercent;
   }
 
+  get currentFP(): number {
+    return this.stats.currentFP;
+  }
+  get maxFP(): number {
+    return this.stats.maxFP;
+  }
+
   get isDead(): boolean {
     return this.stats.isDead;
   }
@@ -400,6 +1070,22 @@ export class Player {
     return this.stats;
   }
 
+  getAttributes(): CharacterAttributes {
+    return this.attributes;
+  }
+
+  getEquipment(): Equipment {
+    return this.equipment;
+  }
+
+  getInventory(): Inventory {
+    return this.inventory;
+  }
+
+  getAttunement(): Attunement {
+    return this.attunement;
+  }
+
   getMesh(): THREE.Object3D | null {
     return this.mesh;
   }
@@ -418,6 +1104,17 @@ export class Player {
    * Respawn player
    */
   respawn(position: THREE.Vector3): void {
+    if (this.activeAttack) {
+      AttackSystem.cancelAttacks(this.entityId);
+      this.activeAttack = null;
+    }
+
+    StatusEffectSystem.cureAll(this.entityId);
+    DamageSystem.clearDamageModifiers(this.entityId);
+    this.pendingItem = null;
+    this.pendingSpell = null;
+    this.inventory.refillAtCheckpoint();
+
     this.motor.teleport(position);
     this.stats.respawn();
     this.fsm.reset();
@@ -433,6 +1130,16 @@ export class Player {
    * Destroy player entity
    */
   destroy(): void {
+    if (this.activeAttack) {
+      AttackSystem.cancelAttacks(this.entityId);
+      this.activeAttack = null;
+    }
+    DamageSystem.unregisterEntity(this.entityId);
+    CriticalSystem.unregisterParticipant(this.entityId);
+    IFrameSystem.removeEntity(this.entityId);
+    StatusEffectSystem.removeEntity(this.entityId);
+    Time.removeLocalClock(this.entityId);
+
     this.motor.destroy();
 
     if (this.mesh && this.mesh.parent) {
@@ -4,6 +4,11 @@
  * Manages player state transitions with:
  * - Input buffering for combat (150ms buffer)
  * - Combo windows for attack chains
+ * - Context-sensitive attacks (running, rolling, backstep, jumping) and charged heavies
+ * - Spellcasting: a cast windup that any hit interrupts, then the release and recovery
+ * - Attack timings/costs from the equipped weapon's move set
+ * - Hit reactions (stagger, knockdown with a get-up that has wake-up i-frames)
+ * - Block-stagger on guarded hits (guard break only when stamina runs out)
  * - State-specific update logic
  * - Animation triggering
  */
@@ -12,6 +17,9 @@ import { Time } from '../core/Time';
 import { EventBus } from '../core/EventBus';
 import { InputManager } from '../input/InputManager';
 import { Action } from '../input/Action';
+import { HitReaction } from '../combat/HitReaction';
+import type { RollProfile } from '../equipment/EquipLoad';
+import type { AttackLunge } from './PlayerMotor';
 import {
   PlayerStateType,
   PlayerStateGroup,
@@ -20,6 +28,7 @@ import {
   IFRAME_STATES,
   ROLL_CANCELABLE_STATES,
   ATTACK_CANCELABLE_STATES,
+  KNOCKDOWN_STATES,
   STATE_ANIMATIONS,
   isInGroup,
 } from './PlayerState';
@@ -128,12 +137,24 @@ const STATE_CONFIGS: Record<PlayerStateType, StateConfig> = {
     hitWindowEnd: 0.58,
     hasRootMotion: true,
   },
+  [PlayerStateType.CriticalAttack]: {
+    duration: 1.6, // Replaced by the critical's duration
+    canBeInterrupted: false,
+    staminaCost: 0,
+    movementMultiplier: 0,
+  },
   [PlayerStateType.Guard]: {
     duration: 0,
     canBeInterrupted: true,
     staminaCost: 0,
     movementMultiplier: 0.3,
   },
+  [PlayerStateType.GuardHit]: {
+    duration: 0.35, // Block-stagger; the guard stays up
+    canBeInterrupted: false,
+    staminaCost: 0,
+    movementMultiplier: 0,
+  },
   [PlayerStateType.GuardBreak]: {
     duration: 1.2,
     canBeInterrupted: false,
@@ -152,6 +173,20 @@ const STATE_CONFIGS: Record<PlayerStateType, StateConfig> = {
     staminaCost: 0,
     movementMultiplier: 0,
   },
+  [PlayerStateType.Knockdown]: {
+    duration: 1.1,
+    canBeInterrupted: false,
+    staminaCost: 0,
+    movementMultiplier: 0,
+  },
+  [PlayerStateType.GetUp]: {
+    duration: 0.8,
+    canBeInterrupted: false,
+    staminaCost: 0,
+    movementMultiplier: 0,
+    iframeStart: 0.0, // Wake-up i-frames
+    iframeEnd: 0.85,
+  },
   [PlayerStateType.Interacting]: {
     duration: 0,
     canBeInterrupted: true,
@@ -164,6 +199,18 @@ const STATE_CONFIGS: Record<PlayerStateType, StateConfig> = {
     staminaCost: 0,
     movementMultiplier: 0,
   },
+  [PlayerStateType.Casting]: {
+    duration: 0.6, // Replaced by the spell's cast time
+    canBeInterrupted: false,
+    staminaCost: 0,
+    movementMultiplier: 0,
+  },
+  [PlayerStateType.CastRecovery]: {
+    duration: 0.4, // Replaced by the spell's recovery
+    canBeInterrupted: false,
+    staminaCost: 0,
+    movementMultiplier: 0,
+  },
   [PlayerStateType.Falling]: {
     duration: 0,
     canBeInterrupted: true,
@@ -193,6 +240,73 @@ const STATE_CONFIGS: Record<PlayerStateType, StateConfig> = {
   },
 };
 
+/**
+ * A weapon move as seen by the FSM
+ */
+export interface PlayerMove {
+  attackId: string; // AttackSystem attack ID
+  duration: number; // Replaces the state's duration
+  staminaCost: number; // Replaces the state's stamina cost
+  comboWindow?: [number, number]; // Light attacks (normalized 0-1)
+  hyperarmor?: [number, number]; // Hit reactions don't interrupt (normalized 0-1)
+  charge?: { at: number; time: number }; // Heavy attacks: hold point (0-1) and seconds to full charge
+  lunge?: AttackLunge; // Replaces the motor's light/heavy lunge
+}
+
+/**
+ * Move set of the equipped weapon
+ */
+export interface PlayerMoveSet {
+  light: PlayerMove[]; // Combo chain
+  heavy: PlayerMove;
+  plunge: PlayerMove;
+  running: PlayerMove;
+  rolling: PlayerMove;
+  backstep: PlayerMove;
+  jumping: PlayerMove;
+  charged: PlayerMove; // Stamina is paid when the charge completes
+}
+
+/**
+ * Attack variants picked from the action the attack starts out of
+ */
+export enum AttackVariant {
+  Running = 'Running', // Attack while sprinting
+  Rolling = 'Rolling', // Attack at the end of a roll
+  Backstep = 'Backstep', // Attack at the end of a backstep
+  Jumping = 'Jumping', // Attack in the air after a jump
+  Charged = 'Charged', // Heavy held until fully charged
+}
+
+const VARIANT_MOVES: Record<AttackVariant, Exclude<keyof PlayerMoveSet, 'light'>> = {
+  [AttackVariant.Running]: 'running',
+  [AttackVariant.Rolling]: 'rolling',
+  [AttackVariant.Backstep]: 'backstep',
+  [AttackVariant.Jumping]: 'jumping',
+  [AttackVariant.Charged]: 'charged',
+};
+
+const VARIANT_ANIMATIONS: Record<AttackVariant, string> = {
+  [AttackVariant.Running]: 'Attack_Running',
+  [AttackVariant.Rolling]: 'Attack_Rolling',
+  [AttackVariant.Backstep]: 'Attack_Backstep',
+  [AttackVariant.Jumping]: 'Attack_Jumping',
+  [AttackVariant.Charged]: 'Attack_Heavy_Charged',
+};
+
+/**
+ * Roll/backstep progress from which an attack becomes a rolling/backstep attack
+ */
+const DODGE_ATTACK_PROGRESS = 0.6;
+
+/**
+ * Timing of the spell being cast (seconds)
+ */
+export interface SpellCastTiming {
+  castTime: number; // Casting: windup until the spell releases
+  recovery: number; // CastRecovery: after the release
+}
+
 /**
  * Buffered input entry
  */
@@ -210,6 +324,10 @@ export interface FSMCallbacks {
   onAnimationTrigger?: (animationName: string, options?: AnimationOptions) => void;
   onConsumeStamina?: (amount: number) => boolean; // Return false if not enough
   getStamina?: () => number;
+  canUseItem?: () => boolean; // Return false if no usable item is selected
+  tryCritical?: () => boolean; // Start a riposte/backstab; false if no target is open
+  getSpellCast?: () => SpellCastTiming | null; // Selected spell; null if it can't be cast
+  onCastRelease?: () => boolean; // Fire the spell after the windup; false if it fizzled
 }
 
 // Alias for backwards compatibility
@@ -239,7 +357,31 @@ export class PlayerFSM {
 
   // Combo tracking
   private comboCount: number = 0;
-  private readonly MAX_COMBO = 3;
+
+  // Context-sensitive attack of the current attack state (null = plain light/heavy)
+  private attackVariant: AttackVariant | null = null;
+
+  // Heavy attack still held since it started (can charge)
+  private charging: boolean = false;
+
+  // Airborne from Player.jump until landing (not a ledge fall)
+  private jumped: boolean = false;
+
+  // Spell being cast (set when Casting starts)
+  private castTiming: SpellCastTiming | null = null;
+
+  // Equipped weapon moves (null = state config timings, no attack IDs)
+  private moveSet: PlayerMoveSet | null = null;
+
+  // Animation override for the current interaction
+  private interactAnimation: string | null = null;
+
+  // Roll timing of the equip load tier (null = STATE_CONFIGS)
+  private rollProfile: RollProfile | null = null;
+
+  // Current riposte/backstab (set by startCriticalAttack)
+  private criticalAnimation: string | null = null;
+  private criticalDuration: number = 0;
 
   // Callbacks
   private callbacks: FSMCallbacks = {};
@@ -253,10 +395,21 @@ export class PlayerFSM {
   // 뒤로 이동 플래그
   private _isMovingBackward: boolean = false;
 
-  constructor(callbacks?: FSMCallbacks) {
+  // Owner whose local clock times the states (hit-stop / time dilation)
+  private readonly entityId: string | null;
+
+  constructor(callbacks?: FSMCallbacks, entityId?: string) {
     if (callbacks) {
       this.callbacks = callbacks;
     }
+    this.entityId = entityId ?? null;
+  }
+
+  /**
+   * Local time of the owner (frozen by hit-stop, slowed by time dilation)
+   */
+  private get now(): number {
+    return this.entityId ? Time.getLocalElapsed(this.entityId) : Time.fixedElapsed;
   }
 
   /**
@@ -264,9 +417,12 @@ export class PlayerFSM {
    */
   update(dt: number): void {
     // Update state progress
-    const config = STATE_CONFIGS[this._currentState];
-    if (config.duration > 0) {
-      this.stateProgress = (Time.elapsed - this.stateStartTime) / config.duration;
+    const duration = this.getStateDuration(this._currentState);
+    if (duration > 0) {
+      this.stateProgress = (this.now - this.stateStartTime) / duration;
+
+      // Hold or finish a heavy attack charge
+      this.updateCharge();
 
       // Check for state completion
       if (this.stateProgress >= 1.0) {
@@ -306,10 +462,10 @@ export class PlayerFSM {
     }
 
     // Check stamina cost
-    const config = STATE_CONFIGS[newState];
-    if (config.staminaCost > 0) {
+    const staminaCost = this.getStaminaCost(newState);
+    if (staminaCost > 0) {
       if (this.callbacks.onConsumeStamina) {
-        if (!this.callbacks.onConsumeStamina(config.staminaCost)) {
+        if (!this.callbacks.onConsumeStamina(staminaCost)) {
           return false; // Not enough stamina
         }
       }
@@ -351,9 +507,9 @@ export class PlayerFSM {
     }
 
     // Check stamina
-    const newConfig = STATE_CONFIGS[newState];
-    if (newConfig.staminaCost > 0 && this.callbacks.getStamina) {
-      if (this.callbacks.getStamina() < newConfig.staminaCost) {
+    const staminaCost = this.getStaminaCost(newState);
+    if (staminaCost > 0 && this.callbacks.getStamina) {
+      if (this.callbacks.getStamina() < staminaCost) {
         return false;
       }
     }
@@ -370,7 +526,7 @@ export class PlayerFSM {
     // Update state
     this._previousState = prevState;
     this._currentState = newState;
-    this.stateStartTime = Time.elapsed;
+    this.stateStartTime = this.now;
     this.stateProgress = 0;
 
     // Reset combo if not chaining attacks
@@ -379,7 +535,9 @@ export class PlayerFSM {
       newState !== PlayerStateType.AttackHeavy
     ) {
       this.comboCount = 0;
+      this.attackVariant = null;
     }
+    this.charging = newState === PlayerStateType.AttackHeavy;
 
     // Enter new state
     this.callbacks.onStateEnter?.(newState, prevState);
@@ -407,15 +565,32 @@ export class PlayerFSM {
       case PlayerStateType.Backstep:
       case PlayerStateType.AttackLight:
       case PlayerStateType.AttackHeavy:
+      case PlayerStateType.CriticalAttack:
       case PlayerStateType.Parry:
       case PlayerStateType.UsingItem:
       case PlayerStateType.HitStun:
+      case PlayerStateType.GetUp:
+      case PlayerStateType.GuardHit:
       case PlayerStateType.GuardBreak:
       case PlayerStateType.Landing:
       case PlayerStateType.PlungeAttack:
         // Timed states must always complete even if they are non-interruptible.
         this.forceTransition(PlayerStateType.Idle);
         break;
+      case PlayerStateType.Knockdown:
+        this.forceTransition(PlayerStateType.GetUp);
+        break;
+      case PlayerStateType.Casting:
+        // A spell that fizzles (FP gone) skips the recovery
+        if (this.callbacks.onCastRelease?.() ?? true) {
+          this.forceTransition(PlayerStateType.CastRecovery);
+        } else {
+          this.forceTransition(PlayerStateType.Idle);
+        }
+        break;
+      case PlayerStateType.CastRecovery:
+        this.forceTransition(PlayerStateType.Idle);
+        break;
     }
   }
 
@@ -431,6 +606,12 @@ export class PlayerFSM {
           this.executeCombo();
         }
       }
+
+      // The end of a roll/backstep cancels into its own attack
+      const dodgeVariant = this.getDodgeAttackVariant();
+      if (dodgeVariant && InputManager.consumeBufferedInput(Action.Attack)) {
+        this.startVariantAttack(dodgeVariant);
+      }
       return;
     }
 
@@ -459,9 +640,23 @@ export class PlayerFSM {
       }
     }
 
-    // Check for attack
+    // Check for attack (an open riposte/backstab replaces the first light attack)
     if (InputManager.isJustPressed(Action.Attack)) {
+      if (this._currentState === PlayerStateType.Sprint) {
+        this.startVariantAttack(AttackVariant.Running);
+        return;
+      }
+      if (
+        this.jumped &&
+        (this._currentState === PlayerStateType.Falling ||
+          ATTACK_CANCELABLE_STATES.has(this._currentState))
+      ) {
+        this.jumped = false;
+        this.startVariantAttack(AttackVariant.Jumping);
+        return;
+      }
       if (ATTACK_CANCELABLE_STATES.has(this._currentState)) {
+        if (this.callbacks.tryCritical?.()) return;
         this.tryTransition(PlayerStateType.AttackLight);
         return;
       }
@@ -474,6 +669,11 @@ export class PlayerFSM {
       }
     }
 
+    // Check for spellcasting
+    if (InputManager.isJustPressed(Action.CastSpell)) {
+      if (this.tryCastSpell()) return;
+    }
+
     // Check for parry
     if (InputManager.isJustPressed(Action.Parry)) {
       if (this._currentState === PlayerStateType.Guard) {
@@ -484,7 +684,7 @@ export class PlayerFSM {
 
     // Check for item use
     if (InputManager.isJustPressed(Action.UseItem)) {
-      if (this._currentState === PlayerStateType.Idle) {
+      if (this._currentState === PlayerStateType.Idle && this.canUseItem()) {
         this.tryTransition(PlayerStateType.UsingItem);
         return;
       }
@@ -535,11 +735,20 @@ export class PlayerFSM {
   }
 
   private executeCombo(): void {
-    if (this.comboCount < this.MAX_COMBO - 1) {
+    const maxCombo = this.moveSet?.light.length ?? 3;
+    if (this.comboCount < maxCombo - 1) {
+      // Each combo step pays its own stamina cost
+      const nextMove = this.moveSet?.light[this.comboCount + 1];
+      if (nextMove && nextMove.staminaCost > 0 && this.callbacks.onConsumeStamina) {
+        if (!this.callbacks.onConsumeStamina(nextMove.staminaCost)) {
+          return;
+        }
+      }
+
       this.comboCount++;
       // Trigger next combo animation
       const animName = `Attack_Light_${this.comboCount + 1}`;
-      this.stateStartTime = Time.elapsed;
+      this.stateStartTime = this.now;
       this.stateProgress = 0;
       this.callbacks.onAnimationTrigger?.(animName, {
         loop: false,
@@ -549,6 +758,84 @@ export class PlayerFSM {
     }
   }
 
+  // ========== Context-Sensitive Attacks ==========
+
+  /**
+   * Variant of an attack pressed now during a roll/backstep (null = too early)
+   */
+  private getDodgeAttackVariant(): AttackVariant | null {
+    if (this.stateProgress < DODGE_ATTACK_PROGRESS) return null;
+
+    switch (this._currentState) {
+      case PlayerStateType.Roll:
+        return AttackVariant.Rolling;
+      case PlayerStateType.Backstep:
+        return AttackVariant.Backstep;
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Start a context-sensitive attack (paid with the variant move's stamina)
+   * Without a move set the plain light attack is used.
+   */
+  private startVariantAttack(variant: AttackVariant): boolean {
+    if (!this.moveSet) {
+      return this.tryTransition(PlayerStateType.AttackLight);
+    }
+
+    const move = this.moveSet[VARIANT_MOVES[variant]];
+    if (move.staminaCost > 0 && this.callbacks.onConsumeStamina) {
+      if (!this.callbacks.onConsumeStamina(move.staminaCost)) {
+        return false;
+      }
+    }
+
+    this.attackVariant = variant;
+    this.transition(PlayerStateType.AttackLight);
+    return true;
+  }
+
+  /**
+   * Hold a heavy attack at its charge point while StrongAttack stays held.
+   * Holding for the charge time turns it into the charged move; releasing
+   * earlier swings the normal heavy.
+   */
+  private updateCharge(): void {
+    if (this._currentState !== PlayerStateType.AttackHeavy || !this.charging) return;
+
+    const charge = this.getMove(this._currentState)?.charge;
+    if (!charge || !InputManager.isPressed(Action.StrongAttack)) {
+      this.charging = false;
+      return;
+    }
+    if (this.stateProgress < charge.at) return;
+
+    if (InputManager.getHeldTime(Action.StrongAttack) < charge.time) {
+      // Hold at the charge point
+      this.stateStartTime = this.now - charge.at * this.getStateDuration(this._currentState);
+      this.stateProgress = charge.at;
+      return;
+    }
+
+    // Fully charged (not enough stamina swings the normal heavy)
+    this.charging = false;
+    const cost = this.moveSet?.charged.staminaCost ?? 0;
+    if (cost > 0 && this.callbacks.onConsumeStamina && !this.callbacks.onConsumeStamina(cost)) {
+      return;
+    }
+
+    this.attackVariant = AttackVariant.Charged;
+    this.stateStartTime = this.now - charge.at * this.getStateDuration(this._currentState);
+    this.stateProgress = charge.at;
+    this.callbacks.onAnimationTrigger?.(VARIANT_ANIMATIONS[AttackVariant.Charged], {
+      loop: false,
+      speed: 1,
+      fadeIn: 0.05,
+    });
+  }
+
   // ========== Input Buffer ==========
 
   /**
@@ -557,7 +844,7 @@ export class PlayerFSM {
   bufferInput(action: Action): void {
     this.inputBuffer.push({
       action,
-      timestamp: Time.elapsed,
+      timestamp: Time.fixedElapsed,
     });
   }
 
@@ -575,7 +862,7 @@ export class PlayerFSM {
   }
 
   private cleanInputBuffer(): void {
-    const now = Time.elapsed;
+    const now = Time.fixedElapsed;
     this.inputBuffer = this.inputBuffer.filter(
       (input) => now - input.timestamp < this.BUFFER_DURATION
     );
@@ -588,11 +875,19 @@ export class PlayerFSM {
    */
   onGroundingChanged(grounded: boolean): void {
     if (grounded) {
-      if (isInGroup(this._currentState, PlayerStateGroup.Airborne)) {
+      this.jumped = false;
+
+      // Only Falling lands; re-entering Landing every grounded tick would lock the player
+      if (this._currentState === PlayerStateType.Falling) {
         this.forceTransition(PlayerStateType.Landing);
       }
     } else {
-      if (isInGroup(this._currentState, PlayerStateGroup.Grounded)) {
+      // Launched players stay knocked down in the air; jumping attacks play out
+      if (
+        isInGroup(this._currentState, PlayerStateGroup.Grounded) &&
+        this._currentState !== PlayerStateType.Knockdown &&
+        this.attackVariant !== AttackVariant.Jumping
+      ) {
         this.forceTransition(PlayerStateType.Falling);
       }
     }
@@ -609,11 +904,43 @@ export class PlayerFSM {
       return;
     }
 
-    if (!this._hasIFrames) {
+    if (!this._hasIFrames && !this.hasHyperarmor) {
       this.forceTransition(PlayerStateType.HitStun);
     }
   }
 
+  /**
+   * Called when a landed hit resolves its reaction
+   */
+  onHitReaction(reaction: HitReaction): void {
+    if (this._currentState === PlayerStateType.Dead) return;
+
+    // Tank through: poise damage was taken, the attack carries on
+    if (this.hasHyperarmor) return;
+
+    switch (reaction) {
+      case HitReaction.Knockdown:
+      case HitReaction.Launch:
+        this.forceTransition(PlayerStateType.Knockdown);
+        break;
+      case HitReaction.Stagger:
+        // Already on the ground
+        if (!KNOCKDOWN_STATES.has(this._currentState)) {
+          this.forceTransition(PlayerStateType.HitStun);
+        }
+        break;
+      case HitReaction.Flinch:
+        // Any landed hit interrupts item use and spell windups (status damage never reacts)
+        if (
+          this._currentState === PlayerStateType.UsingItem ||
+          this._currentState === PlayerStateType.Casting
+        ) {
+          this.forceTransition(PlayerStateType.HitStun);
+        }
+        break;
+    }
+  }
+
   /**
    * Called when player dies
    */
@@ -621,6 +948,18 @@ export class PlayerFSM {
     this.forceTransition(PlayerStateType.Dead);
   }
 
+  /**
+   * Called when a guarded hit lands (block-stagger)
+   */
+  onGuardHit(): void {
+    if (
+      this._currentState === PlayerStateType.Guard ||
+      this._currentState === PlayerStateType.GuardHit
+    ) {
+      this.forceTransition(PlayerStateType.GuardHit);
+    }
+  }
+
   /**
    * Called when guard is broken
    */
@@ -665,6 +1004,14 @@ export class PlayerFSM {
     return this._hasIFrames;
   }
 
+  /**
+   * Check if the current attack is inside its hyperarmor window
+   */
+  get hasHyperarmor(): boolean {
+    const window = this.getMove(this._currentState)?.hyperarmor;
+    return !!window && this.stateProgress >= window[0] && this.stateProgress <= window[1];
+  }
+
   /**
    * Check if currently in hit window (for attacks)
    */
@@ -700,20 +1047,133 @@ export class PlayerFSM {
     return this.comboCount;
   }
 
+  /**
+   * Get the AttackSystem attack ID for the current state (null if not attacking)
+   * Changes with each combo step, so a new ID means a new swing.
+   */
+  get currentAttackId(): string | null {
+    return this.getMove(this._currentState)?.attackId ?? null;
+  }
+
+  /**
+   * Get the context-sensitive variant of the current attack (null = plain)
+   */
+  get currentAttackVariant(): AttackVariant | null {
+    return this.attackVariant;
+  }
+
+  /**
+   * Get the current attack's lunge (null = the motor's light/heavy default)
+   */
+  get currentLunge(): AttackLunge | null {
+    return this.getMove(this._currentState)?.lunge ?? null;
+  }
+
+  /**
+   * Get the current state's duration in seconds (0 = indefinite)
+   */
+  get stateDuration(): number {
+    return this.getStateDuration(this._currentState);
+  }
+
+  /**
+   * Set the equipped weapon's move set
+   */
+  setMoveSet(moveSet: PlayerMoveSet): void {
+    this.moveSet = moveSet;
+    this.comboCount = Math.min(this.comboCount, Math.max(0, moveSet.light.length - 1));
+  }
+
+  /**
+   * Set the roll duration and i-frame window (equip load tier)
+   */
+  setRollProfile(profile: RollProfile | null): void {
+    this.rollProfile = profile;
+  }
+
+  /**
+   * Get the weapon move for an attack state (current combo step for light attacks,
+   * the variant's move for context-sensitive attacks)
+   */
+  private getMove(state: PlayerStateType): PlayerMove | null {
+    if (!this.moveSet) return null;
+
+    if (
+      this.attackVariant &&
+      (state === PlayerStateType.AttackLight || state === PlayerStateType.AttackHeavy)
+    ) {
+      return this.moveSet[VARIANT_MOVES[this.attackVariant]];
+    }
+
+    switch (state) {
+      case PlayerStateType.AttackLight:
+        return this.moveSet.light[this.comboCount] ?? null;
+      case PlayerStateType.AttackHeavy:
+        return this.moveSet.heavy;
+      case PlayerStateType.PlungeAttack:
+        return this.moveSet.plunge;
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Check if the player has an item to use (no callback = always)
+   */
+  private canUseItem(): boolean {
+    return this.callbacks.canUseItem?.() ?? true;
+  }
+
+  private getStateDuration(state: PlayerStateType): number {
+    if (state === PlayerStateType.CriticalAttack && this.criticalDuration > 0) {
+      return this.criticalDuration;
+    }
+    if (state === PlayerStateType.Roll && this.rollProfile) {
+      return this.rollProfile.duration;
+    }
+    if (state === PlayerStateType.Casting && this.castTiming) {
+      return this.castTiming.castTime;
+    }
+    if (state === PlayerStateType.CastRecovery && this.castTiming) {
+      return this.castTiming.recovery;
+    }
+    return this.getMove(state)?.duration ?? STATE_CONFIGS[state].duration;
+  }
+
+  private getStaminaCost(state: PlayerStateType): number {
+    // Entering an attack state always starts the chain
+    if (state === PlayerStateType.AttackLight && this.moveSet) {
+      return this.moveSet.light[0]?.staminaCost ?? 0;
+    }
+    return this.getMove(state)?.staminaCost ?? STATE_CONFIGS[state].staminaCost;
+  }
+
+  /**
+   * Get the current state's i-frame window (normalized 0-1), or null if none
+   */
+  get iframeWindow(): [number, number] | null {
+    if (this._currentState === PlayerStateType.Roll && this.rollProfile) {
+      return [this.rollProfile.iframeStart, this.rollProfile.iframeEnd];
+    }
+
+    const config = STATE_CONFIGS[this._currentState];
+    if (config.iframeStart === undefined || config.iframeEnd === undefined) {
+      return null;
+    }
+    return [config.iframeStart, config.iframeEnd];
+  }
+
   private checkIFrames(): boolean {
     if (!IFRAME_STATES.has(this._currentState)) {
       return false;
     }
 
-    const config = STATE_CONFIGS[this._currentState];
-    if (config.iframeStart === undefined || config.iframeEnd === undefined) {
+    const window = this.iframeWindow;
+    if (!window) {
       return false;
     }
 
-    return (
-      this.stateProgress >= config.iframeStart &&
-      this.stateProgress <= config.iframeEnd
-    );
+    return this.stateProgress >= window[0] && this.stateProgress <= window[1];
   }
 
   private checkHitWindow(): boolean {
@@ -733,6 +1193,16 @@ export class PlayerFSM {
       return false;
     }
 
+    // Weapon move window (the last combo step has none)
+    if (this.moveSet) {
+      const window = this.getMove(this._currentState)?.comboWindow;
+      return (
+        window !== undefined &&
+        this.stateProgress >= window[0] &&
+        this.stateProgress <= window[1]
+      );
+    }
+
     const config = STATE_CONFIGS[this._currentState];
     if (
       config.comboWindowStart === undefined ||
@@ -748,10 +1218,22 @@ export class PlayerFSM {
   }
 
   private getAnimationForState(state: PlayerStateType): string {
+    // Running, rolling, backstep and jumping attacks
+    if (state === PlayerStateType.AttackLight && this.attackVariant) {
+      return VARIANT_ANIMATIONS[this.attackVariant];
+    }
     // Special case for combo attacks
     if (state === PlayerStateType.AttackLight && this.comboCount > 0) {
       return `Attack_Light_${this.comboCount + 1}`;
     }
+    // Riposte or backstab
+    if (state === PlayerStateType.CriticalAttack && this.criticalAnimation) {
+      return this.criticalAnimation;
+    }
+    // Interaction-specific animation (e.g. resting)
+    if (state === PlayerStateType.Interacting && this.interactAnimation) {
+      return this.interactAnimation;
+    }
     return STATE_ANIMATIONS[state];
   }
 
@@ -789,6 +1271,14 @@ export class PlayerFSM {
     this.onGroundingChanged(!airborne);
   }
 
+  /**
+   * Called when the player jumps (an attack before landing is a jumping attack)
+   */
+  onJump(): void {
+    this.onGroundingChanged(false);
+    this.jumped = true;
+  }
+
   /**
    * Force state transition (alias for forceTransition)
    */
@@ -800,22 +1290,47 @@ export class PlayerFSM {
    * Try to use item
    */
   tryUseItem(): boolean {
-    if (this._currentState === PlayerStateType.Idle) {
+    if (this._currentState === PlayerStateType.Idle && this.canUseItem()) {
       return this.tryTransition(PlayerStateType.UsingItem);
     }
     return false;
   }
 
+  /**
+   * Try to start casting the selected spell
+   */
+  tryCastSpell(): boolean {
+    if (!ATTACK_CANCELABLE_STATES.has(this._currentState)) return false;
+
+    const timing = this.callbacks.getSpellCast?.();
+    if (!timing) return false;
+
+    this.castTiming = timing;
+    return this.tryTransition(PlayerStateType.Casting);
+  }
+
   /**
    * Try to interact
+   *
+   * @param animation Animation to play while interacting (defaults to 'Interact')
    */
-  tryInteract(): boolean {
+  tryInteract(animation?: string): boolean {
     if (this._currentState === PlayerStateType.Idle) {
+      this.interactAnimation = animation ?? null;
       return this.tryTransition(PlayerStateType.Interacting);
     }
     return false;
   }
 
+  /**
+   * Lock into a riposte/backstab (started by CriticalSystem)
+   */
+  startCriticalAttack(animation: string, duration: number): void {
+    this.criticalAnimation = animation;
+    this.criticalDuration = duration;
+    this.forceTransition(PlayerStateType.CriticalAttack);
+  }
+
   /**
    * Reset FSM to initial state
    */
@@ -825,6 +1340,10 @@ export class PlayerFSM {
     this.stateStartTime = 0;
     this.stateProgress = 0;
     this.comboCount = 0;
+    this.attackVariant = null;
+    this.charging = false;
+    this.jumped = false;
+    this.castTiming = null;
     this.inputBuffer = [];
     this._hasIFrames = false;
     this._inHitWindow = false;
@@ -6,6 +6,7 @@
  * - Gravity and vertical velocity
  * - Jump impulses
  * - Roll/dodge movement
+ * - Knockback pushes and launches (collide with walls like any other movement)
  * - Rotation (yaw) management
  *
  * IMPORTANT: Rapier KCC does not support rotation.
@@ -15,7 +16,9 @@
 import * as THREE from 'three';
 import { CharacterControllerAdapter, MovementResult } from '../physics/CharacterControllerAdapter';
 import { CollisionGroups } from '../physics/CollisionGroups';
-import { PlayerStateType, MOVEMENT_STATES } from './PlayerState';
+import { KnockbackState } from '../combat/HitReaction';
+import type { RollProfile } from '../equipment/EquipLoad';
+import { PlayerStateType, MOVEMENT_STATES, KNOCKDOWN_STATES } from './PlayerState';
 
 /**
  * Motor configuration
@@ -64,10 +67,18 @@ const DEFAULT_CONFIG: Partial<PlayerMotorConfig> = {
   rotationSpeed: 10.0,
 };
 
+/**
+ * Forward lunge when an attack starts
+ */
+export interface AttackLunge {
+  speed: number; // m/s at the peak
+  duration: number; // Seconds
+}
+
 const ROLL_DURATION = 0.62;
 const BACKSTEP_DURATION = 0.44;
-const ATTACK_LIGHT_LUNGE_DURATION = 0.22;
-const ATTACK_HEAVY_LUNGE_DURATION = 0.3;
+const ATTACK_LIGHT_LUNGE: AttackLunge = { speed: 3.2, duration: 0.22 };
+const ATTACK_HEAVY_LUNGE: AttackLunge = { speed: 4.4, duration: 0.3 };
 
 /**
  * Player Motor class
@@ -98,6 +109,7 @@ export class PlayerMotor {
   private _isRolling: boolean = false;
   private _rollElapsed: number = 0;
   private _rollDuration: number = ROLL_DURATION;
+  private _rollProfile: RollProfile | null = null; // Equip load (null = ROLL_DURATION, full speed)
 
   // Attack root motion state (small forward lunge)
   private _isAttackLunging: boolean = false;
@@ -106,6 +118,9 @@ export class PlayerMotor {
   private _attackLungeDuration: number = 0;
   private _attackLungeSpeed: number = 0;
 
+  // Knockback from hits
+  private _knockback: KnockbackState = new KnockbackState();
+
   // 뒤로 이동 상태
   private _isMovingBackward: boolean = false;
 
@@ -127,8 +142,13 @@ export class PlayerMotor {
    *
    * @param state Current player state
    * @param movementMultiplier Speed multiplier from FSM
+   * @param lunge Lunge of the attack being entered (null = light/heavy default)
    */
-  setState(state: PlayerStateType, _movementMultiplier: number = 1.0): void {
+  setState(
+    state: PlayerStateType,
+    _movementMultiplier: number = 1.0,
+    lunge: AttackLunge | null = null
+  ): void {
     const prevState = this._currentState;
     this._currentState = state;
 
@@ -138,9 +158,9 @@ export class PlayerMotor {
     } else if (state === PlayerStateType.Backstep && prevState !== PlayerStateType.Backstep) {
       this.startBackstep();
     } else if (state === PlayerStateType.AttackLight && prevState !== PlayerStateType.AttackLight) {
-      this.startAttackLunge(false);
+      this.startAttackLunge(lunge ?? ATTACK_LIGHT_LUNGE);
     } else if (state === PlayerStateType.AttackHeavy && prevState !== PlayerStateType.AttackHeavy) {
-      this.startAttackLunge(true);
+      this.startAttackLunge(lunge ?? ATTACK_HEAVY_LUNGE);
     } else if (state !== PlayerStateType.Roll && state !== PlayerStateType.Backstep) {
       this._isRolling = false;
       this._rollElapsed = 0;
@@ -208,13 +228,27 @@ export class PlayerMotor {
     this.kcc.disableSnapToGround();
   }
 
+  /**
+   * Push the character (from a hit)
+   *
+   * @param velocity Initial push velocity; y > 0 launches into the air
+   */
+  applyKnockback(velocity: THREE.Vector3): void {
+    this._knockback.apply(velocity);
+
+    if (velocity.y > 0) {
+      this.kcc.setVerticalVelocity(velocity.y);
+      this.kcc.disableSnapToGround();
+    }
+  }
+
   /**
    * Start roll in current facing or input direction
    */
   private startRoll(): void {
     this._isRolling = true;
     this._rollElapsed = 0;
-    this._rollDuration = ROLL_DURATION;
+    this._rollDuration = this._rollProfile?.duration ?? ROLL_DURATION;
 
     // Roll in input direction if available, otherwise forward
     if (this._inputDirection.lengthSq() > 0.01) {
@@ -239,13 +273,11 @@ export class PlayerMotor {
     this._rollDirection.set(-Math.sin(this._yaw), 0, -Math.cos(this._yaw));
   }
 
-  private startAttackLunge(isHeavy: boolean): void {
+  private startAttackLunge(lunge: AttackLunge): void {
     this._isAttackLunging = true;
     this._attackLungeElapsed = 0;
-    this._attackLungeDuration = isHeavy
-      ? ATTACK_HEAVY_LUNGE_DURATION
-      : ATTACK_LIGHT_LUNGE_DURATION;
-    this._attackLungeSpeed = isHeavy ? 4.4 : 3.2;
+    this._attackLungeDuration = lunge.duration;
+    this._attackLungeSpeed = lunge.speed;
 
     if (this._inputDirection.lengthSq() > 0.01) {
       this._attackLungeDirection.copy(this._inputDirection).normalize();
@@ -254,6 +286,25 @@ export class PlayerMotor {
     }
   }
 
+  /**
+   * Set the roll duration and speed (equip load tier; applies from the next roll)
+   */
+  setRollProfile(profile: RollProfile | null): void {
+    this._rollProfile = profile;
+  }
+
+  /**
+   * Lunge along a direction (attack timeline cue)
+   * Ends with the attack state, like the built-in attack lunge.
+   */
+  lunge(direction: THREE.Vector3, speed: number, duration: number): void {
+    this._isAttackLunging = true;
+    this._attackLungeElapsed = 0;
+    this._attackLungeDuration = duration;
+    this._attackLungeSpeed = speed;
+    this._attackLungeDirection.set(direction.x, 0, direction.z).normalize();
+  }
+
   /**
    * Compute and apply movement for this frame
    *
@@ -262,8 +313,11 @@ export class PlayerMotor {
    * @returns Movement result
    */
   update(dt: number, movementMultiplier: number = 1.0): MovementResult {
-    // Calculate horizontal movement
+    // Calculate horizontal movement (plus any knockback push)
     const horizontalMove = this.computeHorizontalMovement(dt, movementMultiplier);
+    if (this._knockback.active) {
+      horizontalMove.add(this._knockback.step(dt));
+    }
 
     // Update rotation
     this.updateRotation(dt);
@@ -291,7 +345,7 @@ export class PlayerMotor {
       const speed =
         this._currentState === PlayerStateType.Backstep
           ? this.config.backstepSpeed
-          : this.config.rollSpeed;
+          : this.config.rollSpeed * (this._rollProfile?.speedScale ?? 1);
       movement.copy(this._rollDirection).multiplyScalar(speed * speedScale * dt);
 
       if (progress >= 1) {
@@ -368,7 +422,8 @@ export class PlayerMotor {
     if (
       this._currentState === PlayerStateType.Roll ||
       this._currentState === PlayerStateType.Backstep ||
-      this._currentState === PlayerStateType.HitStun
+      this._currentState === PlayerStateType.HitStun ||
+      KNOCKDOWN_STATES.has(this._currentState)
     ) {
       return;
     }
@@ -398,6 +453,7 @@ export class PlayerMotor {
    */
   teleport(position: THREE.Vector3): void {
     this.kcc.teleport(position);
+    this._knockback.clear();
   }
 
   /**
@@ -25,12 +25,18 @@ export enum PlayerStateType {
   Backstep = 'Backstep',
   AttackLight = 'AttackLight',
   AttackHeavy = 'AttackHeavy',
+  CriticalAttack = 'CriticalAttack',
   Guard = 'Guard',
+  GuardHit = 'GuardHit',
   GuardBreak = 'GuardBreak',
   Parry = 'Parry',
   HitStun = 'HitStun',
+  Knockdown = 'Knockdown',
+  GetUp = 'GetUp',
   Interacting = 'Interacting',
   UsingItem = 'UsingItem',
+  Casting = 'Casting',
+  CastRecovery = 'CastRecovery',
 
   // Airborne states
   Falling = 'Falling',
@@ -54,12 +60,18 @@ export const STATE_GROUPS: Record<PlayerStateType, PlayerStateGroup> = {
   [PlayerStateType.Backstep]: PlayerStateGroup.Grounded,
   [PlayerStateType.AttackLight]: PlayerStateGroup.Grounded,
   [PlayerStateType.AttackHeavy]: PlayerStateGroup.Grounded,
+  [PlayerStateType.CriticalAttack]: PlayerStateGroup.Grounded,
   [PlayerStateType.Guard]: PlayerStateGroup.Grounded,
+  [PlayerStateType.GuardHit]: PlayerStateGroup.Grounded,
   [PlayerStateType.GuardBreak]: PlayerStateGroup.Grounded,
   [PlayerStateType.Parry]: PlayerStateGroup.Grounded,
   [PlayerStateType.HitStun]: PlayerStateGroup.Grounded,
+  [PlayerStateType.Knockdown]: PlayerStateGroup.Grounded,
+  [PlayerStateType.GetUp]: PlayerStateGroup.Grounded,
   [PlayerStateType.Interacting]: PlayerStateGroup.Grounded,
   [PlayerStateType.UsingItem]: PlayerStateGroup.Grounded,
+  [PlayerStateType.Casting]: PlayerStateGroup.Grounded,
+  [PlayerStateType.CastRecovery]: PlayerStateGroup.Grounded,
   [PlayerStateType.Falling]: PlayerStateGroup.Airborne,
   [PlayerStateType.Landing]: PlayerStateGroup.Airborne,
   [PlayerStateType.PlungeAttack]: PlayerStateGroup.Airborne,
@@ -92,6 +104,15 @@ export const MOVEMENT_STATES: Set<PlayerStateType> = new Set([
 export const IFRAME_STATES: Set<PlayerStateType> = new Set([
   PlayerStateType.Roll,
   PlayerStateType.Backstep,
+  PlayerStateType.GetUp,
+]);
+
+/**
+ * Knocked-down states (on the ground until the get-up finishes)
+ */
+export const KNOCKDOWN_STATES: Set<PlayerStateType> = new Set([
+  PlayerStateType.Knockdown,
+  PlayerStateType.GetUp,
 ]);
 
 /**
@@ -128,12 +149,18 @@ export const STATE_ANIMATIONS: Record<PlayerStateType, string> = {
   [PlayerStateType.Backstep]: 'Backstep',
   [PlayerStateType.AttackLight]: 'Attack_Light_1',
   [PlayerStateType.AttackHeavy]: 'Attack_Heavy',
+  [PlayerStateType.CriticalAttack]: 'Riposte',
   [PlayerStateType.Guard]: 'Guard_Idle',
+  [PlayerStateType.GuardHit]: 'Guard_Hit',
   [PlayerStateType.GuardBreak]: 'Guard_Break',
   [PlayerStateType.Parry]: 'Parry',
   [PlayerStateType.HitStun]: 'Hit_React',
+  [PlayerStateType.Knockdown]: 'Knockdown',
+  [PlayerStateType.GetUp]: 'Get_Up',
   [PlayerStateType.Interacting]: 'Interact',
   [PlayerStateType.UsingItem]: 'Use_Item',
+  [PlayerStateType.Casting]: 'Cast',
+  [PlayerStateType.CastRecovery]: 'Cast_Release',
   [PlayerStateType.Falling]: 'Fall',
   [PlayerStateType.Landing]: 'Land',
   [PlayerStateType.PlungeAttack]: 'Plunge_Attack',
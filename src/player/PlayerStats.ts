@@ -4,12 +4,14 @@
  * Manages player resources:
  * - HP (Health Points)
  * - Stamina
+ * - FP (Focus Points, spent on spells; no regen, refilled at checkpoints)
  * - Poise (stagger resistance)
  *
  * Emits events for UI updates and game logic.
  */
 
 import { EventBus } from '../core/EventBus';
+import type { PlayerStatsSnapshot } from '../save/SaveData';
 
 /**
  * Stats configuration
@@ -25,6 +27,10 @@ export interface PlayerStatsConfig {
   staminaRegenRate?: number; // per second
   staminaRegenDelay?: number; // seconds after consumption
 
+  // FP
+  maxFP?: number;
+  currentFP?: number;
+
   // Poise
   maxPoise?: number;
   currentPoise?: number;
@@ -42,6 +48,8 @@ const DEFAULT_CONFIG: Required<PlayerStatsConfig> = {
   currentStamina: 100,
   staminaRegenRate: 45, // Regenerates fully in ~2.2 seconds
   staminaRegenDelay: 0.8, // Delay after stamina use
+  maxFP: 60,
+  currentFP: 60,
   maxPoise: 30,
   currentPoise: 30,
   poiseRegenRate: 15, // Regenerates fully in 2 seconds
@@ -71,6 +79,7 @@ export interface DamageInfo {
   source?: string;
   direction?: { x: number; y: number; z: number };
   poiseDamage?: number;
+  knockbackForce?: number;
 }
 
 /**
@@ -87,6 +96,11 @@ export class PlayerStats {
   private _staminaRegenRate: number;
   private _staminaRegenDelay: number;
   private _staminaRegenTimer: number = 0;
+  private _staminaRegenScale: number = 1; // Equip load multiplier
+
+  // FP
+  private _maxFP: number;
+  private _currentFP: number;
 
   // Poise
   private _maxPoise: number;
@@ -108,6 +122,8 @@ export class PlayerStats {
     this._currentStamina = merged.currentStamina;
     this._staminaRegenRate = merged.staminaRegenRate;
     this._staminaRegenDelay = merged.staminaRegenDelay;
+    this._maxFP = merged.maxFP;
+    this._currentFP = merged.currentFP;
     this._maxPoise = merged.maxPoise;
     this._currentPoise = merged.currentPoise;
     this._poiseRegenRate = merged.poiseRegenRate;
@@ -138,7 +154,7 @@ export class PlayerStats {
     if (this._currentStamina < this._maxStamina) {
       this._currentStamina = Math.min(
         this._maxStamina,
-        this._currentStamina + this._staminaRegenRate * dt
+        this._currentStamina + this._staminaRegenRate * this._staminaRegenScale * dt
       );
 
       EventBus.emit('player:staminaChanged', {
@@ -196,14 +212,10 @@ export class PlayerStats {
       this.takePoiseDamage(info.poiseDamage);
     }
 
-    // Check death
+    // Check death ('player:died' is emitted by Player, which knows the position)
     if (this._currentHP <= 0) {
       this._currentHP = 0;
       this._isDead = true;
-      EventBus.emit('player:died', {
-        cause: info.type,
-        source: info.source,
-      });
     }
 
     return true;
@@ -301,6 +313,41 @@ export class PlayerStats {
     this._staminaRegenTimer = 0;
   }
 
+  // ========== FP Methods ==========
+
+  /**
+   * Check if player has enough FP
+   */
+  hasFP(amount: number): boolean {
+    return this._currentFP >= amount;
+  }
+
+  /**
+   * Consume FP (unlike stamina, never goes negative)
+   *
+   * @returns true if consumed, false if insufficient
+   */
+  consumeFP(amount: number): boolean {
+    if (amount <= 0) return true;
+    if (!this.hasFP(amount)) return false;
+
+    this._currentFP -= amount;
+    this.emitFP();
+    return true;
+  }
+
+  /**
+   * Restore FP
+   */
+  restoreFP(amount: number): void {
+    this._currentFP = Math.min(this._maxFP, this._currentFP + amount);
+    this.emitFP();
+  }
+
+  private emitFP(): void {
+    EventBus.emit('player:fpChanged', { current: this._currentFP, max: this._maxFP });
+  }
+
   // ========== Poise Methods ==========
 
   /**
@@ -330,6 +377,55 @@ export class PlayerStats {
     this._isStaggered = false;
   }
 
+  /**
+   * Fully restore HP, stamina, FP and poise (resting at a checkpoint)
+   */
+  restore(): void {
+    if (this._isDead) return;
+
+    this._currentHP = this._maxHP;
+    this._currentStamina = this._maxStamina;
+    this._currentFP = this._maxFP;
+    this._currentPoise = this._maxPoise;
+    this._isStaggered = false;
+    this._staminaRegenTimer = 0;
+
+    EventBus.emit('player:healthChanged', { current: this._currentHP, max: this._maxHP });
+    EventBus.emit('player:staminaChanged', {
+      current: this._currentStamina,
+      max: this._maxStamina,
+    });
+    this.emitFP();
+  }
+
+  // ========== Maxima ==========
+
+  /**
+   * Set HP/stamina/poise maxima (derived from attributes)
+   * Raised maxima grant the difference; lowered ones clamp current values.
+   */
+  setMaxima(maxHP: number, maxStamina: number, maxPoise: number): void {
+    const hpGain = Math.max(0, maxHP - this._maxHP);
+    const staminaGain = Math.max(0, maxStamina - this._maxStamina);
+    const poiseGain = Math.max(0, maxPoise - this._maxPoise);
+
+    this.maxHP = maxHP;
+    this.maxStamina = maxStamina;
+    this.maxPoise = maxPoise;
+
+    if (!this._isDead) {
+      this._currentHP = Math.min(this._maxHP, this._currentHP + hpGain);
+    }
+    this._currentStamina = Math.min(this._maxStamina, this._currentStamina + staminaGain);
+    this._currentPoise = Math.min(this._maxPoise, this._currentPoise + poiseGain);
+
+    EventBus.emit('player:healthChanged', { current: this._currentHP, max: this._maxHP });
+    EventBus.emit('player:staminaChanged', {
+      current: this._currentStamina,
+      max: this._maxStamina,
+    });
+  }
+
   // ========== Respawn ==========
 
   /**
@@ -338,6 +434,7 @@ export class PlayerStats {
   respawn(): void {
     this._currentHP = this._maxHP;
     this._currentStamina = this._maxStamina;
+    this._currentFP = this._maxFP;
     this._currentPoise = this._maxPoise;
     this._isDead = false;
     this._isStaggered = false;
@@ -345,6 +442,48 @@ export class PlayerStats {
     this._poiseRegenTimer = 0;
 
     EventBus.emit('player:respawned', {});
+    this.emitFP();
+  }
+
+  // ========== Persistence ==========
+
+  /**
+   * Export persistent values (for save data)
+   */
+  export(): PlayerStatsSnapshot {
+    return {
+      maxHP: this._maxHP,
+      currentHP: this._currentHP,
+      maxStamina: this._maxStamina,
+      currentStamina: this._currentStamina,
+      maxFP: this._maxFP,
+      currentFP: this._currentFP,
+      maxPoise: this._maxPoise,
+    };
+  }
+
+  /**
+   * Import persistent values (from save data)
+   */
+  import(snapshot: PlayerStatsSnapshot): void {
+    this.maxHP = snapshot.maxHP;
+    this.maxStamina = snapshot.maxStamina;
+    this.maxPoise = snapshot.maxPoise;
+    this._currentHP = Math.max(1, Math.min(snapshot.currentHP, this._maxHP));
+    this._currentStamina = Math.min(snapshot.currentStamina, this._maxStamina);
+    if (snapshot.maxFP !== undefined) {
+      this.maxFP = snapshot.maxFP;
+    }
+    this._currentFP = Math.min(snapshot.currentFP ?? this._maxFP, this._maxFP);
+    this._currentPoise = this._maxPoise;
+    this._isDead = false;
+
+    EventBus.emit('player:healthChanged', { current: this._currentHP, max: this._maxHP });
+    EventBus.emit('player:staminaChanged', {
+      current: this._currentStamina,
+      max: this._maxStamina,
+    });
+    this.emitFP();
   }
 
   // ========== Getters ==========
@@ -380,6 +519,17 @@ export class PlayerStats {
     return this._currentStamina > 0;
   }
 
+  // FP
+  get currentFP(): number {
+    return this._currentFP;
+  }
+  get maxFP(): number {
+    return this._maxFP;
+  }
+  get fpPercent(): number {
+    return this._currentFP / this._maxFP;
+  }
+
   // Poise
   get currentPoise(): number {
     return this._currentPoise;
@@ -406,6 +556,11 @@ export class PlayerStats {
     this._currentStamina = Math.min(this._currentStamina, this._maxStamina);
   }
 
+  set maxFP(value: number) {
+    this._maxFP = Math.max(1, value);
+    this._currentFP = Math.min(this._currentFP, this._maxFP);
+  }
+
   set maxPoise(value: number) {
     this._maxPoise = Math.max(1, value);
     this._currentPoise = Math.min(this._currentPoise, this._maxPoise);
@@ -418,4 +573,11 @@ export class PlayerStats {
   set staminaRegenDelay(value: number) {
     this._staminaRegenDelay = Math.max(0, value);
   }
+
+  /**
+   * Stamina regen multiplier (equip load tier)
+   */
+  set staminaRegenScale(value: number) {
+    this._staminaRegenScale = Math.max(0, value);
+  }
 }
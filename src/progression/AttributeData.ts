@@ -0,0 +1,146 @@
+/**
+ * Attribute Data - Character attributes, scaling curves and level-up costs
+ *
+ * Attributes:
+ * - Vitality: max HP
+ * - Endurance: max stamina, max equip load
+ * - Strength: max poise, Strength weapon scaling
+ * - Dexterity: Dexterity weapon scaling
+ *
+ * Derived values come from piecewise-linear curves with soft caps, so early
+ * levels pay off more than late ones. Starting attributes reproduce the
+ * PlayerStats defaults (100 HP, 100 stamina, 30 poise).
+ */
+
+/**
+ * Character attributes
+ */
+export type Attribute = 'vitality' | 'endurance' | 'strength' | 'dexterity';
+
+export type AttributeSet = Record<Attribute, number>;
+
+export const ATTRIBUTES: readonly Attribute[] = ['vitality', 'endurance', 'strength', 'dexterity'];
+
+export const ATTRIBUTE_NAMES: Record<Attribute, string> = {
+  vitality: 'Vitality',
+  endurance: 'Endurance',
+  strength: 'Strength',
+  dexterity: 'Dexterity',
+};
+
+/**
+ * Attribute bounds
+ */
+export const MIN_ATTRIBUTE = 1;
+export const MAX_ATTRIBUTE = 99;
+
+/**
+ * Starting attributes (level 1)
+ */
+export const STARTING_ATTRIBUTES: AttributeSet = {
+  vitality: 10,
+  endurance: 10,
+  strength: 10,
+  dexterity: 10,
+};
+
+/**
+ * Scaling curve: [attribute, value] points, linearly interpolated
+ * (clamped to the first/last point outside the range)
+ */
+export type ScalingCurve = readonly (readonly [number, number])[];
+
+/**
+ * Max HP by Vitality
+ */
+export const HP_CURVE: ScalingCurve = [
+  [1, 64],
+  [10, 100],
+  [30, 240],
+  [50, 300],
+  [99, 340],
+];
+
+/**
+ * Max stamina by Endurance
+ */
+export const STAMINA_CURVE: ScalingCurve = [
+  [1, 82],
+  [10, 100],
+  [40, 160],
+  [99, 180],
+];
+
+/**
+ * Max equip load by Endurance
+ */
+export const EQUIP_LOAD_CURVE: ScalingCurve = [
+  [1, 40],
+  [10, 50],
+  [40, 90],
+  [99, 120],
+];
+
+/**
+ * Max poise by Strength
+ */
+export const POISE_CURVE: ScalingCurve = [
+  [1, 24],
+  [10, 30],
+  [40, 48],
+  [99, 56],
+];
+
+/**
+ * Weapon scaling points (0-100) by Strength/Dexterity
+ * Fed to the weapon scaling coefficients in WeaponData.
+ */
+export const WEAPON_SCALING_CURVE: ScalingCurve = [
+  [1, 0],
+  [10, 10],
+  [20, 35],
+  [40, 80],
+  [60, 92],
+  [99, 100],
+];
+
+/**
+ * Level-up cost growth
+ */
+const LEVEL_COST_BASE = 400;
+const LEVEL_COST_GROWTH = 1.1;
+
+/**
+ * Evaluate a scaling curve
+ */
+export function evaluateCurve(curve: ScalingCurve, attribute: number): number {
+  if (attribute <= curve[0][0]) return curve[0][1];
+
+  for (let i = 1; i < curve.length; i++) {
+    const [x1, y1] = curve[i];
+    if (attribute <= x1) {
+      const [x0, y0] = curve[i - 1];
+      return y0 + ((y1 - y0) * (attribute - x0)) / (x1 - x0);
+    }
+  }
+
+  return curve[curve.length - 1][1];
+}
+
+/**
+ * Character level from attributes (level 1 at STARTING_ATTRIBUTES)
+ */
+export function getLevel(attributes: AttributeSet): number {
+  let level = 1;
+  for (const attribute of ATTRIBUTES) {
+    level += attributes[attribute] - STARTING_ATTRIBUTES[attribute];
+  }
+  return level;
+}
+
+/**
+ * Souls needed to go from a level to the next
+ */
+export function getLevelUpCost(level: number): number {
+  return Math.round(LEVEL_COST_BASE * Math.pow(LEVEL_COST_GROWTH, Math.max(0, level - 1)));
+}
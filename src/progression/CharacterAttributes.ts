@@ -0,0 +1,173 @@
+/**
+ * Character Attributes - Attribute levels and the stats derived from them
+ *
+ * Usage:
+ * - const attributes = new CharacterAttributes(entityId)
+ * - attributes.onChange(() => ...) to re-apply derived stats
+ * - attributes.increase('vitality') after paying attributes.levelUpCost
+ * - attributes.derived for max HP/stamina/poise/equip load, attributes.weaponScaling for Equipment
+ *
+ * Emits 'attributes:changed' when a level changes.
+ */
+
+import { EventBus } from '../core/EventBus';
+import type { ScalingAttribute } from '../equipment/WeaponData';
+import type { AttributesSnapshot } from '../save/SaveData';
+import {
+  Attribute,
+  AttributeSet,
+  ATTRIBUTES,
+  MIN_ATTRIBUTE,
+  MAX_ATTRIBUTE,
+  STARTING_ATTRIBUTES,
+  HP_CURVE,
+  STAMINA_CURVE,
+  EQUIP_LOAD_CURVE,
+  POISE_CURVE,
+  WEAPON_SCALING_CURVE,
+  evaluateCurve,
+  getLevel,
+  getLevelUpCost,
+} from './AttributeData';
+
+/**
+ * Stat maxima derived from attributes
+ */
+export interface DerivedStats {
+  maxHP: number;
+  maxStamina: number;
+  maxPoise: number;
+  maxEquipLoad: number;
+}
+
+/**
+ * Character Attributes class
+ */
+export class CharacterAttributes {
+  private values: AttributeSet;
+  private listeners: Set<() => void> = new Set();
+
+  constructor(
+    private readonly entityId: string,
+    initial: Partial<AttributeSet> = {}
+  ) {
+    this.values = { ...STARTING_ATTRIBUTES };
+    for (const attribute of ATTRIBUTES) {
+      this.values[attribute] = this.clamp(initial[attribute] ?? STARTING_ATTRIBUTES[attribute]);
+    }
+  }
+
+  // ========== Levels ==========
+
+  /**
+   * Get an attribute level
+   */
+  get(attribute: Attribute): number {
+    return this.values[attribute];
+  }
+
+  /**
+   * Character level
+   */
+  get level(): number {
+    return getLevel(this.values);
+  }
+
+  /**
+   * Souls needed for the next level
+   */
+  get levelUpCost(): number {
+    return getLevelUpCost(this.level);
+  }
+
+  /**
+   * Check if an attribute can still be raised
+   */
+  canIncrease(attribute: Attribute): boolean {
+    return this.values[attribute] < MAX_ATTRIBUTE;
+  }
+
+  /**
+   * Raise an attribute by one level (the caller pays levelUpCost first)
+   *
+   * @returns false if the attribute is already maxed
+   */
+  increase(attribute: Attribute): boolean {
+    if (!this.canIncrease(attribute)) return false;
+
+    this.values[attribute]++;
+    this.notifyChanged();
+    return true;
+  }
+
+  /**
+   * Listen for attribute changes
+   *
+   * @returns Unsubscribe function
+   */
+  onChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  // ========== Derived Values ==========
+
+  /**
+   * Stat maxima from Vitality/Endurance/Strength (Endurance also sets the equip load)
+   */
+  get derived(): DerivedStats {
+    return {
+      maxHP: Math.round(evaluateCurve(HP_CURVE, this.values.vitality)),
+      maxStamina: Math.round(evaluateCurve(STAMINA_CURVE, this.values.endurance)),
+      maxPoise: Math.round(evaluateCurve(POISE_CURVE, this.values.strength)),
+      maxEquipLoad: evaluateCurve(EQUIP_LOAD_CURVE, this.values.endurance),
+    };
+  }
+
+  /**
+   * Weapon scaling points for Equipment.setAttributes
+   */
+  get weaponScaling(): Record<ScalingAttribute, number> {
+    return {
+      strength: evaluateCurve(WEAPON_SCALING_CURVE, this.values.strength),
+      dexterity: evaluateCurve(WEAPON_SCALING_CURVE, this.values.dexterity),
+    };
+  }
+
+  // ========== Persistence ==========
+
+  /**
+   * Export attribute levels
+   */
+  export(): AttributesSnapshot {
+    return { ...this.values };
+  }
+
+  /**
+   * Import attribute levels (missing attributes keep their starting value)
+   */
+  import(snapshot: AttributesSnapshot): void {
+    for (const attribute of ATTRIBUTES) {
+      this.values[attribute] = this.clamp(snapshot[attribute] ?? STARTING_ATTRIBUTES[attribute]);
+    }
+    this.notifyChanged();
+  }
+
+  // ========== Private Methods ==========
+
+  private clamp(value: number): number {
+    return Math.max(MIN_ATTRIBUTE, Math.min(MAX_ATTRIBUTE, Math.floor(value)));
+  }
+
+  private notifyChanged(): void {
+    for (const listener of this.listeners) {
+      listener();
+    }
+
+    EventBus.emit('attributes:changed', {
+      entityId: this.entityId,
+      level: this.level,
+      attributes: { ...this.values },
+    });
+  }
+}
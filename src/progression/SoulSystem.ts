@@ -0,0 +1,272 @@
+/**
+ * Soul System - Souls currency, death drops and bloodstain retrieval
+ *
+ * Features:
+ * - Per-entity soul wallets (holders)
+ * - Kill rewards: a victim's soulValue goes to its killer (DamageSystem death listener)
+ * - Bloodstains: dying drops all carried souls at the death position
+ * - Retrieval: touching the bloodstain trigger restores the dropped souls
+ * - Dying again before retrieval loses the previous bloodstain for good
+ *
+ * Usage:
+ * - SoulSystem.registerHolder(playerId)
+ * - SoulSystem.dropBloodstain(playerId, position) on death
+ * - SoulSystem.spend(playerId, cost) for purchases / leveling
+ *
+ * Events emitted:
+ * - 'souls:changed' when a wallet changes
+ * - 'souls:bloodstainDropped' / 'souls:retrieved' / 'souls:lost'
+ */
+
+import * as THREE from 'three';
+import { EventBus } from '../core/EventBus';
+import { DamageSystem, EntityCombatState } from '../combat/DamageSystem';
+import { TriggerManager, TriggerShape } from '../level/TriggerVolume';
+import type { SoulsSnapshot } from '../save/SaveData';
+
+/**
+ * Bloodstain trigger radius
+ */
+const BLOODSTAIN_RADIUS = 1.0;
+
+/**
+ * Dropped souls waiting to be retrieved
+ */
+export interface Bloodstain {
+  souls: number;
+  position: THREE.Vector3;
+}
+
+/**
+ * Soul holder state
+ */
+interface SoulHolder {
+  souls: number;
+  bloodstain: Bloodstain | null;
+}
+
+/**
+ * Soul System class
+ */
+class SoulSystemManager {
+  // Wallets by entity ID
+  private holders: Map<string, SoulHolder> = new Map();
+
+  constructor() {
+    DamageSystem.onDeath(this.onEntityDeath.bind(this));
+  }
+
+  // ========== Wallets ==========
+
+  /**
+   * Register an entity that can carry souls
+   */
+  registerHolder(entityId: string, souls: number = 0): void {
+    if (this.holders.has(entityId)) return;
+
+    this.holders.set(entityId, { souls: Math.max(0, souls), bloodstain: null });
+    this.emitChanged(entityId, 0);
+  }
+
+  /**
+   * Get carried souls
+   */
+  getSouls(entityId: string): number {
+    return this.holders.get(entityId)?.souls ?? 0;
+  }
+
+  /**
+   * Add souls to a holder
+   */
+  add(entityId: string, amount: number): void {
+    const holder = this.holders.get(entityId);
+    if (!holder || amount <= 0) return;
+
+    holder.souls += Math.floor(amount);
+    this.emitChanged(entityId, Math.floor(amount));
+  }
+
+  /**
+   * Spend souls
+   *
+   * @returns false if the holder cannot afford it
+   */
+  spend(entityId: string, amount: number): boolean {
+    const holder = this.holders.get(entityId);
+    if (!holder || amount < 0 || holder.souls < amount) return false;
+
+    holder.souls -= amount;
+    this.emitChanged(entityId, -amount);
+    return true;
+  }
+
+  // ========== Bloodstains ==========
+
+  /**
+   * Drop all carried souls at a position (on death)
+   * Any earlier bloodstain of the holder is lost.
+   */
+  dropBloodstain(entityId: string, position: THREE.Vector3): void {
+    const holder = this.holders.get(entityId);
+    if (!holder) return;
+
+    if (holder.bloodstain) {
+      const lost = holder.bloodstain.souls;
+      this.removeBloodstain(entityId);
+      EventBus.emit('souls:lost', { entityId, souls: lost });
+    }
+
+    if (holder.souls <= 0) return;
+
+    const dropped = holder.souls;
+    holder.souls = 0;
+    this.emitChanged(entityId, -dropped);
+
+    this.placeBloodstain(entityId, { souls: dropped, position: position.clone() });
+  }
+
+  /**
+   * Get a holder's bloodstain
+   */
+  getBloodstain(entityId: string): Readonly<Bloodstain> | null {
+    return this.holders.get(entityId)?.bloodstain ?? null;
+  }
+
+  // ========== Persistence ==========
+
+  /**
+   * Export a holder's souls and bloodstain (for save data)
+   */
+  export(entityId: string): SoulsSnapshot | null {
+    const holder = this.holders.get(entityId);
+    if (!holder) return null;
+
+    const stain = holder.bloodstain;
+    return {
+      souls: holder.souls,
+      bloodstain: stain
+        ? {
+            souls: stain.souls,
+            position: { x: stain.position.x, y: stain.position.y, z: stain.position.z },
+          }
+        : null,
+    };
+  }
+
+  /**
+   * Import a holder's souls and bloodstain (from save data)
+   */
+  import(entityId: string, snapshot: SoulsSnapshot): void {
+    this.registerHolder(entityId);
+    const holder = this.holders.get(entityId)!;
+
+    this.removeBloodstain(entityId);
+    const delta = snapshot.souls - holder.souls;
+    holder.souls = Math.max(0, snapshot.souls);
+    this.emitChanged(entityId, delta);
+
+    if (snapshot.bloodstain && snapshot.bloodstain.souls > 0) {
+      const { x, y, z } = snapshot.bloodstain.position;
+      this.placeBloodstain(entityId, {
+        souls: snapshot.bloodstain.souls,
+        position: new THREE.Vector3(x, y, z),
+      });
+    }
+  }
+
+  /**
+   * Remove a holder (and its bloodstain trigger)
+   */
+  removeHolder(entityId: string): void {
+    this.removeBloodstain(entityId);
+    this.holders.delete(entityId);
+  }
+
+  /**
+   * Clear all holders
+   */
+  clear(): void {
+    for (const entityId of [...this.holders.keys()]) {
+      this.removeHolder(entityId);
+    }
+  }
+
+  // ========== Private Methods ==========
+
+  /**
+   * Award the victim's soul value to its killer
+   */
+  private onEntityDeath(victim: EntityCombatState, killerEntityId: string): void {
+    if (!victim.soulValue || victim.entityId === killerEntityId) return;
+    this.add(killerEntityId, victim.soulValue);
+  }
+
+  private placeBloodstain(entityId: string, bloodstain: Bloodstain): void {
+    const holder = this.holders.get(entityId);
+    if (!holder) return;
+
+    holder.bloodstain = bloodstain;
+
+    const trigger = TriggerManager.create(
+      {
+        id: this.getTriggerId(entityId),
+        position: bloodstain.position.clone(),
+        shape: TriggerShape.Sphere,
+        radius: BLOODSTAIN_RADIUS,
+        oneShot: false,
+      },
+      {
+        onEnter: (enteringId) => {
+          if (enteringId === entityId) {
+            this.retrieve(entityId);
+          }
+        },
+      }
+    );
+    trigger.spawn();
+
+    const { x, y, z } = bloodstain.position;
+    EventBus.emit('souls:bloodstainDropped', {
+      entityId,
+      souls: bloodstain.souls,
+      position: { x, y, z },
+    });
+  }
+
+  /**
+   * Restore bloodstain souls (owner touched the stain)
+   */
+  private retrieve(entityId: string): void {
+    const holder = this.holders.get(entityId);
+    const stain = holder?.bloodstain;
+    if (!holder || !stain) return;
+
+    // The corpse lies inside its own stain until respawn
+    if (DamageSystem.getEntityState(entityId)?.isDead) return;
+
+    this.removeBloodstain(entityId);
+    holder.souls += stain.souls;
+    this.emitChanged(entityId, stain.souls);
+
+    EventBus.emit('souls:retrieved', { entityId, souls: stain.souls });
+  }
+
+  private removeBloodstain(entityId: string): void {
+    const holder = this.holders.get(entityId);
+    if (!holder?.bloodstain) return;
+
+    holder.bloodstain = null;
+    TriggerManager.remove(this.getTriggerId(entityId));
+  }
+
+  private getTriggerId(entityId: string): string {
+    return `bloodstain_${entityId}`;
+  }
+
+  private emitChanged(entityId: string, delta: number): void {
+    EventBus.emit('souls:changed', { entityId, souls: this.getSouls(entityId), delta });
+  }
+}
+
+// Singleton instance
+export const SoulSystem = new SoulSystemManager();
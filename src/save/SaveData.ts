@@ -0,0 +1,209 @@
+/**
+ * SaveData - Versioned save-game format and schema migrations
+ *
+ * Version history:
+ * - v1: flags only (the flat Record<string, boolean> written by GameFlags.saveToStorage)
+ * - v2: checkpoint, player stats, boss defeats, spawner states, play time
+ * - v3: player inventory
+ * - v4: carried souls and bloodstain
+ * - v5: character attributes
+ * - v6: player FP and spell attunement
+ *
+ * Adding a version:
+ * 1. Bump SAVE_VERSION and extend SaveData
+ * 2. Register a migration from the previous version in SAVE_MIGRATIONS
+ */
+
+/**
+ * Current save format version
+ */
+export const SAVE_VERSION = 6;
+
+/**
+ * Player stats snapshot
+ */
+export interface PlayerStatsSnapshot {
+  maxHP: number;
+  currentHP: number;
+  maxStamina: number;
+  currentStamina: number;
+  maxFP?: number; // v6+ (missing = default max, full)
+  currentFP?: number;
+  maxPoise: number;
+}
+
+/**
+ * Attribute levels by attribute name
+ */
+export type AttributesSnapshot = Record<string, number>;
+
+/**
+ * Inventory snapshot
+ */
+export interface InventorySnapshot {
+  items: Record<string, number>;
+  quickSlots: string[];
+  activeSlot: number;
+}
+
+/**
+ * Attunement snapshot (learned and attuned spells)
+ */
+export interface AttunementSnapshot {
+  known: string[];
+  attuned: string[];
+  activeSlot: number;
+}
+
+/**
+ * Souls snapshot (carried souls and unretrieved bloodstain)
+ */
+export interface SoulsSnapshot {
+  souls: number;
+  bloodstain: { souls: number; position: { x: number; y: number; z: number } } | null;
+}
+
+/**
+ * Persisted spawner state
+ */
+export interface SpawnerSaveState {
+  spawned: boolean;
+  cleared: boolean;
+}
+
+/**
+ * Complete save data (current version)
+ */
+export interface SaveData {
+  version: number;
+
+  // Metadata
+  savedAt: number; // Unix ms
+  playTime: number; // seconds
+
+  // World state
+  levelId: string;
+  flags: Record<string, boolean>;
+  lastCheckpoint: string | null;
+  defeatedBosses: string[];
+  spawners: Record<string, SpawnerSaveState>;
+
+  // Player
+  playerStats: PlayerStatsSnapshot | null;
+  attributes: AttributesSnapshot | null;
+  inventory: InventorySnapshot | null;
+  souls: SoulsSnapshot | null;
+  attunement: AttunementSnapshot | null;
+}
+
+/**
+ * Raw (possibly outdated) save data
+ */
+export type RawSaveData = { version?: number } & Record<string, unknown>;
+
+/**
+ * Migration from version N to N + 1
+ */
+export type SaveMigration = (data: RawSaveData) => RawSaveData;
+
+/**
+ * Migrations keyed by source version
+ */
+export const SAVE_MIGRATIONS: Record<number, SaveMigration> = {
+  // v1 -> v2: flags-only saves gain the full world/player state
+  1: (data) => ({
+    ...data,
+    version: 2,
+    savedAt: Date.now(),
+    playTime: 0,
+    levelId: 'tutorial',
+    lastCheckpoint: null,
+    defeatedBosses: data.flags && (data.flags as Record<string, boolean>)['boss_defeated']
+      ? ['boss_tutorial']
+      : [],
+    spawners: {},
+    playerStats: null,
+  }),
+
+  // v2 -> v3: inventory (null keeps the starting items)
+  2: (data) => ({
+    ...data,
+    version: 3,
+    inventory: null,
+  }),
+
+  // v3 -> v4: souls (null = none carried)
+  3: (data) => ({
+    ...data,
+    version: 4,
+    souls: null,
+  }),
+
+  // v4 -> v5: attributes (null keeps the starting attributes)
+  4: (data) => ({
+    ...data,
+    version: 5,
+    attributes: null,
+  }),
+
+  // v5 -> v6: attunement (null keeps the starting spells; stats without FP start full)
+  5: (data) => ({
+    ...data,
+    version: 6,
+    attunement: null,
+  }),
+};
+
+/**
+ * Create an empty save (new game)
+ */
+export function createEmptySave(levelId: string = 'tutorial'): SaveData {
+  return {
+    version: SAVE_VERSION,
+    savedAt: Date.now(),
+    playTime: 0,
+    levelId,
+    flags: {},
+    lastCheckpoint: null,
+    defeatedBosses: [],
+    spawners: {},
+    playerStats: null,
+    attributes: null,
+    inventory: null,
+    souls: null,
+    attunement: null,
+  };
+}
+
+/**
+ * Wrap legacy GameFlags storage (unversioned flag record) as a v1 save
+ */
+export function fromLegacyFlags(flags: Record<string, boolean>): RawSaveData {
+  return { version: 1, flags };
+}
+
+/**
+ * Migrate raw save data to the current version
+ *
+ * @throws Error if the data is newer than this build or a migration is missing
+ */
+export function migrateSave(raw: RawSaveData): SaveData {
+  // Unversioned data is the legacy flag record
+  let data: RawSaveData = raw.version === undefined
+    ? fromLegacyFlags(raw as Record<string, boolean>)
+    : raw;
+
+  if (data.version! > SAVE_VERSION) {
+    throw new Error(`Save version ${data.version} is newer than supported ${SAVE_VERSION}`);
+  }
+
+  while (data.version! < SAVE_VERSION) {
+    const migration = SAVE_MIGRATIONS[data.version!];
+    if (!migration) {
+      throw new Error(`No save migration from version ${data.version}`);
+    }
+    data = migration(data);
+  }
+
+  return data as unknown as SaveData;
+}
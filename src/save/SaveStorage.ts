@@ -0,0 +1,202 @@
+/**
+ * SaveStorage - Pluggable storage backends for save data
+ *
+ * Usage:
+ * - SaveSystem.init(new LocalStorageBackend()) for browser builds
+ * - IndexedDBBackend for larger saves / async persistence
+ * - MemoryStorageBackend for headless runs and debugging
+ *
+ * All backends store opaque strings by key; serialization and
+ * versioning are handled by SaveSystem.
+ */
+
+/**
+ * Storage backend interface
+ */
+export interface SaveStorageBackend {
+  /** Backend name (for logging) */
+  readonly name: string;
+
+  /** Read a value (null if missing) */
+  read(key: string): Promise<string | null>;
+
+  /** Write a value */
+  write(key: string, value: string): Promise<void>;
+
+  /** Remove a value */
+  remove(key: string): Promise<void>;
+
+  /** List all keys starting with prefix */
+  keys(prefix?: string): Promise<string[]>;
+}
+
+// ========== localStorage ==========
+
+/**
+ * localStorage backend (synchronous under the hood)
+ */
+export class LocalStorageBackend implements SaveStorageBackend {
+  readonly name = 'localStorage';
+
+  /**
+   * Check if localStorage is usable in this environment
+   */
+  static isAvailable(): boolean {
+    try {
+      return typeof localStorage !== 'undefined' && localStorage !== null;
+    } catch {
+      return false;
+    }
+  }
+
+  async read(key: string): Promise<string | null> {
+    return localStorage.getItem(key);
+  }
+
+  async write(key: string, value: string): Promise<void> {
+    localStorage.setItem(key, value);
+  }
+
+  async remove(key: string): Promise<void> {
+    localStorage.removeItem(key);
+  }
+
+  async keys(prefix: string = ''): Promise<string[]> {
+    const result: string[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key !== null && key.startsWith(prefix)) {
+        result.push(key);
+      }
+    }
+    return result;
+  }
+}
+
+// ========== IndexedDB ==========
+
+/**
+ * IndexedDB backend (single object store, key -> string)
+ */
+export class IndexedDBBackend implements SaveStorageBackend {
+  readonly name = 'indexedDB';
+
+  private dbName: string;
+  private storeName: string;
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(dbName: string = 'darksouls', storeName: string = 'saves') {
+    this.dbName = dbName;
+    this.storeName = storeName;
+  }
+
+  /**
+   * Check if IndexedDB is usable in this environment
+   */
+  static isAvailable(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  async read(key: string): Promise<string | null> {
+    const result = await this.request<unknown>('readonly', (store) => store.get(key));
+    return typeof result === 'string' ? result : null;
+  }
+
+  async write(key: string, value: string): Promise<void> {
+    await this.request('readwrite', (store) => store.put(value, key));
+  }
+
+  async remove(key: string): Promise<void> {
+    await this.request('readwrite', (store) => store.delete(key));
+  }
+
+  async keys(prefix: string = ''): Promise<string[]> {
+    const result = await this.request<IDBValidKey[]>('readonly', (store) => store.getAllKeys());
+    return result.map(String).filter((key) => key.startsWith(prefix));
+  }
+
+  /**
+   * Open (or reuse) the database connection
+   */
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, 1);
+
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(this.storeName)) {
+            db.createObjectStore(this.storeName);
+          }
+        };
+
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+
+    return this.dbPromise;
+  }
+
+  /**
+   * Run a single request against the object store
+   */
+  private async request<T>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    const db = await this.open();
+
+    return new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(this.storeName, mode);
+      const request = run(transaction.objectStore(this.storeName));
+
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+// ========== In-memory ==========
+
+/**
+ * In-memory backend (no persistence across reloads)
+ */
+export class MemoryStorageBackend implements SaveStorageBackend {
+  readonly name = 'memory';
+
+  private data: Map<string, string> = new Map();
+
+  async read(key: string): Promise<string | null> {
+    return this.data.get(key) ?? null;
+  }
+
+  async write(key: string, value: string): Promise<void> {
+    this.data.set(key, value);
+  }
+
+  async remove(key: string): Promise<void> {
+    this.data.delete(key);
+  }
+
+  async keys(prefix: string = ''): Promise<string[]> {
+    return [...this.data.keys()].filter((key) => key.startsWith(prefix));
+  }
+
+  /**
+   * Remove everything (useful between headless runs)
+   */
+  clear(): void {
+    this.data.clear();
+  }
+}
+
+/**
+ * Pick the best available backend for the current environment
+ */
+export function createDefaultBackend(): SaveStorageBackend {
+  if (LocalStorageBackend.isAvailable()) {
+    return new LocalStorageBackend();
+  }
+  return new MemoryStorageBackend();
+}
@@ -0,0 +1,434 @@
+/**
+ * SaveSystem - Save slots, persistence and restore
+ *
+ * Usage:
+ * - await SaveSystem.init() once at startup (optionally with a backend)
+ * - await SaveSystem.loadActiveSlot() to restore progress
+ * - await SaveSystem.save() at checkpoints / boss defeats
+ * - SaveSystem.update(dt) during gameplay to accumulate play time
+ *
+ * Captured state:
+ * - GameFlags
+ * - Last rested checkpoint
+ * - PlayerStats values
+ * - Character attributes
+ * - Player inventory
+ * - Known and attuned spells
+ * - Carried souls and bloodstain
+ * - Boss defeat state
+ * - LevelLoader spawner states
+ * - Play time
+ *
+ * Events emitted:
+ * - 'save:written' after a slot is written
+ * - 'save:loaded' after a slot is restored
+ */
+
+import { EventBus } from '../core/EventBus';
+import { GameFlags } from '../level/GameFlags';
+import { LevelLoader } from '../level/LevelLoader';
+import type { PlayerStats } from '../player/PlayerStats';
+import type { Inventory } from '../items/Inventory';
+import type { Attunement } from '../magic/Attunement';
+import type { CharacterAttributes } from '../progression/CharacterAttributes';
+import { SoulSystem } from '../progression/SoulSystem';
+import {
+  SaveData,
+  RawSaveData,
+  createEmptySave,
+  fromLegacyFlags,
+  migrateSave,
+} from './SaveData';
+import { SaveStorageBackend, createDefaultBackend } from './SaveStorage';
+
+/**
+ * Number of save slots
+ */
+export const SAVE_SLOT_COUNT = 3;
+
+/**
+ * Storage keys
+ */
+const SLOT_KEY_PREFIX = 'darksouls_save_';
+const ACTIVE_SLOT_KEY = 'darksouls_active_slot';
+
+/**
+ * Slot summary (for slot selection UI)
+ */
+export interface SaveSlotInfo {
+  slot: number;
+  exists: boolean;
+  savedAt?: number;
+  playTime?: number;
+  lastCheckpoint?: string | null;
+}
+
+/**
+ * SaveSystem class
+ */
+class SaveSystemManager {
+  private backend: SaveStorageBackend | null = null;
+  private activeSlot: number = 0;
+
+  // In-memory state of the active slot
+  private current: SaveData = createEmptySave();
+
+  // Live player stats to capture on save
+  private playerStats: PlayerStats | null = null;
+  private attributes: CharacterAttributes | null = null;
+  private inventory: Inventory | null = null;
+  private attunement: Attunement | null = null;
+  private soulHolderId: string | null = null;
+
+  /**
+   * Initialize with a storage backend
+   */
+  async init(backend?: SaveStorageBackend): Promise<void> {
+    this.backend = backend ?? createDefaultBackend();
+
+    // Restore last used slot
+    const stored = await this.backend.read(ACTIVE_SLOT_KEY);
+    const slot = stored !== null ? parseInt(stored, 10) : 0;
+    this.activeSlot = this.isValidSlot(slot) ? slot : 0;
+
+    console.log(`[SaveSystem] Initialized (${this.backend.name}, slot ${this.activeSlot})`);
+  }
+
+  // ========== Slots ==========
+
+  /**
+   * Get the active slot index
+   */
+  getActiveSlot(): number {
+    return this.activeSlot;
+  }
+
+  /**
+   * Switch the active slot (does not load it)
+   */
+  async setActiveSlot(slot: number): Promise<void> {
+    if (!this.isValidSlot(slot)) {
+      throw new Error(`[SaveSystem] Invalid slot: ${slot}`);
+    }
+
+    this.activeSlot = slot;
+    await this.getBackend().write(ACTIVE_SLOT_KEY, String(slot));
+  }
+
+  /**
+   * List all slots with summary info
+   */
+  async listSlots(): Promise<SaveSlotInfo[]> {
+    const result: SaveSlotInfo[] = [];
+
+    for (let slot = 0; slot < SAVE_SLOT_COUNT; slot++) {
+      const data = await this.readSlot(slot);
+      result.push(
+        data
+          ? {
+              slot,
+              exists: true,
+              savedAt: data.savedAt,
+              playTime: data.playTime,
+              lastCheckpoint: data.lastCheckpoint,
+            }
+          : { slot, exists: false }
+      );
+    }
+
+    return result;
+  }
+
+  /**
+   * Delete a slot
+   */
+  async deleteSlot(slot: number): Promise<void> {
+    if (!this.isValidSlot(slot)) return;
+
+    await this.getBackend().remove(this.slotKey(slot));
+  }
+
+  // ========== Save / Load ==========
+
+  /**
+   * Capture the current game state and write it to a slot
+   */
+  async save(slot: number = this.activeSlot): Promise<boolean> {
+    if (!this.isValidSlot(slot)) {
+      console.error(`[SaveSystem] Invalid slot: ${slot}`);
+      return false;
+    }
+
+    const data = this.capture();
+
+    try {
+      await this.getBackend().write(this.slotKey(slot), JSON.stringify(data));
+
+      // Adopt the capture, keeping progress recorded while the write was pending
+      this.current = {
+        ...data,
+        lastCheckpoint: this.current.lastCheckpoint,
+        defeatedBosses: this.current.defeatedBosses,
+        playTime: this.current.playTime,
+      };
+      EventBus.emit('save:written', { slot });
+      return true;
+    } catch (error) {
+      console.error('[SaveSystem] Failed to save:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Load and apply the active slot
+   *
+   * Falls back to legacy GameFlags storage when the slot is empty.
+   * @returns true if a save was restored
+   */
+  async loadActiveSlot(): Promise<boolean> {
+    return this.load(this.activeSlot);
+  }
+
+  /**
+   * Load and apply a slot
+   * @returns true if a save was restored
+   */
+  async load(slot: number): Promise<boolean> {
+    if (!this.isValidSlot(slot)) {
+      console.error(`[SaveSystem] Invalid slot: ${slot}`);
+      return false;
+    }
+
+    let data = await this.readSlot(slot);
+
+    // Migrate legacy flags-only storage into the first slot
+    if (!data && slot === 0 && GameFlags.loadFromStorage()) {
+      data = migrateSave(fromLegacyFlags(GameFlags.export()));
+      await this.getBackend().write(this.slotKey(slot), JSON.stringify(data));
+      GameFlags.clearStorage();
+      console.log('[SaveSystem] Migrated legacy flag storage');
+    }
+
+    if (!data) {
+      this.current = createEmptySave();
+      return false;
+    }
+
+    this.apply(data);
+    EventBus.emit('save:loaded', { slot });
+    return true;
+  }
+
+  /**
+   * Start a new game in the active slot (discards existing progress)
+   */
+  async startNewGame(): Promise<void> {
+    await this.deleteSlot(this.activeSlot);
+    this.apply(createEmptySave());
+  }
+
+  /**
+   * Read and migrate a slot without applying it
+   */
+  async readSlot(slot: number): Promise<SaveData | null> {
+    try {
+      const json = await this.getBackend().read(this.slotKey(slot));
+      if (!json) return null;
+
+      return migrateSave(JSON.parse(json) as RawSaveData);
+    } catch (error) {
+      console.error(`[SaveSystem] Failed to read slot ${slot}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Build save data from live game state
+   */
+  capture(): SaveData {
+    return {
+      ...this.current,
+      savedAt: Date.now(),
+      levelId: LevelLoader.getCurrentLevel()?.id ?? this.current.levelId,
+      flags: GameFlags.export(),
+      defeatedBosses: [...this.current.defeatedBosses],
+      spawners: LevelLoader.exportSpawnerStates(),
+      playerStats: this.playerStats ? this.playerStats.export() : this.current.playerStats,
+      attributes: this.attributes ? this.attributes.export() : this.current.attributes,
+      inventory: this.inventory ? this.inventory.export() : this.current.inventory,
+      attunement: this.attunement ? this.attunement.export() : this.current.attunement,
+      souls: this.soulHolderId ? SoulSystem.export(this.soulHolderId) : this.current.souls,
+    };
+  }
+
+  /**
+   * Apply save data to game systems
+   */
+  private apply(data: SaveData): void {
+    this.current = data;
+
+    GameFlags.import(data.flags);
+    LevelLoader.importSpawnerStates(data.spawners);
+
+    // Attributes first: they set the stat maxima the saved stats are clamped to
+    if (this.attributes && data.attributes) {
+      this.attributes.import(data.attributes);
+    }
+
+    if (this.playerStats && data.playerStats) {
+      this.playerStats.import(data.playerStats);
+    }
+
+    if (this.inventory && data.inventory) {
+      this.inventory.import(data.inventory);
+    }
+
+    if (this.attunement && data.attunement) {
+      this.attunement.import(data.attunement);
+    }
+
+    if (this.soulHolderId && data.souls) {
+      SoulSystem.import(this.soulHolderId, data.souls);
+    }
+  }
+
+  // ========== Live State ==========
+
+  /**
+   * Bind live player stats (captured on save, restored on bind)
+   */
+  bindPlayerStats(stats: PlayerStats | null): void {
+    this.playerStats = stats;
+
+    if (stats && this.current.playerStats) {
+      stats.import(this.current.playerStats);
+    }
+  }
+
+  /**
+   * Bind live character attributes (captured on save, restored on bind)
+   * Bind before the player stats.
+   */
+  bindAttributes(attributes: CharacterAttributes | null): void {
+    this.attributes = attributes;
+
+    if (attributes && this.current.attributes) {
+      attributes.import(this.current.attributes);
+    }
+  }
+
+  /**
+   * Bind the live player inventory (captured on save, restored on bind)
+   */
+  bindInventory(inventory: Inventory | null): void {
+    this.inventory = inventory;
+
+    if (inventory && this.current.inventory) {
+      inventory.import(this.current.inventory);
+    }
+  }
+
+  /**
+   * Bind the live player attunement (captured on save, restored on bind)
+   */
+  bindAttunement(attunement: Attunement | null): void {
+    this.attunement = attunement;
+
+    if (attunement && this.current.attunement) {
+      attunement.import(this.current.attunement);
+    }
+  }
+
+  /**
+   * Bind the soul holder whose souls are saved (restored on bind)
+   */
+  bindSoulHolder(entityId: string | null): void {
+    this.soulHolderId = entityId;
+
+    if (entityId && this.current.souls) {
+      SoulSystem.import(entityId, this.current.souls);
+    }
+  }
+
+  /**
+   * Accumulate play time (call during gameplay)
+   */
+  update(dt: number): void {
+    this.current.playTime += dt;
+  }
+
+  /**
+   * Record a boss defeat
+   */
+  recordBossDefeated(bossId: string): void {
+    if (!this.current.defeatedBosses.includes(bossId)) {
+      this.current.defeatedBosses.push(bossId);
+    }
+  }
+
+  /**
+   * Check if a boss has been defeated in this save
+   */
+  isBossDefeated(bossId: string): boolean {
+    return this.current.defeatedBosses.includes(bossId);
+  }
+
+  /**
+   * Get the last rested checkpoint ID
+   */
+  getLastCheckpoint(): string | null {
+    return this.current.lastCheckpoint;
+  }
+
+  /**
+   * Set the last rested checkpoint ID
+   */
+  setLastCheckpoint(checkpointId: string | null): void {
+    this.current.lastCheckpoint = checkpointId;
+  }
+
+  /**
+   * Get total play time in seconds
+   */
+  getPlayTime(): number {
+    return this.current.playTime;
+  }
+
+  /**
+   * Get the in-memory save data of the active slot
+   */
+  getCurrent(): Readonly<SaveData> {
+    return this.current;
+  }
+
+  // ========== Helpers ==========
+
+  private getBackend(): SaveStorageBackend {
+    if (!this.backend) {
+      throw new Error('[SaveSystem] Not initialized. Call init() first.');
+    }
+    return this.backend;
+  }
+
+  private slotKey(slot: number): string {
+    return `${SLOT_KEY_PREFIX}${slot}`;
+  }
+
+  private isValidSlot(slot: number): boolean {
+    return Number.isInteger(slot) && slot >= 0 && slot < SAVE_SLOT_COUNT;
+  }
+
+  /**
+   * Cleanup
+   */
+  destroy(): void {
+    this.playerStats = null;
+    this.attributes = null;
+    this.inventory = null;
+    this.attunement = null;
+    this.soulHolderId = null;
+  }
+}
+
+// Singleton instance
+export const SaveSystem = new SaveSystemManager();
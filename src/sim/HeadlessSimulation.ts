@@ -0,0 +1,311 @@
+/**
+ * Headless Simulation
+ *
+ * Runs player-vs-boss fights without rendering, DOM or WebGL:
+ * - PhysicsWorld, Player, Boss, AttackSystem, DamageSystem, IFrameSystem,
+ *   StatusEffectSystem, CriticalSystem
+ * - Fixed ticks stepped as fast as possible (Time.stepFixed)
+ * - Player driven by a bot policy (or a recorded replay) through InputManager
+ * - Seeded RNG per fight, so any fight can be re-run exactly
+ *
+ * Usage:
+ *   const sim = new HeadlessSimulation({ maxTicks: 60 * 180 });
+ *   await sim.init();
+ *   const summary = sim.runBatch(1000, 1);
+ *   sim.destroy();
+ *
+ * Only imports modules that are safe outside the browser (no UI, no GameApp).
+ */
+
+import * as THREE from 'three';
+import RAPIER from '@dimforge/rapier3d-compat';
+import { Time } from '../core/Time';
+import { Random } from '../core/Random';
+import { EventBus } from '../core/EventBus';
+import { PhysicsWorld } from '../physics/PhysicsWorld';
+import { CollisionGroups } from '../physics/CollisionGroups';
+import { InputManager } from '../input/InputManager';
+import type { ReplayFile } from '../input/InputReplay';
+import { DamageSystem } from '../combat/DamageSystem';
+import { AttackSystem } from '../combat/AttackSystem';
+import { IFrameSystem } from '../combat/IFrameSystem';
+import { StatusEffectSystem } from '../combat/StatusEffectSystem';
+import { CriticalSystem } from '../combat/CriticalSystem';
+import { ProjectileSystem } from '../combat/ProjectileSystem';
+import { Player } from '../player/Player';
+import type { EquipmentLoadout } from '../equipment/Equipment';
+import { Boss, BossConfig, TUTORIAL_BOSS_CONFIG } from '../ai/Boss';
+import { BotInput, BotPolicy, DEFAULT_BOT_POLICY } from './SimBot';
+
+/**
+ * Simulation configuration
+ */
+export interface SimulationConfig {
+  // Fight length cap in fixed ticks (timeout counts as neither side winning)
+  maxTicks: number;
+
+  // Spawn positions
+  playerStart: THREE.Vector3;
+  bossStart: THREE.Vector3;
+
+  // Boss overrides (e.g. patterns under test)
+  boss?: Partial<BossConfig>;
+
+  // Player weapon/shield under test
+  equipment?: Partial<EquipmentLoadout>;
+
+  // Player bot
+  policy?: BotPolicy;
+}
+
+const DEFAULT_CONFIG: SimulationConfig = {
+  maxTicks: 60 * 180, // 3 minutes
+  playerStart: new THREE.Vector3(0, 1.2, -8),
+  bossStart: new THREE.Vector3(0, 0, 0),
+};
+
+/**
+ * Fight outcome
+ */
+export type FightWinner = 'player' | 'boss' | 'timeout';
+
+/**
+ * Per-attack hit statistics
+ */
+export interface AttackStats {
+  hits: number;
+  damage: number;
+}
+
+/**
+ * Result of a single fight
+ */
+export interface FightResult {
+  seed: number;
+  winner: FightWinner;
+  ticks: number;
+  duration: number; // Simulated seconds
+  playerHP: number;
+  bossHP: number;
+  attacks: Record<string, AttackStats>; // By attack ID (both sides)
+}
+
+/**
+ * Aggregate of many fights
+ */
+export interface BatchSummary {
+  fights: number;
+  playerWins: number;
+  bossWins: number;
+  timeouts: number;
+  playerWinRate: number;
+  averageDuration: number;
+  averageBossHPLeft: number; // Over fights the boss survived
+  averagePlayerHPLeft: number; // Over fights the player survived
+  attacks: Record<string, AttackStats>;
+}
+
+const PLAYER_ID = 'player_sim';
+const GROUND_SIZE = 40;
+
+/**
+ * Headless player-vs-boss simulation
+ */
+export class HeadlessSimulation {
+  private config: SimulationConfig;
+  private scene: THREE.Scene = new THREE.Scene();
+  private ground: RAPIER.Collider | null = null;
+
+  constructor(config: Partial<SimulationConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Initialize physics and the arena
+   */
+  async init(): Promise<void> {
+    await PhysicsWorld.init();
+
+    // Flat arena floor, top surface at y = 0
+    const groundDesc = RAPIER.ColliderDesc.cuboid(GROUND_SIZE / 2, 0.1, GROUND_SIZE / 2)
+      .setTranslation(0, -0.1, 0)
+      .setCollisionGroups(CollisionGroups.ENVIRONMENT);
+    this.ground = PhysicsWorld.createStaticCollider(groundDesc);
+  }
+
+  /**
+   * Run one fight
+   *
+   * @param seed RNG seed (boss pattern selection, bot decisions)
+   * @param replay Optional recorded input to drive the player instead of the bot
+   */
+  runFight(seed: number, replay?: ReplayFile): FightResult {
+    this.resetSystems();
+    Time.resetFixedClock();
+    Random.seed(replay?.seed ?? seed);
+
+    const player = new Player({
+      position: this.config.playerStart.clone(),
+      entityId: PLAYER_ID,
+      equipment: this.config.equipment,
+    });
+    const boss = new Boss({
+      ...TUTORIAL_BOSS_CONFIG,
+      ...this.config.boss,
+      position: this.config.bossStart.clone(),
+    });
+    boss.spawn(this.scene);
+    boss.setTarget(player.entityId, player.position);
+
+    // Input source
+    const bot = new BotInput(this.config.policy ?? DEFAULT_BOT_POLICY);
+    if (replay) {
+      InputManager.startPlayback(replay);
+    } else {
+      InputManager.startTickSource(bot);
+    }
+
+    // Tally hits per attack
+    const attacks: Record<string, AttackStats> = {};
+    const unsubscribe = EventBus.on('attack:hit', (hit) => {
+      const stats = (attacks[hit.attackId] ??= { hits: 0, damage: 0 });
+      stats.hits++;
+      stats.damage += hit.damage;
+    });
+
+    let ticks = 0;
+    while (ticks < this.config.maxTicks && !player.isDead && !boss.isDead) {
+      bot.setObservation({
+        tick: ticks,
+        distance: this.horizontalDistance(player.position, boss.position),
+        bossState: boss.fsm.currentState,
+        bossAttackId: boss.fsm.attackPattern?.attackId ?? null,
+        bossProgress: boss.fsm.progress,
+        playerState: player.currentState,
+        playerHP: player.currentHP,
+        playerStamina: player.currentStamina,
+      });
+
+      Time.stepFixed((dt) => this.tick(dt, player, boss));
+      ticks++;
+    }
+
+    const winner: FightWinner = boss.isDead ? 'player' : player.isDead ? 'boss' : 'timeout';
+    const result: FightResult = {
+      seed,
+      winner,
+      ticks,
+      duration: ticks * Time.fixedDelta,
+      playerHP: player.currentHP,
+      bossHP: boss.currentHP,
+      attacks,
+    };
+
+    // Teardown
+    unsubscribe();
+    InputManager.stopPlayback();
+    AttackSystem.cancelAttacks(boss.id);
+    boss.despawn(this.scene);
+    player.destroy();
+
+    return result;
+  }
+
+  /**
+   * Run many fights with consecutive seeds
+   */
+  runBatch(fights: number, baseSeed: number): BatchSummary {
+    const results: FightResult[] = [];
+    for (let i = 0; i < fights; i++) {
+      results.push(this.runFight((baseSeed + i) >>> 0));
+    }
+    return HeadlessSimulation.summarize(results);
+  }
+
+  /**
+   * Aggregate fight results
+   */
+  static summarize(results: FightResult[]): BatchSummary {
+    const playerWins = results.filter((r) => r.winner === 'player');
+    const bossWins = results.filter((r) => r.winner === 'boss');
+    const bossSurvived = results.filter((r) => r.winner !== 'player');
+    const playerSurvived = results.filter((r) => r.winner !== 'boss');
+    const average = (values: number[]) =>
+      values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+
+    const attacks: Record<string, AttackStats> = {};
+    for (const result of results) {
+      for (const [attackId, stats] of Object.entries(result.attacks)) {
+        const total = (attacks[attackId] ??= { hits: 0, damage: 0 });
+        total.hits += stats.hits;
+        total.damage += stats.damage;
+      }
+    }
+
+    return {
+      fights: results.length,
+      playerWins: playerWins.length,
+      bossWins: bossWins.length,
+      timeouts: results.length - playerWins.length - bossWins.length,
+      playerWinRate: results.length > 0 ? playerWins.length / results.length : 0,
+      averageDuration: average(results.map((r) => r.duration)),
+      averageBossHPLeft: average(bossSurvived.map((r) => r.bossHP)),
+      averagePlayerHPLeft: average(playerSurvived.map((r) => r.playerHP)),
+      attacks,
+    };
+  }
+
+  /**
+   * Release physics resources
+   */
+  destroy(): void {
+    this.resetSystems();
+    if (this.ground) {
+      PhysicsWorld.removeCollider(this.ground);
+      this.ground = null;
+    }
+  }
+
+  // ========== Private Methods ==========
+
+  /**
+   * One fixed tick (mirrors GameApp.fixedUpdateGameplay)
+   */
+  private tick(dt: number, player: Player, boss: Boss): void {
+    InputManager.beginFixedTick();
+
+    IFrameSystem.update();
+    StatusEffectSystem.update();
+    CriticalSystem.update();
+
+    // Camera always looks at the boss: moveY = toward, moveX = strafe
+    if (!player.isDead) {
+      const toBoss = boss.position.sub(player.position);
+      player.setCameraYaw(Math.atan2(-toBoss.x, -toBoss.z));
+      player.setLockOnTarget(boss.isDead ? null : boss.position);
+      player.update(dt);
+    }
+
+    boss.updateTargetPosition(player.position);
+    boss.update(dt);
+
+    ProjectileSystem.update(dt);
+
+    PhysicsWorld.step();
+
+    InputManager.endFixedTick();
+  }
+
+  private resetSystems(): void {
+    AttackSystem.cleanup();
+    DamageSystem.clear();
+    IFrameSystem.clear();
+    StatusEffectSystem.clear();
+    CriticalSystem.clear();
+    ProjectileSystem.clear();
+  }
+
+  private horizontalDistance(a: THREE.Vector3, b: THREE.Vector3): number {
+    return Math.hypot(a.x - b.x, a.z - b.z);
+  }
+}
@@ -0,0 +1,202 @@
+/**
+ * Scripted bot input for the headless simulation
+ *
+ * Usage:
+ * - new BotInput(policy) -> InputManager.startTickSource(bot)
+ * - bot.setObservation(obs) before each tick; the policy turns it into input
+ *
+ * The bot feeds InputManager exactly like a replay does, so the player is
+ * driven through the same FSM/input-buffer path as a human.
+ */
+
+import { Time } from '../core/Time';
+import { Random } from '../core/Random';
+import { Action, Axis, type ActionState } from '../input/Action';
+import type { InputTickSource, ReplayTick } from '../input/InputReplay';
+import { BossStateType } from '../ai/BossFSM';
+import { AttackSystem } from '../combat/AttackSystem';
+import { PlayerStateType } from '../player/PlayerState';
+
+/**
+ * What the bot can see each tick
+ */
+export interface BotObservation {
+  tick: number;
+  distance: number; // Player to boss (horizontal)
+  bossState: BossStateType;
+  bossAttackId: string | null;
+  bossProgress: number; // Progress of the boss's current state (0-1)
+  playerState: PlayerStateType;
+  playerHP: number;
+  playerStamina: number;
+}
+
+/**
+ * Input for one tick
+ * Movement is camera-relative; the simulation points the camera at the boss,
+ * so moveY = 1 walks toward it.
+ */
+export interface BotCommand {
+  moveX: number;
+  moveY: number;
+  held: Action[]; // Actions held this tick (press edges are derived)
+}
+
+/**
+ * Bot policy: observation -> command
+ */
+export type BotPolicy = (obs: BotObservation) => BotCommand;
+
+/**
+ * Default policy: close in, attack when the boss is recovering or idle,
+ * roll into the boss attack's active frames, back off to regain stamina.
+ * Rolls are timed with the seeded RNG so fights differ per seed.
+ */
+export const DEFAULT_BOT_POLICY: BotPolicy = (obs) => {
+  const idle: BotCommand = { moveX: 0, moveY: 0, held: [] };
+  if (isBusy(obs)) return idle;
+
+  // Roll just before the boss attack's active frames (roll i-frames ~0.06-0.33s)
+  const span = obs.bossAttackId ? AttackSystem.getActiveSpan(obs.bossAttackId) : undefined;
+  const threatened =
+    obs.bossState === BossStateType.AttackActive &&
+    span !== undefined &&
+    obs.bossProgress >= span[0] - 0.2 &&
+    obs.bossProgress < span[0];
+  if (threatened && obs.playerStamina >= 22 && Random.chance(0.7)) {
+    return { moveX: Random.chance(0.5) ? 1 : -1, moveY: 0, held: [Action.Roll] };
+  }
+
+  // Out of stamina: back off
+  if (obs.playerStamina < 16) {
+    return { moveX: 0, moveY: -1, held: [] };
+  }
+
+  // Close the distance
+  if (obs.distance > 3.2) {
+    return { moveX: 0, moveY: 1, held: [] };
+  }
+
+  // Punish openings; tap attack (every other tick, so each tap is a new press)
+  const opening =
+    obs.bossState === BossStateType.Recover ||
+    obs.bossState === BossStateType.Staggered ||
+    obs.bossState === BossStateType.Engage ||
+    obs.bossState === BossStateType.Idle;
+  if (opening && obs.tick % 2 === 0) {
+    const heavy = obs.bossState === BossStateType.Staggered && obs.playerStamina >= 28;
+    return { moveX: 0, moveY: 0, held: [heavy ? Action.StrongAttack : Action.Attack] };
+  }
+
+  return idle;
+};
+
+/**
+ * Turtle policy: walk in behind the shield and keep guarding, only swinging
+ * into the boss's recovery. Probes whether pure guarding beats the boss.
+ */
+export const TURTLE_BOT_POLICY: BotPolicy = (obs) => {
+  const guard: BotCommand = { moveX: 0, moveY: 0, held: [Action.Block] };
+  if (isBusy(obs)) return guard;
+
+  if (obs.distance > 3.2) {
+    return { moveX: 0, moveY: 1, held: [Action.Block] };
+  }
+
+  const opening =
+    obs.bossState === BossStateType.Recover || obs.bossState === BossStateType.Staggered;
+  if (opening && obs.playerStamina >= 30 && obs.tick % 2 === 0) {
+    return { moveX: 0, moveY: 0, held: [Action.Attack] };
+  }
+
+  return guard;
+};
+
+/**
+ * Bot policies by name (CLI --policy)
+ */
+export const BOT_POLICIES: Record<string, BotPolicy> = {
+  default: DEFAULT_BOT_POLICY,
+  turtle: TURTLE_BOT_POLICY,
+};
+
+/**
+ * Player can't act on input (rolling, staggered, knocked down)
+ */
+function isBusy(obs: BotObservation): boolean {
+  return (
+    obs.playerState === PlayerStateType.Roll ||
+    obs.playerState === PlayerStateType.Backstep ||
+    obs.playerState === PlayerStateType.HitStun ||
+    obs.playerState === PlayerStateType.Knockdown ||
+    obs.playerState === PlayerStateType.GetUp ||
+    obs.playerState === PlayerStateType.GuardBreak
+  );
+}
+
+/**
+ * Input tick source driven by a bot policy
+ */
+export class BotInput implements InputTickSource {
+  private readonly actions: Action[] = Object.values(Action);
+  private previous: Map<Action, ActionState> = new Map();
+  private observation: BotObservation | null = null;
+  private _tick: number = 0;
+
+  constructor(private readonly policy: BotPolicy = DEFAULT_BOT_POLICY) {}
+
+  /**
+   * Set what the bot sees for the next tick
+   */
+  setObservation(obs: BotObservation): void {
+    this.observation = obs;
+  }
+
+  /**
+   * Produce the next tick's input
+   */
+  next(): ReplayTick {
+    const command = this.observation
+      ? this.policy(this.observation)
+      : { moveX: 0, moveY: 0, held: [] };
+    const held = new Set(command.held);
+
+    const actions = new Map<Action, ActionState>();
+    const emitted: Action[] = [];
+
+    for (const action of this.actions) {
+      const prev = this.previous.get(action);
+      const pressed = held.has(action);
+      const wasPressed = prev?.pressed ?? false;
+
+      const state: ActionState = {
+        pressed,
+        justPressed: pressed && !wasPressed,
+        justReleased: !pressed && wasPressed,
+        heldTime: pressed ? (wasPressed ? prev!.heldTime + Time.fixedDelta : 0) : 0,
+      };
+      actions.set(action, state);
+
+      if (state.justPressed) {
+        emitted.push(action);
+      }
+    }
+
+    this.previous = actions;
+    this._tick++;
+
+    const axes = new Map<Axis, number>([
+      [Axis.MoveX, command.moveX],
+      [Axis.MoveY, command.moveY],
+    ]);
+
+    return { actions, emitted, axes, channels: new Map() };
+  }
+
+  /**
+   * Number of ticks produced so far
+   */
+  get tick(): number {
+    return this._tick;
+  }
+}
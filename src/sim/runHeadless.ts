@@ -0,0 +1,253 @@
+/**
+ * Headless simulation CLI
+ *
+ * Usage:
+ *   bun src/sim/runHeadless.ts [--fights 100] [--seed 1] [--max-ticks 10800]
+ *                              [--weapon longsword] [--shield heater_shield]
+ *                              [--replay path/to/replay.json] [--json]
+ *                              [--tree src/ai/trees/asylum_demon.json] [--policy turtle]
+ *                              [--check path/to/baseline.json [--update-baseline]]
+ *
+ * Prints a summary of player-vs-boss fights (win rate, duration, hits and
+ * damage per attack). --json prints the raw summary for CI tooling.
+ * --replay runs a single fight driven by a recorded input file.
+ * --tree drives the boss with a behavior tree JSON file.
+ * --policy picks the player bot (default, turtle).
+ * --check reruns the fights recorded in a baseline file and exits non-zero
+ * if the summary drifted; --update-baseline rewrites the file instead.
+ */
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { parseReplay } from '../input/InputReplay';
+import { parseBehaviorTree } from '../ai/BehaviorTree';
+import { HeadlessSimulation, type BatchSummary } from './HeadlessSimulation';
+import { BOT_POLICIES } from './SimBot';
+
+interface CliOptions {
+  fights: number;
+  seed: number;
+  maxTicks: number;
+  weapon: string | undefined;
+  shield: string | undefined;
+  replay: string | null;
+  tree: string | null;
+  policy: string;
+  json: boolean;
+  check: string | null;
+  updateBaseline: boolean;
+}
+
+/**
+ * Seeded run plus the summary it produced, committed for drift checks
+ */
+interface SimBaseline {
+  fights: number;
+  seed: number;
+  maxTicks: number;
+  policy: string;
+  tree: string | null;
+  summary: BatchSummary;
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = {
+    fights: 100,
+    seed: 1,
+    maxTicks: 60 * 180,
+    weapon: undefined,
+    shield: undefined,
+    replay: null,
+    tree: null,
+    policy: 'default',
+    json: false,
+    check: null,
+    updateBaseline: false,
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const value = argv[i + 1];
+
+    switch (arg) {
+      case '--fights':
+        options.fights = parseInt(value, 10);
+        i++;
+        break;
+      case '--seed':
+        options.seed = parseInt(value, 10);
+        i++;
+        break;
+      case '--max-ticks':
+        options.maxTicks = parseInt(value, 10);
+        i++;
+        break;
+      case '--weapon':
+        options.weapon = value;
+        i++;
+        break;
+      case '--shield':
+        options.shield = value;
+        i++;
+        break;
+      case '--replay':
+        options.replay = value;
+        i++;
+        break;
+      case '--tree':
+        options.tree = value;
+        i++;
+        break;
+      case '--policy':
+        if (!BOT_POLICIES[value]) {
+          throw new Error(`Unknown policy: ${value}`);
+        }
+        options.policy = value;
+        i++;
+        break;
+      case '--json':
+        options.json = true;
+        break;
+      case '--check':
+        options.check = value;
+        i++;
+        break;
+      case '--update-baseline':
+        options.updateBaseline = true;
+        break;
+      default:
+        throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+
+  return options;
+}
+
+function printSummary(summary: BatchSummary): void {
+  const pct = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+  console.log(`[Sim] Fights:          ${summary.fights}`);
+  console.log(
+    `[Sim] Player wins:     ${summary.playerWins} (${pct(summary.playerWinRate)})`
+  );
+  console.log(`[Sim] Boss wins:       ${summary.bossWins}`);
+  console.log(`[Sim] Timeouts:        ${summary.timeouts}`);
+  console.log(`[Sim] Avg duration:    ${summary.averageDuration.toFixed(1)}s`);
+  console.log(`[Sim] Avg boss HP left:   ${summary.averageBossHPLeft.toFixed(0)}`);
+  console.log(`[Sim] Avg player HP left: ${summary.averagePlayerHPLeft.toFixed(0)}`);
+  console.log('[Sim] Attacks:');
+
+  const rows = Object.entries(summary.attacks).sort((a, b) => a[0].localeCompare(b[0]));
+  for (const [attackId, stats] of rows) {
+    const perFight = (stats.damage / Math.max(1, summary.fights)).toFixed(1);
+    console.log(
+      `  ${attackId.padEnd(22)} hits ${String(stats.hits).padStart(6)}  damage ${String(stats.damage).padStart(8)}  (${perFight}/fight)`
+    );
+  }
+}
+
+/**
+ * List every summary field that differs from the baseline.
+ * Averages are compared at printed precision so float noise isn't drift.
+ */
+function diffSummaries(expected: BatchSummary, actual: BatchSummary): string[] {
+  const drift: string[] = [];
+  const compare = (field: string, a: number, b: number, digits: number) => {
+    if (a.toFixed(digits) !== b.toFixed(digits)) {
+      drift.push(`${field}: expected ${a.toFixed(digits)}, got ${b.toFixed(digits)}`);
+    }
+  };
+
+  compare('fights', expected.fights, actual.fights, 0);
+  compare('playerWins', expected.playerWins, actual.playerWins, 0);
+  compare('bossWins', expected.bossWins, actual.bossWins, 0);
+  compare('timeouts', expected.timeouts, actual.timeouts, 0);
+  compare('averageDuration', expected.averageDuration, actual.averageDuration, 1);
+  compare('averageBossHPLeft', expected.averageBossHPLeft, actual.averageBossHPLeft, 0);
+  compare('averagePlayerHPLeft', expected.averagePlayerHPLeft, actual.averagePlayerHPLeft, 0);
+
+  const attackIds = new Set([...Object.keys(expected.attacks), ...Object.keys(actual.attacks)]);
+  for (const attackId of [...attackIds].sort()) {
+    const a = expected.attacks[attackId] ?? { hits: 0, damage: 0 };
+    const b = actual.attacks[attackId] ?? { hits: 0, damage: 0 };
+    compare(`attacks.${attackId}.hits`, a.hits, b.hits, 0);
+    compare(`attacks.${attackId}.damage`, a.damage, b.damage, 0);
+  }
+
+  return drift;
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+  if (options.check && options.replay) {
+    throw new Error('--check cannot be combined with --replay');
+  }
+
+  // A baseline pins its own run settings; only --update-baseline may use the CLI ones
+  let baseline: SimBaseline | null = null;
+  if (options.check && !options.updateBaseline) {
+    baseline = JSON.parse(readFileSync(options.check, 'utf8')) as SimBaseline;
+    options.fights = baseline.fights;
+    options.seed = baseline.seed;
+    options.maxTicks = baseline.maxTicks;
+    options.policy = baseline.policy;
+    options.tree = baseline.tree;
+  }
+
+  const sim = new HeadlessSimulation({
+    maxTicks: options.maxTicks,
+    equipment: { weapon: options.weapon, shield: options.shield },
+    boss: options.tree
+      ? { behaviorTree: parseBehaviorTree(readFileSync(options.tree, 'utf8')) }
+      : undefined,
+    policy: BOT_POLICIES[options.policy],
+  });
+  await sim.init();
+
+  let summary: BatchSummary;
+  if (options.replay) {
+    const replay = parseReplay(readFileSync(options.replay, 'utf8'));
+    summary = HeadlessSimulation.summarize([sim.runFight(replay.seed, replay)]);
+  } else {
+    summary = sim.runBatch(options.fights, options.seed);
+  }
+
+  sim.destroy();
+
+  if (options.check && options.updateBaseline) {
+    const updated: SimBaseline = {
+      fights: options.fights,
+      seed: options.seed,
+      maxTicks: options.maxTicks,
+      policy: options.policy,
+      tree: options.tree,
+      summary,
+    };
+    writeFileSync(options.check, JSON.stringify(updated, null, 2) + '\n');
+    console.log(`[Sim] Baseline written: ${options.check}`);
+    return;
+  }
+
+  if (baseline) {
+    const drift = diffSummaries(baseline.summary, summary);
+    if (drift.length > 0) {
+      console.error(`[Sim] Baseline drift (${options.check}):`);
+      for (const line of drift) {
+        console.error(`  ${line}`);
+      }
+      process.exit(1);
+    }
+    console.log(`[Sim] Baseline OK: ${options.check}`);
+    return;
+  }
+
+  if (options.json) {
+    console.log(JSON.stringify(summary, null, 2));
+  } else {
+    printSummary(summary);
+  }
+}
+
+main().catch((error) => {
+  console.error('[Sim] Failed:', error);
+  process.exit(1);
+});
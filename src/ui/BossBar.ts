@@ -11,6 +11,7 @@
  * - boss:healthChanged
  * - boss:died
  * - boss:staggered
+ * - boss:phaseChanged
  */
 
 import { EventBus } from '../core/EventBus';
@@ -36,6 +37,7 @@ export interface BossBarConfig {
   showDuration: number;
   hideDuration: number;
   damageFlashDuration: number;
+  phaseFlashDuration: number;
 }
 
 const DEFAULT_CONFIG: BossBarConfig = {
@@ -52,6 +54,7 @@ const DEFAULT_CONFIG: BossBarConfig = {
   showDuration: 500,
   hideDuration: 1000,
   damageFlashDuration: 150,
+  phaseFlashDuration: 1200,
 };
 
 /**
@@ -230,6 +233,12 @@ class BossBarClass {
         this.onBossStaggered(data.duration);
       })
     );
+
+    this.unsubscribers.push(
+      EventBus.on('boss:phaseChanged', () => {
+        this.onBossPhaseChanged();
+      })
+    );
   }
 
   /**
@@ -346,6 +355,21 @@ class BossBarClass {
     }, duration * 1000);
   }
 
+  /**
+   * Handle boss phase change
+   */
+  private onBossPhaseChanged(): void {
+    if (!this.barContainer) return;
+
+    this.barContainer.style.animation = `boss-phase-pulse ${this.config.phaseFlashDuration}ms ease-out`;
+
+    setTimeout(() => {
+      if (this.barContainer && !this.staggered) {
+        this.barContainer.style.animation = '';
+      }
+    }, this.config.phaseFlashDuration);
+  }
+
   /**
    * Check if visible
    */
@@ -392,6 +416,10 @@ style.textContent = `
     0%, 100% { box-shadow: 0 0 20px rgba(0, 0, 0, 0.8), inset 0 0 10px rgba(0, 0, 0, 0.5); }
     50% { box-shadow: 0 0 30px rgba(255, 215, 0, 0.6), inset 0 0 10px rgba(255, 215, 0, 0.3); }
   }
+  @keyframes boss-phase-pulse {
+    0% { box-shadow: 0 0 40px rgba(255, 60, 0, 0.9), inset 0 0 15px rgba(255, 60, 0, 0.6); }
+    100% { box-shadow: 0 0 20px rgba(0, 0, 0, 0.8), inset 0 0 10px rgba(0, 0, 0, 0.5); }
+  }
 `;
 document.head.appendChild(style);
 
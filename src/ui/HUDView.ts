@@ -1,5 +1,5 @@
 /**
- * HUDView - Dark Souls style HUD (HP/Stamina bars)
+ * HUDView - Dark Souls style HUD (HP/FP/Stamina bars)
  *
  * Usage:
  * - Initialize with HUDView.init()
@@ -8,19 +8,28 @@
  *
  * Events listened:
  * - player:healthChanged
+ * - player:fpChanged
  * - player:staminaChanged
  * - player:died
  * - player:respawned
+ * - status:meterChanged (for the entity set with setStatusEntity)
+ * - inventory:quickSlotChanged (same entity)
+ * - attunement:activeChanged (same entity)
+ * - souls:changed (same entity)
  */
 
 import { EventBus } from '../core/EventBus';
+import { getItem } from '../items/ItemData';
+import { getSpell } from '../magic/SpellData';
 
 /**
  * HUD configuration
  */
 export interface HUDConfig {
-  // Bar dimensions
+  // Bar dimensions (width at barBaseValue max; bars grow with max HP/FP/stamina)
   barWidth: number;
+  barBaseValue: number;
+  maxBarWidth: number;
   barHeight: number;
   barGap: number;
 
@@ -32,10 +41,17 @@ export interface HUDConfig {
   hpColor: string;
   hpBackgroundColor: string;
   hpBorderColor: string;
+  fpColor: string;
+  fpBackgroundColor: string;
+  fpBorderColor: string;
   staminaColor: string;
   staminaBackgroundColor: string;
   staminaBorderColor: string;
 
+  // Status meters
+  statusBarHeight: number;
+  statusColors: Record<string, string>;
+
   // Animation
   damageFlashDuration: number;
   lowHpThreshold: number;
@@ -44,6 +60,8 @@ export interface HUDConfig {
 
 const DEFAULT_CONFIG: HUDConfig = {
   barWidth: 250,
+  barBaseValue: 100,
+  maxBarWidth: 600,
   barHeight: 20,
   barGap: 8,
 
@@ -53,10 +71,20 @@ const DEFAULT_CONFIG: HUDConfig = {
   hpColor: '#8b0000',
   hpBackgroundColor: '#2a0000',
   hpBorderColor: '#4a0000',
+  fpColor: '#1e4fa8',
+  fpBackgroundColor: '#0a1430',
+  fpBorderColor: '#1a2a5a',
   staminaColor: '#228b22',
   staminaBackgroundColor: '#0a2a0a',
   staminaBorderColor: '#1a4a1a',
 
+  statusBarHeight: 8,
+  statusColors: {
+    Bleed: '#b22222',
+    Poison: '#6b8e23',
+    Toxic: '#7b2d8b',
+  },
+
   damageFlashDuration: 200,
   lowHpThreshold: 0.25,
   lowStaminaThreshold: 0.2,
@@ -70,8 +98,16 @@ class HUDViewClass {
   private hpBar: HTMLElement | null = null;
   private hpFill: HTMLElement | null = null;
   private hpDelayed: HTMLElement | null = null;
+  private fpBar: HTMLElement | null = null;
+  private fpFill: HTMLElement | null = null;
   private staminaBar: HTMLElement | null = null;
   private staminaFill: HTMLElement | null = null;
+  private statusContainer: HTMLElement | null = null;
+  private statusMeters: Map<string, { bar: HTMLElement; fill: HTMLElement }> = new Map();
+  private statusEntityId: string | null = null;
+  private quickSlot: HTMLElement | null = null;
+  private spellSlot: HTMLElement | null = null;
+  private soulsCounter: HTMLElement | null = null;
 
   private config: HUDConfig = DEFAULT_CONFIG;
   private unsubscribers: (() => void)[] = [];
@@ -122,6 +158,12 @@ class HUDViewClass {
     this.hpFill = this.hpBar.querySelector('.bar-fill') as HTMLElement;
     this.hpDelayed = this.hpBar.querySelector('.bar-delayed') as HTMLElement;
 
+    // FP Bar
+    this.fpBar = this.createBar('fp', this.config.fpColor, this.config.fpBackgroundColor, this.config.fpBorderColor);
+    this.fpFill = this.fpBar.querySelector('.bar-fill') as HTMLElement;
+    this.fpBar.style.marginTop = `${this.config.barGap}px`;
+    this.fpBar.querySelector('.bar-delayed')?.remove();
+
     // Stamina Bar
     this.staminaBar = this.createBar('stamina', this.config.staminaColor, this.config.staminaBackgroundColor, this.config.staminaBorderColor);
     this.staminaFill = this.staminaBar.querySelector('.bar-fill') as HTMLElement;
@@ -131,8 +173,57 @@ class HUDViewClass {
     const staminaDelayed = this.staminaBar.querySelector('.bar-delayed');
     if (staminaDelayed) staminaDelayed.remove();
 
+    // Status meters (rows created on demand)
+    this.statusContainer = document.createElement('div');
+    this.statusContainer.id = 'status-meters';
+
+    // Selected quick slot item
+    this.quickSlot = document.createElement('div');
+    this.quickSlot.id = 'quick-slot';
+    this.quickSlot.style.cssText = `
+      margin-top: ${this.config.barGap * 2}px;
+      padding: 4px 8px;
+      display: inline-block;
+      color: #d4c9a8;
+      font-size: 13px;
+      background: rgba(0, 0, 0, 0.6);
+      border: 1px solid #4a4030;
+      text-shadow: 1px 1px 2px #000;
+    `;
+    this.quickSlot.style.display = 'none';
+
+    // Selected spell (next to the quick slot)
+    this.spellSlot = this.quickSlot.cloneNode() as HTMLElement;
+    this.spellSlot.id = 'spell-slot';
+    this.spellSlot.style.marginLeft = `${this.config.barGap}px`;
+    this.spellSlot.style.color = '#a8c0e8';
+
+    // Carried souls (bottom right, fades with the container)
+    this.soulsCounter = document.createElement('div');
+    this.soulsCounter.id = 'souls-counter';
+    this.soulsCounter.style.cssText = `
+      position: fixed;
+      right: ${this.config.left}px;
+      bottom: ${this.config.top}px;
+      min-width: 100px;
+      padding: 4px 12px;
+      color: #d4c9a8;
+      font-size: 18px;
+      text-align: right;
+      letter-spacing: 0.1em;
+      background: rgba(0, 0, 0, 0.6);
+      border: 1px solid #4a4030;
+      text-shadow: 1px 1px 2px #000;
+    `;
+    this.soulsCounter.textContent = '0';
+
     this.container.appendChild(this.hpBar);
+    this.container.appendChild(this.fpBar);
     this.container.appendChild(this.staminaBar);
+    this.container.appendChild(this.statusContainer);
+    this.container.appendChild(this.quickSlot);
+    this.container.appendChild(this.spellSlot);
+    this.container.appendChild(this.soulsCounter);
     document.body.appendChild(this.container);
   }
 
@@ -207,6 +298,12 @@ class HUDViewClass {
       })
     );
 
+    this.unsubscribers.push(
+      EventBus.on('player:fpChanged', (data) => {
+        this.setFP(data.current, data.max);
+      })
+    );
+
     this.unsubscribers.push(
       EventBus.on('player:staminaChanged', (data) => {
         this.setStamina(data.current, data.max);
@@ -224,6 +321,42 @@ class HUDViewClass {
         this.onPlayerRespawned();
       })
     );
+
+    this.unsubscribers.push(
+      EventBus.on('status:meterChanged', (data) => {
+        if (data.entityId !== this.statusEntityId) return;
+        this.setStatusMeter(data.effect, data.buildup, data.threshold, data.active);
+      })
+    );
+
+    this.unsubscribers.push(
+      EventBus.on('inventory:quickSlotChanged', (data) => {
+        if (data.entityId !== this.statusEntityId) return;
+        this.setQuickSlot(data.itemId, data.count);
+      })
+    );
+
+    this.unsubscribers.push(
+      EventBus.on('attunement:activeChanged', (data) => {
+        if (data.entityId !== this.statusEntityId) return;
+        this.setSpellSlot(data.spellId);
+      })
+    );
+
+    this.unsubscribers.push(
+      EventBus.on('souls:changed', (data) => {
+        if (data.entityId !== this.statusEntityId) return;
+        this.setSouls(data.souls, data.delta);
+      })
+    );
+  }
+
+  /**
+   * Set which entity's status meters are drawn
+   */
+  setStatusEntity(entityId: string | null): void {
+    this.statusEntityId = entityId;
+    this.clearStatusMeters();
   }
 
   /**
@@ -233,6 +366,7 @@ class HUDViewClass {
     const previousHp = this.currentHp;
     this.currentHp = current;
     this.maxHp = max;
+    this.resizeBar(this.hpBar, max);
 
     const percentage = Math.max(0, Math.min(100, (current / max) * 100));
 
@@ -280,12 +414,25 @@ class HUDViewClass {
     }
   }
 
+  /**
+   * Set FP value
+   */
+  setFP(current: number, max: number): void {
+    this.resizeBar(this.fpBar, max);
+
+    const percentage = Math.max(0, Math.min(100, (current / max) * 100));
+    if (this.fpFill) {
+      this.fpFill.style.width = `${percentage}%`;
+    }
+  }
+
   /**
    * Set stamina value
    */
   setStamina(current: number, max: number): void {
     this.currentStamina = current;
     this.maxStamina = max;
+    this.resizeBar(this.staminaBar, max);
 
     const percentage = Math.max(0, Math.min(100, (current / max) * 100));
 
@@ -303,6 +450,137 @@ class HUDViewClass {
     }
   }
 
+  /**
+   * Set a status meter (removed when empty)
+   */
+  setStatusMeter(effect: string, buildup: number, threshold: number, active: boolean): void {
+    if (!this.statusContainer) return;
+
+    let meter = this.statusMeters.get(effect);
+
+    if (buildup <= 0 && !active) {
+      if (meter) {
+        meter.bar.remove();
+        this.statusMeters.delete(effect);
+      }
+      return;
+    }
+
+    if (!meter) {
+      meter = this.createStatusMeter(effect);
+      this.statusMeters.set(effect, meter);
+    }
+
+    const percentage = Math.max(0, Math.min(100, (buildup / threshold) * 100));
+    meter.fill.style.width = `${percentage}%`;
+    meter.bar.style.animation = active ? 'hud-status-pulse 1s ease-in-out infinite' : '';
+  }
+
+  /**
+   * Scale a bar's length with its max value
+   */
+  private resizeBar(bar: HTMLElement | null, max: number): void {
+    if (!bar) return;
+
+    const width = Math.min(
+      this.config.maxBarWidth,
+      (this.config.barWidth * max) / this.config.barBaseValue
+    );
+    bar.style.width = `${Math.round(width)}px`;
+  }
+
+  /**
+   * Set the selected quick slot item (null hides the slot)
+   */
+  setQuickSlot(itemId: string | null, count: number): void {
+    if (!this.quickSlot) return;
+
+    if (!itemId) {
+      this.quickSlot.style.display = 'none';
+      return;
+    }
+
+    const name = getItem(itemId)?.name ?? itemId;
+    this.quickSlot.textContent = `${name}  ×${count}`;
+    this.quickSlot.style.display = 'inline-block';
+    this.quickSlot.style.opacity = count > 0 ? '1' : '0.5';
+  }
+
+  /**
+   * Set the selected spell (null hides the slot)
+   */
+  setSpellSlot(spellId: string | null): void {
+    if (!this.spellSlot) return;
+
+    if (!spellId) {
+      this.spellSlot.style.display = 'none';
+      return;
+    }
+
+    this.spellSlot.textContent = getSpell(spellId)?.name ?? spellId;
+    this.spellSlot.style.display = 'inline-block';
+  }
+
+  /**
+   * Set carried souls (gains flash the counter)
+   */
+  setSouls(souls: number, delta: number = 0): void {
+    if (!this.soulsCounter) return;
+
+    this.soulsCounter.textContent = `${souls}`;
+
+    if (delta > 0) {
+      this.soulsCounter.style.animation = 'none';
+      void this.soulsCounter.offsetWidth; // Restart animation
+      this.soulsCounter.style.animation = 'hud-souls-gain 0.6s ease-out';
+    }
+  }
+
+  /**
+   * Create a status meter row
+   */
+  private createStatusMeter(effect: string): { bar: HTMLElement; fill: HTMLElement } {
+    const color = this.config.statusColors[effect] ?? '#888888';
+
+    const bar = document.createElement('div');
+    bar.className = 'status-meter';
+    bar.dataset.effect = effect;
+    bar.style.cssText = `
+      position: relative;
+      width: ${this.config.barWidth * 0.5}px;
+      height: ${this.config.statusBarHeight}px;
+      margin-top: ${this.config.barGap}px;
+      background: rgba(0, 0, 0, 0.6);
+      border: 1px solid ${color};
+    `;
+
+    const fill = document.createElement('div');
+    fill.style.cssText = `
+      position: absolute;
+      top: 0;
+      left: 0;
+      height: 100%;
+      width: 0%;
+      background: ${color};
+      transition: width 0.1s linear;
+    `;
+
+    bar.appendChild(fill);
+    this.statusContainer?.appendChild(bar);
+
+    return { bar, fill };
+  }
+
+  /**
+   * Remove all status meters
+   */
+  private clearStatusMeters(): void {
+    for (const meter of this.statusMeters.values()) {
+      meter.bar.remove();
+    }
+    this.statusMeters.clear();
+  }
+
   /**
    * Handle player death
    */
@@ -320,6 +598,7 @@ class HUDViewClass {
     // Reset and show HUD
     this.setHP(this.maxHp, this.maxHp);
     this.setStamina(this.maxStamina, this.maxStamina);
+    this.clearStatusMeters();
 
     if (this.container) {
       this.container.style.opacity = '1';
@@ -379,6 +658,8 @@ class HUDViewClass {
       clearTimeout(this.delayedHpTimer);
     }
 
+    this.clearStatusMeters();
+
     // Remove DOM
     if (this.container) {
       this.container.remove();
@@ -388,8 +669,14 @@ class HUDViewClass {
     this.hpBar = null;
     this.hpFill = null;
     this.hpDelayed = null;
+    this.fpBar = null;
+    this.fpFill = null;
     this.staminaBar = null;
     this.staminaFill = null;
+    this.statusContainer = null;
+    this.quickSlot = null;
+    this.spellSlot = null;
+    this.soulsCounter = null;
   }
 }
 
@@ -400,6 +687,14 @@ style.textContent = `
     0%, 100% { box-shadow: 0 0 10px rgba(139, 0, 0, 0.5), inset 0 0 5px rgba(0, 0, 0, 0.3); }
     50% { box-shadow: 0 0 20px rgba(255, 0, 0, 0.8), inset 0 0 5px rgba(0, 0, 0, 0.3); }
   }
+  @keyframes hud-souls-gain {
+    0% { color: #fff6d0; text-shadow: 0 0 12px rgba(255, 230, 150, 0.9); }
+    100% { color: #d4c9a8; text-shadow: 1px 1px 2px #000; }
+  }
+  @keyframes hud-status-pulse {
+    0%, 100% { opacity: 1; }
+    50% { opacity: 0.5; }
+  }
 `;
 document.head.appendChild(style);
 
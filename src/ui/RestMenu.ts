@@ -0,0 +1,225 @@
+/**
+ * RestMenu - Bonfire rest menu
+ *
+ * Usage:
+ * - Initialize with RestMenu.init()
+ * - RestMenu.show(checkpointName, options) when the player sits down
+ *   (call again with other options to switch pages)
+ * - RestMenu.moveSelection(1 | -1) / RestMenu.getSelected() from input handling
+ * - Hide with RestMenu.hide()
+ *
+ * The menu only displays options; the caller decides what each option does.
+ */
+
+/**
+ * Rest menu configuration
+ */
+export interface RestMenuConfig {
+  // Dimensions
+  width: number;
+
+  // Colors
+  titleColor: string;
+  optionColor: string;
+  selectedColor: string;
+  backgroundColor: string;
+  borderColor: string;
+
+  // Animation
+  fadeDuration: number;
+}
+
+const DEFAULT_CONFIG: RestMenuConfig = {
+  width: 320,
+
+  titleColor: '#d4a54a',
+  optionColor: '#8a8070',
+  selectedColor: '#f0e6c8',
+  backgroundColor: 'rgba(0, 0, 0, 0.75)',
+  borderColor: '#4a4030',
+
+  fadeDuration: 400,
+};
+
+/**
+ * Menu option
+ */
+export interface RestMenuOption {
+  id: string;
+  label: string;
+}
+
+/**
+ * RestMenu class
+ */
+class RestMenuClass {
+  private container: HTMLElement | null = null;
+  private titleElement: HTMLElement | null = null;
+  private optionList: HTMLElement | null = null;
+
+  private config: RestMenuConfig = DEFAULT_CONFIG;
+
+  private options: RestMenuOption[] = [];
+  private selectedIndex: number = 0;
+  private visible: boolean = false;
+
+  /**
+   * Initialize the rest menu
+   */
+  init(config?: Partial<RestMenuConfig>): void {
+    if (this.container) return;
+
+    this.config = { ...DEFAULT_CONFIG, ...config };
+
+    this.createDOM();
+  }
+
+  /**
+   * Create DOM elements
+   */
+  private createDOM(): void {
+    // Container
+    this.container = document.createElement('div');
+    this.container.id = 'rest-menu';
+    this.container.style.cssText = `
+      position: fixed;
+      top: 50%;
+      left: 8%;
+      transform: translateY(-50%);
+      width: ${this.config.width}px;
+      padding: 20px 24px;
+      z-index: 1500;
+      pointer-events: none;
+      font-family: 'Cinzel', serif;
+      background: ${this.config.backgroundColor};
+      border: 1px solid ${this.config.borderColor};
+      box-shadow: 0 0 30px rgba(0, 0, 0, 0.8);
+      opacity: 0;
+      transition: opacity ${this.config.fadeDuration}ms ease;
+    `;
+
+    // Checkpoint name
+    this.titleElement = document.createElement('div');
+    this.titleElement.id = 'rest-menu-title';
+    this.titleElement.style.cssText = `
+      color: ${this.config.titleColor};
+      font-size: 1.2rem;
+      letter-spacing: 0.15em;
+      text-transform: uppercase;
+      text-shadow: 0 0 10px rgba(212, 165, 74, 0.4);
+      padding-bottom: 10px;
+      margin-bottom: 12px;
+      border-bottom: 1px solid ${this.config.borderColor};
+    `;
+
+    // Options
+    this.optionList = document.createElement('div');
+    this.optionList.id = 'rest-menu-options';
+
+    this.container.appendChild(this.titleElement);
+    this.container.appendChild(this.optionList);
+    document.body.appendChild(this.container);
+  }
+
+  /**
+   * Show the menu
+   *
+   * @param selectedId Option to select (defaults to the first)
+   */
+  show(checkpointName: string, options: RestMenuOption[], selectedId?: string): void {
+    this.options = [...options];
+    this.selectedIndex = Math.max(0, this.options.findIndex((option) => option.id === selectedId));
+
+    if (this.titleElement) {
+      this.titleElement.textContent = checkpointName;
+    }
+
+    this.renderOptions();
+
+    if (this.container) {
+      this.container.style.opacity = '1';
+    }
+
+    this.visible = true;
+  }
+
+  /**
+   * Hide the menu
+   */
+  hide(): void {
+    if (this.container) {
+      this.container.style.opacity = '0';
+    }
+
+    this.visible = false;
+  }
+
+  /**
+   * Move the selection (wraps around)
+   */
+  moveSelection(delta: 1 | -1): void {
+    if (this.options.length === 0) return;
+
+    const length = this.options.length;
+    this.selectedIndex = (this.selectedIndex + delta + length) % length;
+    this.renderOptions();
+  }
+
+  /**
+   * Get the selected option ID
+   */
+  getSelected(): string | null {
+    return this.options[this.selectedIndex]?.id ?? null;
+  }
+
+  /**
+   * Check if visible
+   */
+  isVisible(): boolean {
+    return this.visible;
+  }
+
+  /**
+   * Rebuild option rows (selected row highlighted)
+   */
+  private renderOptions(): void {
+    if (!this.optionList) return;
+
+    this.optionList.replaceChildren();
+
+    this.options.forEach((option, index) => {
+      const selected = index === this.selectedIndex;
+      const row = document.createElement('div');
+      row.className = 'rest-menu-option';
+      row.dataset.option = option.id;
+      row.textContent = option.label;
+      row.style.cssText = `
+        padding: 6px 0 6px ${selected ? 12 : 0}px;
+        color: ${selected ? this.config.selectedColor : this.config.optionColor};
+        font-size: 1rem;
+        letter-spacing: 0.1em;
+        border-left: 2px solid ${selected ? this.config.titleColor : 'transparent'};
+        transition: padding 0.15s ease, color 0.15s ease;
+      `;
+      this.optionList?.appendChild(row);
+    });
+  }
+
+  /**
+   * Destroy the menu
+   */
+  destroy(): void {
+    if (this.container) {
+      this.container.remove();
+      this.container = null;
+    }
+
+    this.titleElement = null;
+    this.optionList = null;
+    this.options = [];
+    this.visible = false;
+  }
+}
+
+// Singleton instance
+export const RestMenu = new RestMenuClass();